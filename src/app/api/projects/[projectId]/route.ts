@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import {
+  deleteProject,
+  readProject,
+  writeProject,
+} from "@/lib/projectFileStore";
+
+type RouteContext = { params: Promise<{ projectId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  try {
+    const doc = await readProject(projectId);
+    if (!doc) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(doc);
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  // An empty or malformed body is a bad request, not a server error
+  const doc = await request.json().catch(() => null);
+
+  if (!doc || doc.id !== projectId || !Array.isArray(doc.pages)) {
+    return NextResponse.json(
+      { error: "Body must be a project document matching the URL id" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await writeProject(doc);
+    return NextResponse.json({ ok: true, updatedAt: doc.updatedAt });
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  try {
+    const deleted = await deleteProject(projectId);
+    return NextResponse.json({ ok: deleted }, { status: deleted ? 200 : 404 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
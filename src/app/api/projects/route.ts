@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listProjects } from "@/lib/projectFileStore";
+
+export async function GET() {
+  return NextResponse.json(await listProjects());
+}
@@ -1,11 +1,18 @@
 "use client";
 
+import { use } from "react";
 import { BuilderProvider } from "../../builder/context/builderState";
 import Canvas from "../../builder/view/canvas";
 
-export default function Home() {
+export default function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ project?: string }>;
+}) {
+  const { project } = use(searchParams);
+
   return (
-    <BuilderProvider>
+    <BuilderProvider projectId={project}>
       <Canvas />
     </BuilderProvider>
   );
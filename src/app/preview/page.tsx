@@ -4,53 +4,31 @@ import { useEffect, useState } from "react";
 import { Node } from "@/builder/reducer/nodeDispatcher";
 import LoadingScreen from "@/builder/view/canvas/loading-screen";
 import PreviewPlay from "@/builder/view/preview/preview-play";
+import { PreviewPage as PreviewPageData } from "@/builder/view/preview/types";
+import { CmsCollection } from "@/builder/reducer/cmsDispatcher";
+import { DesignToken } from "@/builder/reducer/tokenDispatcher";
+import { FontState } from "@/builder/reducer/fontDispatcher";
+import { fontInitialState } from "@/builder/reducer/state";
+import {
+  getPageHref,
+  getSlugFromHash,
+} from "@/builder/view/preview/utils/pageNavigation";
 
 export default function PreviewPage() {
   const [previewData, setPreviewData] = useState<{
     nodes: Node[];
+    pages: PreviewPageData[];
+    collections: CmsCollection[];
+    tokens: DesignToken[];
+    fontState: FontState;
     viewport: number;
   } | null>(null);
+  const [slug, setSlug] = useState<string | null>(null);
 
-  // Once previewData is set, extract fonts and inject the Google Fonts link
-  useEffect(() => {
-    if (previewData && previewData.nodes) {
-      const uniqueFonts = new Set<string>();
-
-      previewData.nodes.forEach((node) => {
-        if (node.type === "text") {
-          // First, check if fontFamily is defined directly in style
-          if (node.style?.fontFamily) {
-            uniqueFonts.add(node.style.fontFamily);
-          } else if (node.style?.text) {
-            // If not, try to extract font-family from the HTML string using a regex
-            const match = node.style.text.match(/font-family:\s*([^;"]+)/i);
-            if (match) {
-              uniqueFonts.add(match[1].trim());
-            }
-          }
-        }
-      });
-
-      if (uniqueFonts.size > 0) {
-        const familiesQuery = Array.from(uniqueFonts)
-          .map(
-            (font) => `family=${font.replace(/\s+/g, "+")}:wght@400;500;600;700`
-          )
-          .join("&");
-
-        const linkHref = `https://fonts.googleapis.com/css2?${familiesQuery}&display=swap`;
-
-        // Check if the link is already in the document head
-        if (!document.querySelector(`link[href*="${familiesQuery}"]`)) {
-          const link = document.createElement("link");
-          link.href = linkHref;
-          link.rel = "stylesheet";
-          document.head.appendChild(link);
-          console.log("Injected Google Fonts:", linkHref);
-        }
-      }
-    }
-  }, [previewData]);
+  const currentPage = previewData
+    ? previewData.pages.find((page) => page.slug === slug) ||
+      previewData.pages[0]
+    : null;
 
   useEffect(() => {
     // Listen for messages from the parent window
@@ -58,22 +36,62 @@ export default function PreviewPage() {
       if (event.data.type === "PREVIEW_DATA") {
         setPreviewData({
           nodes: event.data.nodes,
+          // Older builders only send the nodes of a single page
+          pages: event.data.pages || [
+            { id: "page", name: "Page", slug: "", nodes: event.data.nodes },
+          ],
+          collections: event.data.collections || [],
+          tokens: event.data.tokens || [],
+          fontState: event.data.fontState || fontInitialState,
           viewport: event.data.viewport,
         });
+        // The builder's page follows the preview's own navigation, so when
+        // it differs the page was picked in the builder
+        const hashSlug = getSlugFromHash(window.location.hash);
+        if (event.data.slug && event.data.slug !== hashSlug) {
+          window.location.hash = getPageHref(event.data.slug);
+        }
+        setSlug((current) => event.data.slug || current || hashSlug || null);
+      } else if (event.data.type === "PREVIEW_NAVIGATE") {
+        window.location.hash = getPageHref(event.data.slug);
       }
     };
 
+    const handleHashChange = () => {
+      const nextSlug = getSlugFromHash(window.location.hash);
+      setSlug(nextSlug);
+      window.parent.postMessage(
+        { type: "PREVIEW_PAGE_CHANGED", slug: nextSlug },
+        "*"
+      );
+    };
+
     window.addEventListener("message", handleMessage);
+    window.addEventListener("hashchange", handleHashChange);
 
     // Notify the parent that the preview is ready
     window.parent.postMessage({ type: "PREVIEW_READY" }, "*");
 
     return () => {
       window.removeEventListener("message", handleMessage);
+      window.removeEventListener("hashchange", handleHashChange);
     };
   }, []);
 
-  if (!previewData) {
+  const pageTitle = currentPage
+    ? currentPage.seo?.title || currentPage.name
+    : null;
+
+  useEffect(() => {
+    if (pageTitle) document.title = pageTitle;
+  }, [pageTitle]);
+
+  // Start every page at the top, like a real navigation would
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [currentPage?.id]);
+
+  if (!previewData || !currentPage) {
     return (
       <div className="flex items-center justify-center h-screen">
         <LoadingScreen isLoading={true} />
@@ -83,7 +101,14 @@ export default function PreviewPage() {
 
   return (
     <div className="w-full h-full">
-      <PreviewPlay nodes={previewData.nodes} />
+      <PreviewPlay
+        key={currentPage.id}
+        nodes={currentPage.nodes}
+        pages={previewData.pages}
+        collections={previewData.collections}
+        tokens={previewData.tokens}
+        fontState={previewData.fontState}
+      />
     </div>
   );
 }
@@ -0,0 +1,124 @@
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  LayoutGrid,
+  LucideIcon,
+} from "lucide-react";
+import { ArrangeAction } from "./arrangeRects";
+
+export interface ArrangeCommand {
+  label: string;
+  action: ArrangeAction;
+  icon: LucideIcon;
+  shortcut: string;
+  windowsShortcut: string;
+  // Matched against KeyboardEvent.code, since Option changes `key` on a Mac
+  code: string;
+  shiftKey?: boolean;
+  ctrlKey?: boolean;
+}
+
+// Every command is held with Alt (Option)
+export const ALIGN_COMMANDS: ArrangeCommand[] = [
+  {
+    label: "Align left",
+    action: { type: "align", edge: "left" },
+    icon: AlignStartVertical,
+    shortcut: "⌥A",
+    windowsShortcut: "Alt+A",
+    code: "KeyA",
+  },
+  {
+    label: "Align center",
+    action: { type: "align", edge: "center" },
+    icon: AlignCenterVertical,
+    shortcut: "⌥H",
+    windowsShortcut: "Alt+H",
+    code: "KeyH",
+  },
+  {
+    label: "Align right",
+    action: { type: "align", edge: "right" },
+    icon: AlignEndVertical,
+    shortcut: "⌥D",
+    windowsShortcut: "Alt+D",
+    code: "KeyD",
+  },
+  {
+    label: "Align top",
+    action: { type: "align", edge: "top" },
+    icon: AlignStartHorizontal,
+    shortcut: "⌥W",
+    windowsShortcut: "Alt+W",
+    code: "KeyW",
+  },
+  {
+    label: "Align middle",
+    action: { type: "align", edge: "middle" },
+    icon: AlignCenterHorizontal,
+    shortcut: "⌥V",
+    windowsShortcut: "Alt+V",
+    code: "KeyV",
+  },
+  {
+    label: "Align bottom",
+    action: { type: "align", edge: "bottom" },
+    icon: AlignEndHorizontal,
+    shortcut: "⌥S",
+    windowsShortcut: "Alt+S",
+    code: "KeyS",
+  },
+];
+
+export const DISTRIBUTE_COMMANDS: ArrangeCommand[] = [
+  {
+    label: "Distribute horizontally",
+    action: { type: "distribute", axis: "horizontal" },
+    icon: AlignHorizontalDistributeCenter,
+    shortcut: "⌥⇧H",
+    windowsShortcut: "Alt+Shift+H",
+    code: "KeyH",
+    shiftKey: true,
+  },
+  {
+    label: "Distribute vertically",
+    action: { type: "distribute", axis: "vertical" },
+    icon: AlignVerticalDistributeCenter,
+    shortcut: "⌥⇧V",
+    windowsShortcut: "Alt+Shift+V",
+    code: "KeyV",
+    shiftKey: true,
+  },
+];
+
+export const TIDY_UP_COMMAND: ArrangeCommand = {
+  label: "Tidy up",
+  action: { type: "tidyUp" },
+  icon: LayoutGrid,
+  shortcut: "⌃⌥T",
+  windowsShortcut: "Ctrl+Alt+T",
+  code: "KeyT",
+  ctrlKey: true,
+};
+
+export const ARRANGE_COMMANDS = [
+  ...ALIGN_COMMANDS,
+  ...DISTRIBUTE_COMMANDS,
+  TIDY_UP_COMMAND,
+];
+
+export const findArrangeCommand = (e: KeyboardEvent) =>
+  e.altKey && !e.metaKey
+    ? ARRANGE_COMMANDS.find(
+        (command) =>
+          command.code === e.code &&
+          !!command.shiftKey === e.shiftKey &&
+          !!command.ctrlKey === e.ctrlKey
+      )
+    : undefined;
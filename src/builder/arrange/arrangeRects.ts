@@ -0,0 +1,189 @@
+export type AlignEdge =
+  "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export type DistributeAxis = "horizontal" | "vertical";
+
+export type ArrangeAction =
+  | { type: "align"; edge: AlignEdge }
+  | { type: "distribute"; axis: DistributeAxis }
+  | { type: "tidyUp" };
+
+// A node's box, in any coordinate space shared by all the rects
+export interface ArrangeRect {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// How far a node has to move
+export interface ArrangeMove {
+  id: string;
+  dx: number;
+  dy: number;
+}
+
+// Gap used by tidy up when the nodes have none to go by
+const DEFAULT_TIDY_GAP = 20;
+
+export const getBounds = (rects: ArrangeRect[]) => {
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const top = Math.min(...rects.map((rect) => rect.top));
+  const right = Math.max(...rects.map((rect) => rect.left + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.top + rect.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Line the rects up on one edge or centre of `bounds`, which defaults to the
+ * box around all of them
+ */
+export const alignRects = (
+  rects: ArrangeRect[],
+  edge: AlignEdge,
+  bounds = getBounds(rects)
+): ArrangeMove[] =>
+  rects.map((rect) => {
+    const move = { id: rect.id, dx: 0, dy: 0 };
+    switch (edge) {
+      case "left":
+        move.dx = bounds.left - rect.left;
+        break;
+      case "center":
+        move.dx = bounds.left + (bounds.width - rect.width) / 2 - rect.left;
+        break;
+      case "right":
+        move.dx = bounds.left + bounds.width - rect.width - rect.left;
+        break;
+      case "top":
+        move.dy = bounds.top - rect.top;
+        break;
+      case "middle":
+        move.dy = bounds.top + (bounds.height - rect.height) / 2 - rect.top;
+        break;
+      case "bottom":
+        move.dy = bounds.top + bounds.height - rect.height - rect.top;
+        break;
+    }
+    return move;
+  });
+
+/**
+ * Space the rects evenly between the first and the last along an axis,
+ * keeping those two where they are
+ */
+export const distributeRects = (
+  rects: ArrangeRect[],
+  axis: DistributeAxis
+): ArrangeMove[] => {
+  const isHorizontal = axis === "horizontal";
+  const start = (rect: ArrangeRect) => (isHorizontal ? rect.left : rect.top);
+  const size = (rect: ArrangeRect) => (isHorizontal ? rect.width : rect.height);
+
+  const sorted = [...rects].sort((a, b) => start(a) - start(b));
+  const first = sorted[0];
+  const end = Math.max(...sorted.map((rect) => start(rect) + size(rect)));
+  const totalSize = sorted.reduce((sum, rect) => sum + size(rect), 0);
+  const gap = (end - start(first) - totalSize) / (sorted.length - 1);
+
+  let position = start(first);
+  return sorted.map((rect) => {
+    const delta = position - start(rect);
+    position += size(rect) + gap;
+    return {
+      id: rect.id,
+      dx: isHorizontal ? delta : 0,
+      dy: isHorizontal ? 0 : delta,
+    };
+  });
+};
+
+const average = (values: number[]) =>
+  values.length
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : null;
+
+// Rows as the rects are laid out now: a rect starting above the bottom of
+// the current row joins it. Each row is ordered left to right.
+const getRows = (rects: ArrangeRect[]) => {
+  const rows: ArrangeRect[][] = [];
+  let rowBottom = -Infinity;
+
+  [...rects]
+    .sort((a, b) => a.top - b.top)
+    .forEach((rect) => {
+      if (rows.length && rect.top < rowBottom) {
+        rows[rows.length - 1].push(rect);
+        rowBottom = Math.max(rowBottom, rect.top + rect.height);
+      } else {
+        rows.push([rect]);
+        rowBottom = rect.top + rect.height;
+      }
+    });
+
+  return rows.map((row) => row.sort((a, b) => a.left - b.left));
+};
+
+/**
+ * Snap the rects into a tidy grid: the rows and order they roughly have
+ * now, each column as wide as its widest rect and the gaps evened out
+ */
+export const tidyUpRects = (rects: ArrangeRect[]): ArrangeMove[] => {
+  const rows = getRows(rects);
+  const bounds = getBounds(rects);
+
+  const columnGap =
+    average(
+      rows.flatMap((row) =>
+        row
+          .slice(1)
+          .map((rect, i) => rect.left - (row[i].left + row[i].width))
+          .filter((gap) => gap > 0)
+      )
+    ) ?? DEFAULT_TIDY_GAP;
+  const rowGap =
+    average(
+      rows
+        .slice(1)
+        .map(
+          (row, i) =>
+            Math.min(...row.map((rect) => rect.top)) -
+            Math.max(...rows[i].map((rect) => rect.top + rect.height))
+        )
+        .filter((gap) => gap > 0)
+    ) ?? columnGap;
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const columnWidths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(0, ...rows.map((row) => row[column]?.width ?? 0))
+  );
+
+  const moves: ArrangeMove[] = [];
+  let top = bounds.top;
+  rows.forEach((row) => {
+    let left = bounds.left;
+    row.forEach((rect, column) => {
+      moves.push({ id: rect.id, dx: left - rect.left, dy: top - rect.top });
+      left += columnWidths[column] + columnGap;
+    });
+    top += Math.max(...row.map((rect) => rect.height)) + rowGap;
+  });
+
+  return moves;
+};
+
+export const getArrangeMoves = (
+  action: ArrangeAction,
+  rects: ArrangeRect[],
+  bounds?: ReturnType<typeof getBounds>
+): ArrangeMove[] => {
+  switch (action.type) {
+    case "align":
+      return alignRects(rects, action.edge, bounds);
+    case "distribute":
+      return distributeRects(rects, action.axis);
+    case "tidyUp":
+      return tidyUpRects(rects);
+  }
+};
@@ -0,0 +1,176 @@
+import { nanoid } from "nanoid";
+import {
+  CmsCollection,
+  CmsField,
+  CmsFieldType,
+  CmsFieldValue,
+  CmsItem,
+  getDefaultFieldValue,
+} from "../reducer/cmsDispatcher";
+import { NodeStyle, ResponsiveNode } from "../view/preview/types";
+
+// Field types a node can bind to, by node type
+export const BINDABLE_FIELD_TYPES: Record<string, CmsFieldType[]> = {
+  text: ["text", "richText", "number", "date", "boolean"],
+  image: ["image"],
+};
+
+const escapeText = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const formatFieldValue = (
+  field: CmsField,
+  value: CmsFieldValue | undefined
+): string => {
+  if (value === null || value === undefined) return "";
+
+  switch (field.type) {
+    case "boolean":
+      return value ? "Yes" : "No";
+    case "date": {
+      const date = new Date(String(value));
+      if (isNaN(date.getTime())) return String(value);
+      return date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+      });
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Put an item's value into a text node's HTML. Plain values replace the
+ * first run of text so the template's marks (font, color, size) still apply;
+ * rich text fields already carry their own markup and replace it entirely.
+ */
+export const getBoundTextHtml = (
+  templateHtml: string | undefined,
+  field: CmsField,
+  value: CmsFieldValue | undefined
+) => {
+  if (field.type === "richText") return String(value ?? "");
+
+  const text = escapeText(formatFieldValue(field, value));
+  if (!templateHtml || !/<[a-z][^>]*>/i.test(templateHtml)) return text;
+
+  let replaced = false;
+  const html = templateHtml.replace(/>([^<]*)</g, (match, run: string) => {
+    if (!run.trim()) return match;
+    if (replaced) return "><";
+    replaced = true;
+    return `>${text}<`;
+  });
+  return replaced ? html : text;
+};
+
+interface BindableNode {
+  cmsFieldId?: string;
+  style: { text?: string; src?: string };
+}
+
+// The node's style with its bound field filled in from the item
+export const applyItemBinding = <T extends BindableNode["style"]>(
+  node: BindableNode & { style: T },
+  collection: CmsCollection | undefined,
+  item: CmsItem | undefined
+): T => {
+  if (!node.cmsFieldId || !collection || !item) return node.style;
+  const field = collection.fields.find((f) => f.id === node.cmsFieldId);
+  if (!field) return node.style;
+
+  const value = item.values[field.id];
+  if (field.type === "image") {
+    return { ...node.style, src: String(value || node.style.src || "") };
+  }
+  return {
+    ...node.style,
+    text: getBoundTextHtml(node.style.text, field, value),
+  };
+};
+
+/**
+ * Items as a JSON array keyed by field name, which is what people expect to
+ * edit by hand or generate from another tool.
+ */
+export const serializeItems = (collection: CmsCollection) =>
+  JSON.stringify(
+    collection.items.map((item) => {
+      const entry: Record<string, CmsFieldValue> = { id: item.id };
+      collection.fields.forEach((field) => {
+        entry[field.name] = item.values[field.id] ?? null;
+      });
+      return entry;
+    }),
+    null,
+    2
+  );
+
+const coerceFieldValue = (type: CmsFieldType, value: unknown) => {
+  if (value === null || value === undefined) return getDefaultFieldValue(type);
+
+  switch (type) {
+    case "number": {
+      const number = Number(value);
+      return isNaN(number) ? getDefaultFieldValue(type) : number;
+    }
+    case "boolean":
+      return value === true || value === "true" || value === 1;
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Parse items exported by serializeItems (or written by hand). Keys match
+ * field names first and field ids second; unknown keys are ignored.
+ */
+export const parseItems = (collection: CmsCollection, json: string) => {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Expected a JSON array of items");
+  }
+
+  return parsed.map((entry, index): CmsItem => {
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`Item ${index + 1} is not an object`);
+    }
+    const raw = entry as Record<string, unknown>;
+    const values: Record<string, CmsFieldValue> = {};
+    collection.fields.forEach((field) => {
+      const value = field.name in raw ? raw[field.name] : raw[field.id];
+      values[field.id] = coerceFieldValue(field.type, value);
+    });
+    return {
+      id: typeof raw.id === "string" && raw.id ? raw.id : nanoid(),
+      values,
+    };
+  });
+};
+
+// A preview/export node with its binding applied in every viewport
+export const bindResponsiveNode = (
+  node: ResponsiveNode,
+  collection: CmsCollection | undefined,
+  item: CmsItem | undefined
+): ResponsiveNode => {
+  if (!node.cmsFieldId || !collection || !item) return node;
+
+  const responsiveStyles: Record<number, NodeStyle> = {};
+  Object.entries(node.responsiveStyles || {}).forEach(([width, style]) => {
+    responsiveStyles[Number(width)] = applyItemBinding(
+      { ...node, style },
+      collection,
+      item
+    );
+  });
+
+  return {
+    ...node,
+    style: applyItemBinding(node, collection, item),
+    responsiveStyles,
+  };
+};
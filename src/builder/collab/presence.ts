@@ -0,0 +1,61 @@
+import { nanoid } from "nanoid";
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// What every client publishes about itself through the awareness protocol
+export interface CollabPresence {
+  user: CollabUser;
+  // Pointer position in canvas coordinates, null when off the canvas
+  cursor: { x: number; y: number } | null;
+  selectedIds: string[];
+}
+
+export interface CollabPeer extends CollabPresence {
+  clientId: number;
+}
+
+const USER_STORAGE_KEY = "builder_collab_user";
+
+const USER_COLORS = [
+  "#f24822",
+  "#ff8a00",
+  "#14ae5c",
+  "#0d99ff",
+  "#9747ff",
+  "#ff24bd",
+  "#00b5ce",
+];
+
+/**
+ * The identity shown to collaborators. Generated once per browser and kept
+ * so the same person doesn't turn into a new guest on every reload.
+ */
+export const getCollabUser = (): CollabUser => {
+  try {
+    const stored = localStorage.getItem(USER_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as CollabUser;
+  } catch {
+    // Fall through and create a new identity
+  }
+
+  const id = nanoid();
+  const user = {
+    id,
+    name: `Guest ${id.slice(0, 4).toUpperCase()}`,
+    color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  };
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  return user;
+};
+
+export const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
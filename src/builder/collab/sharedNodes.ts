@@ -0,0 +1,153 @@
+import * as Y from "yjs";
+import { Node } from "../reducer/nodeDispatcher";
+import { TRANSIENT_NODE_KEYS } from "../persistence/projectDocument";
+
+// Origin of the transactions written from this client's NodeState. Anything
+// else landing in the document is a collaborator's edit.
+export const LOCAL_ORIGIN = "local";
+
+/**
+ * A page's nodes in the shared document: one Y.Map per node (its style a
+ * nested Y.Map, so edits to different properties merge) and the node order
+ * as a separate list of ids.
+ */
+export const getSharedNodes = (doc: Y.Doc) => ({
+  nodes: doc.getMap<Y.Map<unknown>>("nodes"),
+  order: doc.getArray<string>("order"),
+});
+
+/**
+ * The nodes worth sharing: no placeholders or transient keys. Nodes without
+ * transient keys are kept as they are, so unchanged nodes compare equal.
+ */
+export const getSyncedNodes = (nodes: Node[]) =>
+  nodes
+    .filter((node) => node.type !== "placeholder")
+    .map((node) => {
+      if (!TRANSIENT_NODE_KEYS.some((key) => key in node)) return node;
+      const clean = { ...node } as Node & Record<string, unknown>;
+      TRANSIENT_NODE_KEYS.forEach((key) => delete clean[key]);
+      return clean;
+    });
+
+const writeFields = (
+  target: Y.Map<unknown>,
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>
+) => {
+  Object.keys(prev).forEach((key) => {
+    if (next[key] === undefined) target.delete(key);
+  });
+  Object.entries(next).forEach(([key, value]) => {
+    if (value === undefined || key === "style") return;
+    if (value !== prev[key] || !target.has(key)) target.set(key, value);
+  });
+};
+
+const writeNode = (
+  sharedNodes: Y.Map<Y.Map<unknown>>,
+  prev: Node | undefined,
+  node: Node
+) => {
+  let sharedNode = sharedNodes.get(node.id);
+  if (!sharedNode) {
+    sharedNode = new Y.Map();
+    sharedNodes.set(node.id, sharedNode);
+    prev = undefined;
+  }
+
+  writeFields(
+    sharedNode,
+    (prev || {}) as Record<string, unknown>,
+    node as unknown as Record<string, unknown>
+  );
+
+  let sharedStyle = sharedNode.get("style");
+  if (!(sharedStyle instanceof Y.Map)) {
+    sharedStyle = new Y.Map();
+    sharedNode.set("style", sharedStyle);
+    prev = undefined;
+  }
+  if (prev?.style !== node.style) {
+    writeFields(
+      sharedStyle as Y.Map<unknown>,
+      (prev?.style || {}) as Record<string, unknown>,
+      node.style as Record<string, unknown>
+    );
+  }
+};
+
+/**
+ * Write the difference between two versions of the local nodes into the
+ * document, in one transaction. Nodes are compared by reference, which
+ * immer keeps stable for everything an update didn't touch.
+ */
+export const writeSharedNodes = (
+  doc: Y.Doc,
+  prevNodes: Node[],
+  nextNodes: Node[]
+) => {
+  const { nodes: sharedNodes, order } = getSharedNodes(doc);
+  const prevById = new Map(prevNodes.map((node) => [node.id, node]));
+  const nextIds = new Set(nextNodes.map((node) => node.id));
+
+  doc.transact(() => {
+    prevNodes.forEach((node) => {
+      if (!nextIds.has(node.id)) sharedNodes.delete(node.id);
+    });
+    nextNodes.forEach((node) => {
+      const prev = prevById.get(node.id);
+      if (prev !== node || !sharedNodes.has(node.id)) {
+        writeNode(sharedNodes, prev, node);
+      }
+    });
+
+    const nextOrder = nextNodes.map((node) => node.id);
+    if (order.toArray().join() !== nextOrder.join()) {
+      order.delete(0, order.length);
+      order.insert(0, nextOrder);
+    }
+  }, LOCAL_ORIGIN);
+};
+
+/**
+ * Read the nodes back from the document. Nodes not in `changedIds` are taken
+ * from `current` so React keeps their identity.
+ *
+ * Two clients reordering at once can leave an id twice in the order, and a
+ * node added concurrently with a reorder can be missing from it; the first
+ * occurrence wins and missing nodes go last.
+ */
+export const readSharedNodes = (
+  doc: Y.Doc,
+  current: Node[],
+  changedIds: Set<string>
+): Node[] => {
+  const { nodes: sharedNodes, order } = getSharedNodes(doc);
+  const currentById = new Map(current.map((node) => [node.id, node]));
+  const ids = new Set([...order.toArray(), ...Array.from(sharedNodes.keys())]);
+
+  return Array.from(ids)
+    .filter((id) => sharedNodes.has(id))
+    .map((id) => {
+      const node = currentById.get(id);
+      if (node && !changedIds.has(id)) return node;
+      return sharedNodes.get(id)!.toJSON() as Node;
+    });
+};
+
+// Top-level node ids touched by a batch of observeDeep events
+export const getChangedNodeIds = (
+  sharedNodes: Y.Map<Y.Map<unknown>>,
+  events: Y.YEvent<Y.AbstractType<unknown>>[]
+) => {
+  const ids = new Set<string>();
+  events.forEach((event) => {
+    if (event.target === sharedNodes) {
+      (event as Y.YMapEvent<unknown>).keysChanged.forEach((id) => ids.add(id));
+    } else {
+      ids.add(String(event.path[0]));
+    }
+  });
+  return ids;
+};
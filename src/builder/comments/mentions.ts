@@ -0,0 +1,55 @@
+import { CommentAuthor, CommentThread } from "../reducer/commentDispatcher";
+
+// Everyone who can be @mentioned: people who took part in a thread and
+// whoever is on the page right now
+export const getMentionablePeople = (
+  threads: CommentThread[],
+  others: CommentAuthor[]
+) => {
+  const people = new Map<string, CommentAuthor>();
+  threads.forEach((thread) =>
+    thread.messages.forEach((message) =>
+      people.set(message.author.id, message.author)
+    )
+  );
+  others.forEach((person) => people.set(person.id, person));
+  return Array.from(people.values());
+};
+
+// Names mentioned in a comment. Names can contain spaces, so only known
+// people are matched rather than any word after an @
+export const findMentions = (text: string, people: CommentAuthor[]) =>
+  Array.from(
+    new Set(
+      people
+        .map((person) => person.name)
+        .filter((name) => text.includes(`@${name}`))
+    )
+  );
+
+/**
+ * Split a comment into plain text and mentions, for highlighting. Longer
+ * names are tried first so "@Ann Lee" isn't cut short by "@Ann".
+ */
+export const splitMentions = (text: string, mentions: string[]) => {
+  if (mentions.length === 0) return [{ text, isMention: false }];
+
+  const escaped = [...mentions]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(@(?:${escaped.join("|")}))`);
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      isMention: mentions.some((name) => part === `@${name}`),
+    }));
+};
+
+// "@An" while typing: the partial name after the last @ before the caret
+export const getMentionQuery = (text: string, caret: number) => {
+  const match = text.slice(0, caret).match(/@([^@\n]*)$/);
+  return match ? { query: match[1], start: caret - match[0].length } : null;
+};
@@ -9,22 +9,58 @@ import React, {
   useMemo,
   RefObject,
 } from "react";
-import { NodeState } from "../reducer/nodeDispatcher";
+import { NodeState, ShapeType, StateStyle } from "../reducer/nodeDispatcher";
 import { DragState } from "../reducer/dragDispatcher";
 import {
+  cmsInitialState,
   dragInitialState,
   interfaceInitialState,
   nodeInitialState,
+  tokenInitialState,
+  fontInitialState,
+  commentInitialState,
+  versionInitialState,
 } from "../reducer/state";
 import { NodeDispatcher } from "../reducer/nodeDispatcher";
 import { DragDispatcher } from "../reducer/dragDispatcher";
 import { debounce } from "lodash";
 import { useNodeHistory } from "./hooks/useHistory";
+import {
+  SaveStatus,
+  useProjectPersistence,
+} from "./hooks/useProjectPersistence";
+import {
+  DEFAULT_PROJECT_ID,
+  PageState,
+  ProjectState,
+} from "../persistence/projectDocument";
+import { PageUpdates, usePages } from "./hooks/usePages";
 import { createTrackedNodeDispatcher } from "./hooks/useNodeDispTracker";
+import {
+  emptyHistory,
+  HistoryMethod,
+  NodeHistory,
+  trackHistoryMethods,
+} from "../history/historyEntries";
 import {
   InterfaceDispatcher,
   InterfaceState,
 } from "../reducer/interfaceDispatcher";
+import { CmsDispatcher, CmsState } from "../reducer/cmsDispatcher";
+import { TokenDispatcher, TokenState } from "../reducer/tokenDispatcher";
+import { FontDispatcher, FontState } from "../reducer/fontDispatcher";
+import { CommentDispatcher, CommentState } from "../reducer/commentDispatcher";
+import {
+  getLibraryNodes,
+  syncComponentInstances,
+} from "../library/componentSync";
+import { CollabStatus, useCollaboration } from "./hooks/useCollaboration";
+import { VersionDispatcher, VersionState } from "../reducer/versionDispatcher";
+import {
+  createVersionSnapshot,
+  VersionHighlights,
+} from "../versions/versionDiff";
+import { CollabPeer, CollabPresence } from "../collab/presence";
 
 export interface LineIndicatorState {
   show: boolean;
@@ -76,6 +112,8 @@ interface BuilderContextType {
   redo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  history: NodeHistory;
+  goToHistoryStep: (step: number) => void;
   operations: Operation[];
   clearOperations: () => void;
   startRecording: () => string;
@@ -105,6 +143,46 @@ interface BuilderContextType {
   setIsDraggingChevrons: React.Dispatch<React.SetStateAction<boolean>>;
   isTextMenuOpen: boolean;
   setIsTextMenuOpen: React.Dispatch<React.SetStateAction<boolean>>;
+  projectId: string;
+  isProjectLoaded: boolean;
+  saveStatus: SaveStatus;
+  saveProject: () => Promise<void>;
+  retryProjectLoad: () => void;
+  pageState: PageState;
+  switchPage: (pageId: string) => void;
+  createPage: (name?: string) => string;
+  updatePage: (pageId: string, updates: PageUpdates) => void;
+  movePage: (pageId: string, toIndex: number) => void;
+  duplicatePage: (pageId: string) => string | null;
+  deletePage: (pageId: string) => void;
+  cmsState: CmsState;
+  cmsDisp: CmsDispatcher;
+  tokenState: TokenState;
+  tokenDisp: TokenDispatcher;
+  fontState: FontState;
+  fontDisp: FontDispatcher;
+  commentState: CommentState;
+  commentDisp: CommentDispatcher;
+  isCommentModeActive: boolean;
+  setIsCommentModeActive: React.Dispatch<React.SetStateAction<boolean>>;
+  isPenModeActive: boolean;
+  setIsPenModeActive: React.Dispatch<React.SetStateAction<boolean>>;
+  // The shape drawn by dragging on the canvas, if the shape tool is on
+  activeShapeTool: ShapeType | null;
+  setActiveShapeTool: React.Dispatch<React.SetStateAction<ShapeType | null>>;
+  versionState: VersionState;
+  versionDisp: VersionDispatcher;
+  saveVersion: (name: string) => string;
+  restoreVersion: (versionId: string) => void;
+  // Nodes to outline on the canvas while two versions are compared
+  versionHighlights: VersionHighlights | null;
+  setVersionHighlights: React.Dispatch<
+    React.SetStateAction<VersionHighlights | null>
+  >;
+  collabStatus: CollabStatus;
+  // Other people editing the active page
+  collabPeers: CollabPeer[];
+  updateCollabCursor: (cursor: CollabPresence["cursor"]) => void;
 }
 
 export interface RecordingSession {
@@ -180,22 +258,148 @@ const TransformManager = {
 
 const BuilderContext = createContext<BuilderContextType | undefined>(undefined);
 
-export function BuilderProvider({ children }: { children: ReactNode }) {
+export function BuilderProvider({
+  children,
+  projectId = DEFAULT_PROJECT_ID,
+}: {
+  children: ReactNode;
+  projectId?: string;
+}) {
   const {
     nodeState,
     setNodeState,
+    replaceNodeState,
     undo,
     redo,
     canUndo,
     canRedo,
+    history,
+    goToHistoryStep,
     startRecording,
     stopRecording,
   } = useNodeHistory(nodeInitialState);
 
+  const {
+    pageState,
+    replacePageState,
+    switchPage,
+    createPage,
+    updatePage,
+    movePage,
+    duplicatePage,
+    deletePage,
+  } = usePages({ nodeState, replaceNodeState });
+
+  const [cmsState, setCmsState] = useState(cmsInitialState);
+  const cmsDisp = useMemo(() => new CmsDispatcher(setCmsState), []);
+
+  const [tokenState, setTokenState] = useState(tokenInitialState);
+  const tokenDisp = useMemo(() => new TokenDispatcher(setTokenState), []);
+
+  const [fontState, setFontState] = useState(fontInitialState);
+  const fontDisp = useMemo(() => new FontDispatcher(setFontState), []);
+
+  const [commentState, setCommentState] = useState(commentInitialState);
+  const commentDisp = useMemo(() => new CommentDispatcher(setCommentState), []);
+
+  const [versionState, setVersionState] = useState(versionInitialState);
+  const versionDisp = useMemo(() => new VersionDispatcher(setVersionState), []);
+  const [versionHighlights, setVersionHighlights] =
+    useState<VersionHighlights | null>(null);
+
+  const projectState = useMemo<ProjectState>(
+    () => ({
+      nodeState,
+      nodeHistory: history,
+      pageState,
+      cmsState,
+      tokenState,
+      fontState,
+      commentState,
+      versionState,
+    }),
+    [
+      nodeState,
+      history,
+      pageState,
+      cmsState,
+      tokenState,
+      fontState,
+      commentState,
+      versionState,
+    ]
+  );
+
+  const restoreProjectState = useCallback(
+    (state: ProjectState) => {
+      replacePageState(state.pageState);
+      cmsDisp.replaceState(state.cmsState);
+      tokenDisp.replaceState(state.tokenState);
+      fontDisp.replaceState(state.fontState);
+      commentDisp.replaceState(state.commentState);
+      versionDisp.replaceState(state.versionState);
+      replaceNodeState(state.nodeState, state.nodeHistory);
+    },
+    [
+      replacePageState,
+      cmsDisp,
+      tokenDisp,
+      fontDisp,
+      commentDisp,
+      versionDisp,
+      replaceNodeState,
+    ]
+  );
+
+  const saveVersion = useCallback(
+    (name: string) =>
+      versionDisp.addVersion(name, createVersionSnapshot(projectState)),
+    [versionDisp, projectState]
+  );
+
+  // The project as it was is kept as a version of its own first, so a
+  // restore can be undone by restoring that one
+  const restoreVersion = useCallback(
+    (versionId: string) => {
+      const version = versionState.versions.find((v) => v.id === versionId);
+      if (!version) return;
+      const activePage =
+        version.pages.find((page) => page.id === version.activePageId) ||
+        version.pages[0];
+
+      restoreProjectState({
+        ...projectState,
+        nodeState: { nodes: activePage.nodes },
+        nodeHistory: emptyHistory,
+        pageState: { pages: version.pages, activePageId: activePage.id },
+        cmsState: { collections: version.collections },
+        tokenState: { tokens: version.tokens },
+      });
+      saveVersion(`Before restoring "${version.name}"`);
+    },
+    [versionState, projectState, restoreProjectState, saveVersion]
+  );
+
+  const {
+    isProjectLoaded,
+    saveStatus,
+    saveProject,
+    retryLoad: retryProjectLoad,
+  } = useProjectPersistence({
+    projectId,
+    projectState,
+    restoreProjectState,
+  });
+
   const [dragState, setDragState] = useState(dragInitialState);
   const [interfaceState, setInterfaceState] = useState(interfaceInitialState);
   const [isFrameModeActive, setIsFrameModeActive] = useState(false);
   const [isTextModeActive, setIsTextModeActive] = useState(false);
+  const [isCommentModeActive, setIsCommentModeActive] = useState(false);
+  const [isPenModeActive, setIsPenModeActive] = useState(false);
+  const [activeShapeTool, setActiveShapeTool] = useState<ShapeType | null>(
+    null
+  );
 
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
@@ -232,8 +436,37 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  // The dispatcher method behind each update names its history entry
+  const activeMethodRef = useRef<HistoryMethod | null>(null);
+
+  // Masters on the other pages, for the instances on this one
+  const libraryNodes = useMemo(
+    () =>
+      getLibraryNodes(
+        pageState.pages
+          .filter((page) => page.id !== pageState.activePageId)
+          .flatMap((page) => page.nodes)
+      ),
+    [pageState]
+  );
+  const libraryNodesRef = useRef(libraryNodes);
+  libraryNodesRef.current = libraryNodes;
+
   const nodeDisp = useMemo(() => {
-    const dispatcher = new NodeDispatcher(setNodeState);
+    // Component instances follow their master inside the same update, so an
+    // edit and its propagation undo together
+    const dispatcher = new NodeDispatcher((action) => {
+      // Remote snapshots were synced by the peer that made them; syncing
+      // again would record the propagated instance styles as local overrides
+      const isRemote = activeMethodRef.current?.name === "applyRemoteNodes";
+      setNodeState((prev) => {
+        const next = typeof action === "function" ? action(prev) : action;
+        return isRemote
+          ? next
+          : syncComponentInstances(prev, next, libraryNodesRef.current);
+      }, activeMethodRef.current);
+    });
+    trackHistoryMethods(dispatcher, activeMethodRef);
     return createTrackedNodeDispatcher(
       dispatcher,
       onOperation,
@@ -243,6 +476,19 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
 
   const dragDisp = useMemo(() => new DragDispatcher(setDragState), []);
 
+  const {
+    status: collabStatus,
+    peers: collabPeers,
+    updateCursor: updateCollabCursor,
+  } = useCollaboration({
+    projectId,
+    pageId: pageState.activePageId,
+    isProjectLoaded,
+    nodes: nodeState.nodes,
+    nodeDisp,
+    selectedIds: dragState.selectedIds,
+  });
+
   const interfaceDisp = useMemo(
     () => new InterfaceDispatcher(setInterfaceState),
     []
@@ -520,6 +766,21 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
     ) => {
       const targetIds = nodeIds || dragState.selectedIds;
 
+      // While an interaction state is being edited its styles change instead;
+      // text content is always the node's own
+      if (targetIds.length > 0 && dragState.dynamicState !== "normal") {
+        const { text, ...stateStyles } = styles as StateStyle;
+        if (Object.keys(stateStyles).length) {
+          nodeDisp.updateNodeStateStyle(
+            targetIds,
+            dragState.dynamicState,
+            stateStyles
+          );
+        }
+        if (text === undefined) return;
+        styles = { text } as React.CSSProperties;
+      }
+
       if (targetIds.length > 0) {
         // NEW: Filter out text property if applying to non-text elements
         const nodesToUpdate = targetIds.map((id) => {
@@ -552,6 +813,7 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
       dragState.selectedIds,
       nodeDisp,
       dragState.dynamicModeNodeId,
+      dragState.dynamicState,
       nodeState.nodes,
     ]
   );
@@ -579,6 +841,8 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
     redo,
     canUndo,
     canRedo,
+    history,
+    goToHistoryStep,
     operations,
     clearOperations: useCallback(() => setOperations([]), []),
     startRecording,
@@ -610,6 +874,41 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
     setIsDraggingChevrons,
     isTextMenuOpen,
     setIsTextMenuOpen,
+    projectId,
+    isProjectLoaded,
+    saveStatus,
+    saveProject,
+    retryProjectLoad,
+    pageState,
+    switchPage,
+    createPage,
+    updatePage,
+    movePage,
+    duplicatePage,
+    deletePage,
+    cmsState,
+    cmsDisp,
+    tokenState,
+    tokenDisp,
+    fontState,
+    fontDisp,
+    commentState,
+    commentDisp,
+    isCommentModeActive,
+    setIsCommentModeActive,
+    isPenModeActive,
+    setIsPenModeActive,
+    activeShapeTool,
+    setActiveShapeTool,
+    versionState,
+    versionDisp,
+    saveVersion,
+    restoreVersion,
+    versionHighlights,
+    setVersionHighlights,
+    collabStatus,
+    collabPeers,
+    updateCollabCursor,
   };
 
   return (
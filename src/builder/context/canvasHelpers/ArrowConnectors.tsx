@@ -1,6 +1,14 @@
 import React, { useCallback, useMemo } from "react";
 import { useBuilder } from "@/builder/context/builderState";
 import { Node } from "@/builder/reducer/nodeDispatcher";
+import {
+  CONNECTION_TRIGGERS,
+  getTriggerColor,
+  getTriggerSummary,
+} from "@/builder/view/preview/utils/triggerUtils";
+
+const getTriggerOrder = (type: string) =>
+  CONNECTION_TRIGGERS.findIndex((trigger) => trigger.type === type);
 
 export const ArrowConnectors = () => {
   const { nodeState, dragState, contentRef, transform } = useBuilder();
@@ -137,6 +145,9 @@ export const ArrowConnectors = () => {
 
     // Group connections by source-target pairs
     relevantConnections.forEach((conn) => {
+      // Actions don't switch to another node, so there's no arrow to draw
+      if (conn.action) return;
+
       // Create a unique key for each pair
       const sourceId = conn.sourceId;
       const targetId = conn.targetId;
@@ -265,30 +276,15 @@ export const ArrowConnectors = () => {
     };
   };
 
-  // Function to get color for a connection type
-  const getConnectionColor = (type) => {
-    switch (type) {
-      case "click":
-        return "#9966FE";
-      case "hover":
-        return "#6096FF";
-      case "mouseLeave":
-        return "#FF66AC";
-      default:
-        return "#9966FE";
-    }
-  };
-
   // Debugging info
 
   return (
     <div className="absolute inset-0 pointer-events-none z-50">
       {connectionGroups.map(({ key, connections, sourceId, targetId }) => {
-        // Sort connections for consistent order (mouseLeave, hover, click)
-        const sortedConnections = [...connections].sort((a, b) => {
-          const order = { mouseLeave: 1, hover: 2, click: 3 };
-          return (order[a.type] || 4) - (order[b.type] || 4);
-        });
+        // Sort connections for consistent order, the reverse of the trigger list
+        const sortedConnections = [...connections].sort(
+          (a, b) => getTriggerOrder(b.type) - getTriggerOrder(a.type)
+        );
 
         // Get the DOM elements
         const source = document.querySelector(`[data-node-id="${sourceId}"]`);
@@ -338,8 +334,8 @@ export const ArrowConnectors = () => {
             });
           }
           legendTextParts.push({
-            text: conn.type,
-            color: getConnectionColor(conn.type),
+            text: getTriggerSummary(conn),
+            color: getTriggerColor(conn.type),
           });
         });
 
@@ -357,8 +353,8 @@ export const ArrowConnectors = () => {
                 connections.length > 1
                   ? index - (connections.length - 1) / 2
                   : index === 0
-                  ? 0.5
-                  : -0.5; // Even with one connection, add an offset
+                    ? 0.5
+                    : -0.5; // Even with one connection, add an offset
 
               const points = getConnectionPoints(
                 sourceRect,
@@ -411,7 +407,7 @@ export const ArrowConnectors = () => {
               } ${endX} ${endY}`;
 
               const connectionId = `${sourceId}-${targetId}-${conn.type}`;
-              const connectionColor = getConnectionColor(conn.type);
+              const connectionColor = getTriggerColor(conn.type);
 
               return (
                 <g key={connectionId} transform={`scale(${transform.scale})`}>
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from "react";
+import { MessageCircle } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { CommentThread } from "@/builder/reducer/commentDispatcher";
+import {
+  CommentAvatar,
+  CommentComposer,
+  CommentThreadCard,
+  useCommentAuthor,
+} from "./CommentThread";
+import { cn } from "@/providers/cn";
+
+interface DraftPin {
+  nodeId: string;
+  offset: { x: number; y: number };
+}
+
+// Where a pin sits in container coordinates: its node's current position
+// plus the offset, so the pin follows the node around
+const getPinPosition = (
+  { nodeId, offset }: DraftPin,
+  containerRect: DOMRect,
+  scale: number
+) => {
+  const element = document.querySelector(`[data-node-id="${nodeId}"]`);
+  if (!element) return null;
+  const rect = element.getBoundingClientRect();
+  return {
+    left: rect.left - containerRect.left + offset.x * scale,
+    top: rect.top - containerRect.top + offset.y * scale,
+  };
+};
+
+const Pin = ({
+  thread,
+  isActive,
+  onClick,
+}: {
+  thread: CommentThread;
+  isActive: boolean;
+  onClick: () => void;
+}) => (
+  <button
+    onClick={onClick}
+    className={cn(
+      "flex items-center justify-center p-0.5 bg-[var(--bg-surface)] border-2 rounded-full rounded-bl-none shadow-md -translate-y-full transition-transform hover:scale-110",
+      isActive ? "border-[var(--accent)]" : "border-[var(--bg-surface)]",
+      thread.resolved && "opacity-60"
+    )}
+    title={thread.messages[0]?.text}
+  >
+    {thread.messages[0] ? (
+      <CommentAvatar author={thread.messages[0].author} />
+    ) : (
+      <MessageCircle className="w-5 h-5 text-[var(--accent)]" />
+    )}
+  </button>
+);
+
+/**
+ * Comment pins of the active page. In comment mode clicking a node drops a
+ * new pin on it instead of selecting it.
+ */
+export const CommentPins = () => {
+  const {
+    containerRef,
+    transform,
+    nodeState,
+    pageState,
+    commentState,
+    commentDisp,
+    interfaceState,
+    interfaceDisp,
+    isCommentModeActive,
+    setIsCommentModeActive,
+  } = useBuilder();
+  const author = useCommentAuthor();
+  const [draft, setDraft] = useState<DraftPin | null>(null);
+  const scaleRef = useRef(transform.scale);
+  scaleRef.current = transform.scale;
+
+  useEffect(() => {
+    if (!isCommentModeActive) setDraft(null);
+  }, [isCommentModeActive]);
+
+  useEffect(() => {
+    const canvas = containerRef.current;
+    if (!canvas || !isCommentModeActive) return;
+
+    const isCommentUI = (e: Event) =>
+      !!(e.target as HTMLElement).closest("[data-comment-ui]");
+
+    // Capture phase, so nodes never see the click and don't get selected
+    // or dragged
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0 || isCommentUI(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      interfaceDisp.setActiveComment(null);
+      const element = (e.target as HTMLElement).closest("[data-node-id]");
+      const nodeId = element?.getAttribute("data-node-id");
+      if (!element || !nodeId) {
+        setDraft(null);
+        return;
+      }
+
+      const rect = element.getBoundingClientRect();
+      setDraft({
+        nodeId,
+        offset: {
+          x: (e.clientX - rect.left) / scaleRef.current,
+          y: (e.clientY - rect.top) / scaleRef.current,
+        },
+      });
+    };
+
+    const handleClick = (e: MouseEvent) => {
+      if (!isCommentUI(e)) e.stopPropagation();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsCommentModeActive(false);
+    };
+
+    canvas.addEventListener("mousedown", handleMouseDown, true);
+    canvas.addEventListener("click", handleClick, true);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      canvas.removeEventListener("mousedown", handleMouseDown, true);
+      canvas.removeEventListener("click", handleClick, true);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [
+    containerRef,
+    isCommentModeActive,
+    interfaceDisp,
+    setIsCommentModeActive,
+  ]);
+
+  const isVisible =
+    isCommentModeActive ||
+    interfaceState.isCommentsOpen ||
+    !!interfaceState.activeCommentId;
+  const containerRect = containerRef.current?.getBoundingClientRect();
+  if (!isVisible || !containerRect) return null;
+
+  // Resolved threads stay out of the way unless opened from the panel
+  const threads = commentState.threads.filter(
+    (thread) =>
+      thread.pageId === pageState.activePageId &&
+      (!thread.resolved || thread.id === interfaceState.activeCommentId) &&
+      nodeState.nodes.some((node) => node.id === thread.nodeId)
+  );
+  const draftPosition =
+    draft && getPinPosition(draft, containerRect, transform.scale);
+
+  return (
+    <>
+      {threads.map((thread) => {
+        const position = getPinPosition(thread, containerRect, transform.scale);
+        if (!position) return null;
+        const isActive = thread.id === interfaceState.activeCommentId;
+
+        return (
+          <div
+            key={thread.id}
+            data-comment-ui
+            className="absolute"
+            style={{ ...position, zIndex: isActive ? 1003 : 1002 }}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <Pin
+              thread={thread}
+              isActive={isActive}
+              onClick={() => {
+                setDraft(null);
+                interfaceDisp.setActiveComment(isActive ? null : thread.id);
+              }}
+            />
+            {isActive && (
+              <div className="absolute left-8 -top-8">
+                <CommentThreadCard
+                  thread={thread}
+                  onClose={() => interfaceDisp.setActiveComment(null)}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {draft && draftPosition && (
+        <div
+          data-comment-ui
+          className="absolute"
+          style={{ ...draftPosition, zIndex: 1003 }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-[var(--accent)] border-2 border-white shadow" />
+          <div className="absolute left-4 -top-4 w-72 p-2.5 bg-[var(--bg-surface)] border border-[var(--border-default)] rounded-[var(--radius-lg)] shadow-lg">
+            <CommentComposer
+              autoFocus
+              placeholder="Add a comment"
+              onSubmit={(text, mentions) => {
+                const threadId = commentDisp.createThread(
+                  { ...draft, pageId: pageState.activePageId },
+                  author,
+                  text,
+                  mentions
+                );
+                setDraft(null);
+                interfaceDisp.setActiveComment(threadId);
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CommentPins;
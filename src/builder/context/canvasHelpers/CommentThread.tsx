@@ -0,0 +1,257 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Check, RotateCcw, Send, Trash2, X } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  CommentAuthor,
+  CommentMessage,
+  CommentThread,
+} from "@/builder/reducer/commentDispatcher";
+import {
+  findMentions,
+  getMentionablePeople,
+  getMentionQuery,
+  splitMentions,
+} from "@/builder/comments/mentions";
+import { getCollabUser, getInitials } from "@/builder/collab/presence";
+import { cn } from "@/providers/cn";
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// The person writing comments in this browser
+export const useCommentAuthor = (): CommentAuthor =>
+  useMemo(() => getCollabUser(), []);
+
+export const CommentAvatar = ({ author }: { author: CommentAuthor }) => (
+  <div
+    className="w-5 h-5 shrink-0 flex items-center justify-center rounded-full text-[9px] font-semibold text-white"
+    style={{ backgroundColor: author.color }}
+  >
+    {getInitials(author.name)}
+  </div>
+);
+
+export const CommentText = ({ message }: { message: CommentMessage }) => (
+  <p className="text-xs text-[var(--text-primary)] whitespace-pre-wrap break-words">
+    {splitMentions(message.text, message.mentions).map((part, index) =>
+      part.isMention ? (
+        <span key={index} className="font-medium text-[var(--accent)]">
+          {part.text}
+        </span>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </p>
+);
+
+/**
+ * Textarea for a new comment or reply. Typing @ lists the people who can be
+ * mentioned; Enter posts and Shift+Enter starts a new line.
+ */
+export const CommentComposer = ({
+  placeholder,
+  onSubmit,
+  autoFocus = false,
+}: {
+  placeholder: string;
+  onSubmit: (text: string, mentions: string[]) => void;
+  autoFocus?: boolean;
+}) => {
+  const { commentState, collabPeers, setIsEditingText } = useBuilder();
+  const author = useCommentAuthor();
+  const [text, setText] = useState("");
+  const [caret, setCaret] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const people = useMemo(
+    () =>
+      getMentionablePeople(commentState.threads, [
+        author,
+        ...collabPeers.map((peer) => peer.user),
+      ]),
+    [commentState.threads, collabPeers, author]
+  );
+
+  const mentionQuery = getMentionQuery(text, caret);
+  const suggestions = mentionQuery
+    ? people.filter((person) =>
+        person.name.toLowerCase().startsWith(mentionQuery.query.toLowerCase())
+      )
+    : [];
+
+  const insertMention = (person: CommentAuthor) => {
+    if (!mentionQuery) return;
+    const mention = `@${person.name} `;
+    const nextText =
+      text.slice(0, mentionQuery.start) + mention + text.slice(caret);
+    const nextCaret = mentionQuery.start + mention.length;
+    setText(nextText);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const submit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSubmit(trimmed, findMentions(trimmed, people));
+    setText("");
+    setCaret(0);
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex items-end gap-1.5">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          rows={2}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          onChange={(e) => {
+            setText(e.target.value);
+            setCaret(e.target.selectionStart);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onFocus={() => setIsEditingText(true)}
+          onBlur={() => setIsEditingText(false)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              if (suggestions.length) insertMention(suggestions[0]);
+              else submit();
+            }
+          }}
+          className="flex-1 px-2 py-1.5 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] focus:border-[var(--border-focus)] text-[var(--text-primary)] rounded-[var(--radius-lg)] focus:outline-none resize-none transition-colors"
+        />
+        <button
+          onClick={submit}
+          disabled={!text.trim()}
+          className={iconButtonClassName}
+          title="Post"
+        >
+          <Send className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full mt-1 z-50 w-48 py-1 bg-[var(--bg-surface)] border border-[var(--border-default)] rounded-[var(--radius-lg)] shadow-lg">
+          {suggestions.map((person) => (
+            <button
+              key={person.id}
+              onMouseDown={(e) => {
+                // Keep the textarea focused
+                e.preventDefault();
+                insertMention(person);
+              }}
+              className="w-full flex items-center gap-2 h-7 px-2 text-xs text-[var(--text-primary)] hover:bg-[var(--bg-hover)]"
+            >
+              <CommentAvatar author={person} />
+              <span className="truncate">{person.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// A thread opened from its pin: the messages, a reply box and resolve
+export const CommentThreadCard = ({
+  thread,
+  onClose,
+}: {
+  thread: CommentThread;
+  onClose: () => void;
+}) => {
+  const { commentDisp } = useBuilder();
+  const author = useCommentAuthor();
+
+  return (
+    <div className="w-72 p-2.5 space-y-2.5 bg-[var(--bg-surface)] border border-[var(--border-default)] rounded-[var(--radius-lg)] shadow-lg">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-[var(--text-secondary)]">
+          {thread.resolved ? "Resolved" : "Comment"}
+        </span>
+        <div className="flex items-center gap-0.5">
+          <button
+            onClick={() => commentDisp.setResolved(thread.id, !thread.resolved)}
+            className={iconButtonClassName}
+            title={thread.resolved ? "Reopen" : "Resolve"}
+          >
+            {thread.resolved ? (
+              <RotateCcw className="w-3.5 h-3.5" />
+            ) : (
+              <Check className="w-3.5 h-3.5" />
+            )}
+          </button>
+          <button
+            onClick={() => {
+              commentDisp.deleteThread(thread.id);
+              onClose();
+            }}
+            className={iconButtonClassName}
+            title="Delete thread"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onClose} className={iconButtonClassName}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <ul className="max-h-72 overflow-auto space-y-2.5 list-none">
+        {thread.messages.map((message, index) => (
+          <li key={message.id} className="group space-y-1 list-none">
+            <div className="flex items-center gap-1.5">
+              <CommentAvatar author={message.author} />
+              <span className="text-xs font-medium text-[var(--text-primary)] truncate">
+                {message.author.name}
+              </span>
+              <span className="text-xs text-[var(--text-secondary)]">
+                {formatTime(message.createdAt)}
+              </span>
+              {/* The first message is the thread itself */}
+              {index > 0 && message.author.id === author.id && (
+                <button
+                  onClick={() =>
+                    commentDisp.deleteMessage(thread.id, message.id)
+                  }
+                  className={cn(
+                    iconButtonClassName,
+                    "ml-auto w-5 h-5 opacity-0 group-hover:opacity-100"
+                  )}
+                  title="Delete reply"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <div className="pl-6">
+              <CommentText message={message} />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <CommentComposer
+        placeholder="Reply"
+        onSubmit={(text, mentions) =>
+          commentDisp.addReply(thread.id, author, text, mentions)
+        }
+      />
+    </div>
+  );
+};
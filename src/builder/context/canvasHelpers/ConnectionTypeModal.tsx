@@ -3,6 +3,11 @@ import { createPortal } from "react-dom";
 import { X } from "lucide-react";
 import { useBuilder } from "@/builder/context/builderState";
 import Button from "@/components/ui/button";
+import { ConnectionType } from "@/builder/reducer/nodeDispatcher";
+import {
+  CONNECTION_TRIGGERS,
+  DEFAULT_TRIGGER_OPTIONS,
+} from "@/builder/view/preview/utils/triggerUtils";
 
 const ConnectionTypeModal: React.FC = () => {
   const { dragState, dragDisp, nodeDisp, nodeState } = useBuilder();
@@ -68,7 +73,7 @@ const ConnectionTypeModal: React.FC = () => {
   const createResponsiveConnections = (
     sourceId: string | number,
     targetId: string | number,
-    connectionType: "click" | "hover" | "mouseLeave"
+    connectionType: ConnectionType
   ) => {
     // Get source and target nodes
     const sourceNode = nodeState.nodes.find((n) => n.id === sourceId);
@@ -116,7 +121,8 @@ const ConnectionTypeModal: React.FC = () => {
             sourceCounterpartId,
             matchingTargetId,
             connectionType,
-            dragState.dynamicModeNodeId
+            dragState.dynamicModeNodeId,
+            { trigger: DEFAULT_TRIGGER_OPTIONS[connectionType] }
           );
         }
       }
@@ -137,9 +143,7 @@ const ConnectionTypeModal: React.FC = () => {
     dragDisp.hideConnectionTypeModal();
   };
 
-  const handleSelectConnectionType = (
-    type: "click" | "hover" | "mouseLeave"
-  ) => {
+  const handleSelectConnectionType = (type: ConnectionType) => {
     const { sourceId, targetId } = connectionTypeModal;
 
     if (sourceId && targetId) {
@@ -148,7 +152,8 @@ const ConnectionTypeModal: React.FC = () => {
         sourceId,
         targetId,
         type,
-        dragState.dynamicModeNodeId
+        dragState.dynamicModeNodeId,
+        { trigger: DEFAULT_TRIGGER_OPTIONS[type] }
       );
 
       // Then cascade the connection to all responsive counterparts
@@ -161,7 +166,7 @@ const ConnectionTypeModal: React.FC = () => {
 
   // Calculate position to ensure it stays within viewport bounds
   const x = Math.min(connectionTypeModal.position.x, window.innerWidth - 290);
-  const y = Math.min(connectionTypeModal.position.y, window.innerHeight - 200);
+  const y = Math.min(connectionTypeModal.position.y, window.innerHeight - 260);
 
   const modalContent = (
     <div
@@ -186,26 +191,18 @@ const ConnectionTypeModal: React.FC = () => {
         </button>
       </div>
 
-      <div className="p-2 flex flex-col gap-2 pb-4">
-        <Button onClick={() => handleSelectConnectionType("click")}>
-          On Click
-        </Button>
-
-        <Button
-          onClick={() => handleSelectConnectionType("hover")}
-          onMouseOver={(e) => (e.currentTarget.style.opacity = "0.9")}
-          onMouseOut={(e) => (e.currentTarget.style.opacity = "1")}
-        >
-          On Hover
-        </Button>
-
-        <Button
-          onClick={() => handleSelectConnectionType("mouseLeave")}
-          onMouseOver={(e) => (e.currentTarget.style.opacity = "0.9")}
-          onMouseOut={(e) => (e.currentTarget.style.opacity = "1")}
-        >
-          On Mouse Leave
-        </Button>
+      <div className="p-2 grid grid-cols-2 gap-2 pb-4">
+        {CONNECTION_TRIGGERS.map((trigger) => (
+          <Button
+            key={trigger.type}
+            size="sm"
+            onClick={() => handleSelectConnectionType(trigger.type)}
+            onMouseOver={(e) => (e.currentTarget.style.opacity = "0.9")}
+            onMouseOut={(e) => (e.currentTarget.style.opacity = "1")}
+          >
+            {trigger.label}
+          </Button>
+        ))}
       </div>
     </div>
   );
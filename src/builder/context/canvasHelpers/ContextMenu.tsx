@@ -15,8 +15,24 @@ import {
   CornerUpLeft,
   Zap,
   Settings,
+  Code,
+  Component,
+  Crosshair,
+  Unlink,
 } from "lucide-react";
 import { useNodeActions } from "../hooks/useNodeActions";
+import { useComponentActions } from "../hooks/useComponentActions";
+import { useArrangeNodes } from "../hooks/useArrangeNodes";
+import { ARRANGE_COMMANDS } from "@/builder/arrange/arrangeActions";
+import {
+  canCreateComponent,
+  getNextComponentName,
+} from "@/builder/library/componentSync";
+import {
+  buildReactComponent,
+  ReactStyling,
+} from "@/builder/export/reactComponent";
+import { downloadBlob, downloadZip } from "@/builder/export/download";
 
 const Separator = () => (
   <div className="h-[1px] bg-[var(--border-light)] mx-2 my-1" />
@@ -63,10 +79,20 @@ const MenuItemComponent = ({
 };
 
 export const ContextMenu = () => {
-  const { dragState, dragDisp, nodeState, nodeDisp, setNodeStyle } =
-    useBuilder();
+  const {
+    dragState,
+    dragDisp,
+    nodeState,
+    nodeDisp,
+    setNodeStyle,
+    tokenState,
+    fontState,
+    pageState,
+  } = useBuilder();
   const { handleDelete, handleDuplicate, handleCopy, handlePaste } =
     useNodeActions();
+  const { goToMaster } = useComponentActions();
+  const { canAlign, canRun, arrange } = useArrangeNodes();
   const isWindows = navigator.platform.includes("Win");
   const menuRef = useRef<HTMLDivElement>(null);
   const [menuStyle, setMenuStyle] = useState({
@@ -139,6 +165,34 @@ export const ContextMenu = () => {
 
   const isViewportHeaderMenu = dragState.contextMenu?.isViewportHeader;
 
+  // Download the node's subtree as a React component. Tailwind output is a
+  // single TSX file, CSS modules, used tokens and fonts ship next to it in a
+  // zip.
+  const handleExportReact = async (nodeId: string, styling: ReactStyling) => {
+    try {
+      const { componentName, files } = buildReactComponent(
+        nodeState.nodes,
+        nodeId,
+        {
+          styling,
+          tokens: tokenState.tokens,
+          fonts: fontState.fonts,
+          pages: pageState.pages,
+        }
+      );
+      if (files.length === 1) {
+        downloadBlob(
+          new Blob([files[0].content], { type: "text/plain" }),
+          files[0].path
+        );
+      } else {
+        await downloadZip(files, componentName);
+      }
+    } catch (error) {
+      console.error("Failed to export React component:", error);
+    }
+  };
+
   const getMenuItems = () => {
     if (isViewportHeaderMenu) {
       const node = nodeState.nodes.find(
@@ -248,6 +302,45 @@ export const ContextMenu = () => {
 
     // Add "Make Dynamic" option only for frame nodes
     if (node) {
+      if (canCreateComponent(node, nodeState.nodes)) {
+        menuItems.push({
+          label: "Create Component",
+          icon: Component,
+          onClick: (e: React.MouseEvent) => {
+            e.stopPropagation();
+            nodeDisp.createComponent(
+              node.id,
+              getNextComponentName(nodeState.nodes)
+            );
+            dragDisp.hideContextMenu();
+          },
+        });
+      }
+
+      const { componentId } = node;
+      if (componentId && !node.isComponentMaster) {
+        menuItems.push(
+          {
+            label: "Go to Master",
+            icon: Crosshair,
+            onClick: (e: React.MouseEvent) => {
+              e.stopPropagation();
+              goToMaster(componentId, node);
+              dragDisp.hideContextMenu();
+            },
+          },
+          {
+            label: "Detach Instance",
+            icon: Unlink,
+            onClick: (e: React.MouseEvent) => {
+              e.stopPropagation();
+              nodeDisp.detachComponentInstance(node.id);
+              dragDisp.hideContextMenu();
+            },
+          }
+        );
+      }
+
       menuItems.push(
         {
           label: "Make Dynamic",
@@ -259,6 +352,44 @@ export const ContextMenu = () => {
             dragDisp.hideContextMenu();
           },
         },
+        Separator,
+        {
+          label: "Export as React component",
+          icon: Code,
+          onClick: (e: React.MouseEvent) => {
+            e.stopPropagation();
+            handleExportReact(node.id, "css-module");
+            dragDisp.hideContextMenu();
+          },
+        },
+        {
+          label: "Export as React + Tailwind",
+          icon: Code,
+          onClick: (e: React.MouseEvent) => {
+            e.stopPropagation();
+            handleExportReact(node.id, "tailwind");
+            dragDisp.hideContextMenu();
+          },
+        },
+        Separator
+      );
+    }
+
+    // Arrange the selection the right-clicked node belongs to
+    if (node && canAlign && dragState.selectedIds.includes(node.id)) {
+      menuItems.push(
+        ...ARRANGE_COMMANDS.map((command) => ({
+          label: command.label,
+          icon: command.icon,
+          shortcut: command.shortcut,
+          windowsShortcut: command.windowsShortcut,
+          onClick: (e: React.MouseEvent) => {
+            e.stopPropagation();
+            arrange(command.action);
+            dragDisp.hideContextMenu();
+          },
+          disabled: !canRun(command.action),
+        })),
         Separator
       );
     }
@@ -6,11 +6,13 @@ import React, {
   useEffect,
   useRef,
   cloneElement,
+  useMemo,
 } from "react";
 import { createPortal } from "react-dom";
 import { Node } from "../../reducer/nodeDispatcher";
 import { useBuilder } from "../builderState";
-import { useSnapGrid, SnapResult } from "./SnapGrid";
+import { useSnapGrid, SnapResult } from "./GlobalSnapSystem";
+import { getLayoutGridSnapLines } from "../../grids/layoutGrid";
 import { getFilteredNodes, isAbsoluteInFrame, parseRotation } from "../utils";
 
 interface Transform {
@@ -57,7 +59,8 @@ const DraggedNode: React.FC<DraggedNodeProps> = ({
   transform,
   offset,
 }) => {
-  const { dragState, nodeState, dragDisp, containerRef } = useBuilder();
+  const { dragState, nodeState, dragDisp, containerRef, interfaceState } =
+    useBuilder();
   const initialDimensionsRef = useRef<{ width: number; height: number } | null>(
     null
   );
@@ -72,7 +75,27 @@ const DraggedNode: React.FC<DraggedNodeProps> = ({
     dragState.dynamicModeNodeId
   );
 
-  const snapGrid = useSnapGrid(filteredNodes);
+  // Column, row and cell edges of the layout grids on screen
+  const gridLines = useMemo(() => {
+    if (!interfaceState.showLayoutGrids) return [];
+    return nodeState.nodes
+      .filter((n) => n.isViewport && n.layoutGrids?.length)
+      .flatMap((viewport) => {
+        const element = document.querySelector<HTMLElement>(
+          `[data-node-id="${viewport.id}"]`
+        );
+        if (!element) return [];
+        const frame = {
+          left: parseFloat(viewport.style.left as string) || 0,
+          top: parseFloat(viewport.style.top as string) || 0,
+          width: element.offsetWidth,
+          height: element.offsetHeight,
+        };
+        return getLayoutGridSnapLines(frame, viewport.layoutGrids!);
+      });
+  }, [nodeState.nodes, interfaceState.showLayoutGrids]);
+
+  const snapGrid = useSnapGrid(filteredNodes, gridLines);
 
   // Keep track of the last used SnapResult so we don't re‐dispatch identical guides
   const lastSnapRef = useRef<SnapResult | null>(null);
@@ -203,9 +226,16 @@ const DraggedNode: React.FC<DraggedNodeProps> = ({
 
   let snapResult: SnapResult | null = null;
 
+  // The threshold is set in screen pixels, so it feels the same at any zoom
+  const snapThreshold = interfaceState.snapThreshold / transform.scale;
+
   // Step 2: compute prospective snaps
-  if (snapGrid && (dragState.isOverCanvas || dragState.dynamicModeNodeId)) {
-    snapResult = snapGrid.findNearestSnaps(snapPoints, 10, node.id);
+  if (
+    snapGrid &&
+    snapThreshold > 0 &&
+    (dragState.isOverCanvas || dragState.dynamicModeNodeId)
+  ) {
+    snapResult = snapGrid.findSnaps(snapPoints, snapThreshold, node.id);
 
     // apply alignment snap
     if (snapResult.verticalSnap) {
@@ -266,8 +296,8 @@ const DraggedNode: React.FC<DraggedNodeProps> = ({
   let stableSnapResult: SnapResult | null = null;
   if (snapGrid && snapResult) {
     // figure out final left/top in canvas coords
-    const stableCanvasX = (finalLeft - transform.x) / transform.scale;
-    const stableCanvasY = (finalTop - transform.y) / transform.scale;
+    const stableCanvasX = (finalLeft - transform.x) / transform.scale - offsetX;
+    const stableCanvasY = (finalTop - transform.y) / transform.scale - offsetY;
 
     const stablePoints = [
       { value: stableCanvasX, type: "left" },
@@ -277,7 +307,8 @@ const DraggedNode: React.FC<DraggedNodeProps> = ({
       { value: stableCanvasY + nodeHeight, type: "bottom" },
       { value: stableCanvasY + nodeHeight / 2, type: "centerY" },
     ];
-    stableSnapResult = snapGrid.findNearestSnaps(stablePoints, 10, node.id);
+    // Only what the node now sits exactly on, so guides don't flicker
+    stableSnapResult = snapGrid.findSnaps(stablePoints, 1, node.id);
   }
 
   // Decide which result to dispatch (the stable one if we have it)
@@ -1,8 +1,106 @@
 import React, { useRef, useEffect, useState } from "react";
 import { createPortal } from "react-dom";
-import { X } from "lucide-react";
+import { Minus, Plus, X } from "lucide-react";
 import { useBuilder } from "@/builder/context/builderState";
 import Button from "@/components/ui/button";
+import { LayoutGrid, LayoutGridType } from "@/builder/reducer/nodeDispatcher";
+import {
+  createLayoutGrid,
+  LAYOUT_GRID_DEFAULTS,
+} from "@/builder/grids/layoutGrid";
+
+const gridInputClassName =
+  "w-full h-7 px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] focus:border-[var(--border-focus)] text-[var(--text-primary)] rounded-[var(--radius-lg)] focus:outline-none transition-colors [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+
+const GRID_TYPE_LABELS: Record<LayoutGridType, string> = {
+  columns: "Columns",
+  rows: "Rows",
+  grid: "Grid",
+};
+
+// The numbers each kind of grid is set up with
+const GRID_FIELDS: Record<
+  LayoutGridType,
+  { key: "count" | "gutter" | "margin" | "size"; label: string }[]
+> = {
+  columns: [
+    { key: "count", label: "Count" },
+    { key: "gutter", label: "Gutter" },
+    { key: "margin", label: "Margin" },
+  ],
+  rows: [
+    { key: "count", label: "Count" },
+    { key: "gutter", label: "Gutter" },
+    { key: "margin", label: "Margin" },
+  ],
+  grid: [{ key: "size", label: "Size" }],
+};
+
+const LayoutGridRow = ({
+  grid,
+  onChange,
+  onRemove,
+  onFocus,
+  onBlur,
+}: {
+  grid: LayoutGrid;
+  onChange: (grid: LayoutGrid) => void;
+  onRemove: () => void;
+  onFocus: () => void;
+  onBlur: () => void;
+}) => (
+  <div className="space-y-1.5">
+    <div className="flex items-center gap-1.5">
+      <input
+        type="color"
+        value={grid.color}
+        onChange={(e) => onChange({ ...grid, color: e.target.value })}
+        className="w-7 h-7 shrink-0 p-0.5 bg-transparent border border-[var(--control-border)] rounded-[var(--radius-lg)] cursor-pointer"
+      />
+      <select
+        value={grid.type}
+        onChange={(e) => {
+          const type = e.target.value as LayoutGridType;
+          onChange({ ...grid, type, ...LAYOUT_GRID_DEFAULTS[type] });
+        }}
+        className={gridInputClassName}
+      >
+        {Object.entries(GRID_TYPE_LABELS).map(([type, label]) => (
+          <option key={type} value={type}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onRemove}
+        className="p-1 shrink-0 hover:bg-[var(--bg-hover)] rounded-md transition-colors"
+        title="Remove grid"
+      >
+        <Minus className="w-3 h-3 text-[var(--text-secondary)]" />
+      </button>
+    </div>
+    <div className="grid grid-cols-3 gap-1.5">
+      {GRID_FIELDS[grid.type].map(({ key, label }) => (
+        <label key={key} className="space-y-0.5">
+          <span className="text-[10px] text-[var(--text-secondary)]">
+            {label}
+          </span>
+          <input
+            type="number"
+            min={key === "count" || key === "size" ? 1 : 0}
+            value={grid[key]}
+            onChange={(e) =>
+              onChange({ ...grid, [key]: Math.max(0, Number(e.target.value)) })
+            }
+            onFocus={onFocus}
+            onBlur={onBlur}
+            className={gridInputClassName}
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
 
 const EditViewportModal: React.FC = () => {
   const { nodeState, nodeDisp, dragState, dragDisp, setIsEditingText } =
@@ -21,6 +119,7 @@ const EditViewportModal: React.FC = () => {
     viewport?.viewportWidth?.toString() || ""
   );
   const [nameValue, setNameValue] = useState(viewport?.viewportName || "");
+  const [grids, setGrids] = useState<LayoutGrid[]>(viewport?.layoutGrids || []);
 
   // Handle clicks outside the modal
   useEffect(() => {
@@ -61,6 +160,7 @@ const EditViewportModal: React.FC = () => {
     if (viewport) {
       setWidthValue(viewport.viewportWidth?.toString() || "");
       setNameValue(viewport.viewportName || "");
+      setGrids(viewport.layoutGrids || []);
     }
   }, [viewport, editViewportModal.viewportId]);
 
@@ -78,7 +178,12 @@ const EditViewportModal: React.FC = () => {
       return;
     }
 
-    nodeDisp.editViewport(editViewportModal.viewportId, width, nameValue);
+    nodeDisp.editViewport(
+      editViewportModal.viewportId,
+      width,
+      nameValue,
+      grids
+    );
     handleClose();
   };
 
@@ -159,6 +264,39 @@ const EditViewportModal: React.FC = () => {
           />
         </div>
 
+        {/* Layout grids */}
+        <div className="space-y-2 pt-2 border-t border-[var(--border-default)]">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-[var(--text-secondary)]">
+              Layout grids
+            </span>
+            <button
+              onClick={() => setGrids([...grids, createLayoutGrid()])}
+              className="p-1 hover:bg-[var(--bg-hover)] rounded-md transition-colors"
+              title="Add layout grid"
+            >
+              <Plus className="w-3 h-3 text-[var(--text-secondary)]" />
+            </button>
+          </div>
+          {grids.map((grid) => (
+            <LayoutGridRow
+              key={grid.id}
+              grid={grid}
+              onChange={(next) =>
+                setGrids(grids.map((g) => (g.id === grid.id ? next : g)))
+              }
+              onRemove={() => setGrids(grids.filter((g) => g.id !== grid.id))}
+              onFocus={() => setIsEditingText(true)}
+              onBlur={() => setIsEditingText(false)}
+            />
+          ))}
+          {grids.length > 0 && (
+            <p className="text-[10px] text-[var(--text-secondary)]">
+              Ctrl+Shift+4 shows or hides layout grids.
+            </p>
+          )}
+        </div>
+
         <Button
           variant="primary"
           size="sm"
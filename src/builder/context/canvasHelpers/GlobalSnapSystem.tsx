@@ -7,6 +7,24 @@ import { isAbsoluteInFrame } from "../utils";
 export interface SnapLine {
   orientation: "horizontal" | "vertical";
   sourceNodeId: string | number;
+
+  // For alignment lines
+  position?: number;
+
+  // For spacing lines: a horizontal one runs from x1 to x2 at y, a vertical
+  // one from y1 to y2 at x
+  spacing?: number;
+  x1?: number;
+  x2?: number;
+  y?: number;
+  y1?: number;
+  y2?: number;
+  x?: number;
+}
+
+// A column, row or cell edge of a layout grid, in canvas coordinates
+export interface SnapGridLine {
+  orientation: "horizontal" | "vertical";
   position: number;
 }
 
@@ -21,9 +39,26 @@ export interface SnapResult {
     type: string;
     sourceNodeId: string | number;
   } | null;
+
+  // New left/top for the dragged node when it snaps to an equal gap. Only
+  // set when closer than the alignment snap on the same axis, which is then
+  // null.
+  horizontalSpacingSnap?: number;
+  verticalSpacingSnap?: number;
+
   snapGuides: SnapLine[];
 }
 
+export interface SnapRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Snap lines coming from a layout grid rather than a node
+export const GRID_SOURCE_ID = "layout-grid";
+
 // Convert any node to global coordinates
 function getGlobalPosition(
   node: Node,
@@ -54,21 +89,90 @@ function getGlobalPosition(
   return { left, top, width, height };
 }
 
+type Axis = "x" | "y";
+
+// The same edges of a rect for either axis, so spacing only has to be
+// worked out once: start/end along the axis, from/to across it
+const along = (rect: SnapRect, axis: Axis) =>
+  axis === "x"
+    ? { start: rect.left, end: rect.right, from: rect.top, to: rect.bottom }
+    : { start: rect.top, end: rect.bottom, from: rect.left, to: rect.right };
+
+// Whether two rects share a row (for x) or a column (for y)
+const overlapsAcross = (a: SnapRect, b: SnapRect, axis: Axis) => {
+  const first = along(a, axis);
+  const second = along(b, axis);
+  return first.from < second.to && second.from < first.to;
+};
+
+// Spacing line for the gap between two rects, through the middle of the
+// part they share across the axis
+const toSpacingLine = (
+  before: SnapRect,
+  after: SnapRect,
+  axis: Axis,
+  sourceNodeId: string | number
+): SnapLine => {
+  const first = along(before, axis);
+  const second = along(after, axis);
+  const middle =
+    (Math.max(first.from, second.from) + Math.min(first.to, second.to)) / 2;
+  const spacing = Math.round(second.start - first.end);
+
+  return axis === "x"
+    ? {
+        orientation: "horizontal",
+        sourceNodeId,
+        spacing,
+        x1: first.end,
+        x2: second.start,
+        y: middle,
+      }
+    : {
+        orientation: "vertical",
+        sourceNodeId,
+        spacing,
+        y1: first.end,
+        y2: second.start,
+        x: middle,
+      };
+};
+
+const moveAlong = (rect: SnapRect, axis: Axis, start: number): SnapRect => {
+  if (axis === "x") {
+    return { ...rect, left: start, right: start + rect.right - rect.left };
+  }
+  return { ...rect, top: start, bottom: start + rect.bottom - rect.top };
+};
+
 export class GlobalSnapSystem {
   // Store all possible snap lines from all elements
   private horizontalLines: { position: number; nodeId: string | number }[] = [];
   private verticalLines: { position: number; nodeId: string | number }[] = [];
+  private rects: { nodeId: string | number; rect: SnapRect }[] = [];
   private nodes: Node[] = [];
 
-  constructor(nodes: Node[]) {
+  constructor(nodes: Node[], gridLines: SnapGridLine[] = []) {
     this.nodes = nodes;
     this.buildGlobalSnapLines(nodes);
+    this.addGridLines(gridLines);
+  }
+
+  private addGridLines(gridLines: SnapGridLine[]) {
+    gridLines.forEach(({ orientation, position }) => {
+      const lines =
+        orientation === "horizontal"
+          ? this.horizontalLines
+          : this.verticalLines;
+      lines.push({ position, nodeId: GRID_SOURCE_ID });
+    });
   }
 
   private buildGlobalSnapLines(nodes: Node[]) {
     // Clear existing lines
     this.horizontalLines = [];
     this.verticalLines = [];
+    this.rects = [];
 
     // Add all possible snap lines from all nodes
     nodes.forEach((node) => {
@@ -76,6 +180,10 @@ export class GlobalSnapSystem {
 
       // ALWAYS convert to global coordinates
       const { left, top, width, height } = getGlobalPosition(node, nodes);
+      this.rects.push({
+        nodeId: node.id,
+        rect: { left, top, right: left + width, bottom: top + height },
+      });
 
       // Add horizontal lines (top, center, bottom)
       this.horizontalLines.push({ position: top, nodeId: node.id });
@@ -92,15 +200,121 @@ export class GlobalSnapSystem {
     });
   }
 
+  /**
+   * Where the dragged rect would sit at the same gap as its neighbours along
+   * one axis: centred between the nearest node on each side, or one gap on
+   * from a pair of nodes that are already evenly spaced.
+   */
+  private findSpacingSnap(
+    dragged: SnapRect,
+    axis: Axis,
+    threshold: number,
+    draggingNodeId: string | number
+  ) {
+    const others = this.rects.filter(({ nodeId }) => nodeId !== draggingNodeId);
+    const self = along(dragged, axis);
+    const size = self.end - self.start;
+
+    // Nearest node in the same row/column on the given side of `rect`
+    const nearest = (rect: SnapRect, side: "before" | "after") => {
+      const edges = along(rect, axis);
+      return others
+        .filter(({ rect: other }) => {
+          if (other === rect || !overlapsAcross(other, rect, axis)) {
+            return false;
+          }
+          const { start, end } = along(other, axis);
+          return side === "before"
+            ? end <= edges.start + threshold && start < edges.start
+            : start >= edges.end - threshold && end > edges.end;
+        })
+        .sort((a, b) =>
+          side === "before"
+            ? along(b.rect, axis).end - along(a.rect, axis).end
+            : along(a.rect, axis).start - along(b.rect, axis).start
+        )[0];
+    };
+
+    const before = nearest(dragged, "before");
+    const after = nearest(dragged, "after");
+    const candidates: { start: number; pairs: [SnapRect, SnapRect][] }[] = [];
+
+    if (before && after) {
+      const gap =
+        (along(after.rect, axis).start - along(before.rect, axis).end - size) /
+        2;
+      if (gap > 0) {
+        const start = along(before.rect, axis).end + gap;
+        const moved = moveAlong(dragged, axis, start);
+        candidates.push({
+          start,
+          pairs: [
+            [before.rect, moved],
+            [moved, after.rect],
+          ],
+        });
+      }
+    }
+
+    if (before) {
+      const beyond = nearest(before.rect, "before");
+      if (beyond) {
+        const gap =
+          along(before.rect, axis).start - along(beyond.rect, axis).end;
+        const start = along(before.rect, axis).end + gap;
+        candidates.push({
+          start,
+          pairs: [
+            [beyond.rect, before.rect],
+            [before.rect, moveAlong(dragged, axis, start)],
+          ],
+        });
+      }
+    }
+
+    if (after) {
+      const beyond = nearest(after.rect, "after");
+      if (beyond) {
+        const gap =
+          along(beyond.rect, axis).start - along(after.rect, axis).end;
+        const start = along(after.rect, axis).start - gap - size;
+        candidates.push({
+          start,
+          pairs: [
+            [moveAlong(dragged, axis, start), after.rect],
+            [after.rect, beyond.rect],
+          ],
+        });
+      }
+    }
+
+    const best = candidates
+      .map((candidate) => ({
+        ...candidate,
+        dist: Math.abs(candidate.start - self.start),
+      }))
+      .filter(({ dist }) => dist <= threshold)
+      .sort((a, b) => a.dist - b.dist)[0];
+    if (!best) return null;
+
+    return {
+      start: best.start,
+      dist: best.dist,
+      guides: best.pairs.map(([first, second]) =>
+        toSpacingLine(first, second, axis, draggingNodeId)
+      ),
+    };
+  }
+
   // Find the closest snap for any element
   public findSnaps(
     points: Array<{ value: number; type: string }>,
     threshold: number = 40, // Higher threshold for better snap
     draggingNodeId: string | number
   ): SnapResult {
-    const snapGuides: SnapLine[] = [];
-    let horizontalSnap = null;
-    let verticalSnap = null;
+    let snapGuides: SnapLine[] = [];
+    let horizontalSnap: SnapResult["horizontalSnap"] = null;
+    let verticalSnap: SnapResult["verticalSnap"] = null;
 
     // Find closest horizontal snap
     let minHDist = threshold + 1;
@@ -180,7 +394,57 @@ export class GlobalSnapSystem {
       });
     });
 
-    return { horizontalSnap, verticalSnap, snapGuides };
+    // Equal spacing wins over alignment on an axis when it is closer
+    const point = (type: string) =>
+      points.find((p) => p.type === type)?.value ?? 0;
+    const dragged: SnapRect = {
+      left: point("left"),
+      top: point("top"),
+      right: point("right"),
+      bottom: point("bottom"),
+    };
+    let horizontalSpacingSnap: number | undefined;
+    let verticalSpacingSnap: number | undefined;
+
+    const xSpacing = this.findSpacingSnap(
+      dragged,
+      "x",
+      threshold,
+      draggingNodeId
+    );
+    if (xSpacing && xSpacing.dist < minVDist) {
+      horizontalSpacingSnap = xSpacing.start;
+      verticalSnap = null;
+      snapGuides = [
+        ...snapGuides.filter((guide) => guide.orientation !== "vertical"),
+        ...xSpacing.guides,
+      ];
+    }
+
+    const ySpacing = this.findSpacingSnap(
+      dragged,
+      "y",
+      threshold,
+      draggingNodeId
+    );
+    if (ySpacing && ySpacing.dist < minHDist) {
+      verticalSpacingSnap = ySpacing.start;
+      horizontalSnap = null;
+      snapGuides = [
+        ...snapGuides.filter(
+          (guide) => guide.orientation !== "horizontal" || guide.spacing
+        ),
+        ...ySpacing.guides,
+      ];
+    }
+
+    return {
+      horizontalSnap,
+      verticalSnap,
+      horizontalSpacingSnap,
+      verticalSpacingSnap,
+      snapGuides,
+    };
   }
 
   // For debug visualization
@@ -209,26 +473,124 @@ export class GlobalSnapSystem {
   public clear() {
     this.horizontalLines = [];
     this.verticalLines = [];
+    this.rects = [];
   }
 }
 
 // New hook with the same name for compatibility
-export const useSnapGrid = (filteredNodes: Node[]) => {
+export const useSnapGrid = (
+  filteredNodes: Node[],
+  gridLines: SnapGridLine[] = []
+) => {
   const gridRef = React.useRef<GlobalSnapSystem | null>(null);
   const prevNodesRef = React.useRef<Node[]>([]);
+  const prevGridLinesRef = React.useRef<SnapGridLine[]>([]);
 
   React.useEffect(() => {
-    if (filteredNodes !== prevNodesRef.current) {
-      gridRef.current = new GlobalSnapSystem(filteredNodes);
+    if (
+      filteredNodes !== prevNodesRef.current ||
+      gridLines !== prevGridLinesRef.current
+    ) {
+      gridRef.current = new GlobalSnapSystem(filteredNodes, gridLines);
       prevNodesRef.current = filteredNodes;
+      prevGridLinesRef.current = gridLines;
     }
     return () => {
       gridRef.current?.clear();
     };
-  }, [filteredNodes]);
+  }, [filteredNodes, gridLines]);
 
   return gridRef.current;
 };
 
 // For backward compatibility with existing code
 export { GlobalSnapSystem as SnapGrid };
+
+const contains = (outer: SnapRect, inner: SnapRect) =>
+  outer.left <= inner.left &&
+  outer.right >= inner.right &&
+  outer.top <= inner.top &&
+  outer.bottom >= inner.bottom;
+
+/**
+ * Distance lines from one rect to another, as shown while holding Alt. A
+ * rect inside the other is measured to its four edges; otherwise the gap
+ * is measured on each axis the two don't overlap, with a line without
+ * spacing extending the far edge when it doesn't reach the measurement.
+ */
+export const measureDistances = (
+  from: SnapRect,
+  to: SnapRect,
+  sourceNodeId: string | number
+): SnapLine[] => {
+  const lines: SnapLine[] = [];
+  const horizontal = (x1: number, x2: number, y: number) =>
+    x2 - x1 > 0 &&
+    lines.push({
+      orientation: "horizontal",
+      sourceNodeId,
+      spacing: Math.round(x2 - x1),
+      x1,
+      x2,
+      y,
+    });
+  const vertical = (y1: number, y2: number, x: number) =>
+    y2 - y1 > 0 &&
+    lines.push({
+      orientation: "vertical",
+      sourceNodeId,
+      spacing: Math.round(y2 - y1),
+      y1,
+      y2,
+      x,
+    });
+
+  let inside: SnapRect | null = null;
+  if (contains(to, from)) inside = from;
+  else if (contains(from, to)) inside = to;
+  if (inside) {
+    const outside = inside === from ? to : from;
+    const middleX = (inside.left + inside.right) / 2;
+    const middleY = (inside.top + inside.bottom) / 2;
+    horizontal(outside.left, inside.left, middleY);
+    horizontal(inside.right, outside.right, middleY);
+    vertical(outside.top, inside.top, middleX);
+    vertical(inside.bottom, outside.bottom, middleX);
+    return lines;
+  }
+
+  if (from.right <= to.left || to.right <= from.left) {
+    const [x1, x2] =
+      from.right <= to.left ? [from.right, to.left] : [to.right, from.left];
+    const shared = overlapsAcross(from, to, "x");
+    const y = shared
+      ? (Math.max(from.top, to.top) + Math.min(from.bottom, to.bottom)) / 2
+      : (from.top + from.bottom) / 2;
+    horizontal(x1, x2, y);
+    if (!shared) {
+      const edge = from.right <= to.left ? to.left : to.right;
+      // From the nearest corner of `to` out to the measurement
+      const y1 = Math.min(y, to.bottom);
+      const y2 = Math.max(y, to.top);
+      lines.push({ orientation: "vertical", sourceNodeId, y1, y2, x: edge });
+    }
+  }
+
+  if (from.bottom <= to.top || to.bottom <= from.top) {
+    const [y1, y2] =
+      from.bottom <= to.top ? [from.bottom, to.top] : [to.bottom, from.top];
+    const shared = overlapsAcross(from, to, "y");
+    const x = shared
+      ? (Math.max(from.left, to.left) + Math.min(from.right, to.right)) / 2
+      : (from.left + from.right) / 2;
+    vertical(y1, y2, x);
+    if (!shared) {
+      const edge = from.bottom <= to.top ? to.top : to.bottom;
+      const x1 = Math.min(x, to.right);
+      const x2 = Math.max(x, to.left);
+      lines.push({ orientation: "horizontal", sourceNodeId, x1, x2, y: edge });
+    }
+  }
+
+  return lines;
+};
@@ -0,0 +1,138 @@
+import React from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { LayoutGrid, Node } from "@/builder/reducer/nodeDispatcher";
+import { getLayoutGridBands } from "@/builder/grids/layoutGrid";
+
+const BAND_OPACITY = 0.1;
+const LINE_OPACITY = 0.2;
+
+// One layout grid over a viewport, in screen pixels
+const GridLayer = ({
+  grid,
+  width,
+  height,
+  scale,
+}: {
+  grid: LayoutGrid;
+  width: number;
+  height: number;
+  scale: number;
+}) => {
+  if (grid.type === "grid") {
+    const size = grid.size * scale;
+    if (size < 2) return null;
+    const line = `${grid.color} 0 1px, transparent 1px ${size}px`;
+
+    return (
+      <div
+        className="absolute inset-0"
+        style={{
+          opacity: LINE_OPACITY,
+          backgroundImage: `repeating-linear-gradient(to right, ${line}), repeating-linear-gradient(to bottom, ${line})`,
+        }}
+      />
+    );
+  }
+
+  const isColumns = grid.type === "columns";
+  const bands = getLayoutGridBands(grid, (isColumns ? width : height) / scale);
+
+  return (
+    <>
+      {bands.map(([start, end]) => (
+        <div
+          key={start}
+          className="absolute"
+          style={{
+            backgroundColor: grid.color,
+            opacity: BAND_OPACITY,
+            ...(isColumns
+              ? {
+                  left: start * scale,
+                  width: (end - start) * scale,
+                  top: 0,
+                  bottom: 0,
+                }
+              : {
+                  top: start * scale,
+                  height: (end - start) * scale,
+                  left: 0,
+                  right: 0,
+                }),
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+const ViewportGrids = ({
+  viewport,
+  transform,
+}: {
+  viewport: Node;
+  transform: { x: number; y: number; scale: number };
+}) => {
+  // Positioned from the viewport's style rather than its DOM rect, which
+  // lags a frame behind while the canvas pans
+  const element = document.querySelector<HTMLElement>(
+    `[data-node-id="${viewport.id}"]`
+  );
+  if (!element) return null;
+  const { scale } = transform;
+  const width = element.offsetWidth * scale;
+  const height = element.offsetHeight * scale;
+
+  return (
+    <div
+      className="absolute overflow-hidden pointer-events-none"
+      style={{
+        left:
+          transform.x +
+          (parseFloat(viewport.style.left as string) || 0) * scale,
+        top:
+          transform.y + (parseFloat(viewport.style.top as string) || 0) * scale,
+        width,
+        height,
+        zIndex: 999,
+      }}
+    >
+      {viewport.layoutGrids!.map((grid) => (
+        <GridLayer
+          key={grid.id}
+          grid={grid}
+          width={width}
+          height={height}
+          scale={scale}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Layout grids of every viewport, drawn over the canvas in container
+ * coordinates so they sit above the viewport's content
+ */
+export const LayoutGridOverlay = () => {
+  const { transform, nodeState, interfaceState } = useBuilder();
+  if (!interfaceState.showLayoutGrids) return null;
+
+  const viewports = nodeState.nodes.filter(
+    (node) => node.isViewport && node.layoutGrids?.length
+  );
+
+  return (
+    <>
+      {viewports.map((viewport) => (
+        <ViewportGrids
+          key={viewport.id}
+          viewport={viewport}
+          transform={transform}
+        />
+      ))}
+    </>
+  );
+};
+
+export default LayoutGridOverlay;
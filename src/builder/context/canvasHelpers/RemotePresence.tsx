@@ -0,0 +1,138 @@
+import React, { useEffect, useRef } from "react";
+import { MousePointer2 } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { CollabPeer } from "@/builder/collab/presence";
+
+// Outlines of the nodes a collaborator has selected, drawn like SelectionBox
+// in container coordinates
+const RemoteSelection = ({
+  peer,
+  containerRect,
+}: {
+  peer: CollabPeer;
+  containerRect: DOMRect;
+}) => {
+  const rects = peer.selectedIds
+    .map((id) => document.querySelector(`[data-node-id="${id}"]`))
+    .filter((element): element is Element => element !== null)
+    .map((element) => element.getBoundingClientRect());
+
+  return (
+    <>
+      {rects.map((rect, index) => (
+        <div
+          key={`${peer.clientId}-${peer.selectedIds[index]}`}
+          className="absolute pointer-events-none border-2"
+          style={{
+            left: rect.left - containerRect.left,
+            top: rect.top - containerRect.top,
+            width: rect.width,
+            height: rect.height,
+            borderColor: peer.user.color,
+            zIndex: 1000,
+          }}
+        >
+          {index === 0 && (
+            <span
+              className="absolute -top-5 left-[-2px] px-1 text-[10px] leading-4 text-white whitespace-nowrap rounded-sm"
+              style={{ backgroundColor: peer.user.color }}
+            >
+              {peer.user.name}
+            </span>
+          )}
+        </div>
+      ))}
+    </>
+  );
+};
+
+const RemoteCursor = ({
+  peer,
+  transform,
+}: {
+  peer: CollabPeer;
+  transform: { x: number; y: number; scale: number };
+}) => {
+  if (!peer.cursor) return null;
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: peer.cursor.x * transform.scale + transform.x,
+        top: peer.cursor.y * transform.scale + transform.y,
+        zIndex: 1001,
+      }}
+    >
+      <MousePointer2
+        className="w-4 h-4"
+        style={{ color: peer.user.color, fill: peer.user.color }}
+      />
+      <span
+        className="absolute left-4 top-4 px-1.5 text-[10px] leading-4 text-white whitespace-nowrap rounded-sm"
+        style={{ backgroundColor: peer.user.color }}
+      >
+        {peer.user.name}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Live cursors and selections of everyone else on the page. Also publishes
+ * this client's pointer, in canvas coordinates so it lands on the same spot
+ * whatever each person's zoom.
+ */
+export const RemotePresence = () => {
+  const { containerRef, transform, collabPeers, updateCollabCursor } =
+    useBuilder();
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+
+  useEffect(() => {
+    const canvas = containerRef.current;
+    if (!canvas) return;
+    let frame = 0;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const rect = canvas.getBoundingClientRect();
+        const { x, y, scale } = transformRef.current;
+        updateCollabCursor({
+          x: (e.clientX - rect.left - x) / scale,
+          y: (e.clientY - rect.top - y) / scale,
+        });
+      });
+    };
+
+    const handleMouseLeave = () => {
+      cancelAnimationFrame(frame);
+      updateCollabCursor(null);
+    };
+
+    canvas.addEventListener("mousemove", handleMouseMove);
+    canvas.addEventListener("mouseleave", handleMouseLeave);
+    return () => {
+      cancelAnimationFrame(frame);
+      canvas.removeEventListener("mousemove", handleMouseMove);
+      canvas.removeEventListener("mouseleave", handleMouseLeave);
+    };
+  }, [containerRef, updateCollabCursor]);
+
+  const containerRect = containerRef.current?.getBoundingClientRect();
+  if (!containerRect || collabPeers.length === 0) return null;
+
+  return (
+    <>
+      {collabPeers.map((peer) => (
+        <React.Fragment key={peer.clientId}>
+          <RemoteSelection peer={peer} containerRect={containerRect} />
+          <RemoteCursor peer={peer} transform={transform} />
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export default RemotePresence;
@@ -1,166 +1,296 @@
 // SnapGuides.tsx
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useBuilder } from "@/builder/context/builderState";
-import { SnapLine } from "@/builder/context/canvasHelpers/SnapGrid";
+import {
+  measureDistances,
+  SnapLine,
+  SnapRect,
+} from "@/builder/context/canvasHelpers/GlobalSnapSystem";
+
+interface Transform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// Equal spacing while dragging, and distances while holding Alt
+const SPACING_COLOR = "rgba(255,105,180,0.9)";
+const DISTANCE_COLOR = "rgba(255,0,0,0.8)";
+
+const useAltKey = () => {
+  const [isAltPressed, setIsAltPressed] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Alt") setIsAltPressed(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === "Alt") setIsAltPressed(false);
+    };
+    // Alt+Tab away never sends the keyup
+    const handleBlur = () => setIsAltPressed(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+
+  return isAltPressed;
+};
+
+// A node's rect in canvas coordinates, read from the DOM so nodes inside
+// frames and viewports are measured where they are actually laid out
+const getCanvasRect = (
+  nodeId: string | number,
+  containerRect: DOMRect,
+  transform: Transform
+): SnapRect | null => {
+  const element = document.querySelector(`[data-node-id="${nodeId}"]`);
+  if (!element) return null;
+  const rect = element.getBoundingClientRect();
+  const toCanvasX = (x: number) =>
+    (x - containerRect.left - transform.x) / transform.scale;
+  const toCanvasY = (y: number) =>
+    (y - containerRect.top - transform.y) / transform.scale;
+
+  return {
+    left: toCanvasX(rect.left),
+    top: toCanvasY(rect.top),
+    right: toCanvasX(rect.right),
+    bottom: toCanvasY(rect.bottom),
+  };
+};
+
+const SpacingLabel = ({
+  left,
+  top,
+  color,
+  value,
+  vertical,
+}: {
+  left: number;
+  top: number;
+  color: string;
+  value: number;
+  vertical: boolean;
+}) => (
+  <div
+    style={{
+      position: "absolute",
+      left,
+      top,
+      transform: vertical ? "translate(4px, -50%)" : "translate(-50%, 4px)",
+      background: color,
+      color: "#fff",
+      fontSize: 10,
+      lineHeight: "14px",
+      padding: "0 4px",
+      borderRadius: 3,
+      whiteSpace: "nowrap",
+    }}
+  >
+    {value}
+  </div>
+);
+
+// A gap between two edges: a line with end caps and its size, or a dashed
+// helper line when it has no size
+const SpacingGuide = ({
+  guide,
+  transform,
+  color,
+}: {
+  guide: SnapLine;
+  transform: Transform;
+  color: string;
+}) => {
+  const border = guide.spacing ? `1px solid ${color}` : `1px dashed ${color}`;
+
+  if (
+    guide.orientation === "horizontal" &&
+    guide.x1 != null &&
+    guide.x2 != null &&
+    guide.y != null
+  ) {
+    const screenX1 = transform.x + guide.x1 * transform.scale;
+    const screenX2 = transform.x + guide.x2 * transform.scale;
+    const screenY = transform.y + guide.y * transform.scale;
+    const left = Math.min(screenX1, screenX2);
+    const width = Math.abs(screenX2 - screenX1);
+
+    return (
+      <>
+        <div
+          style={{
+            position: "absolute",
+            left,
+            top: screenY,
+            width,
+            height: 0,
+            borderTop: border,
+          }}
+        />
+        {guide.spacing != null && (
+          <>
+            {[left, left + width].map((x) => (
+              <div
+                key={x}
+                style={{
+                  position: "absolute",
+                  left: x,
+                  top: screenY - 4,
+                  width: 0,
+                  height: 9,
+                  borderLeft: border,
+                }}
+              />
+            ))}
+            <SpacingLabel
+              left={left + width / 2}
+              top={screenY}
+              color={color}
+              value={guide.spacing}
+              vertical={false}
+            />
+          </>
+        )}
+      </>
+    );
+  }
+
+  if (
+    guide.orientation === "vertical" &&
+    guide.y1 != null &&
+    guide.y2 != null &&
+    guide.x != null
+  ) {
+    const screenX = transform.x + guide.x * transform.scale;
+    const screenY1 = transform.y + guide.y1 * transform.scale;
+    const screenY2 = transform.y + guide.y2 * transform.scale;
+    const top = Math.min(screenY1, screenY2);
+    const height = Math.abs(screenY2 - screenY1);
+
+    return (
+      <>
+        <div
+          style={{
+            position: "absolute",
+            left: screenX,
+            top,
+            width: 0,
+            height,
+            borderLeft: border,
+          }}
+        />
+        {guide.spacing != null && (
+          <>
+            {[top, top + height].map((y) => (
+              <div
+                key={y}
+                style={{
+                  position: "absolute",
+                  left: screenX - 4,
+                  top: y,
+                  width: 9,
+                  height: 0,
+                  borderTop: border,
+                }}
+              />
+            ))}
+            <SpacingLabel
+              left={screenX}
+              top={top + height / 2}
+              color={color}
+              value={guide.spacing}
+              vertical
+            />
+          </>
+        )}
+      </>
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Distances from the selection to the hovered node while Alt is held
+ */
+const DistanceGuides = ({ transform }: { transform: Transform }) => {
+  const { dragState, containerRef } = useBuilder();
+  const { selectedIds, hoverNodeId } = dragState;
+
+  const containerRect = containerRef.current?.getBoundingClientRect();
+  if (
+    !containerRect ||
+    !selectedIds.length ||
+    hoverNodeId == null ||
+    selectedIds.includes(hoverNodeId)
+  ) {
+    return null;
+  }
+
+  const selectionRects = selectedIds
+    .map((id) => getCanvasRect(id, containerRect, transform))
+    .filter((rect): rect is SnapRect => !!rect);
+  const hoverRect = getCanvasRect(hoverNodeId, containerRect, transform);
+  if (!selectionRects.length || !hoverRect) return null;
+
+  const selection: SnapRect = {
+    left: Math.min(...selectionRects.map((rect) => rect.left)),
+    top: Math.min(...selectionRects.map((rect) => rect.top)),
+    right: Math.max(...selectionRects.map((rect) => rect.right)),
+    bottom: Math.max(...selectionRects.map((rect) => rect.bottom)),
+  };
+
+  return (
+    <>
+      {measureDistances(selection, hoverRect, hoverNodeId).map((guide, i) => (
+        <SpacingGuide
+          key={i}
+          guide={guide}
+          transform={transform}
+          color={DISTANCE_COLOR}
+        />
+      ))}
+    </>
+  );
+};
 
 const SnapGuides: React.FC = () => {
   const { transform, dragState } = useBuilder();
+  const isAltPressed = useAltKey();
 
-  if (!dragState.isDragging || !dragState.snapGuides?.length) return null;
+  if (!dragState.isDragging) {
+    if (!isAltPressed) return null;
+    return (
+      <div className="absolute inset-0 pointer-events-none">
+        <DistanceGuides transform={transform} />
+      </div>
+    );
+  }
+
+  if (!dragState.snapGuides?.length) return null;
 
   return (
     <div className="absolute inset-0 pointer-events-none">
       {dragState.snapGuides.map((guide: SnapLine, i: number) => {
-        // 1) Spacing line with arrowheads
+        // 1) Equal spacing between neighbours
         if (guide.spacing) {
-          // horizontal arrow
-          if (
-            guide.orientation === "horizontal" &&
-            guide.x1 != null &&
-            guide.x2 != null &&
-            guide.y != null
-          ) {
-            const screenX1 = transform.x + guide.x1 * transform.scale;
-            const screenX2 = transform.x + guide.x2 * transform.scale;
-            const screenY = transform.y + guide.y * transform.scale;
-            const left = Math.min(screenX1, screenX2);
-            const right = Math.max(screenX1, screenX2);
-            const width = right - left;
-
-            return (
-              <React.Fragment key={i}>
-                {/* dashed line */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: left,
-                    top: screenY,
-                    width: width,
-                    height: "0px",
-                    borderTop: "1px dashed rgba(255,0,0,0.8)",
-                  }}
-                />
-                {/* arrowhead on the left side */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: left - 6, // a bit to the left
-                    top: screenY - 5,
-                    width: 0,
-                    height: 0,
-                    borderTop: "5px solid transparent",
-                    borderBottom: "5px solid transparent",
-                    borderRight: "6px solid rgba(255,0,0,0.8)",
-                  }}
-                />
-                {/* arrowhead on the right side */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: right,
-                    top: screenY - 5,
-                    width: 0,
-                    height: 0,
-                    borderTop: "5px solid transparent",
-                    borderBottom: "5px solid transparent",
-                    borderLeft: "6px solid rgba(255,0,0,0.8)",
-                  }}
-                />
-                {/* label in the middle */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: left + width / 2,
-                    top: screenY - 20,
-                    transform: "translateX(-50%)",
-                    background: "#fff",
-                    color: "#f00",
-                    fontSize: 10,
-                    padding: "2px 4px",
-                    borderRadius: 4,
-                    boxShadow: "0 1px 3px rgba(0,0,0,0.3)",
-                  }}
-                >
-                  {guide.spacing}px
-                </div>
-              </React.Fragment>
-            );
-          }
-          // vertical arrow
-          else if (
-            guide.orientation === "vertical" &&
-            guide.y1 != null &&
-            guide.y2 != null &&
-            guide.x != null
-          ) {
-            const screenX = transform.x + guide.x * transform.scale;
-            const screenY1 = transform.y + guide.y1 * transform.scale;
-            const screenY2 = transform.y + guide.y2 * transform.scale;
-            const top = Math.min(screenY1, screenY2);
-            const bottom = Math.max(screenY1, screenY2);
-            const height = bottom - top;
-
-            return (
-              <React.Fragment key={i}>
-                {/* dashed line */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: screenX,
-                    top: top,
-                    width: "0px",
-                    height: height,
-                    borderLeft: "1px dashed rgba(255,0,0,0.8)",
-                  }}
-                />
-                {/* arrowhead at the top */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: screenX - 5,
-                    top: top - 6,
-                    width: 0,
-                    height: 0,
-                    borderLeft: "5px solid transparent",
-                    borderRight: "5px solid transparent",
-                    borderBottom: "6px solid rgba(255,0,0,0.8)",
-                  }}
-                />
-                {/* arrowhead at the bottom */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: screenX - 5,
-                    top: bottom,
-                    width: 0,
-                    height: 0,
-                    borderLeft: "5px solid transparent",
-                    borderRight: "5px solid transparent",
-                    borderTop: "6px solid rgba(255,0,0,0.8)",
-                  }}
-                />
-                {/* label in the middle */}
-                <div
-                  style={{
-                    position: "absolute",
-                    left: screenX - 30, // place label to the left
-                    top: top + height / 2,
-                    transform: "translateY(-50%)",
-                    background: "#fff",
-                    color: "#f00",
-                    fontSize: 10,
-                    padding: "2px 4px",
-                    borderRadius: 4,
-                    boxShadow: "0 1px 3px rgba(0,0,0,0.3)",
-                  }}
-                >
-                  {guide.spacing}px
-                </div>
-              </React.Fragment>
-            );
-          }
-          return null;
+          return (
+            <SpacingGuide
+              key={i}
+              guide={guide}
+              transform={transform}
+              color={SPACING_COLOR}
+            />
+          );
         }
         // 2) normal alignment line
         else if (guide.position != null) {
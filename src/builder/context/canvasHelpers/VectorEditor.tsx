@@ -0,0 +1,417 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  Node,
+  Position,
+  VectorData,
+  VectorPoint,
+} from "@/builder/reducer/nodeDispatcher";
+import {
+  fitVector,
+  getPathData,
+  getVectorPaths,
+  mapVectorPaths,
+} from "@/builder/vector/vectorPath";
+
+type PointPart = "anchor" | "handleIn" | "handleOut";
+
+interface PointRef {
+  path: number;
+  point: number;
+}
+
+interface PointDrag extends PointRef {
+  part: PointPart;
+  node: Node;
+  element: HTMLElement;
+  startMouse: Position;
+  startVector: VectorData;
+}
+
+const ACCENT = "var(--accent)";
+
+const updatePoint = (
+  vector: VectorData,
+  { path, point }: PointRef,
+  update: (point: VectorPoint) => VectorPoint
+) =>
+  mapVectorPaths(vector, (current, index) =>
+    index === path
+      ? {
+          ...current,
+          points: current.points.map((p, i) => (i === point ? update(p) : p)),
+        }
+      : current
+  );
+
+const offset = (position: Position, dx: number, dy: number): Position => ({
+  x: position.x + dx,
+  y: position.y + dy,
+});
+
+// Move one part of a point. Anchors take their handles along; a handle turns
+// its twin to stay in line unless `breakMirror` (Alt) is held.
+const movePart = (
+  point: VectorPoint,
+  part: PointPart,
+  dx: number,
+  dy: number,
+  breakMirror: boolean
+): VectorPoint => {
+  if (part === "anchor") {
+    return {
+      ...offset(point, dx, dy),
+      ...(point.handleIn && { handleIn: offset(point.handleIn, dx, dy) }),
+      ...(point.handleOut && { handleOut: offset(point.handleOut, dx, dy) }),
+    };
+  }
+
+  const handle = offset(point[part]!, dx, dy);
+  const twinPart = part === "handleIn" ? "handleOut" : "handleIn";
+  const twin = point[twinPart];
+  if (!twin || breakMirror) return { ...point, [part]: handle };
+
+  const length = Math.hypot(handle.x - point.x, handle.y - point.y);
+  const twinLength = Math.hypot(twin.x - point.x, twin.y - point.y);
+  if (!length) return { ...point, [part]: handle };
+
+  return {
+    ...point,
+    [part]: handle,
+    [twinPart]: {
+      x: point.x - ((handle.x - point.x) / length) * twinLength,
+      y: point.y - ((handle.y - point.y) / length) * twinLength,
+    },
+  };
+};
+
+// Smooth points lose their handles; corners get handles along the line
+// between their neighbours, a third of the way to each
+const toggleSmooth = (
+  points: VectorPoint[],
+  index: number,
+  closed: boolean
+): VectorPoint => {
+  const point = points[index];
+  if (point.handleIn || point.handleOut) return { x: point.x, y: point.y };
+
+  const at = (i: number) =>
+    closed ? points[(i + points.length) % points.length] : points[i];
+  const prev = at(index - 1) || point;
+  const next = at(index + 1) || point;
+  const dx = next.x - prev.x;
+  const dy = next.y - prev.y;
+  const length = Math.hypot(dx, dy);
+  if (!length) return point;
+
+  const inLength = Math.hypot(point.x - prev.x, point.y - prev.y) / 3;
+  const outLength = Math.hypot(next.x - point.x, next.y - point.y) / 3;
+  return {
+    ...point,
+    ...(inLength && {
+      handleIn: offset(
+        point,
+        (-dx / length) * inLength,
+        (-dy / length) * inLength
+      ),
+    }),
+    ...(outLength && {
+      handleOut: offset(
+        point,
+        (dx / length) * outLength,
+        (dy / length) * outLength
+      ),
+    }),
+  };
+};
+
+// Canvas pixels per vector unit, from the node's unscaled layout box
+const getUnits = (vector: VectorData, element: HTMLElement) => ({
+  x: element.offsetWidth / vector.width,
+  y: element.offsetHeight / vector.height,
+});
+
+// Edited points with the node's box fitted around them again
+const fitNodeVector = (node: Node, element: HTMLElement, next: VectorData) => {
+  const units = getUnits(node.vector!, element);
+  const { vector, offset: shift } = fitVector(next);
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const style: React.CSSProperties = {
+    width: `${round(vector.width * units.x)}px`,
+    height: `${round(vector.height * units.y)}px`,
+  };
+  if (node.style.position === "absolute") {
+    style.left = `${round(
+      (parseFloat(String(node.style.left)) || 0) + shift.x * units.x
+    )}px`;
+    style.top = `${round(
+      (parseFloat(String(node.style.top)) || 0) + shift.y * units.y
+    )}px`;
+  }
+  return { vector, style };
+};
+
+/**
+ * Anchors and handles of the spline node being edited, drawn over the
+ * canvas. Dragging moves them; the node's box is fitted to the points again
+ * when the drag ends.
+ */
+export const VectorEditor = () => {
+  const {
+    containerRef,
+    transform,
+    nodeState,
+    nodeDisp,
+    dragState,
+    interfaceState,
+    interfaceDisp,
+    startRecording,
+    stopRecording,
+  } = useBuilder();
+  const [selected, setSelected] = useState<PointRef | null>(null);
+  const [drag, setDrag] = useState<PointDrag | null>(null);
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const draggedVectorRef = useRef<VectorData | null>(null);
+
+  const editingId = interfaceState.editingVectorId;
+  const node = editingId
+    ? nodeState.nodes.find((n) => n.id === editingId)
+    : undefined;
+  const vector = node?.type === "spline" ? node.vector : undefined;
+  const element = editingId
+    ? (document.querySelector(
+        `[data-node-id="${editingId}"]`
+      ) as HTMLElement | null)
+    : null;
+  const dynamicModeNodeId = dragState.dynamicModeNodeId as string | null;
+
+  // Stop editing once the node is gone or no longer selected
+  useEffect(() => {
+    if (!editingId) return;
+    if (!vector || !dragState.selectedIds.includes(editingId)) {
+      interfaceDisp.setEditingVector(null);
+      setSelected(null);
+    }
+  }, [editingId, vector, dragState.selectedIds, interfaceDisp]);
+
+  // Save edited points, fitting the node's box around them
+  const commitVector = useCallback(
+    (target: Node, box: HTMLElement, next: VectorData) => {
+      const { vector, style } = fitNodeVector(target, box, next);
+      nodeDisp.updateNodeVector(target.id, vector, style, dynamicModeNodeId);
+    },
+    [nodeDisp, dynamicModeNodeId]
+  );
+
+  useEffect(() => {
+    if (!drag) return;
+    const units = getUnits(drag.startVector, drag.element);
+
+    const handleMouseMove = (e: MouseEvent) => {
+      e.preventDefault();
+      const dx = (e.clientX - drag.startMouse.x) / transform.scale / units.x;
+      const dy = (e.clientY - drag.startMouse.y) / transform.scale / units.y;
+      const next = updatePoint(drag.startVector, drag, (point) =>
+        movePart(point, drag.part, dx, dy, e.altKey)
+      );
+      draggedVectorRef.current = next;
+      nodeDisp.updateNodeVector(
+        drag.node.id,
+        next,
+        undefined,
+        dynamicModeNodeId
+      );
+    };
+
+    const handleMouseUp = () => {
+      if (draggedVectorRef.current) {
+        commitVector(drag.node, drag.element, draggedVectorRef.current);
+      }
+      draggedVectorRef.current = null;
+      setDrag(null);
+      // Stopped once the fitted node has rendered, so it lands in the entry
+      setPendingSessionId(sessionIdRef.current);
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [drag, nodeDisp, dynamicModeNodeId, transform.scale, commitVector]);
+
+  useEffect(() => {
+    if (!pendingSessionId) return;
+    stopRecording(pendingSessionId);
+    sessionIdRef.current = null;
+    setPendingSessionId(null);
+  }, [pendingSessionId, stopRecording]);
+
+  // Capture phase, so Delete removes the point rather than the node
+  useEffect(() => {
+    if (!node || !element || !vector) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select, [contenteditable]")) return;
+
+      if (e.key === "Escape" || e.key === "Enter") {
+        e.preventDefault();
+        e.stopPropagation();
+        interfaceDisp.setEditingVector(null);
+        setSelected(null);
+        return;
+      }
+      if ((e.key !== "Delete" && e.key !== "Backspace") || !selected) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      const path = getVectorPaths(vector)[selected.path];
+      // A path needs two points to be drawn at all
+      if (!path || path.points.length <= 2) return;
+
+      commitVector(
+        node,
+        element,
+        mapVectorPaths(vector, (current, index) =>
+          index === selected.path
+            ? {
+                ...current,
+                points: current.points.filter((_, i) => i !== selected.point),
+              }
+            : current
+        )
+      );
+      setSelected(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [node, element, vector, selected, interfaceDisp, commitVector]);
+
+  const containerRect = containerRef.current?.getBoundingClientRect();
+  if (!node || !vector || !element || !containerRect) return null;
+
+  const rect = element.getBoundingClientRect();
+  const toScreen = ({ x, y }: Position): Position => ({
+    x: rect.left - containerRect.left + (x / vector.width) * rect.width,
+    y: rect.top - containerRect.top + (y / vector.height) * rect.height,
+  });
+  const paths = getVectorPaths(vector);
+
+  const startDrag = (e: React.MouseEvent, ref: PointRef, part: PointPart) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setSelected(ref);
+    sessionIdRef.current = startRecording();
+    setDrag({
+      ...ref,
+      part,
+      node,
+      element,
+      startMouse: { x: e.clientX, y: e.clientY },
+      startVector: vector,
+    });
+  };
+
+  const handleAnchorDoubleClick = (e: React.MouseEvent, ref: PointRef) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const path = paths[ref.path];
+    commitVector(
+      node,
+      element,
+      updatePoint(vector, ref, () =>
+        toggleSmooth(path.points, ref.point, path.closed)
+      )
+    );
+  };
+
+  return (
+    <svg
+      className="absolute inset-0 pointer-events-none"
+      width="100%"
+      height="100%"
+      style={{ zIndex: 1001, overflow: "visible" }}
+    >
+      {paths.map((path, pathIndex) => (
+        <g key={pathIndex}>
+          <path
+            d={getPathData({
+              ...path,
+              points: path.points.map((point): VectorPoint => ({
+                ...toScreen(point),
+                ...(point.handleIn && {
+                  handleIn: toScreen(point.handleIn),
+                }),
+                ...(point.handleOut && {
+                  handleOut: toScreen(point.handleOut),
+                }),
+              })),
+            })}
+            fill="none"
+            stroke={ACCENT}
+            strokeWidth={1}
+          />
+          {path.points.map((point, pointIndex) => {
+            const ref = { path: pathIndex, point: pointIndex };
+            const anchor = toScreen(point);
+            const isSelected =
+              selected?.path === pathIndex && selected.point === pointIndex;
+
+            return (
+              <g
+                key={pointIndex}
+                className="pointer-events-auto"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {(["handleIn", "handleOut"] as const).map((part) => {
+                  const handle = point[part];
+                  if (!handle) return null;
+                  const position = toScreen(handle);
+                  return (
+                    <g key={part}>
+                      <line
+                        x1={anchor.x}
+                        y1={anchor.y}
+                        x2={position.x}
+                        y2={position.y}
+                        stroke={ACCENT}
+                        strokeWidth={1}
+                      />
+                      <circle
+                        cx={position.x}
+                        cy={position.y}
+                        r={3.5}
+                        fill="white"
+                        stroke={ACCENT}
+                        style={{ cursor: "move" }}
+                        onMouseDown={(e) => startDrag(e, ref, part)}
+                      />
+                    </g>
+                  );
+                })}
+                <rect
+                  x={anchor.x - 4}
+                  y={anchor.y - 4}
+                  width={8}
+                  height={8}
+                  fill={isSelected ? ACCENT : "white"}
+                  stroke={ACCENT}
+                  style={{ cursor: "move" }}
+                  onMouseDown={(e) => startDrag(e, ref, "anchor")}
+                  onDoubleClick={(e) => handleAnchorDoubleClick(e, ref)}
+                />
+              </g>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default VectorEditor;
@@ -7,6 +7,7 @@ import {
 } from "../utils";
 import { nanoid } from "nanoid";
 import { createPlaceholder } from "./createPlaceholder";
+import { elementRegistry } from "@/builder/registry";
 
 export const useDragStart = () => {
   const {
@@ -123,6 +124,13 @@ export const useDragStart = () => {
     dragDisp.setRecordingSessionId(sessionId);
 
     if (fromToolbarType) {
+      const defaultProps = elementRegistry.find(
+        (element) => element.type === fromToolbarType
+      )?.defaultProps;
+      // Splines and shapes bring their geometry, fill and stroke along
+      const drawingDefaults =
+        defaultProps?.vector || defaultProps?.shape ? defaultProps : null;
+
       const newNode: Node = {
         id: nanoid(),
         type: fromToolbarType,
@@ -132,7 +140,10 @@ export const useDragStart = () => {
           position: "fixed",
           backgroundColor: fromToolbarType === "frame" ? "gray" : undefined,
           flex: "0 0 auto",
+          ...drawingDefaults?.style,
         },
+        ...(drawingDefaults?.vector && { vector: drawingDefaults.vector }),
+        ...(drawingDefaults?.shape && { shape: drawingDefaults.shape }),
         inViewport: true,
         parentId: null,
       };
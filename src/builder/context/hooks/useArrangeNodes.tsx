@@ -0,0 +1,138 @@
+import { useCallback, useMemo } from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { isAbsoluteInFrame } from "@/builder/context/utils";
+import { Node, NodeArrangePosition } from "@/builder/reducer/nodeDispatcher";
+import {
+  ArrangeAction,
+  ArrangeRect,
+  getArrangeMoves,
+  getBounds,
+} from "@/builder/arrange/arrangeRects";
+
+const getElement = (nodeId: string | number) =>
+  document.querySelector<HTMLElement>(`[data-node-id="${nodeId}"]`);
+
+// Rects in unscaled canvas pixels, so moves can be added to left/top
+const measure = (
+  element: HTMLElement,
+  scale: number
+): Omit<ArrangeRect, "id"> => {
+  const rect = element.getBoundingClientRect();
+  return {
+    left: rect.left / scale,
+    top: rect.top / scale,
+    width: rect.width / scale,
+    height: rect.height / scale,
+  };
+};
+
+const getParentBounds = (node: Node, scale: number) => {
+  const parent = node.parentId != null ? getElement(node.parentId) : null;
+  if (!parent) return undefined;
+  const rect = measure(parent, scale);
+  return {
+    left: rect.left + parent.clientLeft,
+    top: rect.top + parent.clientTop,
+    width: parent.clientWidth,
+    height: parent.clientHeight,
+  };
+};
+
+// Only nodes placed with left/top can be moved around freely: absolutely
+// positioned nodes inside frames, and frames sitting on the canvas itself
+export const canArrangeNode = (node: Node) =>
+  !node.isViewport &&
+  !node.isLocked &&
+  node.type !== "placeholder" &&
+  (isAbsoluteInFrame(node) || node.parentId == null);
+
+export const useArrangeNodes = () => {
+  const { nodeState, nodeDisp, dragState, transform } = useBuilder();
+
+  const nodes = useMemo(
+    () =>
+      dragState.selectedIds
+        .map((id) => nodeState.nodes.find((node) => node.id === id))
+        .filter((node): node is Node => !!node && canArrangeNode(node)),
+    [dragState.selectedIds, nodeState.nodes]
+  );
+
+  // A lone node inside a frame is aligned to the frame
+  const alignsToParent = nodes.length === 1 && isAbsoluteInFrame(nodes[0]);
+  const canAlign = nodes.length > 1 || alignsToParent;
+  const canDistribute = nodes.length > 2;
+  const canTidyUp = nodes.length > 1;
+
+  // Stable between renders with the same selection, so keyboard handlers
+  // depending on them are not re-registered on every builder render
+  const canRun = useCallback(
+    (action: ArrangeAction) => {
+      switch (action.type) {
+        case "align":
+          return canAlign;
+        case "distribute":
+          return canDistribute;
+        case "tidyUp":
+          return canTidyUp;
+      }
+    },
+    [canAlign, canDistribute, canTidyUp]
+  );
+
+  const arrange = useCallback(
+    (action: ArrangeAction) => {
+      if (!canRun(action)) return;
+
+      const rects = nodes.flatMap((node): ArrangeRect[] => {
+        const element = getElement(node.id);
+        return element
+          ? [{ id: String(node.id), ...measure(element, transform.scale) }]
+          : [];
+      });
+      if (rects.length !== nodes.length) return;
+
+      const bounds = alignsToParent
+        ? getParentBounds(nodes[0], transform.scale)
+        : getBounds(rects);
+      const positions = getArrangeMoves(action, rects, bounds)
+        .filter((move) => Math.round(move.dx) || Math.round(move.dy))
+        .map((move): NodeArrangePosition => {
+          const node = nodes.find((n) => String(n.id) === move.id)!;
+          return {
+            id: node.id,
+            left: Math.round(
+              (parseFloat(node.style.left as string) || 0) + move.dx
+            ),
+            top: Math.round(
+              (parseFloat(node.style.top as string) || 0) + move.dy
+            ),
+          };
+        });
+      if (!positions.length) return;
+
+      const dynamicModeNodeId = dragState.dynamicModeNodeId as string | null;
+
+      switch (action.type) {
+        case "align":
+          nodeDisp.alignNodes(positions, dynamicModeNodeId);
+          break;
+        case "distribute":
+          nodeDisp.distributeNodes(positions, dynamicModeNodeId);
+          break;
+        case "tidyUp":
+          nodeDisp.tidyUpNodes(positions, dynamicModeNodeId);
+          break;
+      }
+    },
+    [
+      canRun,
+      nodes,
+      alignsToParent,
+      transform.scale,
+      dragState.dynamicModeNodeId,
+      nodeDisp,
+    ]
+  );
+
+  return { canAlign, canDistribute, canTidyUp, canRun, arrange };
+};
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
+import { Node, NodeDispatcher } from "../../reducer/nodeDispatcher";
+import {
+  getChangedNodeIds,
+  getSharedNodes,
+  getSyncedNodes,
+  LOCAL_ORIGIN,
+  readSharedNodes,
+  writeSharedNodes,
+} from "../../collab/sharedNodes";
+import {
+  CollabPeer,
+  CollabPresence,
+  getCollabUser,
+} from "../../collab/presence";
+
+// Relay every client of a project connects to (`npm run collab` starts one
+// locally). Multiplayer is off when it isn't set.
+const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL;
+
+export type CollabStatus = "off" | "connecting" | "connected" | "disconnected";
+
+const getPeers = (provider: WebsocketProvider): CollabPeer[] =>
+  Array.from(provider.awareness.getStates().entries())
+    .filter(
+      ([clientId, state]) =>
+        clientId !== provider.awareness.clientID && state.user
+    )
+    .map(([clientId, state]) => ({
+      clientId,
+      user: state.user,
+      cursor: state.cursor || null,
+      selectedIds: state.selectedIds || [],
+    }));
+
+/**
+ * Share the active page's nodes with everyone who has it open, through a Yjs
+ * document per page. Local updates are written into the document as they
+ * land; collaborators' edits come back through `nodeDisp.applyRemoteNodes`,
+ * which the undo history ignores.
+ */
+export function useCollaboration({
+  projectId,
+  pageId,
+  isProjectLoaded,
+  nodes,
+  nodeDisp,
+  selectedIds,
+}: {
+  projectId: string;
+  pageId: string;
+  isProjectLoaded: boolean;
+  nodes: Node[];
+  nodeDisp: NodeDispatcher;
+  selectedIds: (string | number)[];
+}) {
+  const [provider, setProvider] = useState<WebsocketProvider | null>(null);
+  const [status, setStatus] = useState<CollabStatus>(
+    COLLAB_URL ? "connecting" : "off"
+  );
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+
+  // The nodes as last written to or read from the document; null until the
+  // first sync, while the document doesn't hold the page yet
+  const syncedNodesRef = useRef<Node[] | null>(null);
+  const nodesRef = useRef(nodes);
+  nodesRef.current = nodes;
+
+  useEffect(() => {
+    if (!COLLAB_URL || !isProjectLoaded) return;
+
+    const doc = new Y.Doc();
+    const wsProvider = new WebsocketProvider(
+      COLLAB_URL,
+      `${projectId}:${pageId}`,
+      doc
+    );
+    const { nodes: sharedNodes, order } = getSharedNodes(doc);
+    let changedIds = new Set<string>();
+    let orderChanged = false;
+
+    const applyRemoteNodes = () => {
+      const remoteNodes = readSharedNodes(
+        doc,
+        syncedNodesRef.current || [],
+        changedIds
+      );
+      changedIds = new Set();
+      orderChanged = false;
+      syncedNodesRef.current = remoteNodes;
+      nodeDisp.applyRemoteNodes(remoteNodes);
+    };
+
+    const handleSync = (isSynced: boolean) => {
+      if (!isSynced || syncedNodesRef.current) return;
+      if (sharedNodes.size === 0) {
+        // First one in the room: the page as it is here becomes the shared one
+        const localNodes = getSyncedNodes(nodesRef.current);
+        writeSharedNodes(doc, [], localNodes);
+        syncedNodesRef.current = localNodes;
+      } else {
+        applyRemoteNodes();
+      }
+    };
+
+    const handleNodesChange = (
+      events: Y.YEvent<Y.AbstractType<unknown>>[],
+      transaction: Y.Transaction
+    ) => {
+      if (transaction.origin === LOCAL_ORIGIN) return;
+      getChangedNodeIds(sharedNodes, events).forEach((id) =>
+        changedIds.add(id)
+      );
+    };
+
+    const handleOrderChange = (
+      _event: Y.YArrayEvent<string>,
+      transaction: Y.Transaction
+    ) => {
+      if (transaction.origin !== LOCAL_ORIGIN) orderChanged = true;
+    };
+
+    // Observers run first, so a transaction is applied once with all of
+    // its changes
+    const handleTransaction = (transaction: Y.Transaction) => {
+      if (transaction.origin === LOCAL_ORIGIN || !syncedNodesRef.current) {
+        return;
+      }
+      if (changedIds.size || orderChanged) applyRemoteNodes();
+    };
+
+    const handleStatus = ({ status }: { status: CollabStatus }) =>
+      setStatus(status);
+
+    const handleAwarenessChange = () => setPeers(getPeers(wsProvider));
+
+    sharedNodes.observeDeep(handleNodesChange);
+    order.observe(handleOrderChange);
+    doc.on("afterTransaction", handleTransaction);
+    wsProvider.on("sync", handleSync);
+    wsProvider.on("status", handleStatus);
+    wsProvider.awareness.on("change", handleAwarenessChange);
+    wsProvider.awareness.setLocalState({
+      user: getCollabUser(),
+      cursor: null,
+      selectedIds: [],
+    } satisfies CollabPresence);
+    setProvider(wsProvider);
+
+    return () => {
+      sharedNodes.unobserveDeep(handleNodesChange);
+      order.unobserve(handleOrderChange);
+      doc.off("afterTransaction", handleTransaction);
+      wsProvider.awareness.off("change", handleAwarenessChange);
+      wsProvider.destroy();
+      doc.destroy();
+      syncedNodesRef.current = null;
+      setProvider(null);
+      setPeers([]);
+      setStatus("connecting");
+    };
+  }, [projectId, pageId, isProjectLoaded, nodeDisp]);
+
+  // Local edits, written once React has applied them
+  useEffect(() => {
+    if (!provider || !syncedNodesRef.current) return;
+    const localNodes = getSyncedNodes(nodes);
+    writeSharedNodes(provider.doc, syncedNodesRef.current, localNodes);
+    syncedNodesRef.current = localNodes;
+  }, [provider, nodes]);
+
+  useEffect(() => {
+    provider?.awareness.setLocalStateField(
+      "selectedIds",
+      selectedIds.map(String)
+    );
+  }, [provider, selectedIds]);
+
+  const updateCursor = useCallback(
+    (cursor: CollabPresence["cursor"]) =>
+      provider?.awareness.setLocalStateField("cursor", cursor),
+    [provider]
+  );
+
+  return { status, peers, updateCursor };
+}
@@ -0,0 +1,98 @@
+import { useBuilder } from "@/builder/context/builderState";
+import { Node } from "@/builder/reducer/nodeDispatcher";
+import {
+  findComponentRoot,
+  getComponentMasters,
+  getProjectNodes,
+  getViewportId,
+} from "@/builder/library/componentSync";
+
+export const useComponentActions = () => {
+  const {
+    nodeState,
+    nodeDisp,
+    dragState,
+    dragDisp,
+    containerRef,
+    setTransform,
+    pageState,
+    switchPage,
+  } = useBuilder();
+
+  const nodesById = new Map(nodeState.nodes.map((node) => [node.id, node]));
+
+  // Pan the canvas so the node's element sits in the middle of it
+  const centerOnNode = (nodeId: string) => {
+    const element = document.querySelector(`[data-node-id="${nodeId}"]`);
+    const container = containerRef.current;
+    if (!element || !container) return;
+
+    const rect = element.getBoundingClientRect();
+    const bounds = container.getBoundingClientRect();
+    const dx = bounds.left + bounds.width / 2 - (rect.left + rect.width / 2);
+    const dy = bounds.top + bounds.height / 2 - (rect.top + rect.height / 2);
+    setTransform((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  /**
+   * Select and show the master of a component, preferring its copy in the
+   * viewport of `fromNode` when given. Masters on another page open that
+   * page first.
+   */
+  const goToMaster = (componentId: string, fromNode?: Node) => {
+    const isMaster = (node: Node) =>
+      !!node.isComponentMaster && node.componentId === componentId;
+    const page = nodeState.nodes.some(isMaster)
+      ? null
+      : pageState.pages.find((p) => p.nodes.some(isMaster));
+    const pageNodes = page ? page.nodes : nodeState.nodes;
+    const masters = pageNodes.filter(isMaster);
+    if (masters.length === 0) return;
+
+    // Viewports are shared by every page, so their ids match across pages
+    const pageNodesById = new Map(pageNodes.map((node) => [node.id, node]));
+    const viewportId = fromNode ? getViewportId(fromNode, nodesById) : null;
+    const master =
+      masters.find(
+        (node) => getViewportId(node, pageNodesById) === viewportId
+      ) || masters[0];
+
+    if (page) switchPage(page.id);
+    dragDisp.setSelectedIds([master.id]);
+    // A page that was just opened renders its nodes first
+    requestAnimationFrame(() => centerOnNode(master.id));
+  };
+
+  /**
+   * New instances land in the selected frame, or in the widest viewport when
+   * nothing that can hold one is selected.
+   */
+  const insertInstance = (componentId: string) => {
+    const master = getComponentMasters(
+      getProjectNodes(pageState, nodeState.nodes)
+    ).find((node) => node.componentId === componentId);
+    if (!master) return;
+
+    const selected = nodesById.get(String(dragState.selectedIds[0]));
+    const canHoldInstance =
+      selected &&
+      (selected.isViewport ||
+        (selected.type === "frame" &&
+          !findComponentRoot(selected, nodeState.nodes)));
+
+    let parentId = canHoldInstance ? selected.id : null;
+    if (!parentId) {
+      const viewports = nodeState.nodes
+        .filter((node) => node.isViewport)
+        .sort((a, b) => (b.viewportWidth || 0) - (a.viewportWidth || 0));
+      parentId = viewports[0]?.id || null;
+    }
+    if (!parentId) return;
+
+    dragDisp.setSelectedIds([
+      nodeDisp.insertComponentInstance(master, parentId),
+    ]);
+  };
+
+  return { goToMaster, insertInstance, centerOnNode };
+};
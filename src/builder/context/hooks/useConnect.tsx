@@ -14,6 +14,7 @@ export const useConnect = () => {
     selectedIdsRef,
     isFrameModeActive,
     isTextModeActive,
+    activeShapeTool,
     interfaceDisp,
     isMoveCanvasMode,
     setNodeStyle,
@@ -139,6 +140,7 @@ export const useConnect = () => {
           e.button === 2 ||
           isFrameModeActive ||
           isTextModeActive ||
+          activeShapeTool ||
           isEditingText
         ) {
           return;
@@ -446,8 +448,26 @@ export const useConnect = () => {
         }
       };
 
+      // The interaction state being edited is shown over the normal style,
+      // keeping the node where it is
+      const stateStyle =
+        dragState.dynamicState !== "normal"
+          ? node.dynamicState?.[dragState.dynamicState]
+          : undefined;
+      const style = stateStyle
+        ? {
+            ...node.style,
+            ...stateStyle,
+            position: node.style.position,
+            left: node.style.left,
+            top: node.style.top,
+            right: node.style.right,
+            bottom: node.style.bottom,
+          }
+        : node.style;
+
       const { border, borderWidth, borderStyle, borderColor, ...otherStyles } =
-        node.style || {};
+        style || {};
 
       const hasBorder = border || borderWidth || borderStyle || borderColor;
 
@@ -470,7 +490,7 @@ export const useConnect = () => {
             border-width: ${borderWidth || 0};
             border-style: ${borderStyle || "solid"};
             border-color: ${borderColor || "transparent"};
-            border-radius: ${node.style.borderRadius || 0};
+            border-radius: ${style.borderRadius || 0};
             pointer-events: none;
             z-index: 1;
             box-sizing: border-box;
@@ -488,20 +508,7 @@ export const useConnect = () => {
         onMouseOver: handleMouseOver,
         onMouseOut: handleMouseOut,
         draggable: false,
-        style: {
-          ...otherStyles,
-          ...(dragState.dynamicState === "hovered" && node.dynamicState?.hovered
-            ? {
-                ...node.dynamicState.hovered,
-                // Override with original position values
-                position: node.style.position,
-                left: node.style.left,
-                top: node.style.top,
-                right: node.style.right,
-                bottom: node.style.bottom,
-              }
-            : {}),
-        },
+        style: otherStyles,
       };
     },
     [
@@ -519,6 +526,7 @@ export const useConnect = () => {
       isFrameModeActive,
       isMoveCanvasMode,
       isTextModeActive,
+      activeShapeTool,
       findDynamicParentInSameViewport,
       getNodeViewportId,
       setNodeStyle,
@@ -1,6 +1,13 @@
 // hooks/useCursorManager.ts
 import { useEffect, useState } from "react";
 import { useBuilder } from "@/builder/context/builderState";
+import { ShapeType } from "@/builder/reducer/nodeDispatcher";
+
+const SHAPE_SHORTCUTS: Record<string, ShapeType> = {
+  r: "rectangle",
+  o: "ellipse",
+  l: "line",
+};
 
 // Define preventSelectStyle as a constant
 const preventSelectStyle = {
@@ -15,8 +22,14 @@ export const useCursorManager = () => {
     isFrameModeActive,
     isTextModeActive,
     isMoveCanvasMode, // Add this from the BuilderContext
+    isCommentModeActive,
+    isPenModeActive,
+    activeShapeTool,
     setIsFrameModeActive,
     setIsTextModeActive,
+    setIsPenModeActive,
+    setActiveShapeTool,
+    isEditingText,
     dragState,
     isMovingCanvas,
     isResizing,
@@ -38,12 +51,14 @@ export const useCursorManager = () => {
       if (isOverToolbar) {
         // When over toolbars, use default cursor
         document.body.style.cursor = "default";
-      } else if (isFrameModeActive) {
+      } else if (isFrameModeActive || activeShapeTool) {
         document.body.style.cursor = "crosshair";
         Object.assign(document.body.style, preventSelectStyle);
       } else if (isTextModeActive) {
         document.body.style.cursor = "text";
         Object.assign(document.body.style, preventSelectStyle);
+      } else if (isCommentModeActive || isPenModeActive) {
+        document.body.style.cursor = "crosshair";
       } else if (isMoveCanvasMode) {
         // When in move canvas mode but not actively moving
         document.body.style.cursor = isMovingCanvas ? "grabbing" : "grab";
@@ -59,11 +74,13 @@ export const useCursorManager = () => {
     };
 
     // Initial cursor setup based on current state
-    if (isFrameModeActive || isTextModeActive) {
+    if (isFrameModeActive || isTextModeActive || activeShapeTool) {
       // Apply initial drawing cursor, but it will be overridden
       // by the mouse move handler if over toolbars
-      document.body.style.cursor = isFrameModeActive ? "crosshair" : "text";
+      document.body.style.cursor = isTextModeActive ? "text" : "crosshair";
       Object.assign(document.body.style, preventSelectStyle);
+    } else if (isCommentModeActive || isPenModeActive) {
+      document.body.style.cursor = "crosshair";
     } else if (isMoveCanvasMode) {
       // Set grab cursor when in move canvas mode
       document.body.style.cursor = isMovingCanvas ? "grabbing" : "grab";
@@ -96,6 +113,9 @@ export const useCursorManager = () => {
     isFrameModeActive,
     isTextModeActive,
     isMoveCanvasMode, // Add this dependency
+    isCommentModeActive,
+    isPenModeActive,
+    activeShapeTool,
     isMovingCanvas,
     isResizing,
     isRotating,
@@ -105,12 +125,37 @@ export const useCursorManager = () => {
   // Handle keyboard shortcuts for drawing modes
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === "f" && !e.repeat) {
+      const key = e.key.toLowerCase();
+      const isToolShortcut =
+        !e.repeat &&
+        !e.metaKey &&
+        !e.ctrlKey &&
+        !isEditingText &&
+        !(e.target as HTMLElement).closest("input, textarea, select");
+
+      if (key === "f" && !e.repeat) {
         setIsFrameModeActive(true);
         setIsTextModeActive(false);
-      } else if (e.key.toLowerCase() === "t" && !e.repeat) {
+        setActiveShapeTool(null);
+      } else if (key === "t" && !e.repeat) {
         setIsTextModeActive(true);
         setIsFrameModeActive(false);
+        setActiveShapeTool(null);
+      } else if (key === "p" && isToolShortcut) {
+        // The pen places points with clicks, so P toggles it instead of
+        // being held down
+        setIsPenModeActive((active) => !active);
+        setIsFrameModeActive(false);
+        setIsTextModeActive(false);
+        setActiveShapeTool(null);
+      } else if (SHAPE_SHORTCUTS[key] && isToolShortcut && !e.altKey) {
+        // Shapes stay armed until one is drawn
+        setActiveShapeTool((tool) =>
+          tool === SHAPE_SHORTCUTS[key] ? null : SHAPE_SHORTCUTS[key]
+        );
+        setIsPenModeActive(false);
+        setIsFrameModeActive(false);
+        setIsTextModeActive(false);
       }
     };
 
@@ -129,11 +174,21 @@ export const useCursorManager = () => {
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
     };
-  }, [setIsFrameModeActive, setIsTextModeActive]);
+  }, [
+    setIsFrameModeActive,
+    setIsTextModeActive,
+    setIsPenModeActive,
+    setActiveShapeTool,
+    isEditingText,
+  ]);
 
   // Return any values that might be needed by components using this hook
   return {
-    isDrawingMode: isFrameModeActive || isTextModeActive,
+    isDrawingMode:
+      isFrameModeActive ||
+      isTextModeActive ||
+      isPenModeActive ||
+      !!activeShapeTool,
     isMoveMode: isMoveCanvasMode,
   };
 };
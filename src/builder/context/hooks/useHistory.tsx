@@ -1,25 +1,245 @@
 import { produce, enablePatches, applyPatches, Patch } from "immer";
 import { useState, useCallback, useRef } from "react";
-import { NodeState } from "../../reducer/nodeDispatcher";
+import { nanoid } from "nanoid";
+import { Node, NodeState } from "../../reducer/nodeDispatcher";
+import {
+  emptyHistory,
+  getHistoryLabel,
+  HistoryEntry,
+  HistoryMethod,
+  isLabelledMethod,
+  MAX_HISTORY_ENTRIES,
+  NodeHistory,
+  UNRECORDED_METHODS,
+} from "../../history/historyEntries";
 
 enablePatches();
 
-interface HistoryState {
-  past: Patch[][];
-  future: Patch[][];
-}
-
 interface RecordingSession {
   id: string;
   startState: NodeState;
+  // Dispatcher methods that ran while recording, used for the label
+  methods: HistoryMethod[];
 }
 
+// History patches address nodes by id and touch only the fields (and style
+// properties) an edit changed, so undoing a local edit leaves whatever
+// collaborators added or changed since in place. Order is kept per parent.
+interface KeyedNodeState {
+  byId: Record<string, Node>;
+  siblings: Record<string, string[]>;
+}
+
+const getParentKey = (node: Node) => String(node.parentId ?? "");
+
+const toKeyed = (state: NodeState): KeyedNodeState => {
+  const siblings: Record<string, string[]> = {};
+  state.nodes.forEach((node) => {
+    const key = getParentKey(node);
+    if (!siblings[key]) siblings[key] = [];
+    siblings[key].push(node.id);
+  });
+  return {
+    byId: Object.fromEntries(state.nodes.map((node) => [node.id, node])),
+    siblings,
+  };
+};
+
+/**
+ * Back to a node array, keeping the current array order where it can. Each
+ * parent's children fill the slots they occupy in the order of its sibling
+ * list; children the list doesn't know (added by someone else) go last.
+ */
+const fromKeyed = (
+  { byId, siblings }: KeyedNodeState,
+  currentIds: string[]
+): NodeState => {
+  const current = new Set(currentIds);
+  const ids = [
+    ...currentIds.filter((id) => byId[id]),
+    ...Object.keys(byId).filter((id) => !current.has(id)),
+  ];
+
+  const slotsByParent = new Map<string, number[]>();
+  ids.forEach((id, index) => {
+    const key = getParentKey(byId[id]);
+    const slots = slotsByParent.get(key) || [];
+    slots.push(index);
+    slotsByParent.set(key, slots);
+  });
+
+  const ordered = [...ids];
+  slotsByParent.forEach((slots, key) => {
+    const children = slots.map((slot) => ids[slot]);
+    const childIds = new Set(children);
+    const listed = new Set(
+      (siblings[key] || []).filter((id) => childIds.has(id))
+    );
+    [...listed, ...children.filter((id) => !listed.has(id))].forEach(
+      (id, index) => {
+        ordered[slots[index]] = id;
+      }
+    );
+  });
+
+  return { nodes: ordered.map((id) => byId[id]) };
+};
+
+// Patches for nodes someone else deleted since are skipped
+const applyHistoryPatches = (state: NodeState, patches: Patch[]) => {
+  const keyed = toKeyed(state);
+  const ids = new Set(Object.keys(keyed.byId));
+  const applicable = patches.filter(({ op, path }) => {
+    if (path[0] !== "byId") return true;
+    const id = String(path[1]);
+    if (path.length > 2) return ids.has(id);
+    if (op === "remove") {
+      ids.delete(id);
+    } else {
+      ids.add(id);
+    }
+    return true;
+  });
+  return fromKeyed(
+    applyPatches(keyed, applicable),
+    state.nodes.map((node) => node.id)
+  );
+};
+
+// Recording sessions compare against a deep copy, so objects are compared
+// by content
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (typeof a === "object" &&
+    typeof b === "object" &&
+    JSON.stringify(a) === JSON.stringify(b));
+
+const setValue = (
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+) => {
+  if (value === undefined) {
+    delete target[key];
+  } else {
+    target[key] = value;
+  }
+};
+
+const getPatches = (prevState: NodeState, nextState: NodeState) => {
+  let patches: Patch[] = [];
+  let inversePatches: Patch[] = [];
+  const prev = toKeyed(prevState);
+  const next = toKeyed(nextState);
+
+  produce(
+    prev,
+    (draft) => {
+      Object.keys(draft.byId).forEach((id) => {
+        if (!next.byId[id]) delete draft.byId[id];
+      });
+      Object.entries(next.byId).forEach(([id, node]) => {
+        const prevNode = prev.byId[id];
+        if (!prevNode) {
+          draft.byId[id] = node;
+          return;
+        }
+        if (prevNode === node) return;
+
+        const before = prevNode as unknown as Record<string, unknown>;
+        const after = node as unknown as Record<string, unknown>;
+        const target = draft.byId[id] as unknown as Record<string, unknown>;
+        new Set([...Object.keys(before), ...Object.keys(after)]).forEach(
+          (key) => {
+            if (key === "style" && before.style && after.style) {
+              const prevStyle = before.style as Record<string, unknown>;
+              const nextStyle = after.style as Record<string, unknown>;
+              new Set([
+                ...Object.keys(prevStyle),
+                ...Object.keys(nextStyle),
+              ]).forEach((styleKey) => {
+                if (!isSameValue(prevStyle[styleKey], nextStyle[styleKey])) {
+                  setValue(
+                    target.style as Record<string, unknown>,
+                    styleKey,
+                    nextStyle[styleKey]
+                  );
+                }
+              });
+            } else if (!isSameValue(before[key], after[key])) {
+              setValue(target, key, after[key]);
+            }
+          }
+        );
+      });
+
+      new Set([
+        ...Object.keys(prev.siblings),
+        ...Object.keys(next.siblings),
+      ]).forEach((key) => {
+        const children = next.siblings[key];
+        if (prev.siblings[key]?.join() === children?.join()) return;
+        if (children) {
+          draft.siblings[key] = children;
+        } else {
+          delete draft.siblings[key];
+        }
+      });
+    },
+    (p, ip) => {
+      patches = p;
+      inversePatches = ip;
+    }
+  );
+
+  return { patches, inversePatches };
+};
+
+// Carry someone else's edits from `prev` to `next` over into `base`, so the
+// local history never records them
+const rebaseState = (
+  base: NodeState,
+  prev: NodeState,
+  next: NodeState
+): NodeState => {
+  const prevById = new Map(prev.nodes.map((node) => [node.id, node]));
+  const nextById = new Map(next.nodes.map((node) => [node.id, node]));
+  const baseIds = new Set(base.nodes.map((node) => node.id));
+  return {
+    nodes: [
+      ...base.nodes
+        .filter((node) => !prevById.has(node.id) || nextById.has(node.id))
+        .map((node) => {
+          const remote = nextById.get(node.id);
+          return remote && prevById.get(node.id) !== remote ? remote : node;
+        }),
+      ...next.nodes.filter(
+        (node) => !prevById.has(node.id) && !baseIds.has(node.id)
+      ),
+    ],
+  };
+};
+
+const createEntry = (
+  prevState: NodeState,
+  nextState: NodeState,
+  methods: HistoryMethod[]
+): HistoryEntry | null => {
+  const { patches, inversePatches } = getPatches(prevState, nextState);
+  if (patches.length === 0) return null;
+
+  return {
+    id: nanoid(),
+    label: getHistoryLabel(methods, prevState.nodes, nextState.nodes),
+    timestamp: Date.now(),
+    patches,
+    inversePatches,
+  };
+};
+
 export function useNodeHistory(initialState: NodeState) {
   const [state, setState] = useState<NodeState>(initialState);
-  const [history, setHistory] = useState<HistoryState>({
-    past: [],
-    future: [],
-  });
+  const [history, setHistory] = useState<NodeHistory>(emptyHistory);
 
   const isUndoingRef = useRef(false);
   const prevStateRef = useRef(state);
@@ -103,13 +323,31 @@ export function useNodeHistory(initialState: NodeState) {
     };
   };
 
+  // `method` is the NodeDispatcher call that produced the update, if any
   const setStateWithHistory = useCallback(
-    (updater: React.SetStateAction<NodeState>) => {
+    (
+      updater: React.SetStateAction<NodeState>,
+      method?: HistoryMethod | null
+    ) => {
       setState((prev) => {
         const nextState =
           typeof updater === "function" ? updater(prev) : updater;
 
+        if (method && UNRECORDED_METHODS.includes(method.name)) {
+          const session = currentSessionRef.current;
+          if (session) {
+            session.startState = rebaseState(
+              session.startState,
+              prev,
+              nextState
+            );
+          }
+          prevStateRef.current = nextState;
+          return nextState;
+        }
+
         if (currentSessionRef.current) {
+          if (method) currentSessionRef.current.methods.push(method);
           prevStateRef.current = nextState;
           return nextState;
         }
@@ -118,51 +356,47 @@ export function useNodeHistory(initialState: NodeState) {
           const currentTime = Date.now();
           const changes = getChanges(prevStateRef.current, nextState);
 
-          if (changes.nonPlaceholderChanged) {
-            let patches: Patch[] = [];
-            let inversePatches: Patch[] = [];
-
-            produce(
+          if (
+            changes.nonPlaceholderChanged ||
+            (method && isLabelledMethod(method))
+          ) {
+            const entry = createEntry(
               prevStateRef.current,
-              (draft) => {
-                Object.assign(draft, nextState);
-              },
-              (p, ip) => {
-                patches = p;
-                inversePatches = ip;
-              }
+              nextState,
+              method ? [method] : []
             );
 
-            if (patches.length > 0) {
+            if (entry) {
               setHistory((h) => {
-                // Check if this is a batch node removal operation
+                const lastEntry = h.past[h.past.length - 1];
+                // Nodes deleted together arrive as separate updates within
+                // 50ms; they are combined into the previous entry
                 if (
                   changes.isNodeRemoval &&
                   currentTime - lastOperationTimeRef.current < 50 &&
-                  h.past.length > 0
+                  lastEntry
                 ) {
-                  // 50ms threshold for batch operations
-                  // Combine with the last operation
-                  const newPast = [...h.past];
-                  // Make sure the last entry exists and is an array before spreading
-                  const lastEntry = newPast[newPast.length - 1];
-                  if (Array.isArray(lastEntry)) {
-                    newPast[newPast.length - 1] = [
-                      ...lastEntry,
-                      ...inversePatches,
-                    ];
-                    lastOperationTimeRef.current = currentTime;
-                    return {
-                      past: newPast,
-                      future: [],
-                    };
-                  }
+                  lastOperationTimeRef.current = currentTime;
+                  return {
+                    past: [
+                      ...h.past.slice(0, -1),
+                      {
+                        ...lastEntry,
+                        patches: [...lastEntry.patches, ...entry.patches],
+                        inversePatches: [
+                          ...entry.inversePatches,
+                          ...lastEntry.inversePatches,
+                        ],
+                      },
+                    ],
+                    future: [],
+                  };
                 }
 
                 // New operation
                 lastOperationTimeRef.current = currentTime;
                 return {
-                  past: [...h.past, inversePatches].slice(-50),
+                  past: [...h.past, entry].slice(-MAX_HISTORY_ENTRIES),
                   future: [],
                 };
               });
@@ -177,54 +411,58 @@ export function useNodeHistory(initialState: NodeState) {
     []
   );
 
-  const undo = useCallback(() => {
+  /**
+   * Move to a point in the history: 0 is the oldest state kept, past.length
+   * the current one. Every entry in between is undone or redone at once.
+   */
+  const moveInHistory = useCallback((getStep: (h: NodeHistory) => number) => {
     setHistory((prev) => {
-      if (prev.past.length === 0) return prev;
+      const entries = [...prev.past, ...prev.future];
+      const step = Math.max(0, Math.min(entries.length, getStep(prev)));
+      if (step === prev.past.length) return prev;
+
+      const patches =
+        step < prev.past.length
+          ? prev.past
+              .slice(step)
+              .reverse()
+              .flatMap((entry) => entry.inversePatches)
+          : prev.future
+              .slice(0, step - prev.past.length)
+              .flatMap((entry) => entry.patches);
 
       isUndoingRef.current = true;
-      const newPast = [...prev.past];
-      const patchesToUndo = newPast.pop()!;
-
-      setState((currentState) =>
-        produce(currentState, (draft) => {
-          applyPatches(draft, patchesToUndo);
-        })
-      );
+      setState((currentState) => {
+        const nextState = applyHistoryPatches(currentState, patches);
+        prevStateRef.current = nextState;
+        return nextState;
+      });
 
       Promise.resolve().then(() => {
         isUndoingRef.current = false;
       });
 
       return {
-        past: newPast,
-        future: [patchesToUndo, ...prev.future],
+        past: entries.slice(0, step),
+        future: entries.slice(step),
       };
     });
   }, []);
 
-  const redo = useCallback(() => {
-    setHistory((prev) => {
-      if (prev.future.length === 0) return prev;
-
-      isUndoingRef.current = true;
-      const [patchesToRedo, ...newFuture] = prev.future;
-
-      setState((currentState) =>
-        produce(currentState, (draft) => {
-          applyPatches(draft, patchesToRedo);
-        })
-      );
+  const undo = useCallback(
+    () => moveInHistory((h) => h.past.length - 1),
+    [moveInHistory]
+  );
 
-      Promise.resolve().then(() => {
-        isUndoingRef.current = false;
-      });
+  const redo = useCallback(
+    () => moveInHistory((h) => h.past.length + 1),
+    [moveInHistory]
+  );
 
-      return {
-        past: [...prev.past, patchesToRedo],
-        future: newFuture,
-      };
-    });
-  }, []);
+  const goToHistoryStep = useCallback(
+    (step: number) => moveInHistory(() => step),
+    [moveInHistory]
+  );
 
   const startRecording = useCallback(() => {
     // Always use the current state as the starting point
@@ -232,6 +470,7 @@ export function useNodeHistory(initialState: NodeState) {
     currentSessionRef.current = {
       id: sessionId,
       startState: JSON.parse(JSON.stringify(state)), // Deep clone to prevent reference issues
+      methods: [],
     };
     return sessionId;
   }, [state]);
@@ -243,28 +482,11 @@ export function useNodeHistory(initialState: NodeState) {
         return false;
       }
 
-      const startState = session.startState;
-      const finalState = state;
-
-      // Generate patches between start and final state
-      let patches: Patch[] = [];
-      let inversePatches: Patch[] = [];
-
-      produce(
-        startState,
-        (draft) => {
-          Object.assign(draft, finalState);
-        },
-        (p, ip) => {
-          patches = p;
-          inversePatches = ip;
-        }
-      );
-
       // Only record if there are actual changes
-      if (patches.length > 0) {
+      const entry = createEntry(session.startState, state, session.methods);
+      if (entry) {
         setHistory((h) => ({
-          past: [...h.past, inversePatches].slice(-50),
+          past: [...h.past, entry].slice(-MAX_HISTORY_ENTRIES),
           future: [],
         }));
       }
@@ -275,13 +497,29 @@ export function useNodeHistory(initialState: NodeState) {
     [state]
   );
 
+  // Swap in a whole new state (e.g. a loaded project) without recording it.
+  // History belonging to the previous state is dropped, unless the saved
+  // history of the new state is passed along.
+  const replaceState = useCallback(
+    (nextState: NodeState, nextHistory: NodeHistory = emptyHistory) => {
+      currentSessionRef.current = null;
+      prevStateRef.current = nextState;
+      setState(nextState);
+      setHistory(nextHistory);
+    },
+    []
+  );
+
   return {
     nodeState: state,
     setNodeState: setStateWithHistory,
+    replaceNodeState: replaceState,
     undo,
     redo,
     canUndo: history.past.length > 0,
     canRedo: history.future.length > 0,
+    history,
+    goToHistoryStep,
     startRecording,
     stopRecording,
   };
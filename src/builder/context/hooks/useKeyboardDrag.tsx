@@ -1,6 +1,8 @@
 import { useEffect, useRef } from "react";
 import { useBuilder } from "@/builder/context/builderState";
 import { useNodeActions } from "./useNodeActions";
+import { useArrangeNodes } from "./useArrangeNodes";
+import { findArrangeCommand } from "@/builder/arrange/arrangeActions";
 
 export const useKeyboardDrag = ({ isEnabled = true }) => {
   const {
@@ -12,10 +14,12 @@ export const useKeyboardDrag = ({ isEnabled = true }) => {
     setIsMoveCanvasMode,
     setNodeStyle,
     isEditingText,
+    interfaceDisp,
   } = useBuilder();
 
   const { handleDelete, handleDuplicate, handleCopy, handlePaste } =
     useNodeActions();
+  const { canRun, arrange } = useArrangeNodes();
 
   const isAltPressedRef = useRef(false);
   const isSpacePressedRef = useRef(false);
@@ -141,6 +145,19 @@ export const useKeyboardDrag = ({ isEnabled = true }) => {
         dragDisp.setSelectedIds(selectableNodeIds);
       }
 
+      // Show or hide layout grids; by code, as Shift turns 4 into $
+      if (e.code === "Digit4" && e.shiftKey && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        interfaceDisp.toggleLayoutGrids();
+      }
+
+      // Align, distribute and tidy up the selection
+      const arrangeCommand = findArrangeCommand(e);
+      if (arrangeCommand && canRun(arrangeCommand.action)) {
+        e.preventDefault();
+        arrange(arrangeCommand.action);
+      }
+
       if (e.key === "x" && (e.ctrlKey || e.metaKey)) {
         e.preventDefault();
         e.stopPropagation();
@@ -186,6 +203,9 @@ export const useKeyboardDrag = ({ isEnabled = true }) => {
     isEnabled,
     dragDisp,
     nodeDisp,
+    interfaceDisp,
+    canRun,
+    arrange,
     handleCopy,
     handlePaste,
     handleDelete,
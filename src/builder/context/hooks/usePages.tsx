@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import { Node, NodeState } from "../../reducer/nodeDispatcher";
+import {
+  DEFAULT_PAGE_ID,
+  getPagesWithActiveNodes,
+  PageState,
+  ProjectPage,
+} from "../../persistence/projectDocument";
+import {
+  findComponentRoot,
+  getLibraryNodes,
+  getMasterKey,
+  syncPageInstances,
+} from "../../library/componentSync";
+
+export type PageUpdates = Partial<Pick<ProjectPage, "name" | "slug" | "seo">>;
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const getUniqueSlug = (
+  value: string,
+  pages: ProjectPage[],
+  ignorePageId?: string
+) => {
+  const base = slugify(value) || "page";
+  // Exports write the first page as index.html
+  const taken = new Set([
+    "index",
+    ...pages
+      .filter((page) => page.id !== ignorePageId)
+      .map((page) => page.slug),
+  ]);
+  let slug = base;
+  let index = 2;
+  while (taken.has(slug)) {
+    slug = `${base}-${index++}`;
+  }
+  return slug;
+};
+
+const getUniqueName = (value: string, pages: ProjectPage[]) => {
+  const taken = new Set(pages.map((page) => page.name));
+  let name = value;
+  let index = 2;
+  while (taken.has(name)) {
+    name = `${value} ${index++}`;
+  }
+  return name;
+};
+
+export const createInitialPageState = (): PageState => ({
+  pages: [
+    {
+      id: DEFAULT_PAGE_ID,
+      name: "Home",
+      slug: "home",
+      seo: { title: "", description: "" },
+      nodes: [],
+    },
+  ],
+  activePageId: DEFAULT_PAGE_ID,
+});
+
+// Node fields that hold ids of other nodes (or of a shared family of nodes).
+// Components belong to the whole project, so their ids are kept.
+const NODE_REFERENCE_KEYS = [
+  "id",
+  "parentId",
+  "sharedId",
+  "variantParentId",
+  "dynamicParentId",
+  "dynamicFamilyId",
+  "variantResponsiveId",
+  "originalParentId",
+] as const;
+
+/**
+ * Copy a page's nodes under fresh ids. Viewports keep their ids so every
+ * page shares the same breakpoints and viewport-specific logic keeps working.
+ * Copied masters become instances of their component, which keeps a single
+ * master per component.
+ */
+export const clonePageNodes = (nodes: Node[]): Node[] => {
+  const idMap = new Map<string, string>();
+  nodes
+    .filter((node) => node.isViewport)
+    .forEach((viewport) => idMap.set(viewport.id, viewport.id));
+
+  const mapId = <T extends string | number | null | undefined>(id: T): T => {
+    if (id === null || id === undefined || id === "") return id;
+    const key = String(id);
+    if (!idMap.has(key)) idMap.set(key, nanoid());
+    return idMap.get(key) as T;
+  };
+
+  return nodes.map((node) => {
+    const clone: Record<string, unknown> = { ...node };
+    NODE_REFERENCE_KEYS.forEach((key) => {
+      if (key in clone) clone[key] = mapId(node[key]);
+    });
+    const componentRoot = findComponentRoot(node, nodes);
+    if (componentRoot?.isComponentMaster) {
+      delete clone.isComponentMaster;
+      clone.masterSharedId = getMasterKey(node);
+    }
+    if (node.originalState) {
+      clone.originalState = {
+        ...node.originalState,
+        parentId: mapId(node.originalState.parentId),
+      };
+    }
+    if (node.dynamicConnections) {
+      clone.dynamicConnections = node.dynamicConnections.map((connection) => ({
+        ...connection,
+        sourceId: mapId(connection.sourceId),
+        targetId: mapId(connection.targetId),
+        ...(connection.action?.nodeId !== undefined && {
+          action: {
+            ...connection.action,
+            nodeId: mapId(connection.action.nodeId),
+          },
+        }),
+      }));
+    }
+    return clone as unknown as Node;
+  });
+};
+
+// A new page starts with the project's viewports and nothing in them
+const createEmptyPageNodes = (nodes: Node[]): Node[] =>
+  nodes
+    .filter((node) => node.isViewport)
+    .map((viewport) => ({ ...viewport, style: { ...viewport.style } }));
+
+interface UsePagesOptions {
+  nodeState: NodeState;
+  replaceNodeState: (state: NodeState) => void;
+}
+
+/**
+ * Keeps the project's pages next to the node history. Only the active page
+ * lives in NodeState, so switching pages swaps its nodes in and out and
+ * starts a fresh undo history for the page that was opened.
+ */
+export function usePages({ nodeState, replaceNodeState }: UsePagesOptions) {
+  const [pageState, setPageState] = useState<PageState>(createInitialPageState);
+  const nodesRef = useRef(nodeState.nodes);
+  nodesRef.current = nodeState.nodes;
+
+  // Instances on other pages follow edits to the masters on this one
+  const masterNodes = useMemo(
+    () => getLibraryNodes(nodeState.nodes),
+    [nodeState.nodes]
+  );
+  const prevMasterNodesRef = useRef(masterNodes);
+  useEffect(() => {
+    const prevMasterNodes = prevMasterNodesRef.current;
+    prevMasterNodesRef.current = masterNodes;
+    if (
+      prevMasterNodes.length === masterNodes.length &&
+      prevMasterNodes.every((node, index) => node === masterNodes[index])
+    ) {
+      return;
+    }
+
+    setPageState((prev) => {
+      const pages = syncPageInstances(prev, nodesRef.current);
+      return pages.every((page, index) => page === prev.pages[index])
+        ? prev
+        : { ...prev, pages };
+    });
+  }, [masterNodes]);
+
+  const replacePageState = useCallback((nextState: PageState) => {
+    setPageState(nextState);
+  }, []);
+
+  const switchPage = useCallback(
+    (pageId: string) => {
+      if (pageId === pageState.activePageId) return;
+      const target = pageState.pages.find((page) => page.id === pageId);
+      if (!target) return;
+
+      setPageState({
+        pages: getPagesWithActiveNodes(pageState, nodesRef.current),
+        activePageId: pageId,
+      });
+      replaceNodeState({ nodes: target.nodes });
+    },
+    [pageState, replaceNodeState]
+  );
+
+  const createPage = useCallback(
+    (name = "Page") => {
+      const pageName = getUniqueName(name, pageState.pages);
+      const page: ProjectPage = {
+        id: nanoid(),
+        name: pageName,
+        slug: getUniqueSlug(pageName, pageState.pages),
+        seo: { title: "", description: "" },
+        nodes: createEmptyPageNodes(nodesRef.current),
+      };
+
+      setPageState({
+        pages: [...getPagesWithActiveNodes(pageState, nodesRef.current), page],
+        activePageId: page.id,
+      });
+      replaceNodeState({ nodes: page.nodes });
+      return page.id;
+    },
+    [pageState, replaceNodeState]
+  );
+
+  const updatePage = useCallback((pageId: string, updates: PageUpdates) => {
+    setPageState((prev) => ({
+      ...prev,
+      pages: prev.pages.map((page) => {
+        if (page.id !== pageId) return page;
+        return {
+          ...page,
+          ...updates,
+          slug:
+            updates.slug !== undefined
+              ? getUniqueSlug(updates.slug || page.name, prev.pages, pageId)
+              : page.slug,
+        };
+      }),
+    }));
+  }, []);
+
+  const movePage = useCallback((pageId: string, toIndex: number) => {
+    setPageState((prev) => {
+      const fromIndex = prev.pages.findIndex((page) => page.id === pageId);
+      if (fromIndex === -1) return prev;
+      const pages = [...prev.pages];
+      const [page] = pages.splice(fromIndex, 1);
+      pages.splice(Math.max(0, Math.min(toIndex, pages.length)), 0, page);
+      return { ...prev, pages };
+    });
+  }, []);
+
+  const duplicatePage = useCallback(
+    (pageId: string) => {
+      const pages = getPagesWithActiveNodes(pageState, nodesRef.current);
+      const index = pages.findIndex((page) => page.id === pageId);
+      if (index === -1) return null;
+
+      const source = pages[index];
+      const name = getUniqueName(`${source.name} copy`, pages);
+      const copy: ProjectPage = {
+        ...source,
+        id: nanoid(),
+        name,
+        slug: getUniqueSlug(name, pages),
+        seo: { ...source.seo },
+        nodes: clonePageNodes(source.nodes),
+      };
+
+      setPageState({
+        ...pageState,
+        pages: [...pages.slice(0, index + 1), copy, ...pages.slice(index + 1)],
+      });
+      return copy.id;
+    },
+    [pageState]
+  );
+
+  const deletePage = useCallback(
+    (pageId: string) => {
+      // A project always keeps at least one page
+      if (pageState.pages.length <= 1) return;
+      const index = pageState.pages.findIndex((page) => page.id === pageId);
+      if (index === -1) return;
+
+      const pages = pageState.pages.filter((page) => page.id !== pageId);
+      if (pageId !== pageState.activePageId) {
+        setPageState({ ...pageState, pages });
+        return;
+      }
+
+      const nextPage = pages[Math.min(index, pages.length - 1)];
+      setPageState({ pages, activePageId: nextPage.id });
+      replaceNodeState({ nodes: nextPage.nodes });
+    },
+    [pageState, replaceNodeState]
+  );
+
+  return {
+    pageState,
+    replacePageState,
+    switchPage,
+    createPage,
+    updatePage,
+    movePage,
+    duplicatePage,
+    deletePage,
+  };
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { debounce } from "lodash";
+import {
+  createProjectDocument,
+  getProjectStateFromDocument,
+  ProjectDocument,
+  ProjectState,
+} from "../../persistence/projectDocument";
+import {
+  createStorageAdapter,
+  ProjectStorageAdapter,
+} from "../../persistence/storageAdapters";
+
+export type SaveStatus =
+  "idle" | "loading" | "loadError" | "saving" | "saved" | "error";
+
+const AUTOSAVE_DELAY = 800;
+
+interface UseProjectPersistenceOptions {
+  projectId: string;
+  projectState: ProjectState;
+  restoreProjectState: (state: ProjectState) => void;
+  adapter?: ProjectStorageAdapter;
+}
+
+/**
+ * Restores the project from storage on mount and autosaves it whenever the
+ * project state changes. Nothing is written until the initial load succeeded,
+ * so the hard-coded initial state can never overwrite a saved project. A
+ * failed load keeps the project unloaded until `retryLoad` gets through.
+ */
+export function useProjectPersistence({
+  projectId,
+  projectState,
+  restoreProjectState,
+  adapter,
+}: UseProjectPersistenceOptions) {
+  const storage = useMemo(() => adapter || createStorageAdapter(), [adapter]);
+  const [isProjectLoaded, setIsProjectLoaded] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("loading");
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const isProjectLoadedRef = useRef(isProjectLoaded);
+  isProjectLoadedRef.current = isProjectLoaded;
+  const documentRef = useRef<ProjectDocument | null>(null);
+  const projectStateRef = useRef(projectState);
+  projectStateRef.current = projectState;
+  // The hard-coded state the builder starts with, for projects never saved
+  const initialProjectStateRef = useRef(projectState);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsProjectLoaded(false);
+    setSaveStatus("loading");
+
+    storage
+      .load(projectId)
+      .then((doc) => {
+        if (cancelled) return;
+        documentRef.current = doc;
+        // A new project starts empty instead of keeping the previous one's
+        // pages, which autosave would then write under the new id
+        restoreProjectState(
+          doc
+            ? getProjectStateFromDocument(doc)
+            : initialProjectStateRef.current
+        );
+        setSaveStatus(doc ? "saved" : "idle");
+        setIsProjectLoaded(true);
+      })
+      .catch((error) => {
+        console.error("Failed to load project:", error);
+        if (!cancelled) setSaveStatus("loadError");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, storage, restoreProjectState, loadAttempt]);
+
+  const retryLoad = useCallback(() => setLoadAttempt((n) => n + 1), []);
+
+  const saveProject = useCallback(async () => {
+    if (!isProjectLoadedRef.current) return;
+    const doc = createProjectDocument(
+      projectId,
+      projectStateRef.current,
+      documentRef.current
+    );
+    setSaveStatus("saving");
+    try {
+      await storage.save(doc);
+      documentRef.current = doc;
+      setSaveStatus("saved");
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      setSaveStatus("error");
+    }
+  }, [projectId, storage]);
+
+  const debouncedSave = useMemo(
+    () => debounce(saveProject, AUTOSAVE_DELAY),
+    [saveProject]
+  );
+
+  useEffect(() => {
+    if (!isProjectLoaded) return;
+    debouncedSave();
+  }, [projectState, isProjectLoaded, debouncedSave]);
+
+  // Flush a pending save when leaving the builder
+  useEffect(() => {
+    const handleBeforeUnload = () => debouncedSave.flush();
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      debouncedSave.flush();
+    };
+  }, [debouncedSave]);
+
+  return {
+    isProjectLoaded,
+    saveStatus,
+    saveProject,
+    retryLoad,
+  };
+}
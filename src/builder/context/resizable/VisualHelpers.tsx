@@ -20,6 +20,14 @@ import NameDisplay from "./NameDisplay";
 import { AxeIcon } from "lucide-react";
 import { FontSizeHandle } from "./FontSizeHandle";
 import { ObjectPositionHandle } from "./ObjectPositionHandle";
+import { VersionChangeType } from "@/builder/versions/versionDiff";
+
+// Outline colors of nodes that changed between two compared versions
+const VERSION_CHANGE_COLORS: Record<VersionChangeType, string> = {
+  added: "#14ae5c",
+  removed: "#f24822",
+  restyled: "#ff8a00",
+};
 
 /* -------------------------------------------
    2D MATRIX HELPERS
@@ -337,8 +345,11 @@ export const VisualHelpers = ({
     isRotating,
     nodeState,
     isEditingText,
+    versionHighlights,
   } = useBuilder();
 
+  const versionChange = versionHighlights?.[node.id];
+
   const cumulativeSkew = getCumulativeSkew(node, nodeState);
 
   const isLocked = node.isLocked === true;
@@ -605,6 +616,15 @@ export const VisualHelpers = ({
             />
           )}
 
+          {versionChange && (
+            <div
+              style={{
+                ...getBorderStyle(VERSION_CHANGE_COLORS[versionChange], 997),
+                borderStyle: "dashed",
+              }}
+            />
+          )}
+
           {!isMovingCanvas && <NameDisplay node={node} />}
 
           {/* Actual selection border + handles */}
@@ -0,0 +1,23 @@
+import JSZip from "jszip";
+import { ExportedFile } from "./staticSite";
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadZip = async (files: ExportedFile[], fileName: string) => {
+  const zip = new JSZip();
+  files.forEach((file) =>
+    zip.file(file.path, file.content, { base64: file.base64 })
+  );
+  const blob = await zip.generateAsync({ type: "blob" });
+  downloadBlob(blob, fileName.endsWith(".zip") ? fileName : `${fileName}.zip`);
+};
@@ -0,0 +1,180 @@
+// Vanilla JS runtime shipped with static exports so dynamic elements keep
+// their variant switching without React. It reads the connection table the
+// exporter writes into #revyme-dynamic-data and swaps each dynamic root between
+// its base content and the <template data-variant-template> of the target.
+//
+// Kept as plain ES5 in a string so it can be written to disk verbatim.
+export const DYNAMIC_RUNTIME_SOURCE = `(function () {
+  var dataEl = document.getElementById("revyme-dynamic-data");
+  if (!dataEl) return;
+  var data = JSON.parse(dataEl.textContent || "{}");
+  var connections = data.connections || {};
+
+  // DOM event -> connection type stored on Node.dynamicConnections
+  var EVENTS = [
+    ["click", "click"],
+    ["mouseenter", "hover"],
+    ["mouseleave", "mouseLeave"],
+    ["mousedown", "mouseDown"],
+    ["mouseup", "mouseUp"],
+    ["focus", "focus"],
+    ["blur", "blur"]
+  ];
+
+  var baseContent = {};
+  var delayTimers = {};
+
+  function findConnection(ids, type) {
+    for (var i = 0; i < ids.length; i++) {
+      var list = connections[ids[i]] || [];
+      for (var j = 0; j < list.length; j++) {
+        if (list[j].type === type) return list[j];
+      }
+    }
+    return null;
+  }
+
+  function setState(root, targetId, transition) {
+    var baseId = root.getAttribute("data-dynamic-root");
+    if (root.getAttribute("data-state") === targetId) return;
+
+    var content;
+    if (targetId === baseId) {
+      content = baseContent[baseId];
+    } else {
+      var template = document.querySelector(
+        'template[data-variant-template="' + targetId + '"]'
+      );
+      if (!template) return;
+      content = template.innerHTML;
+    }
+
+    root.style.transition = transition || "";
+    root.setAttribute("data-state", targetId);
+    root.innerHTML = content;
+    bind(root);
+    scheduleDelay(root);
+  }
+
+  // "afterDelay" connections start counting whenever their state is shown
+  function scheduleDelay(root) {
+    var baseId = root.getAttribute("data-dynamic-root");
+    clearTimeout(delayTimers[baseId]);
+    var state = root.getAttribute("data-state");
+    var connection = findConnection([state], "afterDelay");
+    if (!connection) return;
+    delayTimers[baseId] = setTimeout(function () {
+      setState(root, connection.targetId, connection.transition);
+    }, connection.delay || 0);
+  }
+
+  // Same format as the builder: modifiers first, e.g. "Ctrl+Shift+K"
+  function getShortcut(event) {
+    if (/^(Control|Alt|Shift|Meta)$/.test(event.key)) return null;
+    var key = event.key.length === 1 ? event.key.toUpperCase() : event.key;
+    if (key === " ") key = "Space";
+    var parts = [];
+    if (event.ctrlKey) parts.push("Ctrl");
+    if (event.altKey) parts.push("Alt");
+    if (event.shiftKey) parts.push("Shift");
+    if (event.metaKey) parts.push("Meta");
+    parts.push(key);
+    return parts.join("+");
+  }
+
+  function handle(root, el, type, event) {
+    if (event.__revymeHandled) return;
+    var baseId = root.getAttribute("data-dynamic-root");
+    var state = root.getAttribute("data-state");
+    // The root answers for whichever variant it currently shows; children
+    // answer for themselves first and fall back to the current variant.
+    var ids =
+      el === root ? [state, baseId] : [el.getAttribute("data-node-id"), state];
+    var connection = findConnection(ids, type);
+    if (!connection) return;
+    event.__revymeHandled = true;
+    setState(root, connection.targetId, connection.transition);
+  }
+
+  function bind(root) {
+    var elements = [root].concat(
+      Array.prototype.slice.call(root.querySelectorAll("[data-node-id]"))
+    );
+    elements.forEach(function (el) {
+      if (el.__revymeBound) return;
+      el.__revymeBound = true;
+      var id =
+        el === root
+          ? root.getAttribute("data-state")
+          : el.getAttribute("data-node-id");
+      var focusable = (connections[id] || []).some(function (c) {
+        return c.type === "focus" || c.type === "blur";
+      });
+      if (focusable && !el.hasAttribute("tabindex")) {
+        el.setAttribute("tabindex", "0");
+      }
+      EVENTS.forEach(function (pair) {
+        el.addEventListener(pair[0], function (event) {
+          handle(root, el, pair[1], event);
+        });
+      });
+    });
+  }
+
+  var roots = document.querySelectorAll("[data-dynamic-root]");
+  Array.prototype.forEach.call(roots, function (root) {
+    var baseId = root.getAttribute("data-dynamic-root");
+    baseContent[baseId] = root.innerHTML;
+    root.setAttribute("data-state", baseId);
+    bind(root);
+
+    var load = findConnection([baseId], "load");
+    if (load) setState(root, load.targetId, load.transition);
+    else scheduleDelay(root);
+  });
+
+  document.addEventListener("keydown", function (event) {
+    var target = event.target;
+    if (
+      target &&
+      (target.isContentEditable ||
+        /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))
+    ) {
+      return;
+    }
+    var shortcut = getShortcut(event);
+    if (!shortcut) return;
+    Array.prototype.forEach.call(roots, function (root) {
+      var list = connections[root.getAttribute("data-state")] || [];
+      for (var i = 0; i < list.length; i++) {
+        if (list[i].type === "keyDown" && list[i].key === shortcut) {
+          event.preventDefault();
+          setState(root, list[i].targetId, list[i].transition);
+          return;
+        }
+      }
+    });
+  });
+
+  // "inViewport" shows the target while the root is on screen
+  if (window.IntersectionObserver) {
+    var observer = new IntersectionObserver(function (entries) {
+      entries.forEach(function (entry) {
+        var root = entry.target;
+        var baseId = root.getAttribute("data-dynamic-root");
+        var connection = findConnection([baseId], "inViewport");
+        if (!connection) return;
+        if (entry.isIntersecting) {
+          setState(root, connection.targetId, connection.transition);
+        } else if (root.getAttribute("data-state") === connection.targetId) {
+          setState(root, baseId, connection.transition);
+        }
+      });
+    });
+    Array.prototype.forEach.call(roots, function (root) {
+      var baseId = root.getAttribute("data-dynamic-root");
+      if (findConnection([baseId], "inViewport")) observer.observe(root);
+    });
+  }
+})();
+`;
@@ -0,0 +1,836 @@
+import { Node } from "../reducer/nodeDispatcher";
+import { DesignToken } from "../reducer/tokenDispatcher";
+import { generateTokenCSS } from "../tokens/tokenCss";
+import { FontAsset } from "../reducer/fontDispatcher";
+import { generateFontFaceCSS, getFontFileName } from "../fonts/fontCss";
+import { buildVectorSvg, svgToJsx } from "../vector/vectorSvg";
+import { buildShapeSvg, isShapeType } from "../vector/shapeSvg";
+import { getBreakpointMediaQuery } from "../view/preview/utils/cssUtils";
+import {
+  INTERACTION_STATES,
+  STATE_SELECTORS,
+  getInteractionAttributes,
+} from "../view/preview/utils/stateUtils";
+import {
+  PageHrefResolver,
+  getLinkAttributes,
+  prepareTextLinks,
+} from "../view/preview/utils/linkUtils";
+import { TEXT_CONTENT_RULES } from "../view/preview/utils/textUtils";
+import { ProjectPage } from "../persistence/projectDocument";
+import { NodeStyle, ResponsiveNode, Viewport } from "../view/preview/types";
+import {
+  ExportedFile,
+  buildVariantSubtree,
+  getDynamicVariants,
+  getVariantRootStyle,
+  getFontFiles,
+  getViewportBreakpoints,
+} from "./staticSite";
+
+export type ReactStyling = "css-module" | "tailwind";
+
+export interface ReactComponentOptions {
+  styling?: ReactStyling;
+  // Tokens referenced by the subtree ship as custom properties in tokens.css
+  tokens?: DesignToken[];
+  // Uploaded fonts the subtree uses ship in fonts/, loaded by fonts.css
+  fonts?: FontAsset[];
+  // Page links point at /<slug>, the first page being the root route
+  pages?: Pick<ProjectPage, "id" | "slug">[];
+}
+
+export interface ReactComponentExport {
+  componentName: string;
+  files: ExportedFile[];
+}
+
+interface ComponentContext {
+  nodes: Node[];
+  breakpoints: Viewport[];
+  styling: ReactStyling;
+  css: string[];
+  classNames: Set<string>;
+  componentNames: Set<string>;
+  // Nested dynamic elements become their own components in the same file
+  components: string[];
+  resolvePage: PageHrefResolver;
+  // Set below a linked element, whose descendants cannot be links themselves
+  insideLink?: boolean;
+}
+
+// Subtrees are copies of builder nodes, so their builder fields are present
+type ExportNode = Omit<ResponsiveNode, "children"> &
+  Pick<Node, "customName" | "isVariant"> & { children: ExportNode[] };
+
+// Variant switching inside the component currently being rendered
+interface VariantScope {
+  targets: Map<string, string>;
+}
+
+// Keys on node.style that are builder data rather than CSS
+const NON_CSS_KEYS = [
+  "src",
+  "text",
+  "backgroundImage",
+  "backgroundVideo",
+  "isVideoBackground",
+];
+
+// Connection type -> React event prop
+const EVENT_PROPS: Record<string, string> = {
+  click: "onClick",
+  hover: "onMouseEnter",
+  mouseLeave: "onMouseLeave",
+  mouseDown: "onMouseDown",
+  mouseUp: "onMouseUp",
+  focus: "onFocus",
+  blur: "onBlur",
+};
+
+// Linked elements render as <a> and must still look like the element
+const LINK_STYLE: NodeStyle = {
+  display: "block",
+  color: "inherit",
+  textDecoration: "none",
+};
+
+const BACKGROUND_WRAPPER_STYLE = `{{ position: "absolute", inset: 0, borderRadius: "inherit", overflow: "hidden" }}`;
+
+const toWords = (value: string) =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const toPascalCase = (value: string) =>
+  toWords(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+
+const toCamelCase = (value: string) => {
+  const pascal = toPascalCase(value);
+  return pascal ? pascal[0].toLowerCase() + pascal.slice(1) : "";
+};
+
+const makeUnique = (name: string, taken: Set<string>) => {
+  let unique = name;
+  let index = 2;
+  while (taken.has(unique)) {
+    unique = `${name}${index++}`;
+  }
+  taken.add(unique);
+  return unique;
+};
+
+const getComponentName = (
+  node: { customName?: string; type: string },
+  taken: Set<string>
+) => {
+  const name = toPascalCase(node.customName || "") || toPascalCase(node.type);
+  return makeUnique(/^[0-9]/.test(name) ? `Component${name}` : name, taken);
+};
+
+const getClassName = (base: string, ctx: ComponentContext) => {
+  const name = toCamelCase(base) || "node";
+  return makeUnique(/^[0-9]/.test(name) ? `node${name}` : name, ctx.classNames);
+};
+
+const toDeclarations = (style: NodeStyle): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  Object.entries(style).forEach(([key, value]) => {
+    if (NON_CSS_KEYS.includes(key)) return;
+    if (value === undefined || value === null || value === "") return;
+    const cssKey = key.replace(/([A-Z])/g, "-$1").toLowerCase();
+    declarations[cssKey] = String(value);
+  });
+  return declarations;
+};
+
+// One style per breakpoint, largest first, falling back to the node's own
+// style for viewports the node is missing from.
+const getBreakpointStyles = (node: ExportNode, ctx: ComponentContext) =>
+  ctx.breakpoints.length
+    ? ctx.breakpoints.map(
+        (viewport) => node.responsiveStyles?.[viewport.width] || node.style
+      )
+    : [node.style];
+
+// Tailwind twin of getBreakpointMediaQuery using arbitrary min/max variants
+const getTailwindBreakpointPrefix = (
+  index: number,
+  viewportBreakpoints: Viewport[]
+) => {
+  const viewport = viewportBreakpoints[index];
+  const nextBreakpoint = viewportBreakpoints[index + 1];
+
+  if (index === 0) {
+    return `min-[${nextBreakpoint ? nextBreakpoint.width : 0}px]:`;
+  }
+  if (index === viewportBreakpoints.length - 1) {
+    return `max-[${viewport.width - 0.02}px]:`;
+  }
+  return `min-[${nextBreakpoint.width}px]:max-[${viewport.width - 0.02}px]:`;
+};
+
+const toTailwindClass = (property: string, value: string) =>
+  `[${property}:${value.replace(/"/g, "'").trim().replace(/\s+/g, "_")}]`;
+
+const cssBlock = (selector: string, declarations: Record<string, string>) =>
+  `${selector} {\n${Object.entries(declarations)
+    .map(([property, value]) => `  ${property}: ${value};`)
+    .join("\n")}\n}`;
+
+const indentBlock = (block: string) =>
+  block
+    .split("\n")
+    .map((line) => `  ${line}`)
+    .join("\n");
+
+/**
+ * Register the styles of one element and return the JSX value of its
+ * className attribute. The largest viewport is the unscoped base; every
+ * other viewport only carries the declarations that differ from it.
+ * Interaction states and `contentRules`, keyed by descendant selector, apply
+ * in every viewport.
+ */
+const registerStyles = (
+  baseName: string,
+  styles: NodeStyle[],
+  ctx: ComponentContext,
+  states: ExportNode["dynamicState"] = {},
+  contentRules: Record<string, Record<string, string>> = {}
+) => {
+  const className = getClassName(baseName, ctx);
+  const [base, ...overrides] = styles.map(toDeclarations);
+  const stateDeclarations = INTERACTION_STATES.map(({ state }) => ({
+    selector: STATE_SELECTORS[state],
+    declarations: toDeclarations(states[state] || {}),
+  })).filter(({ declarations }) => Object.keys(declarations).length);
+  const diffs = overrides.map((declarations) =>
+    Object.fromEntries(
+      Object.entries(declarations).filter(
+        ([property, value]) => base[property] !== value
+      )
+    )
+  );
+
+  if (ctx.styling === "tailwind") {
+    const classes = Object.entries(base).map(([property, value]) =>
+      toTailwindClass(property, value)
+    );
+    diffs.forEach((declarations, index) => {
+      const prefix = getTailwindBreakpointPrefix(index + 1, ctx.breakpoints);
+      Object.entries(declarations).forEach(([property, value]) => {
+        classes.push(`${prefix}${toTailwindClass(property, value)}`);
+      });
+    });
+    stateDeclarations.forEach(({ selector, declarations }) => {
+      Object.entries(declarations).forEach(([property, value]) => {
+        classes.push(`[&${selector}]:${toTailwindClass(property, value)}`);
+      });
+    });
+    Object.entries(contentRules).forEach(([selector, declarations]) => {
+      Object.entries(declarations).forEach(([property, value]) => {
+        classes.push(`[&_${selector}]:${toTailwindClass(property, value)}`);
+      });
+    });
+    return JSON.stringify(classes.join(" "));
+  }
+
+  ctx.css.push(cssBlock(`.${className}`, base));
+  diffs.forEach((declarations, index) => {
+    if (Object.keys(declarations).length === 0) return;
+    ctx.css.push(
+      `${getBreakpointMediaQuery(index + 1, ctx.breakpoints)} {\n${indentBlock(
+        cssBlock(`.${className}`, declarations)
+      )}\n}`
+    );
+  });
+  stateDeclarations.forEach(({ selector, declarations }) => {
+    ctx.css.push(cssBlock(`.${className}${selector}`, declarations));
+  });
+  Object.entries(contentRules).forEach(([selector, declarations]) => {
+    ctx.css.push(cssBlock(`.${className} ${selector}`, declarations));
+  });
+  return `styles.${className}`;
+};
+
+// Class that shows an element only within the breakpoint at `index`
+const registerBreakpointVisibility = (
+  baseName: string,
+  index: number,
+  ctx: ComponentContext
+) => {
+  if (ctx.styling === "tailwind") {
+    return JSON.stringify(
+      `hidden ${getTailwindBreakpointPrefix(index, ctx.breakpoints)}block`
+    );
+  }
+
+  const className = getClassName(baseName, ctx);
+  ctx.css.push(cssBlock(`.${className}`, { display: "none" }));
+  ctx.css.push(
+    `${getBreakpointMediaQuery(index, ctx.breakpoints)} {\n${indentBlock(
+      cssBlock(`.${className}`, { display: "block" })
+    )}\n}`
+  );
+  return `styles.${className}`;
+};
+
+const pad = (depth: number) => "  ".repeat(depth);
+
+// JSX attribute value for a string, falling back to an expression when the
+// literal would need escapes JSX attribute strings do not support.
+const jsxString = (value: string) => {
+  const literal = JSON.stringify(value);
+  return literal.includes("\\") ? `{${literal}}` : literal;
+};
+
+const classNameAttribute = (value: string, extraClassName?: string) => {
+  if (extraClassName) {
+    return `className={[${value}, ${extraClassName}].filter(Boolean).join(" ")}`;
+  }
+  return value.startsWith('"') ? `className=${value}` : `className={${value}}`;
+};
+
+const getEventAttributes = (
+  node: ExportNode,
+  scope: VariantScope | null,
+  isRoot: boolean
+) => {
+  if (!scope || !node.dynamicConnections?.length) return [];
+
+  return node.dynamicConnections
+    .filter((connection) => EVENT_PROPS[connection.type])
+    .map((connection) => {
+      const target = scope.targets.get(String(connection.targetId));
+      if (!target) return null;
+      const setVariant = `setCurrentVariant(${JSON.stringify(target)})`;
+      // Clicks on children must not also trigger the root's own connection
+      return isRoot || connection.type !== "click"
+        ? `${EVENT_PROPS[connection.type]}={() => ${setVariant}}`
+        : `${EVENT_PROPS[connection.type]}={(event) => { event.stopPropagation(); ${setVariant}; }}`;
+    })
+    .filter(Boolean) as string[];
+};
+
+const renderOpeningTag = (
+  tag: string,
+  attributes: string[],
+  depth: number,
+  selfClosing = false
+) => {
+  const close = selfClosing ? " />" : ">";
+  const inline = `${pad(depth)}<${tag} ${attributes.join(" ")}${close}`;
+  if (inline.length <= 80 && !inline.includes("\n")) return inline;
+  return `${pad(depth)}<${tag}\n${attributes
+    .map((attribute) => `${pad(depth + 1)}${attribute}`)
+    .join("\n")}\n${pad(depth)}${selfClosing ? "/>" : ">"}`;
+};
+
+const renderBackground = (node: ExportNode, depth: number) => {
+  const { backgroundImage, backgroundVideo, objectFit } = node.style;
+  if (!backgroundImage && !backgroundVideo) return [];
+
+  const mediaStyle = `{{ width: "100%", height: "100%", objectFit: "${
+    objectFit || "cover"
+  }", pointerEvents: "none" }}`;
+  const media = backgroundImage
+    ? renderOpeningTag(
+        "img",
+        [
+          `src=${jsxString(
+            backgroundImage.startsWith("url(")
+              ? backgroundImage.match(/url\(['"]?(.*?)['"]?\)/i)?.[1] || ""
+              : backgroundImage
+          )}`,
+          `alt=""`,
+          `style=${mediaStyle}`,
+        ],
+        depth + 1,
+        true
+      )
+    : renderOpeningTag(
+        "video",
+        [
+          `src=${jsxString(backgroundVideo || "")}`,
+          "autoPlay",
+          "loop",
+          "muted",
+          "playsInline",
+          `style=${mediaStyle}`,
+        ],
+        depth + 1,
+        true
+      );
+
+  return [
+    `${pad(depth)}<div style=${BACKGROUND_WRAPPER_STYLE}>`,
+    media,
+    `${pad(depth)}</div>`,
+  ];
+};
+
+// Text nodes keep their rich text HTML. When viewports override the text,
+// every breakpoint gets its own block that is only visible there.
+const renderTextContent = (
+  node: ExportNode,
+  baseName: string,
+  depth: number,
+  ctx: ComponentContext,
+  isLinked = false
+) => {
+  const texts = (
+    ctx.breakpoints.length
+      ? ctx.breakpoints.map(
+          (viewport) =>
+            node.responsiveStyles?.[viewport.width]?.text ||
+            node.style.text ||
+            ""
+        )
+      : [node.style.text || ""]
+  ).map((text) =>
+    prepareTextLinks(text, ctx.resolvePage, ctx.insideLink || isLinked)
+  );
+
+  if (texts.every((text) => text === texts[0])) {
+    return [
+      `${pad(depth)}<div dangerouslySetInnerHTML={{ __html: ${JSON.stringify(
+        texts[0]
+      )} }} />`,
+    ];
+  }
+
+  return texts.map((text, index) =>
+    renderOpeningTag(
+      "div",
+      [
+        classNameAttribute(
+          registerBreakpointVisibility(
+            `${baseName} ${ctx.breakpoints[index].width}`,
+            index,
+            ctx
+          )
+        ),
+        `dangerouslySetInnerHTML={{ __html: ${JSON.stringify(text)} }}`,
+      ],
+      depth,
+      true
+    )
+  );
+};
+
+interface RenderElementOptions {
+  baseName: string;
+  scope: VariantScope | null;
+  isRoot?: boolean;
+  // Styles to use instead of the node's own (variant and component roots)
+  styles?: NodeStyle[];
+  extraClassName?: string;
+}
+
+const renderElement = (
+  node: ExportNode,
+  depth: number,
+  ctx: ComponentContext,
+  {
+    baseName,
+    scope,
+    isRoot = false,
+    styles,
+    extraClassName,
+  }: RenderElementOptions
+): string => {
+  if (!isRoot && node.isDynamic && !node.isVariant) {
+    const componentName = renderDynamicComponent(node, ctx);
+    return `${pad(depth)}<${componentName} />`;
+  }
+
+  const link = ctx.insideLink
+    ? null
+    : getLinkAttributes(node.link, ctx.resolvePage);
+  const linkAttributes = Object.entries(link || {}).map(
+    ([name, value]) => `${name}=${jsxString(value)}`
+  );
+  // Images and videos cannot hold content, so their link wraps them
+  const isReplaced = node.type === "image" || node.type === "video";
+  const tag = link && !isReplaced ? "a" : "div";
+
+  const elementStyles = styles || getBreakpointStyles(node, ctx);
+  const className = registerStyles(
+    baseName,
+    tag === "a"
+      ? elementStyles.map((style) => ({ ...LINK_STYLE, ...style }))
+      : elementStyles,
+    ctx,
+    node.dynamicState,
+    node.type === "text" ? TEXT_CONTENT_RULES : undefined
+  );
+  const attributes = [
+    classNameAttribute(className, extraClassName),
+    ...(tag === "a" ? linkAttributes : []),
+    ...Object.entries(getInteractionAttributes(node)).map(([name, value]) =>
+      typeof value === "number" ? `${name}={${value}}` : `${name}="${value}"`
+    ),
+    ...getEventAttributes(node, scope, isRoot),
+  ];
+
+  if (isReplaced) {
+    const mediaDepth = link ? depth + 1 : depth;
+    const media =
+      node.type === "image"
+        ? renderOpeningTag(
+            "img",
+            [...attributes, `src=${jsxString(node.style.src || "")}`, `alt=""`],
+            mediaDepth,
+            true
+          )
+        : renderOpeningTag(
+            "video",
+            [
+              ...attributes,
+              `src=${jsxString(node.style.src || "")}`,
+              "autoPlay",
+              "loop",
+              "muted",
+              "playsInline",
+            ],
+            mediaDepth,
+            true
+          );
+    if (!link) return media;
+    return [
+      renderOpeningTag(
+        "a",
+        [...linkAttributes, `style={{ display: "contents" }}`],
+        depth
+      ),
+      media,
+      `${pad(depth)}</a>`,
+    ].join("\n");
+  }
+
+  const childCtx = link ? { ...ctx, insideLink: true } : ctx;
+
+  const children = [
+    ...renderBackground(node, depth + 1),
+    ...(node.type === "text"
+      ? renderTextContent(node, `${baseName} content`, depth + 1, ctx, !!link)
+      : []),
+    ...(node.type === "spline" && node.vector
+      ? [
+          `${pad(depth + 1)}${svgToJsx(
+            buildVectorSvg(node.vector, `node-${node.id}`)
+          )}`,
+        ]
+      : []),
+    ...(isShapeType(node.type)
+      ? [`${pad(depth + 1)}${svgToJsx(buildShapeSvg(node.type, node.shape))}`]
+      : []),
+    ...(node.children || []).map((child) =>
+      renderElement(child, depth + 1, childCtx, {
+        baseName: child.customName || child.type,
+        scope,
+      })
+    ),
+  ];
+
+  if (children.length === 0) {
+    return renderOpeningTag(tag, attributes, depth, true);
+  }
+
+  return [
+    renderOpeningTag(tag, attributes, depth),
+    ...children,
+    `${pad(depth)}</${tag}>`,
+  ].join("\n");
+};
+
+const getRootStyles = (node: ExportNode, ctx: ComponentContext) =>
+  getBreakpointStyles(node, ctx).map((style) => getVariantRootStyle(style));
+
+const renderStaticComponent = (
+  node: ExportNode,
+  componentName: string,
+  rootClassName: string,
+  ctx: ComponentContext
+) => {
+  const body = renderElement(node, 2, ctx, {
+    baseName: rootClassName,
+    scope: null,
+    isRoot: true,
+    styles: getRootStyles(node, ctx),
+    extraClassName: "className",
+  });
+
+  return `export interface ${componentName}Props {
+  className?: string;
+}
+
+export function ${componentName}({ className }: ${componentName}Props) {
+  return (
+${body}
+  );
+}`;
+};
+
+// A dynamic node and its variants become one component with a typed
+// `variant` prop. Connections between variants switch the variant locally.
+const renderDynamicComponent = (
+  node: ExportNode,
+  ctx: ComponentContext,
+  componentName = getComponentName(node, ctx.componentNames),
+  rootClassName = toCamelCase(componentName)
+) => {
+  const slugs = new Set(["default"]);
+  const variants = getDynamicVariants(node, ctx.nodes).map((variant) => ({
+    slug: makeUnique(variant.variantInfo?.id || variant.id, slugs),
+    name: variant.variantInfo?.name || variant.id,
+    tree: buildVariantSubtree(
+      variant,
+      ctx.nodes,
+      ctx.breakpoints
+    ) as ExportNode,
+  }));
+
+  const targets = new Map<string, string>([[node.id, "default"]]);
+  variants.forEach((variant) => targets.set(variant.tree.id, variant.slug));
+
+  const collectHasInteractions = (tree: ExportNode): boolean =>
+    getEventAttributes(tree, { targets }, true).length > 0 ||
+    (tree.children || []).some(collectHasInteractions);
+  const hasInteractions =
+    collectHasInteractions(node) ||
+    variants.some((variant) => collectHasInteractions(variant.tree));
+
+  const scope = hasInteractions ? { targets } : null;
+  const stateName = hasInteractions ? "currentVariant" : "variant";
+
+  const renderCase = (tree: ExportNode, baseName: string) =>
+    renderElement(tree, 4, ctx, {
+      baseName,
+      scope,
+      isRoot: true,
+      styles: getRootStyles(tree, ctx).map((style) => ({
+        ...style,
+        transition: style.transition || "all 0.3s ease",
+      })),
+      extraClassName: "className",
+    });
+
+  const cases = variants
+    .map(
+      (variant) => `    case ${JSON.stringify(variant.slug)}:
+      // ${variant.name}
+      return (
+${renderCase(variant.tree, `${rootClassName} ${variant.slug}`)}
+      );`
+    )
+    .concat(
+      `    default:
+      return (
+${renderCase(node, rootClassName)}
+      );`
+    )
+    .join("\n");
+
+  const variantType = [...slugs]
+    .map((slug) => JSON.stringify(slug))
+    .join(" | ");
+  const state = hasInteractions
+    ? `  const [currentVariant, setCurrentVariant] =
+    useState<${componentName}Variant>(variant);
+
+  useEffect(() => {
+    setCurrentVariant(variant);
+  }, [variant]);
+
+`
+    : "";
+
+  ctx.components.push(`export type ${componentName}Variant = ${variantType};
+
+export interface ${componentName}Props {
+  variant?: ${componentName}Variant;
+  className?: string;
+}
+
+export function ${componentName}({
+  variant = "default",
+  className,
+}: ${componentName}Props) {
+${state}  switch (${stateName}) {
+${cases}
+  }
+}`);
+
+  return componentName;
+};
+
+const getViewportId = (node: Node | undefined, nodes: Node[]) => {
+  let current = node;
+  while (current && !current.isViewport) {
+    current = nodes.find((n) => n.id === current?.parentId);
+  }
+  return current?.id;
+};
+
+// Responsive copy of a subtree: every node picks up the styles of its
+// sharedId counterpart in each viewport.
+const buildResponsiveSubtree = (
+  node: Node,
+  nodes: Node[],
+  breakpoints: Viewport[]
+): ExportNode => {
+  const responsiveStyles: Record<number, NodeStyle> = {};
+
+  breakpoints.forEach((viewport) => {
+    const counterpart =
+      (node.sharedId &&
+        nodes.find(
+          (n) =>
+            !n.isVariant &&
+            n.sharedId === node.sharedId &&
+            getViewportId(n, nodes) === viewport.id
+        )) ||
+      node;
+    responsiveStyles[viewport.width] = { ...counterpart.style };
+  });
+
+  return {
+    ...(node as ExportNode),
+    responsiveStyles,
+    children: nodes
+      .filter((n) => n.parentId === node.id)
+      .map((child) => buildResponsiveSubtree(child, nodes, breakpoints)),
+  };
+};
+
+/**
+ * Generate a React component (TSX plus a CSS module unless Tailwind is
+ * requested) for the subtree rooted at `nodeId`.
+ */
+export const buildReactComponent = (
+  nodes: Node[],
+  nodeId: string,
+  {
+    styling = "css-module",
+    tokens = [],
+    fonts = [],
+    pages = [],
+  }: ReactComponentOptions = {}
+): ReactComponentExport => {
+  const cleanNodes = nodes.filter((node) => node.type !== "placeholder");
+  const selected = cleanNodes.find((node) => node.id === nodeId);
+  if (!selected) {
+    throw new Error(`Cannot export node ${nodeId}: node not found`);
+  }
+
+  const viewportBreakpoints = getViewportBreakpoints(cleanNodes);
+  const viewportId = getViewportId(selected, cleanNodes);
+
+  // Always export from the largest viewport so its styles become the base
+  let tree: ExportNode;
+  let breakpoints = viewportBreakpoints;
+  if (selected.isVariant) {
+    tree = buildVariantSubtree(selected, cleanNodes, breakpoints) as ExportNode;
+  } else if (viewportId) {
+    const primary =
+      (selected.sharedId &&
+        cleanNodes.find(
+          (n) =>
+            !n.isVariant &&
+            n.sharedId === selected.sharedId &&
+            getViewportId(n, cleanNodes) === breakpoints[0]?.id
+        )) ||
+      selected;
+    tree = buildResponsiveSubtree(primary, cleanNodes, breakpoints);
+  } else {
+    // Free-floating canvas frames have no viewport counterparts
+    breakpoints = [];
+    tree = buildResponsiveSubtree(selected, cleanNodes, breakpoints);
+  }
+
+  const ctx: ComponentContext = {
+    nodes: cleanNodes,
+    breakpoints,
+    styling,
+    css: [],
+    classNames: new Set(),
+    componentNames: new Set(),
+    components: [],
+    resolvePage: (pageId) => {
+      const index = pages.findIndex((page) => page.id === pageId);
+      if (index === -1) return null;
+      return index === 0 ? "/" : `/${pages[index].slug}`;
+    },
+  };
+
+  const componentName = getComponentName(selected, ctx.componentNames);
+  if (tree.isDynamic && !tree.isVariant) {
+    renderDynamicComponent(tree, ctx, componentName, "root");
+  } else {
+    ctx.components.push(
+      renderStaticComponent(tree, componentName, "root", ctx)
+    );
+  }
+
+  const usesState = ctx.components.some((source) =>
+    source.includes("useState<")
+  );
+  const output = `${ctx.components.join("\n")}\n${ctx.css.join("\n")}`;
+  const usedTokens = tokens.filter((token) =>
+    output.includes(`--token-${token.id}`)
+  );
+  // Tailwind writes the spaces of arbitrary values as underscores
+  const usedFonts = fonts.filter(
+    (font) =>
+      output.includes(font.family) ||
+      output.includes(font.family.replace(/\s+/g, "_"))
+  );
+  const imports = [
+    usesState ? `import { useEffect, useState } from "react";` : "",
+    styling === "css-module"
+      ? `import styles from "./${componentName}.module.css";`
+      : "",
+    usedTokens.length ? `import "./tokens.css";` : "",
+    usedFonts.length ? `import "./fonts.css";` : "",
+  ].filter(Boolean);
+
+  // Nested components are pushed before their parents, so the main
+  // component always ends up last.
+  const tsx = `${imports.length ? `${imports.join("\n")}\n\n` : ""}${ctx.components.join(
+    "\n\n"
+  )}\n\nexport default ${componentName};\n`;
+
+  const files: ExportedFile[] = [
+    { path: `${componentName}.tsx`, content: tsx },
+  ];
+  if (styling === "css-module") {
+    files.push({
+      path: `${componentName}.module.css`,
+      content: `${ctx.css.join("\n\n")}\n`,
+    });
+  }
+  if (usedTokens.length) {
+    files.push({
+      path: "tokens.css",
+      content: `${generateTokenCSS(usedTokens)}\n`,
+    });
+  }
+  if (usedFonts.length) {
+    files.push(
+      {
+        path: "fonts.css",
+        content: `${generateFontFaceCSS(
+          usedFonts,
+          (font) => `./fonts/${getFontFileName(font)}`
+        )}\n`,
+      },
+      ...getFontFiles(usedFonts, "fonts")
+    );
+  }
+
+  return { componentName, files };
+};
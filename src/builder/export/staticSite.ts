@@ -0,0 +1,648 @@
+import {
+  ConnectionTransition,
+  ConnectionTrigger,
+  Node,
+} from "../reducer/nodeDispatcher";
+import { PageSeo, ProjectPage } from "../persistence/projectDocument";
+import { buildResponsiveNodeTree } from "../view/preview/hooks/useResponsiveNodeTree";
+import {
+  convertStyleToCss,
+  generateBackgroundImageCSS,
+  generateEnhancedResponsiveCSS,
+  generateMediaQueryContent,
+  generateResponsiveCSS,
+  generateViewportContainerRules,
+  getBreakpointMediaQuery,
+} from "../view/preview/utils/cssUtils";
+import { NodeStyle, ResponsiveNode, Viewport } from "../view/preview/types";
+import { getTransitionCss } from "../view/preview/utils/transitionUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../view/preview/utils/stateUtils";
+import {
+  PageHrefResolver,
+  getLinkAttributes,
+  prepareTextLinks,
+} from "../view/preview/utils/linkUtils";
+import { generateTextContentCSS } from "../view/preview/utils/textUtils";
+import { DYNAMIC_RUNTIME_SOURCE } from "./dynamicRuntime";
+import { CmsCollection, CmsItem } from "../reducer/cmsDispatcher";
+import { bindResponsiveNode } from "../cms/collectionData";
+import { DesignToken } from "../reducer/tokenDispatcher";
+import { generateTokenCSS, getTokenFontFamilies } from "../tokens/tokenCss";
+import { FontAsset, FontState } from "../reducer/fontDispatcher";
+import { fontInitialState } from "../reducer/state";
+import {
+  generateFontFaceCSS,
+  getFontFileData,
+  getFontFileName,
+  getGoogleFontsHref,
+  getNodeFontFamilies,
+} from "../fonts/fontCss";
+import { buildVectorSvg, svgToMarkup } from "../vector/vectorSvg";
+import { buildShapeSvg, isShapeType } from "../vector/shapeSvg";
+
+export interface ExportedFile {
+  path: string;
+  content: string;
+  // Binary files, like fonts, hold their bytes as base64
+  base64?: boolean;
+}
+
+export interface StaticPageOptions {
+  title?: string;
+  fileName?: string;
+  seo?: PageSeo;
+  collections?: CmsCollection[];
+  tokens?: DesignToken[];
+  // Uploaded fonts ship in fonts/, other families link to Google Fonts
+  fontState?: FontState;
+  // Pages of the site, in order, for links to other pages
+  pages?: Pick<ProjectPage, "id" | "slug">[];
+}
+
+interface ExportContext {
+  nodes: Node[];
+  breakpoints: Viewport[];
+  css: string[];
+  templates: string[];
+  connections: Record<
+    string,
+    {
+      type: string;
+      targetId: string;
+      transition?: string;
+      delay?: number;
+      key?: string;
+    }[]
+  >;
+  collections: CmsCollection[];
+  // The item being rendered inside a frame bound to a collection
+  collection?: CmsCollection;
+  item?: CmsItem;
+  resolvePage: PageHrefResolver;
+  // Set below a linked node, whose descendants cannot be links themselves
+  insideLink?: boolean;
+}
+
+const BASE_CSS = `html, body {
+  margin: 0;
+  padding: 0;
+  width: 100%;
+  min-height: 100%;
+}
+
+*, *::before, *::after {
+  box-sizing: border-box;
+}
+
+.preview-container {
+  width: 100%;
+  overflow: hidden;
+}
+
+.viewport-container {
+  width: 100%;
+  min-height: auto;
+}
+
+.node {
+  position: relative;
+}
+
+.node-frame {
+  background-color: transparent;
+}
+
+a.node {
+  display: block;
+  color: inherit;
+  text-decoration: none;
+}
+
+.node-link {
+  display: contents;
+}
+
+.node-dynamic {
+  transition: all 0.3s ease;
+}
+
+video.node-video {
+  object-fit: cover;
+}`;
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const extractUrl = (value: string) =>
+  value.startsWith("url(")
+    ? value.match(/url\(['"]?(.*?)['"]?\)/i)?.[1] || ""
+    : value;
+
+export const getViewportBreakpoints = (nodes: Node[]): Viewport[] =>
+  nodes
+    .filter((node) => node.isViewport)
+    .sort((a, b) => (b.viewportWidth || 0) - (a.viewportWidth || 0))
+    .map((viewport) => ({
+      id: viewport.id,
+      width: viewport.viewportWidth || 0,
+      name: viewport.viewportName || "",
+    }));
+
+const addConnections = (
+  node: {
+    id: string;
+    dynamicConnections?: {
+      type: string;
+      targetId: string | number;
+      transition?: ConnectionTransition;
+      trigger?: ConnectionTrigger;
+    }[];
+  },
+  ctx: ExportContext
+) => {
+  if (!node.dynamicConnections?.length) return;
+  ctx.connections[node.id] = node.dynamicConnections.map((conn) => ({
+    type: conn.type,
+    targetId: String(conn.targetId),
+    // Connections without settings keep the stylesheet's default transition
+    ...(conn.transition && {
+      transition: getTransitionCss(conn.transition),
+    }),
+    ...conn.trigger,
+  }));
+};
+
+const collectNodeCss = (
+  node: ResponsiveNode,
+  ctx: ExportContext,
+  selector = `#node-${node.id}`
+) => {
+  ctx.css.push(generateResponsiveCSS(node, ctx.breakpoints));
+  if (node.style.backgroundImage) {
+    ctx.css.push(generateBackgroundImageCSS(node, ctx.breakpoints));
+  }
+  ctx.css.push(generateMediaQueryContent(node, ctx.breakpoints));
+  ctx.css.push(generateInteractionStateCSS(node, selector));
+};
+
+const renderInteractionAttributes = (node: ResponsiveNode) =>
+  Object.entries(getInteractionAttributes(node))
+    .map(([name, value]) => ` ${name.toLowerCase()}="${value}"`)
+    .join("");
+
+type LinkAttributes = ReturnType<typeof getLinkAttributes>;
+
+const renderLinkAttributes = (link: LinkAttributes) =>
+  Object.entries(link || {})
+    .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+    .join("");
+
+// Images and videos are wrapped instead, see .node-link
+const wrapInLink = (html: string, link: LinkAttributes) =>
+  link ? `<a class="node-link"${renderLinkAttributes(link)}>${html}</a>` : html;
+
+const renderBackground = (node: ResponsiveNode) => {
+  const { backgroundImage, backgroundVideo } = node.style;
+  if (!backgroundImage && !backgroundVideo) return "";
+
+  const media = backgroundImage
+    ? `<img src="${escapeHtml(
+        extractUrl(backgroundImage)
+      )}" alt="" style="width: 100%; height: 100%; object-fit: ${
+        node.style.objectFit || "cover"
+      }; pointer-events: none;" />`
+    : `<video src="${escapeHtml(
+        backgroundVideo!
+      )}" autoplay loop muted playsinline style="width: 100%; height: 100%; object-fit: ${
+        node.style.objectFit || "cover"
+      }; pointer-events: none;"></video>`;
+
+  return `<div id="node-${node.id}-bg-wrapper" style="position: absolute; inset: 0; border-radius: inherit; overflow: hidden;">${media}</div>`;
+};
+
+// Text nodes render one block per viewport that overrides the text; the
+// media queries from generateMediaQueryContent toggle which one is visible.
+const renderTextContent = (
+  node: ResponsiveNode,
+  ctx: ExportContext,
+  isLinked = false
+) => {
+  const { text } = node.style;
+  if (!text) return "";
+  const renderText = (html: string) =>
+    prepareTextLinks(html, ctx.resolvePage, ctx.insideLink || isLinked);
+
+  const viewportVersions = Object.entries(node.responsiveStyles || {})
+    .filter(([, styles]) => styles.text && styles.text !== text)
+    .map(
+      ([viewport, styles]) =>
+        `<div id="node-${node.id}-content-${viewport}" style="display: none;">${renderText(
+          styles.text!
+        )}</div>`
+    )
+    .join("");
+
+  return `<div id="node-${node.id}-content">${renderText(
+    text
+  )}</div>${viewportVersions}`;
+};
+
+const renderChildren = (node: ResponsiveNode, ctx: ExportContext) => {
+  const collection = node.cmsCollectionId
+    ? ctx.collections.find((c) => c.id === node.cmsCollectionId)
+    : undefined;
+  if (!collection) {
+    return (node.children || [])
+      .map((child) => renderNode(child, ctx))
+      .join("");
+  }
+
+  // Collection lists repeat the children once per item. The copies keep the
+  // template's ids so the generated #node-<id> rules style all of them.
+  return collection.items
+    .map((item) =>
+      (node.children || [])
+        .map((child) => renderNode(child, { ...ctx, collection, item }))
+        .join("")
+    )
+    .join("");
+};
+
+const renderNode = (
+  templateNode: ResponsiveNode,
+  ctx: ExportContext
+): string => {
+  const node = bindResponsiveNode(templateNode, ctx.collection, ctx.item);
+  if (node.isDynamic && !node.dynamicParentId) {
+    return renderDynamicNode(node, ctx);
+  }
+
+  collectNodeCss(node, ctx);
+  addConnections(node, ctx);
+
+  const link = ctx.insideLink
+    ? null
+    : getLinkAttributes(node.link, ctx.resolvePage);
+  // Linked nodes render as the <a> itself so hover and focus stay on them
+  const tag = link ? "a" : "div";
+  const attrs = `id="node-${node.id}" data-node-id="${node.id}" data-node-type="${
+    node.type
+  }"${renderInteractionAttributes(node)}`;
+  const elementAttrs = `${attrs}${renderLinkAttributes(link)}`;
+
+  if (isShapeType(node.type)) {
+    return `<${tag} ${elementAttrs} class="node node-${node.type}">${svgToMarkup(
+      buildShapeSvg(node.type, node.shape)
+    )}</${tag}>`;
+  }
+
+  switch (node.type) {
+    case "image":
+      return wrapInLink(
+        `<img ${attrs} class="node node-image" src="${escapeHtml(
+          node.style.src || ""
+        )}" alt="" />`,
+        link
+      );
+    case "video":
+      return wrapInLink(
+        `<video ${attrs} class="node node-video" src="${escapeHtml(
+          node.style.src || ""
+        )}" autoplay loop muted playsinline></video>`,
+        link
+      );
+    case "text":
+      return `<${tag} ${elementAttrs} class="node node-text">${renderTextContent(
+        node,
+        ctx,
+        !!link
+      )}</${tag}>`;
+    case "spline":
+      return `<${tag} ${elementAttrs} class="node node-spline">${
+        node.vector
+          ? svgToMarkup(buildVectorSvg(node.vector, `node-${node.id}`))
+          : ""
+      }</${tag}>`;
+    case "frame":
+    default:
+      return `<${tag} ${elementAttrs} class="node node-${
+        node.type
+      }">${renderBackground(node)}${renderChildren(
+        node,
+        link ? { ...ctx, insideLink: true } : ctx
+      )}</${tag}>`;
+  }
+};
+
+// Variants live outside the viewports, so they are not part of the
+// responsive tree. Rebuild their subtree here and pick up the matching
+// variant node of every other viewport through sharedId + variant slug.
+const getVariantRoot = (node: Node, nodes: Node[]) => {
+  let current = node;
+  while (current.parentId) {
+    const parent = nodes.find((n) => n.id === current.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+};
+
+export const buildVariantSubtree = (
+  node: Node,
+  nodes: Node[],
+  breakpoints: Viewport[]
+): ResponsiveNode => {
+  const root = getVariantRoot(node, nodes);
+  const responsiveStyles: Record<number, NodeStyle> = {};
+
+  breakpoints.forEach((viewport) => {
+    const counterpart =
+      nodes.find(
+        (n) =>
+          n.isVariant &&
+          n.sharedId === node.sharedId &&
+          n.dynamicViewportId === viewport.id &&
+          getVariantRoot(n, nodes).variantInfo?.id === root.variantInfo?.id
+      ) || node;
+    responsiveStyles[viewport.width] = { ...counterpart.style };
+  });
+
+  return {
+    ...(node as ResponsiveNode),
+    responsiveStyles,
+    children: nodes
+      .filter((n) => n.parentId === node.id)
+      .map((child) => buildVariantSubtree(child, nodes, breakpoints)),
+  };
+};
+
+// Top-level variant nodes that belong to a dynamic base node
+export const getDynamicVariants = (node: { id: string }, nodes: Node[]) =>
+  nodes.filter(
+    (n) =>
+      n.isVariant &&
+      !n.parentId &&
+      (n.variantParentId === node.id || n.dynamicParentId === node.id)
+  );
+
+export const getVariantRootStyle = (style: NodeStyle) => {
+  // Same cleanup the preview applies before showing a variant in place
+  const variantStyle = { ...style };
+  variantStyle.position = "relative";
+  delete variantStyle.left;
+  delete variantStyle.top;
+  delete variantStyle.right;
+  delete variantStyle.bottom;
+  return variantStyle;
+};
+
+const importantCss = (style: NodeStyle) =>
+  convertStyleToCss(style)
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => `  ${line.replace(/;$/, " !important;")}`)
+    .join("\n");
+
+const renderDynamicNode = (node: ResponsiveNode, ctx: ExportContext) => {
+  ctx.css.push(generateEnhancedResponsiveCSS(node, ctx.breakpoints));
+  collectNodeCss(node, ctx, `#dynamic-node-${node.id}`);
+  addConnections(node, ctx);
+
+  // Every variant that belongs to this dynamic node gets a template with its
+  // children plus root styles keyed on the runtime's data-state attribute.
+  const variants = getDynamicVariants(node, ctx.nodes);
+
+  variants.forEach((variant) => {
+    addConnections(variant, ctx);
+    const variantTree = buildVariantSubtree(
+      variant,
+      ctx.nodes,
+      ctx.breakpoints
+    );
+
+    ctx.breakpoints.forEach((_viewport, index) => {
+      const style = getVariantRootStyle(
+        variantTree.responsiveStyles[ctx.breakpoints[index].width]
+      );
+      ctx.css.push(`${getBreakpointMediaQuery(index, ctx.breakpoints)} {
+  #dynamic-node-${node.id}[data-state="${variant.id}"] {
+${importantCss(style)}
+  }
+}`);
+    });
+
+    const contentHtml = `${renderBackground(variantTree)}${
+      variantTree.type === "text" ? renderTextContent(variantTree, ctx) : ""
+    }${renderChildren(variantTree, ctx)}`;
+    ctx.templates.push(
+      `<template data-variant-template="${variant.id}">${contentHtml}</template>`
+    );
+  });
+
+  return `<div id="dynamic-node-${node.id}" data-node-id="${node.id}" data-node-type="${
+    node.type
+  }" data-dynamic-root="${node.id}"${renderInteractionAttributes(
+    node
+  )} class="node node-dynamic node-${node.type}">${renderBackground(node)}${
+    node.type === "text" ? renderTextContent(node, ctx) : ""
+  }${renderChildren(node, ctx)}</div>`;
+};
+
+const renderViewportBackgrounds = (nodes: Node[]) =>
+  nodes
+    .filter(
+      (node) =>
+        node.isViewport &&
+        (node.style.backgroundImage || node.style.backgroundVideo)
+    )
+    .map((viewport) => {
+      const media = viewport.style.backgroundImage
+        ? `<img src="${escapeHtml(
+            extractUrl(viewport.style.backgroundImage)
+          )}" alt="" style="width: 100%; height: 100%; object-fit: cover; pointer-events: none;" />`
+        : `<video src="${escapeHtml(
+            viewport.style.backgroundVideo!
+          )}" autoplay loop muted playsinline style="width: 100%; height: 100%; object-fit: cover; pointer-events: none;"></video>`;
+      return `<div class="viewport-container-bg-${viewport.id}" style="display: none; position: absolute; inset: 0; z-index: 0; overflow: hidden;">${media}</div>`;
+    })
+    .join("");
+
+const renderSeoMeta = (seo?: PageSeo) => {
+  if (!seo) return "";
+  const tags = [
+    seo.description &&
+      `<meta name="description" content="${escapeHtml(seo.description)}" />`,
+    seo.title &&
+      `<meta property="og:title" content="${escapeHtml(seo.title)}" />`,
+    seo.description &&
+      `<meta property="og:description" content="${escapeHtml(
+        seo.description
+      )}" />`,
+    seo.ogImage &&
+      `<meta property="og:image" content="${escapeHtml(seo.ogImage)}" />`,
+    seo.noIndex && `<meta name="robots" content="noindex" />`,
+  ].filter(Boolean);
+  return tags.length ? `${tags.join("\n")}\n` : "";
+};
+
+// Font files an export writes next to its stylesheets, in `dir`
+export const getFontFiles = (fonts: FontAsset[], dir: string) =>
+  fonts.map((font) => ({
+    path: `${dir}/${getFontFileName(font)}`,
+    content: getFontFileData(font),
+    base64: true,
+  }));
+
+// The first page is the site's index. Slugs are unique among pages but can
+// still clash with it, so later pages get a number instead of replacing it.
+const getPageFileName = (pages: Pick<ProjectPage, "slug">[], index: number) => {
+  const used = new Set<string>();
+  const names = pages.slice(0, index + 1).map((page, pageIndex) => {
+    const base = pageIndex === 0 ? "index" : page.slug || "page";
+    let name = base;
+    let suffix = 2;
+    while (used.has(name)) {
+      name = `${base}-${suffix++}`;
+    }
+    used.add(name);
+    return name;
+  });
+  return names[index];
+};
+
+/**
+ * Build a standalone HTML page, its stylesheet and (if the page has dynamic
+ * elements) the vanilla runtime from the builder's node array.
+ */
+export const buildStaticPage = (
+  nodes: Node[],
+  {
+    title = "Untitled",
+    fileName = "index",
+    seo,
+    collections = [],
+    tokens = [],
+    fontState = fontInitialState,
+    pages = [],
+  }: StaticPageOptions = {}
+): ExportedFile[] => {
+  const cleanNodes = nodes.filter((node) => node.type !== "placeholder");
+  const breakpoints = getViewportBreakpoints(cleanNodes);
+  const tree: ResponsiveNode[] = buildResponsiveNodeTree(
+    cleanNodes,
+    breakpoints
+  );
+
+  const ctx: ExportContext = {
+    nodes: cleanNodes,
+    breakpoints,
+    css: [],
+    templates: [],
+    connections: {},
+    collections,
+    resolvePage: (pageId) => {
+      const index = pages.findIndex((page) => page.id === pageId);
+      return index === -1 ? null : `${getPageFileName(pages, index)}.html`;
+    },
+  };
+
+  const bodyHtml = tree.map((node) => renderNode(node, ctx)).join("\n");
+  const hasDynamic = Object.keys(ctx.connections).length > 0;
+
+  const css = [
+    generateFontFaceCSS(
+      fontState.fonts,
+      (font) => `../fonts/${getFontFileName(font)}`
+    ),
+    BASE_CSS,
+    generateTextContentCSS(".node-text"),
+    generateTokenCSS(tokens),
+    generateViewportContainerRules(breakpoints, cleanNodes),
+    // Repeated collection items push the same rules once per item
+    ...new Set(ctx.css),
+  ]
+    .filter((rule) => rule && rule.trim())
+    .join("\n\n");
+
+  const fontsHref = getGoogleFontsHref(
+    getNodeFontFamilies(cleanNodes, getTokenFontFamilies(tokens)),
+    fontState
+  );
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(seo?.title || title)}</title>
+${renderSeoMeta(seo)}${
+    fontsHref
+      ? `<link rel="stylesheet" href="${escapeHtml(fontsHref)}" />\n`
+      : ""
+  }<link rel="stylesheet" href="css/${fileName}.css" />
+</head>
+<body>
+<div class="preview-container">
+<div class="viewport-container">
+${renderViewportBackgrounds(cleanNodes)}${bodyHtml}
+</div>
+</div>
+${ctx.templates.join("\n")}
+${
+  hasDynamic
+    ? `<script type="application/json" id="revyme-dynamic-data">${JSON.stringify(
+        { connections: ctx.connections }
+      ).replace(/</g, "\\u003c")}</script>
+<script src="js/runtime.js"></script>`
+    : ""
+}
+</body>
+</html>
+`;
+
+  const files: ExportedFile[] = [
+    { path: `${fileName}.html`, content: html },
+    { path: `css/${fileName}.css`, content: css },
+    ...getFontFiles(fontState.fonts, "fonts"),
+  ];
+
+  if (hasDynamic) {
+    files.push({ path: "js/runtime.js", content: DYNAMIC_RUNTIME_SOURCE });
+  }
+
+  return files;
+};
+
+/**
+ * Build every page of the project. The first page becomes index.html, the
+ * others are written as <slug>.html next to it and share the runtime.
+ */
+export const buildStaticSite = (
+  pages: ProjectPage[],
+  collections: CmsCollection[] = [],
+  tokens: DesignToken[] = [],
+  fontState?: FontState
+): ExportedFile[] => {
+  const files = new Map<string, ExportedFile>();
+
+  pages.forEach((page, index) => {
+    buildStaticPage(page.nodes, {
+      title: page.name,
+      fileName: getPageFileName(pages, index),
+      seo: page.seo,
+      collections,
+      tokens,
+      fontState,
+      pages,
+    }).forEach((file) => files.set(file.path, file));
+  });
+
+  return Array.from(files.values());
+};
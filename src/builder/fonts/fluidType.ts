@@ -0,0 +1,75 @@
+// Viewport frames on the canvas set this to 1% of their own width, so fluid
+// sizes follow the frame instead of the browser window. Everywhere else it
+// is unset and falls back to 1vw.
+export const FLUID_VW_VAR = "--fluid-vw";
+
+// Sizes in px at the smallest and the largest viewport
+export interface FluidSize {
+  min: number;
+  max: number;
+}
+
+export interface FluidRange {
+  minWidth: number;
+  maxWidth: number;
+}
+
+// The default viewports, for projects that have none
+const DEFAULT_RANGE: FluidRange = { minWidth: 375, maxWidth: 1440 };
+
+const FLUID_PATTERN =
+  /^clamp\(\s*(-?[\d.]+)px\s*,\s*calc\(\s*(-?[\d.]+)px\s*\+\s*(-?[\d.]+)\s*\*\s*var\(--fluid-vw,\s*1vw\)\s*\)\s*,\s*(-?[\d.]+)px\s*\)$/;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export const getFluidRange = (viewportWidths: number[]): FluidRange => {
+  const widths = viewportWidths.filter((width) => width > 0);
+  return widths.length
+    ? { minWidth: Math.min(...widths), maxWidth: Math.max(...widths) }
+    : DEFAULT_RANGE;
+};
+
+/**
+ * `clamp()` growing linearly from `min` at the smallest viewport to `max` at
+ * the largest one. Either can be the larger size.
+ */
+export const formatFluidSize = (
+  { min, max }: FluidSize,
+  { minWidth, maxWidth }: FluidRange
+) => {
+  const slope = maxWidth > minWidth ? (max - min) / (maxWidth - minWidth) : 0;
+  const intercept = min - slope * minWidth;
+  return `clamp(${Math.min(min, max)}px, calc(${round(intercept)}px + ${round(
+    slope * 100
+  )} * var(${FLUID_VW_VAR}, 1vw)), ${Math.max(min, max)}px)`;
+};
+
+export const isFluidSize = (value?: string | null) =>
+  !!value && FLUID_PATTERN.test(value.trim());
+
+// Size in px the fluid value has on a viewport of the given width
+export const getFluidSizeAt = (value: string, width: number) => {
+  const match = value.trim().match(FLUID_PATTERN);
+  if (!match) return NaN;
+  const [lower, intercept, slope, upper] = match.slice(1).map(Number);
+  return Math.min(upper, Math.max(lower, intercept + (slope * width) / 100));
+};
+
+export const parseFluidSize = (
+  value: string,
+  range: FluidRange
+): FluidSize | null =>
+  isFluidSize(value)
+    ? {
+        min: Math.round(getFluidSizeAt(value, range.minWidth) * 100) / 100,
+        max: Math.round(getFluidSizeAt(value, range.maxWidth) * 100) / 100,
+      }
+    : null;
+
+// The plain vw form, for stylesheets that never run on the canvas
+export const toFluidCss = (value: string) =>
+  value.replace(/(-?[\d.]+)\s*\*\s*var\(--fluid-vw,\s*1vw\)/g, "$1vw");
+
+// First font size set in a text node's HTML
+export const getHtmlFontSize = (html?: string) =>
+  html?.match(/font-size:\s*((?:clamp\([^;"]*\))|[^;"]+)/)?.[1].trim();
@@ -0,0 +1,101 @@
+import { FontAsset, FontFormat, FontState } from "../reducer/fontDispatcher";
+
+const FONT_FILE_EXTENSIONS: Record<FontFormat, string> = {
+  woff2: "woff2",
+  truetype: "ttf",
+  opentype: "otf",
+};
+
+// Nodes of the builder, the preview and the exports all fit this
+type FontNode = {
+  type: string;
+  style?: { fontFamily?: string; text?: string };
+};
+
+// First family of a font-family value, unquoted
+export const toFamilyName = (value: string) =>
+  value.split(",")[0].trim().replace(/['"]/g, "");
+
+// File name exports write a font to, unique per family, weight and style
+export const getFontFileName = (font: FontAsset) =>
+  `${font.family.replace(/[^a-z0-9]+/gi, "-")}-${font.weight}${
+    font.style === "italic" ? "-italic" : ""
+  }.${FONT_FILE_EXTENSIONS[font.format]}`;
+
+// Variable fonts cover the whole range of their wght axis
+const getFontWeight = (font: FontAsset) => {
+  const axis = font.axes?.find((a) => a.tag === "wght");
+  return axis ? `${axis.min} ${axis.max}` : font.weight;
+};
+
+// The file itself, without the data URL prefix
+export const getFontFileData = (font: FontAsset) =>
+  font.src.slice(font.src.indexOf(",") + 1);
+
+/**
+ * `@font-face` rules for the uploaded fonts. The canvas and the preview use
+ * the stored data URLs, exports point `getUrl` at the files they write.
+ */
+export const generateFontFaceCSS = (
+  fonts: FontAsset[],
+  getUrl: (font: FontAsset) => string = (font) => font.src
+) =>
+  fonts
+    .map(
+      (font) => `@font-face {
+  font-family: "${font.family}";
+  src: url("${getUrl(font)}") format("${font.format}");
+  font-weight: ${getFontWeight(font)};
+  font-style: ${font.style};
+  font-display: swap;
+}`
+    )
+    .join("\n\n");
+
+// Families used by text nodes, on the node or on spans of its HTML
+export const getNodeFontFamilies = (
+  nodes: FontNode[],
+  extraFonts: string[] = []
+) => {
+  const families = new Set(extraFonts.map(toFamilyName));
+
+  nodes.forEach((node) => {
+    if (node.type !== "text") return;
+    if (node.style?.fontFamily && !node.style.fontFamily.startsWith("var(")) {
+      families.add(toFamilyName(node.style.fontFamily));
+    }
+    // Quoted names are escaped inside the style attribute
+    const matches = node.style?.text
+      ?.replace(/&quot;/g, "'")
+      .matchAll(/font-family:\s*([^;"]+)/gi);
+    for (const match of matches || []) {
+      families.add(toFamilyName(match[1]));
+    }
+  });
+
+  return Array.from(families).filter(Boolean);
+};
+
+export const isLocalFontFamily = (family: string, fonts: FontAsset[]) =>
+  fonts.some(
+    (font) => font.family.toLowerCase() === toFamilyName(family).toLowerCase()
+  );
+
+/**
+ * Stylesheet URL loading the given families from Google Fonts, or null when
+ * the provider is off or uploaded fonts cover every family.
+ */
+export const getGoogleFontsHref = (
+  families: string[],
+  { fonts, googleFonts }: FontState
+) => {
+  if (!googleFonts) return null;
+  const remote = families.filter((family) => !isLocalFontFamily(family, fonts));
+  if (remote.length === 0) return null;
+
+  const familiesQuery = remote
+    .map((font) => `family=${font.replace(/\s+/g, "+")}:wght@400;500;600;700`)
+    .join("&");
+
+  return `https://fonts.googleapis.com/css2?${familiesQuery}&display=swap`;
+};
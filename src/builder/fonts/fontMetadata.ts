@@ -0,0 +1,319 @@
+import {
+  FontAsset,
+  FontAxis,
+  FontFormat,
+  FontStyle,
+} from "../reducer/fontDispatcher";
+
+export type FontMetadata = Pick<
+  FontAsset,
+  "family" | "weight" | "style" | "axes"
+>;
+
+export const FONT_FILE_ACCEPT = ".woff2,.ttf,.otf";
+
+const SIGNATURES: Record<number, FontFormat> = {
+  0x00010000: "truetype",
+  0x74727565: "truetype", // "true"
+  0x4f54544f: "opentype", // "OTTO"
+  0x774f4632: "woff2", // "wOF2"
+};
+
+export const FONT_MIME_TYPES: Record<FontFormat, string> = {
+  woff2: "font/woff2",
+  truetype: "font/ttf",
+  opentype: "font/otf",
+};
+
+// Style names found in subfamily names and file names, most specific first
+const WEIGHT_KEYWORDS: [RegExp, number][] = [
+  [/(extra|ultra)[\s_-]?light/i, 200],
+  [/(semi|demi)[\s_-]?bold/i, 600],
+  [/(extra|ultra)[\s_-]?bold/i, 800],
+  [/thin|hairline/i, 100],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/bold/i, 700],
+  [/black|heavy/i, 900],
+];
+
+const getWeightFromName = (name: string) =>
+  WEIGHT_KEYWORDS.find(([pattern]) => pattern.test(name))?.[1] ?? 400;
+
+const getStyleFromName = (name: string): FontStyle =>
+  /italic|oblique/i.test(name) ? "italic" : "normal";
+
+const toTag = (value: number) =>
+  String.fromCharCode(
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff
+  );
+
+type FontTables = Partial<Record<string, DataView>>;
+
+// Plain TrueType and OpenType files list their tables right after the header
+const readSfntTables = (view: DataView): FontTables => {
+  const tables: FontTables = {};
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    tables[toTag(view.getUint32(record))] = new DataView(
+      view.buffer,
+      view.byteOffset + offset,
+      length
+    );
+  }
+  return tables;
+};
+
+// Tags a WOFF2 table directory refers to by index instead of spelling out
+const WOFF2_KNOWN_TAGS = (
+  "cmap head hhea hmtx maxp name OS/2 post cvt  fpgm glyf loca prep CFF  " +
+  "VORG EBDT EBLC gasp hdmx kern LTSH PCLT VDMX vhea vmtx BASE GDEF GPOS " +
+  "GSUB EBSC JSTF MATH CBDT CBLC COLR CPAL SVG  sbix acnt avar bdat bloc " +
+  "bsln cvar fdsc feat fmtx fvar gvar hsty just lcar mort morx opbd prop " +
+  "trak Zapf Silf Glat Gloc Feat Sill"
+)
+  .match(/.{4}\s?/g)!
+  .map((tag) => tag.slice(0, 4));
+
+const WOFF2_HEADER_SIZE = 48;
+
+const readUIntBase128 = (view: DataView, cursor: { offset: number }) => {
+  let value = 0;
+  for (let i = 0; i < 5; i++) {
+    const byte = view.getUint8(cursor.offset++);
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return value;
+  }
+  throw new Error("Invalid WOFF2 table directory");
+};
+
+const decompressBrotli = async (data: Uint8Array) => {
+  // Brotli support in DecompressionStream is recent; callers fall back to
+  // the file name where it is missing
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("brotli" as CompressionFormat));
+  return new DataView(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * WOFF2 stores all tables in one Brotli stream, in directory order. `name`
+ * and `OS/2` are never transformed, so they can be read straight from it.
+ */
+const readWoff2Tables = async (view: DataView): Promise<FontTables> => {
+  // Font collections have an extra header this does not read
+  if (view.getUint32(4) === 0x74746366) return {};
+
+  const numTables = view.getUint16(12);
+  const compressedLength = view.getUint32(20);
+  const cursor = { offset: WOFF2_HEADER_SIZE };
+  const entries: { tag: string; length: number }[] = [];
+
+  for (let i = 0; i < numTables; i++) {
+    const flags = view.getUint8(cursor.offset++);
+    let tag = WOFF2_KNOWN_TAGS[flags & 0x3f];
+    if ((flags & 0x3f) === 0x3f) {
+      tag = toTag(view.getUint32(cursor.offset));
+      cursor.offset += 4;
+    }
+    const originalLength = readUIntBase128(view, cursor);
+    const transformVersion = flags >> 6;
+    // glyf and loca are transformed unless their version is 3, every other
+    // table only when its version is not 0
+    const isTransformed =
+      tag === "glyf" || tag === "loca"
+        ? transformVersion !== 3
+        : transformVersion !== 0;
+    const length = isTransformed
+      ? readUIntBase128(view, cursor)
+      : originalLength;
+    entries.push({ tag, length });
+  }
+
+  const data = await decompressBrotli(
+    new Uint8Array(
+      view.buffer,
+      view.byteOffset + cursor.offset,
+      compressedLength
+    )
+  );
+
+  const tables: FontTables = {};
+  let offset = 0;
+  entries.forEach(({ tag, length }) => {
+    tables[tag] = new DataView(data.buffer, data.byteOffset + offset, length);
+    offset += length;
+  });
+  return tables;
+};
+
+const decodeName = (view: DataView, platformId: number) => {
+  let text = "";
+  if (platformId === 1) {
+    for (let i = 0; i < view.byteLength; i++) {
+      text += String.fromCharCode(view.getUint8(i));
+    }
+    return text;
+  }
+  // Unicode and Windows names are UTF-16BE
+  for (let i = 0; i + 1 < view.byteLength; i += 2) {
+    text += String.fromCharCode(view.getUint16(i));
+  }
+  return text;
+};
+
+// Preference of the records naming the same thing: Windows English first,
+// then any Windows or Unicode record, then Macintosh
+const getRecordRank = (platformId: number, languageId: number) =>
+  platformId === 3 && languageId === 0x409
+    ? 0
+    : platformId === 3 || platformId === 0
+      ? 1
+      : 2;
+
+const readNames = (name: DataView) => {
+  const names: Record<number, { text: string; rank: number }> = {};
+  const count = name.getUint16(2);
+  const stringOffset = name.getUint16(4);
+
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12;
+    const platformId = name.getUint16(record);
+    const languageId = name.getUint16(record + 4);
+    const nameId = name.getUint16(record + 6);
+    const length = name.getUint16(record + 8);
+    const offset = name.getUint16(record + 10);
+    const rank = getRecordRank(platformId, languageId);
+    if (names[nameId] && names[nameId].rank <= rank) continue;
+
+    names[nameId] = {
+      rank,
+      text: decodeName(
+        new DataView(
+          name.buffer,
+          name.byteOffset + stringOffset + offset,
+          length
+        ),
+        platformId
+      ).trim(),
+    };
+  }
+
+  return (nameId: number) => names[nameId]?.text || "";
+};
+
+// Axis records of the fvar table, with values in 16.16 fixed point
+const readAxes = (fvar: DataView, getName: (nameId: number) => string) => {
+  const axesOffset = fvar.getUint16(4);
+  const axisCount = fvar.getUint16(8);
+  const axisSize = fvar.getUint16(10);
+  const toNumber = (offset: number) =>
+    Math.round((fvar.getInt32(offset) / 0x10000) * 100) / 100;
+
+  return Array.from({ length: axisCount }, (_, i): FontAxis => {
+    const record = axesOffset + i * axisSize;
+    const tag = toTag(fvar.getUint32(record));
+    return {
+      tag,
+      name: getName(fvar.getUint16(record + 18)) || tag,
+      min: toNumber(record + 4),
+      default: toNumber(record + 8),
+      max: toNumber(record + 12),
+    };
+  });
+};
+
+const readTableMetadata = (tables: FontTables): Partial<FontMetadata> => {
+  const metadata: Partial<FontMetadata> = {};
+  const getName = tables.name ? readNames(tables.name) : () => "";
+
+  if (tables.name) {
+    // Typographic names (16, 17) group every weight under one family,
+    // legacy ones (1, 2) only know regular, bold and italic
+    metadata.family = getName(16) || getName(1) || undefined;
+    const subfamily = getName(17) || getName(2);
+    if (subfamily) {
+      metadata.weight = getWeightFromName(subfamily);
+      metadata.style = getStyleFromName(subfamily);
+    }
+  }
+
+  const os2 = tables["OS/2"];
+  if (os2 && os2.byteLength >= 64) {
+    const weight = os2.getUint16(4);
+    if (weight >= 1 && weight <= 1000) metadata.weight = weight;
+    // Bit 0 marks italic faces, bit 9 oblique ones
+    const selection = os2.getUint16(62);
+    if (selection & 0x201) metadata.style = "italic";
+  }
+
+  if (tables.fvar) {
+    metadata.axes = readAxes(tables.fvar, getName);
+  }
+
+  return metadata;
+};
+
+// "Inter-SemiBoldItalic.woff2" → Inter, 600, italic
+export const getMetadataFromFileName = (fileName: string): FontMetadata => {
+  const name = fileName.replace(/\.[^.]+$/, "");
+  const [family, ...rest] = name.split(/[-_](?=[^-_]*$)/);
+  const styleName = rest.join(" ");
+  return {
+    family: (family || name).replace(/[_-]+/g, " ").trim(),
+    weight: getWeightFromName(styleName),
+    style: getStyleFromName(styleName),
+  };
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Read a WOFF2, TTF or OTF file into a font asset. Family, weight and style
+ * come from the font's `name` and `OS/2` tables, and from its file name when
+ * those cannot be read.
+ */
+export const readFontFile = async (
+  file: File
+): Promise<Omit<FontAsset, "id">> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const format = view.byteLength >= 12 && SIGNATURES[view.getUint32(0)];
+  if (!format) {
+    throw new Error(`${file.name} is not a WOFF2, TTF or OTF font`);
+  }
+
+  let metadata: Partial<FontMetadata> = {};
+  try {
+    metadata = readTableMetadata(
+      format === "woff2" ? await readWoff2Tables(view) : readSfntTables(view)
+    );
+  } catch (error) {
+    console.warn(`Could not read the metadata of ${file.name}:`, error);
+  }
+
+  return {
+    ...getMetadataFromFileName(file.name),
+    ...Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ),
+    format,
+    fileName: file.name,
+    src: `data:${FONT_MIME_TYPES[format]};base64,${toBase64(
+      new Uint8Array(buffer)
+    )}`,
+  };
+};
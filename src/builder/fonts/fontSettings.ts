@@ -0,0 +1,81 @@
+import { FontAsset, FontAxis } from "../reducer/fontDispatcher";
+import { toFamilyName } from "./fontCss";
+
+// Values of font-variation-settings or font-feature-settings, by tag
+export type FontSettings = Record<string, number>;
+
+// Offered when the family is not an uploaded variable font, whose own axes
+// are known
+export const REGISTERED_AXES: FontAxis[] = [
+  { tag: "wght", name: "Weight", min: 100, default: 400, max: 900 },
+  { tag: "wdth", name: "Width", min: 50, default: 100, max: 200 },
+  { tag: "slnt", name: "Slant", min: -15, default: 0, max: 0 },
+];
+
+export interface OpenTypeFeature {
+  tag: string;
+  label: string;
+  // Features browsers turn on by themselves are written out as 0 when off
+  defaultOn?: boolean;
+}
+
+export const OPENTYPE_FEATURES: OpenTypeFeature[] = [
+  { tag: "liga", label: "Ligatures", defaultOn: true },
+  { tag: "dlig", label: "Discretionary ligatures" },
+  { tag: "tnum", label: "Tabular numbers" },
+  { tag: "smcp", label: "Small caps" },
+];
+
+export const STYLISTIC_SETS = Array.from(
+  { length: 8 },
+  (_, i) => `ss${String(i + 1).padStart(2, "0")}`
+);
+
+// '"wght" 650, "wdth" 90' → { wght: 650, wdth: 90 }
+export const parseFontSettings = (value?: string | null): FontSettings => {
+  const settings: FontSettings = {};
+  for (const match of value?.matchAll(
+    /["']([\w ]{4})["']\s*(-?[\d.]+|on|off)?/g
+  ) || []) {
+    const amount = match[2] ?? "1";
+    settings[match[1]] =
+      amount === "on" ? 1 : amount === "off" ? 0 : Number(amount);
+  }
+  return settings;
+};
+
+// The CSS value of the settings, or null when there are none
+export const formatFontSettings = (settings: FontSettings) => {
+  const entries = Object.entries(settings);
+  return entries.length
+    ? entries.map(([tag, value]) => `"${tag}" ${value}`).join(", ")
+    : null;
+};
+
+/**
+ * Axes to offer for a family: those of its uploaded faces, or the registered
+ * ones when it has none.
+ */
+export const getFamilyAxes = (family: string, fonts: FontAsset[]) => {
+  const axes = new Map<string, FontAxis>();
+  fonts
+    .filter(
+      (font) => font.family.toLowerCase() === toFamilyName(family).toLowerCase()
+    )
+    .forEach((font) =>
+      font.axes?.forEach((axis) => {
+        const known = axes.get(axis.tag);
+        axes.set(
+          axis.tag,
+          known
+            ? {
+                ...known,
+                min: Math.min(known.min, axis.min),
+                max: Math.max(known.max, axis.max),
+              }
+            : axis
+        );
+      })
+    );
+  return axes.size ? Array.from(axes.values()) : REGISTERED_AXES;
+};
@@ -0,0 +1,80 @@
+import { nanoid } from "nanoid";
+import { LayoutGrid, LayoutGridType } from "../reducer/nodeDispatcher";
+import { SnapGridLine } from "../context/canvasHelpers/GlobalSnapSystem";
+
+export interface LayoutGridFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const LAYOUT_GRID_DEFAULTS: Record<
+  LayoutGridType,
+  Omit<LayoutGrid, "id" | "type">
+> = {
+  columns: { count: 12, gutter: 20, margin: 20, size: 8, color: "#ff0000" },
+  rows: { count: 8, gutter: 20, margin: 0, size: 8, color: "#0096ff" },
+  grid: { count: 0, gutter: 0, margin: 0, size: 8, color: "#ff0000" },
+};
+
+export const createLayoutGrid = (
+  type: LayoutGridType = "columns"
+): LayoutGrid => ({ id: nanoid(), type, ...LAYOUT_GRID_DEFAULTS[type] });
+
+/**
+ * Start and end of each column or row along a side of `length`. Empty for
+ * a uniform grid, or when the margins and gutters leave no room.
+ */
+export const getLayoutGridBands = (
+  grid: LayoutGrid,
+  length: number
+): [number, number][] => {
+  if (grid.type === "grid") return [];
+  const count = Math.max(1, Math.round(grid.count));
+  const size = (length - grid.margin * 2 - grid.gutter * (count - 1)) / count;
+  if (size <= 0) return [];
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = grid.margin + index * (size + grid.gutter);
+    return [start, start + size];
+  });
+};
+
+// Every `size` along a side of `length`, for a uniform grid
+const getCellEdges = (size: number, length: number) =>
+  size > 0
+    ? Array.from({ length: Math.floor(length / size) + 1 }, (_, i) => i * size)
+    : [];
+
+/**
+ * Column, row and cell edges of a viewport's layout grids as snap lines, in
+ * the coordinates of `frame`
+ */
+export const getLayoutGridSnapLines = (
+  frame: LayoutGridFrame,
+  grids: LayoutGrid[]
+): SnapGridLine[] =>
+  grids.flatMap((grid) => {
+    if (grid.type === "grid") {
+      return [
+        ...getCellEdges(grid.size, frame.width).map((x): SnapGridLine => ({
+          orientation: "vertical",
+          position: frame.left + x,
+        })),
+        ...getCellEdges(grid.size, frame.height).map((y): SnapGridLine => ({
+          orientation: "horizontal",
+          position: frame.top + y,
+        })),
+      ];
+    }
+
+    const isColumns = grid.type === "columns";
+    const offset = isColumns ? frame.left : frame.top;
+    return getLayoutGridBands(grid, isColumns ? frame.width : frame.height)
+      .flat()
+      .map((edge): SnapGridLine => ({
+        orientation: isColumns ? "vertical" : "horizontal",
+        position: offset + edge,
+      }));
+  });
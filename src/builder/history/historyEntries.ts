@@ -0,0 +1,200 @@
+import { Patch } from "immer";
+import { Node } from "../reducer/nodeDispatcher";
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+// A NodeDispatcher call, as seen by the history when its update lands
+export interface HistoryMethod {
+  name: string;
+  args: unknown[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+// `past` ends with the entry that produced the current state
+export interface NodeHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const emptyHistory: NodeHistory = { past: [], future: [] };
+
+// Methods whose name says what happened, whichever nodes they touch
+const METHOD_LABELS: Record<string, string> = {
+  createComponent: "Create component",
+  insertComponentInstance: "Insert instance",
+  detachComponentInstance: "Detach instance",
+  resetInstanceOverrides: "Reset overrides",
+  setCustomName: "Rename",
+  toggleNodeLock: "Toggle lock",
+  createVariant: "Create variant",
+  updateNodeDynamicStatus: "Make dynamic",
+  addUniqueDynamicConnection: "Add connection",
+  setConnectionTransition: "Change transition",
+  setConnectionTrigger: "Change trigger",
+  setConnectionAction: "Change action",
+  editViewport: "Edit viewport",
+  alignViewports: "Align viewports",
+  alignNodes: "Align",
+  distributeNodes: "Distribute",
+  tidyUpNodes: "Tidy up",
+  updateNodeVector: "Edit path",
+  combineVectorNodes: "Combine shapes",
+  updateNodeShape: "Edit shape",
+  updateNodeStateStyle: "Edit state",
+  setNodeDisabled: "Toggle disabled",
+  updateNodeLink: "Edit link",
+  syncFromViewport: "Sync viewports",
+  setCmsBinding: "Bind collection",
+};
+
+// Named methods always make an entry, even for changes (like moves of
+// absolutely positioned nodes) that are otherwise left to drag sessions
+export const isLabelledMethod = (method: HistoryMethod) =>
+  method.name in METHOD_LABELS;
+
+// Updates from these methods are someone else's edits and never become
+// local history entries
+export const UNRECORDED_METHODS = ["applyRemoteNodes"];
+
+// Dragging an absolutely positioned node only changes these
+const POSITION_STYLES = ["left", "top", "transform"];
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${count === 1 ? noun : `${noun}s`}`;
+
+// "syncViewports" -> "Sync viewports"
+const humanize = (method: string) => {
+  const words = method.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Describe what changed between two node arrays. Copies of a node in other
+ * viewports share its sharedId and are counted once.
+ */
+const describeChange = (prevNodes: Node[], nextNodes: Node[]) => {
+  const getKey = (node: Node) => node.sharedId || node.id;
+  const prevById = new Map(
+    prevNodes.filter((n) => n.type !== "placeholder").map((n) => [n.id, n])
+  );
+  const nextById = new Map(
+    nextNodes.filter((n) => n.type !== "placeholder").map((n) => [n.id, n])
+  );
+
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  const moved = new Set<string>();
+  const styleKeys = new Set<string>();
+
+  const getSiblingIndex = (node: Node, nodes: Map<string, Node>) =>
+    Array.from(nodes.values())
+      .filter((n) => n.parentId === node.parentId)
+      .indexOf(node);
+
+  nextById.forEach((next, id) => {
+    const prev = prevById.get(id);
+    if (!prev) {
+      added.add(getKey(next));
+      return;
+    }
+    if (prev === next) return;
+
+    const prevStyle = prev.style as Record<string, unknown>;
+    const nextStyle = next.style as Record<string, unknown>;
+    if (
+      prev.parentId !== next.parentId ||
+      POSITION_STYLES.some((key) => prevStyle[key] !== nextStyle[key])
+    ) {
+      moved.add(getKey(next));
+    }
+
+    new Set([...Object.keys(prevStyle), ...Object.keys(nextStyle)]).forEach(
+      (key) => {
+        if (POSITION_STYLES.includes(key)) return;
+        if (prevStyle[key] !== nextStyle[key]) styleKeys.add(key);
+      }
+    );
+  });
+  prevById.forEach((prev, id) => {
+    if (!nextById.has(id)) removed.add(getKey(prev));
+  });
+
+  // Reordering within the same parent only shows in the sibling order
+  if (!added.size && !removed.size && !moved.size && !styleKeys.size) {
+    nextById.forEach((next, id) => {
+      const prev = prevById.get(id);
+      if (
+        prev &&
+        getSiblingIndex(prev, prevById) !== getSiblingIndex(next, nextById)
+      ) {
+        moved.add(getKey(next));
+      }
+    });
+  }
+
+  if (removed.size) return `Delete ${pluralize(removed.size, "node")}`;
+  if (added.size) return `Add ${pluralize(added.size, "node")}`;
+  if (moved.size) return `Move ${pluralize(moved.size, "node")}`;
+  if (styleKeys.size === 1 && styleKeys.has("text")) return "Edit text";
+  if (styleKeys.size) {
+    const keys = Array.from(styleKeys);
+    return keys.length > 2
+      ? `Change ${keys.slice(0, 2).join(", ")} and ${keys.length - 2} more`
+      : `Change ${keys.join(" and ")}`;
+  }
+  return null;
+};
+
+/**
+ * Label for a history entry. Methods like createComponent name themselves;
+ * generic edits (moves, style changes, adds) are described from the change.
+ */
+export const getHistoryLabel = (
+  methods: HistoryMethod[],
+  prevNodes: Node[],
+  nextNodes: Node[]
+) => {
+  const named = methods.find((method) => METHOD_LABELS[method.name]);
+  if (named) return METHOD_LABELS[named.name];
+
+  return (
+    describeChange(prevNodes, nextNodes) ||
+    (methods.length ? humanize(methods[0].name) : "Edit")
+  );
+};
+
+/**
+ * Point `activeMethod` at the dispatcher method that is running, so the state
+ * updates it makes can be labelled. Methods calling each other keep the
+ * outermost call.
+ */
+export const trackHistoryMethods = <T extends object>(
+  dispatcher: T,
+  activeMethod: { current: HistoryMethod | null }
+) => {
+  const target = dispatcher as Record<string, unknown>;
+  Object.getOwnPropertyNames(Object.getPrototypeOf(dispatcher)).forEach(
+    (name) => {
+      const method = target[name];
+      if (name === "constructor" || typeof method !== "function") return;
+
+      target[name] = (...args: unknown[]) => {
+        if (activeMethod.current) return method.apply(dispatcher, args);
+        activeMethod.current = { name, args };
+        try {
+          return method.apply(dispatcher, args);
+        } finally {
+          activeMethod.current = null;
+        }
+      };
+    }
+  );
+  return dispatcher;
+};
@@ -0,0 +1,389 @@
+import { produce } from "immer";
+import { nanoid } from "nanoid";
+import { Node, NodeState } from "../reducer/nodeDispatcher";
+import {
+  getPagesWithActiveNodes,
+  PageState,
+  ProjectPage,
+} from "../persistence/projectDocument";
+
+// Where an instance sits is its own business, everything else follows the master
+export const INSTANCE_PLACEMENT_STYLES = [
+  "position",
+  "left",
+  "top",
+  "right",
+  "bottom",
+  "zIndex",
+];
+
+type NodeStyle = Node["style"];
+
+export type ComponentRoot = Node & { componentId: string };
+
+// Instance nodes point at the master node they mirror by its sharedId, so the
+// copy of the master in the instance's own viewport can be followed
+export const getMasterKey = (node: Node) => node.sharedId || node.id;
+
+export const getViewportId = (
+  node: Node,
+  nodesById: Map<string, Node>
+): string | null => {
+  let current: Node | undefined = node;
+  while (current) {
+    if (current.isViewport) return current.id;
+    current = current.parentId ? nodesById.get(current.parentId) : undefined;
+  }
+  return null;
+};
+
+// Nodes of every page, the active one as it is being edited
+export const getProjectNodes = (pageState: PageState, activeNodes: Node[]) =>
+  getPagesWithActiveNodes(pageState, activeNodes).flatMap((page) => page.nodes);
+
+/**
+ * Master roots of every component in `nodes`, one entry per component.
+ * The master's copies in other viewports share its componentId.
+ */
+export const getComponentMasters = (nodes: Node[]) => {
+  const masters = new Map<string, ComponentRoot>();
+  nodes.forEach((node) => {
+    if (node.isComponentMaster && node.componentId) {
+      if (!masters.has(node.componentId)) {
+        masters.set(node.componentId, node as ComponentRoot);
+      }
+    }
+  });
+  return Array.from(masters.values());
+};
+
+// The component root a node belongs to, if it sits inside a master or instance
+export const findComponentRoot = (
+  node: Node,
+  nodes: Node[]
+): ComponentRoot | null => {
+  let current: Node | undefined = node;
+  while (current) {
+    if (current.componentId) return current as ComponentRoot;
+    const parentId: string | null | undefined = current.parentId;
+    current = parentId ? nodes.find((n) => n.id === parentId) : undefined;
+  }
+  return null;
+};
+
+const isDescendantOf = (node: Node, ancestorId: string, nodes: Node[]) => {
+  let parentId: string | null | undefined = node.parentId;
+  while (parentId) {
+    if (parentId === ancestorId) return true;
+    parentId = nodes.find((n) => n.id === parentId)?.parentId;
+  }
+  return false;
+};
+
+// Components don't nest, and dynamic nodes keep their own variant machinery
+export const canCreateComponent = (node: Node, nodes: Node[]) =>
+  node.type === "frame" &&
+  !node.isViewport &&
+  !node.isDynamic &&
+  !node.isVariant &&
+  !node.dynamicFamilyId &&
+  !findComponentRoot(node, nodes) &&
+  !nodes.some((n) => n.componentId && isDescendantOf(n, node.id, nodes));
+
+/**
+ * The masters in `nodes` with everything inside them and the frames up to
+ * their viewport, which is all the sync needs to follow a master that lives
+ * on another page.
+ */
+export const getLibraryNodes = (nodes: Node[]) => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const childrenById = new Map<string, Node[]>();
+  nodes.forEach((node) => {
+    if (!node.parentId || node.type === "placeholder") return;
+    const siblings = childrenById.get(node.parentId) || [];
+    siblings.push(node);
+    childrenById.set(node.parentId, siblings);
+  });
+
+  const library = new Set<Node>();
+  const visit = (node: Node) => {
+    library.add(node);
+    (childrenById.get(node.id) || []).forEach(visit);
+  };
+  nodes.forEach((node) => {
+    if (!node.isComponentMaster || !node.componentId) return;
+    visit(node);
+    let parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+    while (parent && !library.has(parent)) {
+      library.add(parent);
+      parent = parent.parentId ? nodesById.get(parent.parentId) : undefined;
+    }
+  });
+  return nodes.filter((node) => library.has(node));
+};
+
+export const getNextComponentName = (nodes: Node[]) =>
+  `Component ${getComponentMasters(nodes).length + 1}`;
+
+const setStyleValue = (style: NodeStyle, key: string, value: unknown) => {
+  const values = style as Record<string, unknown>;
+  if (value === undefined) {
+    delete values[key];
+  } else {
+    values[key] = value;
+  }
+};
+
+/**
+ * Bring every component instance in line with its master. Runs after each
+ * dispatcher update, inside the same state change, so an edit to a master and
+ * its propagation to the instances form a single undo step. Masters on other
+ * pages come in as `libraryNodes`, see getLibraryNodes.
+ *
+ * Style edits made directly on instance nodes since `prev` are recorded as
+ * overrides first, so they survive this and later syncs.
+ */
+export const syncComponentInstances = (
+  prev: NodeState,
+  next: NodeState,
+  libraryNodes: Node[] = []
+): NodeState => {
+  if (next === prev || !next.nodes.some((node) => node.componentId)) {
+    return next;
+  }
+
+  const prevById = new Map(prev.nodes.map((node) => [node.id, node]));
+  const nextById = new Map(next.nodes.map((node) => [node.id, node]));
+
+  return produce(next, (draft) => {
+    const nodesById = new Map(draft.nodes.map((node) => [node.id, node]));
+    // Library nodes are only read; viewports are shared by every page and
+    // keep their entry from this page
+    const library = libraryNodes.filter((node) => !nodesById.has(node.id));
+    library.forEach((node) => nodesById.set(node.id, node));
+    const childrenById = new Map<string, Node[]>();
+    [...draft.nodes, ...library].forEach((node) => {
+      if (!node.parentId || node.type === "placeholder") return;
+      const siblings = childrenById.get(node.parentId) || [];
+      siblings.push(node);
+      childrenById.set(node.parentId, siblings);
+    });
+
+    const getSubtree = (root: Node) => {
+      const subtree: Node[] = [];
+      const visit = (node: Node) => {
+        subtree.push(node);
+        (childrenById.get(node.id) || []).forEach(visit);
+      };
+      visit(root);
+      return subtree;
+    };
+
+    // A duplicated master would make the component ambiguous, so only the
+    // first master per viewport keeps the role and copies become plain frames
+    const masters = new Map<string, Node>();
+    draft.nodes.forEach((node) => {
+      if (!node.isComponentMaster || !node.componentId) return;
+      const key = `${node.componentId}|${getViewportId(node, nodesById)}`;
+      if (masters.has(key)) {
+        delete node.componentId;
+        delete node.isComponentMaster;
+      } else {
+        masters.set(key, node);
+      }
+    });
+    library.forEach((node) => {
+      if (!node.isComponentMaster || !node.componentId) return;
+      const key = `${node.componentId}|${getViewportId(node, nodesById)}`;
+      if (!masters.has(key)) masters.set(key, node);
+    });
+
+    const findMaster = (instanceRoot: Node) => {
+      const viewportId = getViewportId(instanceRoot, nodesById);
+      const sameViewport = masters.get(
+        `${instanceRoot.componentId}|${viewportId}`
+      );
+      if (sameViewport) return sameViewport;
+      return Array.from(masters.values()).find(
+        (master) => master.componentId === instanceRoot.componentId
+      );
+    };
+
+    const instances = draft.nodes
+      .filter((node) => node.componentId && !node.isComponentMaster)
+      .map((root) => {
+        const linked = new Map<string, Node>();
+        getSubtree(root).forEach((node) => {
+          if (!node.masterSharedId) return;
+          if (linked.has(node.masterSharedId) && node !== root) {
+            // Duplicated inside the instance: keep it as a node of its own
+            delete node.masterSharedId;
+            delete node.overrides;
+            return;
+          }
+          linked.set(node.masterSharedId, node);
+        });
+        return { root, linked };
+      });
+
+    const linkedIds = new Set<string>();
+    // Nodes mirroring the same master node in the copies of an instance
+    // across viewports share a sharedId, like any other responsive node
+    const sharedIds = new Map<string, string>();
+    instances.forEach(({ root, linked }) => {
+      linked.forEach((node, masterKey) => {
+        linkedIds.add(node.id);
+        if (node.sharedId) {
+          sharedIds.set(`${getMasterKey(root)}|${masterKey}`, node.sharedId);
+        }
+      });
+    });
+
+    // Nodes moved out of an instance no longer mirror anything
+    draft.nodes.forEach((node) => {
+      if (node.masterSharedId && !linkedIds.has(node.id)) {
+        delete node.masterSharedId;
+        delete node.overrides;
+      }
+    });
+
+    const removedIds = new Set<string>();
+    const reorders: string[][] = [];
+
+    instances.forEach(({ root, linked }) => {
+      // Record direct edits of instance nodes as overrides
+      linked.forEach((node) => {
+        const before = prevById.get(node.id);
+        const after = nextById.get(node.id);
+        if (!before || !after || before.style === after.style) return;
+        const keys = new Set([
+          ...Object.keys(before.style),
+          ...Object.keys(after.style),
+        ]);
+        keys.forEach((key) => {
+          if (node === root && INSTANCE_PLACEMENT_STYLES.includes(key)) return;
+          const previous = (before.style as Record<string, unknown>)[key];
+          const current = (after.style as Record<string, unknown>)[key];
+          if (previous !== current) {
+            node.overrides = { ...node.overrides, [key]: true };
+          }
+        });
+      });
+
+      const master = findMaster(root);
+      if (!master) return;
+
+      const masterKeys = new Set<string>();
+      const visit = (masterNode: Node, parent: Node | null) => {
+        const masterKey = getMasterKey(masterNode);
+        masterKeys.add(masterKey);
+
+        let node = linked.get(masterKey);
+        if (!node && parent) {
+          const familyKey = `${getMasterKey(root)}|${masterKey}`;
+          if (!sharedIds.has(familyKey)) sharedIds.set(familyKey, nanoid());
+          node = {
+            id: nanoid(),
+            type: masterNode.type,
+            style: {},
+            parentId: parent.id,
+            inViewport: parent.inViewport || parent.isViewport || false,
+            sharedId: sharedIds.get(familyKey),
+            masterSharedId: masterKey,
+          };
+          draft.nodes.push(node);
+          node = draft.nodes[draft.nodes.length - 1];
+          linked.set(masterKey, node);
+        }
+        if (!node) return;
+
+        if (parent && node.parentId !== parent.id) node.parentId = parent.id;
+        if (node.type !== masterNode.type) node.type = masterNode.type;
+        if (node !== root && node.customName !== masterNode.customName) {
+          node.customName = masterNode.customName;
+        }
+
+        const keys = new Set([
+          ...Object.keys(masterNode.style),
+          ...Object.keys(node.style),
+        ]);
+        keys.forEach((key) => {
+          if (node.overrides?.[key]) return;
+          if (node === root && INSTANCE_PLACEMENT_STYLES.includes(key)) return;
+          const value = (masterNode.style as Record<string, unknown>)[key];
+          if ((node.style as Record<string, unknown>)[key] !== value) {
+            setStyleValue(node.style, key, value);
+          }
+        });
+
+        const children = childrenById.get(masterNode.id) || [];
+        children.forEach((child) => visit(child, node));
+        if (children.length > 1) {
+          reorders.push(
+            children
+              .map((child) => linked.get(getMasterKey(child))?.id)
+              .filter((id): id is string => !!id)
+          );
+        }
+      };
+      visit(master, null);
+
+      // Nodes whose master counterpart was deleted go with it
+      linked.forEach((node, masterKey) => {
+        if (node === root || masterKeys.has(masterKey)) return;
+        getSubtree(node).forEach((removed) => removedIds.add(removed.id));
+      });
+    });
+
+    if (removedIds.size) {
+      draft.nodes = draft.nodes.filter((node) => !removedIds.has(node.id));
+    }
+
+    // Siblings render in array order, so reuse the slots the linked children
+    // already occupy and fill them in the master's order
+    reorders.forEach((order) => {
+      const slots = order
+        .map((id) => draft.nodes.findIndex((node) => node.id === id))
+        .filter((index) => index !== -1);
+      if (slots.length !== order.length) return;
+      const sortedSlots = [...slots].sort((a, b) => a - b);
+      if (slots.every((slot, index) => slot === sortedSlots[index])) return;
+
+      const ordered = slots.map((slot) => draft.nodes[slot]);
+      sortedSlots.forEach((slot, index) => {
+        draft.nodes[slot] = ordered[index];
+      });
+    });
+  });
+};
+
+/**
+ * Bring the instances on every page but the active one in line with the
+ * masters, wherever those live. Pages without changes are kept as they are.
+ */
+export const syncPageInstances = (
+  pageState: PageState,
+  activeNodes: Node[]
+): ProjectPage[] => {
+  const pages = getPagesWithActiveNodes(pageState, activeNodes);
+  return pageState.pages.map((page) => {
+    if (
+      page.id === pageState.activePageId ||
+      !page.nodes.some((node) => node.componentId && !node.isComponentMaster)
+    ) {
+      return page;
+    }
+
+    const libraryNodes = getLibraryNodes(
+      pages
+        .filter((other) => other.id !== page.id)
+        .flatMap((other) => other.nodes)
+    );
+    const state = { nodes: page.nodes };
+    // A copy of the state, so the sync runs without any edits to record
+    const synced = syncComponentInstances(state, { ...state }, libraryNodes);
+    return synced.nodes === page.nodes
+      ? page
+      : { ...page, nodes: synced.nodes };
+  });
+};
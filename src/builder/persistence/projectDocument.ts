@@ -0,0 +1,246 @@
+import { Node, NodeState } from "../reducer/nodeDispatcher";
+import { CmsCollection, CmsState } from "../reducer/cmsDispatcher";
+import { DesignToken, TokenState } from "../reducer/tokenDispatcher";
+import { FontAsset, FontState } from "../reducer/fontDispatcher";
+import { CommentState, CommentThread } from "../reducer/commentDispatcher";
+import { ProjectVersion, VersionState } from "../reducer/versionDispatcher";
+import { emptyHistory, NodeHistory } from "../history/historyEntries";
+
+/**
+ * Bump this whenever the shape of ProjectDocument changes and add a matching
+ * step to `migrations` below so older saves keep loading.
+ */
+export const PROJECT_SCHEMA_VERSION = 9;
+
+export const DEFAULT_PROJECT_ID = "default";
+
+export const DEFAULT_PAGE_ID = "home";
+
+export interface PageSeo {
+  title: string;
+  description: string;
+  ogImage?: string;
+  noIndex?: boolean;
+}
+
+export interface ProjectPage {
+  id: string;
+  name: string;
+  slug: string;
+  seo: PageSeo;
+  // Everything on the page's canvas lives here: viewports, variants, dynamic
+  // connections, custom names and locks are all plain Node fields.
+  nodes: Node[];
+}
+
+// Only the active page is edited through NodeState; the nodes stored on the
+// active entry of `pages` are stale until the page is switched or saved.
+export interface PageState {
+  pages: ProjectPage[];
+  activePageId: string;
+}
+
+// Everything the builder persists, as held in React state
+export interface ProjectState {
+  nodeState: NodeState;
+  // Undo history of the active page's nodes
+  nodeHistory: NodeHistory;
+  pageState: PageState;
+  cmsState: CmsState;
+  tokenState: TokenState;
+  fontState: FontState;
+  commentState: CommentState;
+  versionState: VersionState;
+}
+
+export interface ProjectDocument {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  pages: ProjectPage[];
+  activePageId: string;
+  // CMS collections are shared by every page
+  collections: CmsCollection[];
+  // Design tokens are shared by every page
+  tokens: DesignToken[];
+  // Uploaded font files, shared by every page
+  fonts: FontAsset[];
+  // Whether families no uploaded font provides load from Google Fonts
+  googleFonts: boolean;
+  // Undo history of the active page, restored with it on load
+  history: NodeHistory;
+  // Review threads of every page, each pinned to a node of its page
+  comments: CommentThread[];
+  // Named snapshots of the project, newest first
+  versions: ProjectVersion[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+// Transient keys the dispatcher leaves on nodes while the user interacts.
+// They only make sense for the current session, so they are never saved.
+export const TRANSIENT_NODE_KEYS = ["_lastAddedNodeInfo"];
+
+export const cleanNodes = (nodes: Node[]): Node[] =>
+  nodes
+    .filter((node) => node.type !== "placeholder")
+    .map((node) => {
+      const clean = { ...node } as Node & Record<string, unknown>;
+      TRANSIENT_NODE_KEYS.forEach((key) => delete clean[key]);
+      return clean;
+    });
+
+// Pages with the live nodes of the active page written back in
+export const getPagesWithActiveNodes = (
+  { pages, activePageId }: PageState,
+  activeNodes: Node[]
+): ProjectPage[] =>
+  pages.map((page) =>
+    page.id === activePageId ? { ...page, nodes: activeNodes } : page
+  );
+
+export const createProjectDocument = (
+  projectId: string,
+  {
+    nodeState,
+    nodeHistory,
+    pageState,
+    cmsState,
+    tokenState,
+    fontState,
+    commentState,
+    versionState,
+  }: ProjectState,
+  previous?: ProjectDocument | null
+): ProjectDocument => {
+  const now = Date.now();
+
+  return {
+    ...previous,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    id: projectId,
+    name: previous?.name || "Untitled project",
+    createdAt: previous?.createdAt || now,
+    updatedAt: now,
+    pages: getPagesWithActiveNodes(pageState, nodeState.nodes).map((page) => ({
+      ...page,
+      nodes: cleanNodes(page.nodes),
+    })),
+    activePageId: pageState.activePageId,
+    collections: cmsState.collections,
+    tokens: tokenState.tokens,
+    fonts: fontState.fonts,
+    googleFonts: fontState.googleFonts,
+    history: nodeHistory,
+    comments: commentState.threads,
+    versions: versionState.versions,
+  };
+};
+
+export const getProjectStateFromDocument = (
+  doc: ProjectDocument
+): ProjectState => {
+  const activePage =
+    doc.pages.find((page) => page.id === doc.activePageId) || doc.pages[0];
+
+  return {
+    nodeState: { nodes: activePage.nodes },
+    // History only applies to the page it was recorded on
+    nodeHistory:
+      activePage.id === doc.activePageId ? doc.history : emptyHistory,
+    pageState: { pages: doc.pages, activePageId: activePage.id },
+    cmsState: { collections: doc.collections },
+    tokenState: { tokens: doc.tokens },
+    fontState: { fonts: doc.fonts, googleFonts: doc.googleFonts },
+    commentState: { threads: doc.comments },
+    versionState: { versions: doc.versions },
+  };
+};
+
+type RawDocument = Record<string, unknown>;
+type Migration = (doc: RawDocument) => RawDocument;
+
+// migrations[n] upgrades a document from schema version n to n + 1.
+const migrations: Record<number, Migration> = {
+  // Version 0 is a bare NodeState ({ nodes }) written before documents
+  // carried any metadata.
+  0: (doc) => ({
+    id: DEFAULT_PROJECT_ID,
+    name: "Untitled project",
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...doc,
+    schemaVersion: 1,
+  }),
+  // Version 1 kept a single node tree; it becomes the project's home page.
+  1: ({ nodes, ...doc }) => ({
+    ...doc,
+    pages: [
+      {
+        id: DEFAULT_PAGE_ID,
+        name: "Home",
+        slug: "home",
+        seo: { title: "", description: "" },
+        nodes,
+      },
+    ],
+    activePageId: DEFAULT_PAGE_ID,
+    schemaVersion: 2,
+  }),
+  // Version 2 had no CMS.
+  2: (doc) => ({ ...doc, collections: [], schemaVersion: 3 }),
+  // Version 3 had no design tokens.
+  3: (doc) => ({ ...doc, tokens: [], schemaVersion: 4 }),
+  // Version 4 did not keep the undo history.
+  4: (doc) => ({ ...doc, history: emptyHistory, schemaVersion: 5 }),
+  // Version 5 history patches addressed nodes by array index and can't be
+  // replayed against the id-keyed patches used since.
+  5: (doc) => ({ ...doc, history: emptyHistory, schemaVersion: 6 }),
+  // Version 6 had no comments.
+  6: (doc) => ({ ...doc, comments: [], schemaVersion: 7 }),
+  // Version 7 had no version snapshots.
+  7: (doc) => ({ ...doc, versions: [], schemaVersion: 8 }),
+  // Version 8 only had Google Fonts.
+  8: (doc) => ({ ...doc, fonts: [], googleFonts: true, schemaVersion: 9 }),
+};
+
+/**
+ * Bring a raw stored document up to the current schema version.
+ * Throws if the document was written by a newer build than this one.
+ */
+export const migrateProjectDocument = (raw: unknown): ProjectDocument => {
+  if (
+    !raw ||
+    typeof raw !== "object" ||
+    (!Array.isArray((raw as RawDocument).nodes) &&
+      !Array.isArray((raw as RawDocument).pages))
+  ) {
+    throw new Error("Invalid project document: missing pages");
+  }
+
+  let doc = raw as RawDocument;
+  let version = typeof doc.schemaVersion === "number" ? doc.schemaVersion : 0;
+
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(
+      `Project document version ${version} is newer than supported version ${PROJECT_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from project schema version ${version}`);
+    }
+    doc = migrate(doc);
+    version = doc.schemaVersion as number;
+  }
+
+  return doc as unknown as ProjectDocument;
+};
@@ -0,0 +1,124 @@
+import {
+  migrateProjectDocument,
+  ProjectDocument,
+  ProjectSummary,
+} from "./projectDocument";
+
+export interface ProjectStorageAdapter {
+  load(projectId: string): Promise<ProjectDocument | null>;
+  save(doc: ProjectDocument): Promise<void>;
+  remove(projectId: string): Promise<void>;
+  list(): Promise<ProjectSummary[]>;
+}
+
+const DB_NAME = "revyme-builder";
+const DB_VERSION = 1;
+const STORE_NAME = "projects";
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Stores each project document as a record keyed by project id in the
+ * browser's IndexedDB. Works offline and is the default adapter.
+ */
+export class IndexedDBStorageAdapter implements ProjectStorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDb() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode) {
+    const db = await this.getDb();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async load(projectId: string) {
+    const store = await this.getStore("readonly");
+    const raw = await promisifyRequest(store.get(projectId));
+    return raw ? migrateProjectDocument(raw) : null;
+  }
+
+  async save(doc: ProjectDocument) {
+    const store = await this.getStore("readwrite");
+    await promisifyRequest(store.put(doc));
+  }
+
+  async remove(projectId: string) {
+    const store = await this.getStore("readwrite");
+    await promisifyRequest(store.delete(projectId));
+  }
+
+  async list() {
+    const store = await this.getStore("readonly");
+    const docs = await promisifyRequest<ProjectDocument[]>(store.getAll());
+    return docs.map(({ id, name, updatedAt }) => ({ id, name, updatedAt }));
+  }
+}
+
+/**
+ * Talks to the `/api/projects` route handlers, which keep documents on the
+ * server (a local file store by default).
+ */
+export class ApiStorageAdapter implements ProjectStorageAdapter {
+  constructor(private baseUrl = "/api/projects") {}
+
+  async load(projectId: string) {
+    const res = await fetch(`${this.baseUrl}/${encodeURIComponent(projectId)}`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Failed to load project: ${res.status}`);
+    return migrateProjectDocument(await res.json());
+  }
+
+  async save(doc: ProjectDocument) {
+    const res = await fetch(`${this.baseUrl}/${encodeURIComponent(doc.id)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(doc),
+    });
+    if (!res.ok) throw new Error(`Failed to save project: ${res.status}`);
+  }
+
+  async remove(projectId: string) {
+    const res = await fetch(
+      `${this.baseUrl}/${encodeURIComponent(projectId)}`,
+      { method: "DELETE" }
+    );
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`Failed to delete project: ${res.status}`);
+    }
+  }
+
+  async list() {
+    const res = await fetch(this.baseUrl);
+    if (!res.ok) throw new Error(`Failed to list projects: ${res.status}`);
+    return (await res.json()) as ProjectSummary[];
+  }
+}
+
+/**
+ * Pick the adapter from NEXT_PUBLIC_PROJECT_STORAGE ("indexeddb" | "api").
+ */
+export const createStorageAdapter = (): ProjectStorageAdapter => {
+  if (process.env.NEXT_PUBLIC_PROJECT_STORAGE === "api") {
+    return new ApiStorageAdapter();
+  }
+  return new IndexedDBStorageAdapter();
+};
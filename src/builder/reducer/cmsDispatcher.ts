@@ -0,0 +1,213 @@
+import { produce } from "immer";
+import { nanoid } from "nanoid";
+
+export type CmsFieldType =
+  "text" | "richText" | "image" | "number" | "date" | "boolean";
+
+export type CmsFieldValue = string | number | boolean | null;
+
+export interface CmsField {
+  id: string;
+  name: string;
+  type: CmsFieldType;
+}
+
+export interface CmsItem {
+  id: string;
+  // Keyed by field id so renaming a field keeps its values and bindings
+  values: Record<string, CmsFieldValue>;
+}
+
+export interface CmsCollection {
+  id: string;
+  name: string;
+  fields: CmsField[];
+  items: CmsItem[];
+}
+
+export interface CmsState {
+  collections: CmsCollection[];
+}
+
+export const CMS_FIELD_TYPES: { type: CmsFieldType; label: string }[] = [
+  { type: "text", label: "Text" },
+  { type: "richText", label: "Rich text" },
+  { type: "image", label: "Image" },
+  { type: "number", label: "Number" },
+  { type: "date", label: "Date" },
+  { type: "boolean", label: "Boolean" },
+];
+
+export const getDefaultFieldValue = (type: CmsFieldType): CmsFieldValue => {
+  switch (type) {
+    case "number":
+      return 0;
+    case "boolean":
+      return false;
+    case "date":
+      return null;
+    default:
+      return "";
+  }
+};
+
+export class CmsDispatcher {
+  constructor(
+    private setState: React.Dispatch<React.SetStateAction<CmsState>>
+  ) {}
+
+  replaceState(state: CmsState) {
+    this.setState(state);
+  }
+
+  createCollection(name: string) {
+    const id = nanoid();
+    this.setState(
+      produce((draft) => {
+        draft.collections.push({
+          id,
+          name,
+          fields: [{ id: nanoid(), name: "Title", type: "text" }],
+          items: [],
+        });
+      })
+    );
+    return id;
+  }
+
+  renameCollection(collectionId: string, name: string) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (collection) collection.name = name;
+      })
+    );
+  }
+
+  deleteCollection(collectionId: string) {
+    this.setState(
+      produce((draft) => {
+        draft.collections = draft.collections.filter(
+          (c) => c.id !== collectionId
+        );
+      })
+    );
+  }
+
+  addField(collectionId: string, name: string, type: CmsFieldType) {
+    const id = nanoid();
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (!collection) return;
+        collection.fields.push({ id, name, type });
+        collection.items.forEach((item) => {
+          item.values[id] = getDefaultFieldValue(type);
+        });
+      })
+    );
+    return id;
+  }
+
+  updateField(
+    collectionId: string,
+    fieldId: string,
+    updates: Partial<Pick<CmsField, "name" | "type">>
+  ) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        const field = collection?.fields.find((f) => f.id === fieldId);
+        if (!collection || !field) return;
+
+        // Values of the old type rarely make sense for the new one
+        if (updates.type && updates.type !== field.type) {
+          collection.items.forEach((item) => {
+            item.values[fieldId] = getDefaultFieldValue(updates.type!);
+          });
+        }
+        Object.assign(field, updates);
+      })
+    );
+  }
+
+  removeField(collectionId: string, fieldId: string) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (!collection) return;
+        collection.fields = collection.fields.filter((f) => f.id !== fieldId);
+        collection.items.forEach((item) => {
+          delete item.values[fieldId];
+        });
+      })
+    );
+  }
+
+  addItem(collectionId: string) {
+    const id = nanoid();
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (!collection) return;
+        const values: Record<string, CmsFieldValue> = {};
+        collection.fields.forEach((field) => {
+          values[field.id] = getDefaultFieldValue(field.type);
+        });
+        collection.items.push({ id, values });
+      })
+    );
+    return id;
+  }
+
+  setItemValue(
+    collectionId: string,
+    itemId: string,
+    fieldId: string,
+    value: CmsFieldValue
+  ) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        const item = collection?.items.find((i) => i.id === itemId);
+        if (item) item.values[fieldId] = value;
+      })
+    );
+  }
+
+  moveItem(collectionId: string, itemId: string, toIndex: number) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (!collection) return;
+        const fromIndex = collection.items.findIndex((i) => i.id === itemId);
+        if (fromIndex === -1) return;
+        const [item] = collection.items.splice(fromIndex, 1);
+        collection.items.splice(
+          Math.max(0, Math.min(toIndex, collection.items.length)),
+          0,
+          item
+        );
+      })
+    );
+  }
+
+  deleteItem(collectionId: string, itemId: string) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (!collection) return;
+        collection.items = collection.items.filter((i) => i.id !== itemId);
+      })
+    );
+  }
+
+  replaceItems(collectionId: string, items: CmsItem[]) {
+    this.setState(
+      produce((draft) => {
+        const collection = draft.collections.find((c) => c.id === collectionId);
+        if (collection) collection.items = items;
+      })
+    );
+  }
+}
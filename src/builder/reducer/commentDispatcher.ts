@@ -0,0 +1,118 @@
+import { produce } from "immer";
+import { nanoid } from "nanoid";
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface CommentMessage {
+  id: string;
+  author: CommentAuthor;
+  text: string;
+  // Names of the people @mentioned in the text
+  mentions: string[];
+  createdAt: number;
+}
+
+export interface CommentThread {
+  id: string;
+  pageId: string;
+  // The pin follows this node; `offset` is the pin's position inside it, in
+  // canvas pixels from its top left corner
+  nodeId: string;
+  offset: { x: number; y: number };
+  resolved: boolean;
+  // The first message opens the thread, the rest are replies
+  messages: CommentMessage[];
+  createdAt: number;
+}
+
+export interface CommentState {
+  threads: CommentThread[];
+}
+
+const createMessage = (
+  author: CommentAuthor,
+  text: string,
+  mentions: string[]
+): CommentMessage => ({
+  id: nanoid(),
+  author,
+  text,
+  mentions,
+  createdAt: Date.now(),
+});
+
+export class CommentDispatcher {
+  constructor(
+    private setState: React.Dispatch<React.SetStateAction<CommentState>>
+  ) {}
+
+  replaceState(state: CommentState) {
+    this.setState(state);
+  }
+
+  createThread(
+    thread: Pick<CommentThread, "pageId" | "nodeId" | "offset">,
+    author: CommentAuthor,
+    text: string,
+    mentions: string[]
+  ) {
+    const id = nanoid();
+    this.setState(
+      produce((draft) => {
+        draft.threads.push({
+          ...thread,
+          id,
+          resolved: false,
+          messages: [createMessage(author, text, mentions)],
+          createdAt: Date.now(),
+        });
+      })
+    );
+    return id;
+  }
+
+  addReply(
+    threadId: string,
+    author: CommentAuthor,
+    text: string,
+    mentions: string[]
+  ) {
+    this.setState(
+      produce((draft) => {
+        const thread = draft.threads.find((t) => t.id === threadId);
+        thread?.messages.push(createMessage(author, text, mentions));
+      })
+    );
+  }
+
+  setResolved(threadId: string, resolved: boolean) {
+    this.setState(
+      produce((draft) => {
+        const thread = draft.threads.find((t) => t.id === threadId);
+        if (thread) thread.resolved = resolved;
+      })
+    );
+  }
+
+  deleteThread(threadId: string) {
+    this.setState(
+      produce((draft) => {
+        draft.threads = draft.threads.filter((t) => t.id !== threadId);
+      })
+    );
+  }
+
+  deleteMessage(threadId: string, messageId: string) {
+    this.setState(
+      produce((draft) => {
+        const thread = draft.threads.find((t) => t.id === threadId);
+        if (!thread) return;
+        thread.messages = thread.messages.filter((m) => m.id !== messageId);
+      })
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { produce } from "immer";
-import { Node } from "./nodeDispatcher";
+import { InteractionState, Node } from "./nodeDispatcher";
 import { LineIndicatorState } from "../context/builderState";
 
 export interface DropInfo {
@@ -100,7 +100,8 @@ export interface DragState {
   duplicatedFromAlt: boolean;
   lastMouseX: number;
   lastMouseY: number;
-  dynamicState: "normal" | "hovered";
+  // Interaction state shown and edited on the canvas
+  dynamicState: "normal" | InteractionState;
   connectionTypeModal: {
     show: boolean;
     position: { x: number; y: number };
@@ -447,7 +448,7 @@ export class DragDispatcher {
     );
   }
 
-  setDynamicState(state: "normal" | "hovered") {
+  setDynamicState(state: "normal" | InteractionState) {
     this.setState((prev) =>
       produce(prev, (draft) => {
         draft.dynamicState = state;
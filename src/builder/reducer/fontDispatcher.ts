@@ -0,0 +1,105 @@
+import { produce } from "immer";
+import { nanoid } from "nanoid";
+
+export type FontStyle = "normal" | "italic";
+
+// Values of the format() hint in @font-face
+export type FontFormat = "woff2" | "truetype" | "opentype";
+
+// Axis of a variable font, registered like wght or custom, from its fvar table
+export interface FontAxis {
+  tag: string;
+  name: string;
+  min: number;
+  default: number;
+  max: number;
+}
+
+// A font file uploaded to the project. The file is kept as a data URL so
+// projects work offline and exports can write it back out.
+export interface FontAsset {
+  id: string;
+  family: string;
+  weight: number;
+  style: FontStyle;
+  format: FontFormat;
+  fileName: string;
+  src: string;
+  // Only set on variable fonts
+  axes?: FontAxis[];
+}
+
+export interface FontState {
+  fonts: FontAsset[];
+  // Families no uploaded font provides are loaded from Google Fonts
+  googleFonts: boolean;
+}
+
+export const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const isSameFace = (a: Omit<FontAsset, "id">, b: Omit<FontAsset, "id">) =>
+  a.family.toLowerCase() === b.family.toLowerCase() &&
+  a.weight === b.weight &&
+  a.style === b.style;
+
+export class FontDispatcher {
+  constructor(
+    private setState: React.Dispatch<React.SetStateAction<FontState>>
+  ) {}
+
+  replaceState(state: FontState) {
+    this.setState(state);
+  }
+
+  // Uploading a face the project already has replaces its file
+  addFont(font: Omit<FontAsset, "id">) {
+    this.setState(
+      produce((draft) => {
+        const index = draft.fonts.findIndex((f) => isSameFace(f, font));
+        if (index !== -1) {
+          draft.fonts[index] = { id: draft.fonts[index].id, ...font };
+        } else {
+          draft.fonts.push({ id: nanoid(), ...font });
+        }
+      })
+    );
+  }
+
+  updateFont(
+    fontId: string,
+    updates: Partial<Pick<FontAsset, "weight" | "style">>
+  ) {
+    this.setState(
+      produce((draft) => {
+        const font = draft.fonts.find((f) => f.id === fontId);
+        if (font) Object.assign(font, updates);
+      })
+    );
+  }
+
+  renameFamily(family: string, name: string) {
+    this.setState(
+      produce((draft) => {
+        draft.fonts.forEach((font) => {
+          if (font.family === family) font.family = name;
+        });
+      })
+    );
+  }
+
+  deleteFont(fontId: string) {
+    this.setState(
+      produce((draft) => {
+        draft.fonts = draft.fonts.filter((f) => f.id !== fontId);
+      })
+    );
+  }
+
+  setGoogleFonts(enabled: boolean) {
+    this.setState(
+      produce((draft) => {
+        draft.googleFonts = enabled;
+      })
+    );
+  }
+}
@@ -4,12 +4,27 @@ export interface InterfaceState {
   isInsertOpen: boolean;
   isLayersOpen: boolean;
   isCmsOpen: boolean;
+  isTokensOpen: boolean;
+  isHistoryOpen: boolean;
+  isCommentsOpen: boolean;
+  isVersionsOpen: boolean;
+  isFontsOpen: boolean;
   isPreviewOpen: boolean;
   isPagesOpen: boolean;
   isLibraryOpen: boolean;
   isUIKitsOpen: boolean;
   isTyping: boolean;
   previewWidth: number | null;
+  previewPageSlug: string | null;
+  // Comment thread shown next to its pin on the canvas
+  activeCommentId: string | null;
+  // Distance in screen pixels within which dragged nodes snap; 0 turns
+  // snapping off
+  snapThreshold: number;
+  // Layout grids of viewports drawn over the canvas, and snapped to
+  showLayoutGrids: boolean;
+  // Spline node whose points are being edited on the canvas
+  editingVectorId: string | null;
 }
 
 export class InterfaceDispatcher {
@@ -27,6 +42,11 @@ export class InterfaceDispatcher {
           draft.isPagesOpen = false;
           draft.isLibraryOpen = false;
           draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
         }
       })
     );
@@ -42,6 +62,11 @@ export class InterfaceDispatcher {
           draft.isPagesOpen = false;
           draft.isLibraryOpen = false;
           draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
         }
       })
     );
@@ -57,6 +82,111 @@ export class InterfaceDispatcher {
           draft.isPagesOpen = false;
           draft.isLibraryOpen = false;
           draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
+        }
+      })
+    );
+  }
+
+  toggleTokens() {
+    this.setState(
+      produce((draft) => {
+        draft.isTokensOpen = !draft.isTokensOpen;
+        if (draft.isTokensOpen) {
+          draft.isCmsOpen = false;
+          draft.isInsertOpen = false;
+          draft.isLayersOpen = false;
+          draft.isPagesOpen = false;
+          draft.isLibraryOpen = false;
+          draft.isPreviewOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
+        }
+      })
+    );
+  }
+
+  toggleHistory() {
+    this.setState(
+      produce((draft) => {
+        draft.isHistoryOpen = !draft.isHistoryOpen;
+        if (draft.isHistoryOpen) {
+          draft.isCmsOpen = false;
+          draft.isInsertOpen = false;
+          draft.isLayersOpen = false;
+          draft.isPagesOpen = false;
+          draft.isLibraryOpen = false;
+          draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
+        }
+      })
+    );
+  }
+
+  toggleComments() {
+    this.setState(
+      produce((draft) => {
+        draft.isCommentsOpen = !draft.isCommentsOpen;
+        if (draft.isCommentsOpen) {
+          draft.isCmsOpen = false;
+          draft.isInsertOpen = false;
+          draft.isLayersOpen = false;
+          draft.isPagesOpen = false;
+          draft.isLibraryOpen = false;
+          draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
+        }
+      })
+    );
+  }
+
+  toggleVersions() {
+    this.setState(
+      produce((draft) => {
+        draft.isVersionsOpen = !draft.isVersionsOpen;
+        if (draft.isVersionsOpen) {
+          draft.isCmsOpen = false;
+          draft.isInsertOpen = false;
+          draft.isLayersOpen = false;
+          draft.isPagesOpen = false;
+          draft.isLibraryOpen = false;
+          draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isFontsOpen = false;
+        }
+      })
+    );
+  }
+
+  toggleFonts() {
+    this.setState(
+      produce((draft) => {
+        draft.isFontsOpen = !draft.isFontsOpen;
+        if (draft.isFontsOpen) {
+          draft.isCmsOpen = false;
+          draft.isInsertOpen = false;
+          draft.isLayersOpen = false;
+          draft.isPagesOpen = false;
+          draft.isLibraryOpen = false;
+          draft.isPreviewOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
         }
       })
     );
@@ -72,6 +202,11 @@ export class InterfaceDispatcher {
           draft.isPreviewOpen = false;
           draft.isLayersOpen = false;
           draft.isLibraryOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
         }
       })
     );
@@ -87,6 +222,11 @@ export class InterfaceDispatcher {
           draft.isPreviewOpen = false;
           draft.isLayersOpen = false;
           draft.isPagesOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
         }
       })
     );
@@ -102,6 +242,11 @@ export class InterfaceDispatcher {
           draft.isLayersOpen = false;
           draft.isLibraryOpen = false;
           draft.isPagesOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
         }
       })
     );
@@ -117,6 +262,11 @@ export class InterfaceDispatcher {
           draft.isLayersOpen = false;
           draft.isLibraryOpen = false;
           draft.isPagesOpen = false;
+          draft.isTokensOpen = false;
+          draft.isHistoryOpen = false;
+          draft.isCommentsOpen = false;
+          draft.isVersionsOpen = false;
+          draft.isFontsOpen = false;
         }
       })
     );
@@ -137,4 +287,44 @@ export class InterfaceDispatcher {
       })
     );
   }
+
+  setPreviewPage(slug: string | null) {
+    this.setState(
+      produce((draft) => {
+        draft.previewPageSlug = slug;
+      })
+    );
+  }
+
+  setActiveComment(threadId: string | null) {
+    this.setState(
+      produce((draft) => {
+        draft.activeCommentId = threadId;
+      })
+    );
+  }
+
+  setSnapThreshold(threshold: number) {
+    this.setState(
+      produce((draft) => {
+        draft.snapThreshold = Math.max(0, threshold);
+      })
+    );
+  }
+
+  toggleLayoutGrids() {
+    this.setState(
+      produce((draft) => {
+        draft.showLayoutGrids = !draft.showLayoutGrids;
+      })
+    );
+  }
+
+  setEditingVector(nodeId: string | null) {
+    this.setState(
+      produce((draft) => {
+        draft.editingVectorId = nodeId;
+      })
+    );
+  }
 }
@@ -9,24 +9,164 @@ export interface Position {
   y: number;
 }
 
+// Where align, distribute and tidy up put a node, as style left/top in px
+export interface NodeArrangePosition {
+  id: string | number;
+  left: number;
+  top: number;
+}
+
 export interface VariantInfo {
   name: string;
   id: string;
 }
 
+export type TransitionEasing =
+  | "linear"
+  | "ease"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | "cubic-bezier"
+  | "spring-gentle"
+  | "spring-bouncy"
+  | "spring-snappy";
+
+export interface ConnectionTransition {
+  // Milliseconds
+  duration: number;
+  delay: number;
+  easing: TransitionEasing;
+  // Control points, only used when easing is "cubic-bezier"
+  cubicBezier?: [number, number, number, number];
+  // CSS properties to animate; empty animates all of them
+  properties: string[];
+}
+
+export type ConnectionType =
+  | "click"
+  | "hover"
+  | "mouseLeave"
+  | "mouseDown"
+  | "mouseUp"
+  | "focus"
+  | "blur"
+  | "inViewport"
+  | "afterDelay"
+  | "keyDown";
+
+// Settings for triggers that need more than the event itself
+export interface ConnectionTrigger {
+  // Milliseconds before an "afterDelay" connection fires
+  delay?: number;
+  // Shortcut for "keyDown", e.g. "Ctrl+Shift+K" or "ArrowRight"
+  key?: string;
+}
+
+export type ConnectionActionType =
+  "navigate" | "openUrl" | "scrollTo" | "setVisibility" | "back";
+
+// What a connection does instead of switching to its target variant
+export interface ConnectionAction {
+  type: ConnectionActionType;
+  // "navigate"
+  pageId?: string;
+  // "openUrl"
+  url?: string;
+  newTab?: boolean;
+  // "scrollTo" and "setVisibility"; any viewport's copy of the node
+  nodeId?: string | number;
+  visibility?: "show" | "hide" | "toggle";
+}
+
+export type LayoutGridType = "columns" | "rows" | "grid";
+
+// Guides drawn over a viewport. Columns and rows stretch between the
+// margins; a uniform grid is square cells of `size`.
+export interface LayoutGrid {
+  id: string;
+  type: LayoutGridType;
+  count: number;
+  gutter: number;
+  margin: number;
+  size: number;
+  color: string;
+}
+
+export type BooleanOperation = "union" | "subtract" | "intersect" | "exclude";
+
+// An anchor of a bezier path. Handles are absolute, like the anchor; a
+// point without handles is a corner.
+export interface VectorPoint {
+  x: number;
+  y: number;
+  handleIn?: Position;
+  handleOut?: Position;
+}
+
+export interface VectorPath {
+  points: VectorPoint[];
+  closed: boolean;
+}
+
+// One outline, or a boolean group of `children` in place of `paths`.
+// `operation` says how it combines with the shapes before it.
+export interface VectorShape {
+  paths: VectorPath[];
+  children?: VectorShape[];
+  operation?: BooleanOperation;
+}
+
+// The shapes of a spline node, drawn in a `width` x `height` box that
+// stretches with the node
+export interface VectorData {
+  width: number;
+  height: number;
+  shapes: VectorShape[];
+}
+
+export type ShapeType = "rectangle" | "ellipse" | "line" | "polygon" | "star";
+
+// Geometry of a shape node. Fill, stroke and line caps are styles.
+export interface ShapeOptions {
+  // Rectangles only, in px
+  cornerRadius?: number;
+  // Corners of a polygon or points of a star
+  pointCount?: number;
+  // Stars only, as a fraction of the outer radius
+  innerRadius?: number;
+}
+
+// Interaction states a node can be styled for, besides its normal look
+export type InteractionState = "hovered" | "pressed" | "focused" | "disabled";
+
+export type StateStyle = CSSProperties & {
+  src?: string;
+  text?: string;
+  backgroundImage?: string;
+  isVideoBackground?: boolean;
+  backgroundVideo?: string;
+};
+
+// Where a linked node or text leads: another page of the project or a URL
+export interface NodeLink {
+  url?: string;
+  pageId?: string;
+  newTab?: boolean;
+}
+
 export interface Node {
   id: string;
   type: "frame" | "image" | "text" | "placeholder" | string;
   customName?: string;
+  // Styles layered over `style` while the node is in each state
   dynamicState?: {
-    hovered?: CSSProperties & {
-      src?: string;
-      text?: string;
-      backgroundImage?: string;
-      isVideoBackground?: boolean;
-      backgroundVideo?: string;
-    };
+    [state in InteractionState]?: StateStyle;
   };
+  // Shows the disabled state instead of reacting to the pointer
+  isDisabled?: boolean;
+  // Renders the node as a link in the preview and in exports
+  link?: NodeLink;
   style: CSSProperties & {
     src?: string;
     text?: string;
@@ -47,13 +187,21 @@ export interface Node {
   isViewport?: boolean;
   viewportName?: string;
   viewportWidth?: number;
+  layoutGrids?: LayoutGrid[];
+  // Paths of a spline node
+  vector?: VectorData;
+  shape?: ShapeOptions;
   isDynamic?: boolean;
   dynamicParentId?: string | number;
   dynamicViewportId?: string | number;
   dynamicConnections?: {
     sourceId: string | number;
     targetId: string | number;
-    type: "click" | "hover" | "mouseLeave";
+    type: ConnectionType;
+    transition?: ConnectionTransition;
+    trigger?: ConnectionTrigger;
+    // Connections with an action point at their own source
+    action?: ConnectionAction;
   }[];
   dynamicPosition?: Position;
   originalState?: {
@@ -68,6 +216,19 @@ export interface Node {
   dynamicFamilyId?: string;
   originalParentId?: string;
   unsyncFromParentViewport?: boolean;
+  // A frame bound to a CMS collection repeats its children once per item
+  cmsCollectionId?: string;
+  // Field of the enclosing collection that fills this node's text or src
+  cmsFieldId?: string;
+  // Set on the root of a component master and of each of its instances
+  componentId?: string;
+  isComponentMaster?: boolean;
+  // Instance nodes mirror the master node with this sharedId
+  masterSharedId?: string;
+  // Style properties an instance node keeps instead of following its master
+  overrides?: {
+    [styleProperty: string]: boolean;
+  };
 }
 
 export interface NodeState {
@@ -3603,6 +3764,23 @@ export class NodeDispatcher {
     );
   }
 
+  /**
+   * Take over the nodes of the shared document after a collaborator's edit.
+   * Placeholders of a drag in progress here keep their index; the update is
+   * left out of the local undo history.
+   */
+  applyRemoteNodes(nodes: Node[]) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const nextNodes = [...nodes];
+        prev.nodes.forEach((node, index) => {
+          if (node.type === "placeholder") nextNodes.splice(index, 0, node);
+        });
+        draft.nodes = nextNodes;
+      })
+    );
+  }
+
   /**
    * Remove a node by id from the array.
    */
@@ -5240,12 +5418,14 @@ export class NodeDispatcher {
    * @param targetId Target node ID
    * @param connectionType Connection type
    * @param dynamicModeNodeId ID of the main dynamic node
+   * @param settings Trigger settings and the action to run instead of a variant switch
    */
   addUniqueDynamicConnection(
     sourceId: string | number,
     targetId: string | number,
-    connectionType: "click" | "hover" | "mouseLeave",
-    dynamicModeNodeId: string | number
+    connectionType: ConnectionType,
+    dynamicModeNodeId: string | number,
+    settings: { trigger?: ConnectionTrigger; action?: ConnectionAction } = {}
   ) {
     this.setState((prev) =>
       produce(prev, (draft) => {
@@ -5268,11 +5448,72 @@ export class NodeDispatcher {
           sourceId,
           targetId,
           type: connectionType,
+          ...(settings.trigger && { trigger: settings.trigger }),
+          ...(settings.action && { action: settings.action }),
         });
       })
     );
   }
 
+  /**
+   * Set how the variant change of a connection animates. Passing undefined
+   * goes back to the default transition.
+   */
+  setConnectionTransition(
+    sourceId: string | number,
+    connectionType: ConnectionType,
+    transition: ConnectionTransition | undefined
+  ) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sourceNode = draft.nodes.find((n) => n.id === sourceId);
+        const connection = sourceNode?.dynamicConnections?.find(
+          (conn) => conn.type === connectionType
+        );
+        if (!connection) return;
+
+        if (transition) {
+          connection.transition = transition;
+        } else {
+          delete connection.transition;
+        }
+      })
+    );
+  }
+
+  // Update the delay or key shortcut of a connection's trigger
+  setConnectionTrigger(
+    sourceId: string | number,
+    connectionType: ConnectionType,
+    trigger: ConnectionTrigger
+  ) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sourceNode = draft.nodes.find((n) => n.id === sourceId);
+        const connection = sourceNode?.dynamicConnections?.find(
+          (conn) => conn.type === connectionType
+        );
+        if (connection) connection.trigger = trigger;
+      })
+    );
+  }
+
+  setConnectionAction(
+    sourceId: string | number,
+    connectionType: ConnectionType,
+    action: ConnectionAction
+  ) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sourceNode = draft.nodes.find((n) => n.id === sourceId);
+        const connection = sourceNode?.dynamicConnections?.find(
+          (conn) => conn.type === connectionType
+        );
+        if (connection) connection.action = action;
+      })
+    );
+  }
+
   /**
    * Clean up all dynamic connections in the system to ensure one connection per type per target.
    * This allows multiple connections to the same target as long as they have different types.
@@ -5292,11 +5533,7 @@ export class NodeDispatcher {
         // The key is a composite of targetId and connection type
         const targetTypeConnectionMap = new Map<
           string, // "targetId-type" as key
-          {
-            sourceId: string | number;
-            targetId: string | number;
-            type: "click" | "hover" | "mouseLeave";
-          }
+          NonNullable<Node["dynamicConnections"]>[number]
         >();
 
         // First, find all unique connections per target-type combination
@@ -5306,8 +5543,7 @@ export class NodeDispatcher {
           node.dynamicConnections.forEach((conn) => {
             const compositeKey = `${conn.targetId}-${conn.type}`;
             targetTypeConnectionMap.set(compositeKey, {
-              sourceId: conn.sourceId,
-              targetId: conn.targetId,
+              ...conn,
               type: conn.type || "click", // Default to click if type is missing
             });
           });
@@ -5334,7 +5570,12 @@ export class NodeDispatcher {
     );
   }
 
-  editViewport(viewportId: string | number, width: number, name: string) {
+  editViewport(
+    viewportId: string | number,
+    width: number,
+    name: string,
+    layoutGrids?: LayoutGrid[]
+  ) {
     this.setState((prev) =>
       produce(prev, (draft) => {
         const viewport = draft.nodes.find(
@@ -5345,6 +5586,7 @@ export class NodeDispatcher {
         // Update viewport properties
         viewport.viewportWidth = width;
         viewport.viewportName = name;
+        if (layoutGrids) viewport.layoutGrids = layoutGrids;
 
         // Update style width to match
         this.updateNodeStyle([viewportId], { width: `${width}px` });
@@ -5400,6 +5642,230 @@ export class NodeDispatcher {
     });
   }
 
+  /**
+   * Run `update` with its state updates queued, then apply them all as a
+   * single update so they land as one history entry
+   */
+  private batchUpdates(update: () => void) {
+    const queued: React.SetStateAction<NodeState>[] = [];
+    const setState = this.setState;
+    this.setState = (action) => queued.push(action);
+    try {
+      update();
+    } finally {
+      this.setState = setState;
+    }
+    if (!queued.length) return;
+
+    this.setState((prev) =>
+      queued.reduce<NodeState>(
+        (state, action) =>
+          typeof action === "function" ? action(state) : action,
+        prev
+      )
+    );
+  }
+
+  // Move absolutely positioned nodes to new left/top values, synced to the
+  // other viewports like any other style change
+  private moveNodesTo(
+    positions: NodeArrangePosition[],
+    dynamicModeNodeId?: string | null
+  ) {
+    this.batchUpdates(() => {
+      positions.forEach(({ id, left, top }) => {
+        this.updateNodeStyle(
+          [id],
+          { left: `${left}px`, top: `${top}px` },
+          dynamicModeNodeId
+        );
+      });
+    });
+  }
+
+  alignNodes(
+    positions: NodeArrangePosition[],
+    dynamicModeNodeId?: string | null
+  ) {
+    this.moveNodesTo(positions, dynamicModeNodeId);
+  }
+
+  distributeNodes(
+    positions: NodeArrangePosition[],
+    dynamicModeNodeId?: string | null
+  ) {
+    this.moveNodesTo(positions, dynamicModeNodeId);
+  }
+
+  tidyUpNodes(
+    positions: NodeArrangePosition[],
+    dynamicModeNodeId?: string | null
+  ) {
+    this.moveNodesTo(positions, dynamicModeNodeId);
+  }
+
+  /**
+   * Replace the paths of a spline node. The paths are content, so every
+   * viewport's copy gets them; `style` (a refitted box) syncs like any
+   * other style change.
+   */
+  updateNodeVector(
+    nodeId: string | number,
+    vector: VectorData,
+    style?: Partial<CSSProperties>,
+    dynamicModeNodeId?: string | null
+  ) {
+    this.batchUpdates(() => {
+      this.setState((prev) =>
+        produce(prev, (draft) => {
+          const node = draft.nodes.find((n) => n.id === nodeId);
+          if (!node) return;
+
+          draft.nodes
+            .filter(
+              (n) =>
+                n.id === nodeId ||
+                (node.sharedId && n.sharedId === node.sharedId)
+            )
+            .forEach((n) => {
+              n.vector = vector;
+            });
+        })
+      );
+      if (style) this.updateNodeStyle([nodeId], style, dynamicModeNodeId);
+    });
+  }
+
+  updateNodeShape(nodeIds: (string | number)[], shape: ShapeOptions) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sharedIds = draft.nodes
+          .filter((n) => nodeIds.includes(n.id) && n.sharedId)
+          .map((n) => n.sharedId);
+
+        draft.nodes
+          .filter(
+            (n) =>
+              nodeIds.includes(n.id) ||
+              (n.sharedId && sharedIds.includes(n.sharedId))
+          )
+          .forEach((n) => {
+            n.shape = { ...n.shape, ...shape };
+          });
+      })
+    );
+  }
+
+  /**
+   * Merge `style` into one interaction state of the nodes. State styles are
+   * shared by every viewport's copy; a null value drops the property and a
+   * null `style` clears the state.
+   */
+  updateNodeStateStyle(
+    nodeIds: (string | number)[],
+    state: InteractionState,
+    style: Record<string, unknown> | null
+  ) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sharedIds = draft.nodes
+          .filter((n) => nodeIds.includes(n.id) && n.sharedId)
+          .map((n) => n.sharedId);
+
+        draft.nodes
+          .filter(
+            (n) =>
+              nodeIds.includes(n.id) ||
+              (n.sharedId && sharedIds.includes(n.sharedId))
+          )
+          .forEach((n) => {
+            const stateStyle: Record<string, unknown> = style
+              ? { ...n.dynamicState?.[state], ...style }
+              : {};
+            Object.keys(stateStyle).forEach((key) => {
+              if (stateStyle[key] == null) delete stateStyle[key];
+            });
+
+            n.dynamicState = { ...n.dynamicState, [state]: stateStyle };
+            if (!Object.keys(stateStyle).length) delete n.dynamicState[state];
+            if (!Object.keys(n.dynamicState).length) delete n.dynamicState;
+          });
+      })
+    );
+  }
+
+  setNodeDisabled(nodeIds: (string | number)[], isDisabled: boolean) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sharedIds = draft.nodes
+          .filter((n) => nodeIds.includes(n.id) && n.sharedId)
+          .map((n) => n.sharedId);
+
+        draft.nodes
+          .filter(
+            (n) =>
+              nodeIds.includes(n.id) ||
+              (n.sharedId && sharedIds.includes(n.sharedId))
+          )
+          .forEach((n) => {
+            if (isDisabled) n.isDisabled = true;
+            else delete n.isDisabled;
+          });
+      })
+    );
+  }
+
+  // A null link makes the nodes plain elements again
+  updateNodeLink(nodeIds: (string | number)[], link: NodeLink | null) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const sharedIds = draft.nodes
+          .filter((n) => nodeIds.includes(n.id) && n.sharedId)
+          .map((n) => n.sharedId);
+
+        draft.nodes
+          .filter(
+            (n) =>
+              nodeIds.includes(n.id) ||
+              (n.sharedId && sharedIds.includes(n.sharedId))
+          )
+          .forEach((n) => {
+            if (link) n.link = link;
+            else delete n.link;
+          });
+      })
+    );
+  }
+
+  /**
+   * Swap spline nodes for `node`, which holds their combined paths, along
+   * with their copies in other viewports. The new node takes the place of
+   * the first one and is copied to the other viewports afterwards.
+   */
+  combineVectorNodes(nodeIds: (string | number)[], node: Node) {
+    this.batchUpdates(() => {
+      this.setState((prev) =>
+        produce(prev, (draft) => {
+          const operands = draft.nodes.filter((n) => nodeIds.includes(n.id));
+          if (operands.length < 2) return;
+
+          const sharedIds = operands
+            .map((n) => n.sharedId)
+            .filter((sharedId): sharedId is string => !!sharedId);
+          const index = draft.nodes.findIndex((n) => n.id === operands[0].id);
+
+          draft.nodes.splice(index, 0, node);
+          draft.nodes = draft.nodes.filter(
+            (n) =>
+              !nodeIds.includes(n.id) &&
+              !(n.sharedId && sharedIds.includes(n.sharedId))
+          );
+        })
+      );
+      if (node.inViewport) this.syncViewports();
+    });
+  }
+
   syncDroppedNodeWithChildren(sourceNodeId, additionalNodeIds = []) {
     this.setState((prev) =>
       produce(prev, (draft) => {
@@ -6402,6 +6868,154 @@ export class NodeDispatcher {
     );
   }
 
+  /**
+   * Bind a node to a CMS collection or field. Bindings are content, not
+   * style, so they always apply to the node's counterparts in every viewport.
+   */
+  setCmsBinding(
+    nodeId: string | number,
+    binding: Partial<Pick<Node, "cmsCollectionId" | "cmsFieldId">>
+  ) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const node = draft.nodes.find((n) => n.id === nodeId);
+        if (!node) return;
+
+        draft.nodes
+          .filter(
+            (n) =>
+              n.id === nodeId || (node.sharedId && n.sharedId === node.sharedId)
+          )
+          .forEach((n) => {
+            Object.entries(binding).forEach(([key, value]) => {
+              if (value) {
+                n[key as keyof typeof binding] = value;
+              } else {
+                delete n[key as keyof typeof binding];
+              }
+            });
+          });
+      })
+    );
+  }
+
+  /**
+   * Turn a frame into a component master. Its copies in other viewports
+   * become masters of the same component.
+   */
+  createComponent(nodeId: string | number, name: string) {
+    const componentId = nanoid();
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const node = draft.nodes.find((n) => n.id === nodeId);
+        if (!node) return;
+
+        draft.nodes
+          .filter(
+            (n) =>
+              n.id === nodeId || (node.sharedId && n.sharedId === node.sharedId)
+          )
+          .forEach((n) => {
+            n.componentId = componentId;
+            n.isComponentMaster = true;
+            if (!n.customName) n.customName = name;
+          });
+      })
+    );
+    return componentId;
+  }
+
+  /**
+   * Drop an instance of a component at the end of a frame, in every viewport
+   * the frame appears in. The master can be on any page. Only the instance
+   * root is created here; its content is filled in from the master by the
+   * component sync of the same update.
+   */
+  insertComponentInstance(master: Node, parentId: string | number) {
+    const { componentId } = master;
+    const sharedId = nanoid();
+    const instanceId = nanoid();
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const parent = draft.nodes.find((n) => n.id === parentId);
+        if (!componentId || !parent) return;
+
+        draft.nodes
+          .filter(
+            (n) =>
+              n.id === parentId ||
+              (parent.sharedId && n.sharedId === parent.sharedId)
+          )
+          .forEach((target) => {
+            draft.nodes.push({
+              id: target.id === parentId ? instanceId : nanoid(),
+              type: master.type,
+              customName: master.customName,
+              style: { position: "relative" },
+              parentId: target.id,
+              inViewport: target.inViewport || target.isViewport || false,
+              sharedId,
+              componentId,
+              masterSharedId: master.sharedId || master.id,
+            });
+          });
+      })
+    );
+    return instanceId;
+  }
+
+  // Turn an instance, in every viewport, back into plain nodes
+  detachComponentInstance(nodeId: string | number) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const node = draft.nodes.find((n) => n.id === nodeId);
+        if (!node?.componentId || node.isComponentMaster) return;
+
+        const rootIds = draft.nodes
+          .filter(
+            (n) =>
+              n.id === nodeId || (node.sharedId && n.sharedId === node.sharedId)
+          )
+          .map((n) => n.id);
+
+        rootIds
+          .flatMap((rootId) => [
+            draft.nodes.find((n) => n.id === rootId),
+            ...this.getAllDescendants(rootId, draft.nodes),
+          ])
+          .forEach((n) => {
+            if (!n) return;
+            delete n.componentId;
+            delete n.masterSharedId;
+            delete n.overrides;
+          });
+      })
+    );
+  }
+
+  /**
+   * Forget the overrides of an instance node and its descendants, in every
+   * viewport. The component sync then restores the master's values.
+   */
+  resetInstanceOverrides(nodeId: string | number) {
+    this.setState((prev) =>
+      produce(prev, (draft) => {
+        const node = draft.nodes.find((n) => n.id === nodeId);
+        if (!node?.masterSharedId) return;
+
+        draft.nodes
+          .filter(
+            (n) =>
+              n.id === nodeId || (node.sharedId && n.sharedId === node.sharedId)
+          )
+          .flatMap((n) => [n, ...this.getAllDescendants(n.id, draft.nodes)])
+          .forEach((n) => {
+            delete n.overrides;
+          });
+      })
+    );
+  }
+
   replaceNode(nodeId: string | number, newNode: Node) {
     this.setState((prev) =>
       produce(prev, (draft) => {
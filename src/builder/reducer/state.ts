@@ -1,5 +1,10 @@
 import { DragState } from "./dragDispatcher";
 import { InterfaceState } from "./interfaceDispatcher";
+import { CmsState } from "./cmsDispatcher";
+import { TokenState } from "./tokenDispatcher";
+import { FontState } from "./fontDispatcher";
+import { CommentState } from "./commentDispatcher";
+import { VersionState } from "./versionDispatcher";
 import { Node } from "./nodeDispatcher";
 
 const VIEWPORT_GAP = 160;
@@ -271,9 +276,40 @@ export const interfaceInitialState: InterfaceState = {
   isInsertOpen: false,
   isLayersOpen: false,
   isCmsOpen: false,
+  isTokensOpen: false,
+  isHistoryOpen: false,
+  isCommentsOpen: false,
+  isVersionsOpen: false,
+  isFontsOpen: false,
   isPreviewOpen: false,
   isPagesOpen: false,
   isComponentsOpen: false,
   isTyping: false,
   previewWidth: null,
+  previewPageSlug: null,
+  activeCommentId: null,
+  snapThreshold: 8,
+  showLayoutGrids: true,
+  editingVectorId: null,
+};
+
+export const cmsInitialState: CmsState = {
+  collections: [],
+};
+
+export const tokenInitialState: TokenState = {
+  tokens: [],
+};
+
+export const fontInitialState: FontState = {
+  fonts: [],
+  googleFonts: true,
+};
+
+export const commentInitialState: CommentState = {
+  threads: [],
+};
+
+export const versionInitialState: VersionState = {
+  versions: [],
 };
@@ -0,0 +1,104 @@
+import { produce } from "immer";
+import { nanoid } from "nanoid";
+
+export type DesignTokenType = "color" | "typography" | "spacing" | "radius";
+
+export interface TypographyTokenValue {
+  fontFamily: string;
+  fontSize: string;
+  fontWeight: string;
+  lineHeight: string;
+  letterSpacing: string;
+}
+
+export interface DesignToken {
+  id: string;
+  name: string;
+  type: DesignTokenType;
+  // CSS value of color, spacing and radius tokens
+  value: string;
+  // Only set on typography tokens, which hold several properties
+  typography?: TypographyTokenValue;
+}
+
+export interface TokenState {
+  tokens: DesignToken[];
+}
+
+export const DESIGN_TOKEN_TYPES: { type: DesignTokenType; label: string }[] = [
+  { type: "color", label: "Colors" },
+  { type: "typography", label: "Typography" },
+  { type: "spacing", label: "Spacing" },
+  { type: "radius", label: "Radii" },
+];
+
+export const DEFAULT_TYPOGRAPHY: TypographyTokenValue = {
+  fontFamily: "Inter",
+  fontSize: "16px",
+  fontWeight: "400",
+  lineHeight: "1.5",
+  letterSpacing: "0px",
+};
+
+const DEFAULT_TOKEN_VALUES: Record<DesignTokenType, string> = {
+  color: "#4F46E5",
+  typography: "",
+  spacing: "16px",
+  radius: "8px",
+};
+
+export class TokenDispatcher {
+  constructor(
+    private setState: React.Dispatch<React.SetStateAction<TokenState>>
+  ) {}
+
+  replaceState(state: TokenState) {
+    this.setState(state);
+  }
+
+  createToken(type: DesignTokenType, name: string) {
+    const id = nanoid();
+    this.setState(
+      produce((draft) => {
+        draft.tokens.push({
+          id,
+          name,
+          type,
+          value: DEFAULT_TOKEN_VALUES[type],
+          ...(type === "typography" && {
+            typography: { ...DEFAULT_TYPOGRAPHY },
+          }),
+        });
+      })
+    );
+    return id;
+  }
+
+  updateToken(
+    tokenId: string,
+    updates: Partial<Pick<DesignToken, "name" | "value">> & {
+      typography?: Partial<TypographyTokenValue>;
+    }
+  ) {
+    this.setState(
+      produce((draft) => {
+        const token = draft.tokens.find((t) => t.id === tokenId);
+        if (!token) return;
+
+        const { typography, ...rest } = updates;
+        Object.assign(token, rest);
+        if (typography && token.typography) {
+          Object.assign(token.typography, typography);
+        }
+      })
+    );
+  }
+
+  deleteToken(tokenId: string) {
+    this.setState(
+      produce((draft) => {
+        draft.tokens = draft.tokens.filter((t) => t.id !== tokenId);
+      })
+    );
+  }
+}
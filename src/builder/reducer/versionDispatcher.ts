@@ -0,0 +1,66 @@
+import { produce } from "immer";
+import { nanoid } from "nanoid";
+import { ProjectPage } from "../persistence/projectDocument";
+import { CmsCollection } from "./cmsDispatcher";
+import { DesignToken } from "./tokenDispatcher";
+
+// A named checkpoint of the whole project. Undo history and comments are
+// left out; restoring a version doesn't bring them back.
+export interface ProjectVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  pages: ProjectPage[];
+  activePageId: string;
+  collections: CmsCollection[];
+  tokens: DesignToken[];
+}
+
+export type VersionSnapshot = Omit<ProjectVersion, "id" | "name" | "createdAt">;
+
+export interface VersionState {
+  // Newest first
+  versions: ProjectVersion[];
+}
+
+export class VersionDispatcher {
+  constructor(
+    private setState: React.Dispatch<React.SetStateAction<VersionState>>
+  ) {}
+
+  replaceState(state: VersionState) {
+    this.setState(state);
+  }
+
+  addVersion(name: string, snapshot: VersionSnapshot) {
+    const id = nanoid();
+    this.setState(
+      produce((draft) => {
+        draft.versions.unshift({
+          ...snapshot,
+          id,
+          name,
+          createdAt: Date.now(),
+        });
+      })
+    );
+    return id;
+  }
+
+  renameVersion(versionId: string, name: string) {
+    this.setState(
+      produce((draft) => {
+        const version = draft.versions.find((v) => v.id === versionId);
+        if (version) version.name = name;
+      })
+    );
+  }
+
+  deleteVersion(versionId: string) {
+    this.setState(
+      produce((draft) => {
+        draft.versions = draft.versions.filter((v) => v.id !== versionId);
+      })
+    );
+  }
+}
@@ -13,10 +13,11 @@ import {
 } from "lucide-react";
 import { nanoid } from "nanoid";
 import Image from "next/image";
-import { useEffect, useState, useRef } from "react";
+import { CSSProperties, useEffect, useState, useRef } from "react";
 import { useDragStart } from "@/builder/context/dnd/useDragStart";
 import Button from "@/components/ui/button";
 import { createPortal } from "react-dom";
+import { FLUID_VW_VAR } from "@/builder/fonts/fluidType";
 
 export const Frame = ({ children, node }: ElementProps) => {
   // console.log(`Frame re-rendering: ${node.id}`, new Date().getTime());
@@ -263,11 +264,17 @@ export const Frame = ({ children, node }: ElementProps) => {
           className={`${
             isDropTarget ? "dropTarget border-4 border-blue-900" : ""
           } relative`}
-          style={{
-            ...node.style,
-            minHeight: "100vh",
-            pointerEvents: "auto",
-          }}
+          style={
+            {
+              ...node.style,
+              minHeight: "100vh",
+              pointerEvents: "auto",
+              [FLUID_VW_VAR]: `${
+                (node.viewportWidth || parseFloat(String(node.style.width))) /
+                100
+              }px`,
+            } as CSSProperties
+          }
           data-node-id={node.id}
           data-node-type={node.type}
           data-viewport="true"
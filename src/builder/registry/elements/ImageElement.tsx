@@ -36,9 +36,10 @@ export const ImageElement = ({
             pointerEvents: "none",
           }}
           src={
-            dragState.dynamicState === "hovered"
-              ? node.dynamicState?.hovered?.src
-              : node.style.src || "https://batiment.imag.fr/img/imag.png"
+            (dragState.dynamicState !== "normal" &&
+              node.dynamicState?.[dragState.dynamicState]?.src) ||
+            node.style.src ||
+            "https://batiment.imag.fr/img/imag.png"
           }
           alt="Image"
         />
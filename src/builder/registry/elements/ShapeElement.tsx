@@ -0,0 +1,27 @@
+import { useBuilder } from "@/builder/context/builderState";
+import { ResizableWrapper } from "@/builder/context/resizable";
+import { useConnect } from "@/builder/context/hooks/useConnect";
+import { ShapeType } from "@/builder/reducer/nodeDispatcher";
+import { ElementProps } from "@/builder/types";
+import { ShapeGraphic } from "@/builder/vector/ShapeGraphic";
+import React from "react";
+
+export const ShapeElement = ({ node }: ElementProps) => {
+  const connect = useConnect();
+  const { dragState } = useBuilder();
+
+  const isDropTarget =
+    dragState.dropInfo?.targetId === node.id &&
+    dragState.dropInfo?.position === "inside";
+
+  return (
+    <ResizableWrapper node={node}>
+      <div {...connect(node)}>
+        <ShapeGraphic type={node.type as ShapeType} shape={node.shape} />
+        {isDropTarget && (
+          <div className="absolute inset-0 dropTarget rounded-[inherit] z-10" />
+        )}
+      </div>
+    </ResizableWrapper>
+  );
+};
@@ -0,0 +1,41 @@
+import { useBuilder } from "@/builder/context/builderState";
+import { ResizableWrapper } from "@/builder/context/resizable";
+import { useConnect } from "@/builder/context/hooks/useConnect";
+import { ElementProps } from "@/builder/types";
+import { VectorGraphic } from "@/builder/vector/VectorGraphic";
+import React from "react";
+
+export const SplineElement = ({ node }: ElementProps) => {
+  const connect = useConnect();
+  const { dragState, interfaceDisp } = useBuilder();
+  const connected = connect(node);
+
+  const isDropTarget =
+    dragState.dropInfo?.targetId === node.id &&
+    dragState.dropInfo?.position === "inside";
+
+  // Double-clicking opens the points for editing. Dynamic nodes keep their
+  // own double-click, which enters dynamic mode.
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (node.isDynamic || !node.vector) {
+      connected.onDoubleClick(e);
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    interfaceDisp.setEditingVector(String(node.id));
+  };
+
+  return (
+    <ResizableWrapper node={node}>
+      <div {...connected} onDoubleClick={handleDoubleClick}>
+        {node.vector && (
+          <VectorGraphic vector={node.vector} idPrefix={`node-${node.id}`} />
+        )}
+        {isDropTarget && (
+          <div className="absolute inset-0 dropTarget rounded-[inherit] z-10" />
+        )}
+      </div>
+    </ResizableWrapper>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Editor } from "@tiptap/react";
+import { ChevronDown } from "lucide-react";
+
+interface BlockType {
+  id: string;
+  label: string;
+  isActive: (editor: Editor) => boolean;
+  apply: (editor: Editor) => void;
+}
+
+const HEADING_LEVELS = [1, 2, 3, 4, 5, 6] as const;
+
+// Blocks come from the StarterKit nodes of the text editor. Every type
+// clears the current one first, so a list item can become a heading.
+const BLOCK_TYPES: BlockType[] = [
+  {
+    id: "paragraph",
+    label: "Paragraph",
+    isActive: (editor) => editor.isActive("paragraph"),
+    apply: (editor) => editor.chain().focus().clearNodes().run(),
+  },
+  ...HEADING_LEVELS.map((level) => ({
+    id: `h${level}`,
+    label: `Heading ${level}`,
+    isActive: (editor: Editor) => editor.isActive("heading", { level }),
+    apply: (editor: Editor) =>
+      editor.chain().focus().clearNodes().setHeading({ level }).run(),
+  })),
+  {
+    id: "bulletList",
+    label: "Bullet list",
+    isActive: (editor) => editor.isActive("bulletList"),
+    apply: (editor) =>
+      editor.chain().focus().clearNodes().toggleBulletList().run(),
+  },
+  {
+    id: "orderedList",
+    label: "Numbered list",
+    isActive: (editor) => editor.isActive("orderedList"),
+    apply: (editor) =>
+      editor.chain().focus().clearNodes().toggleOrderedList().run(),
+  },
+  {
+    id: "blockquote",
+    label: "Blockquote",
+    isActive: (editor) => editor.isActive("blockquote"),
+    apply: (editor) =>
+      editor.chain().focus().clearNodes().setBlockquote().run(),
+  },
+];
+
+// Lists and quotes hold paragraphs, so those only count when nothing else
+// matches
+const getActiveBlockType = (editor: Editor) =>
+  BLOCK_TYPES.slice(1).find((type) => type.isActive(editor)) || BLOCK_TYPES[0];
+
+interface BlockTypeMenuProps {
+  editor: Editor;
+  onToolbarInteractionStart: () => void;
+  onToolbarInteractionEnd: () => void;
+}
+
+const BlockTypeMenu = ({
+  editor,
+  onToolbarInteractionStart,
+  onToolbarInteractionEnd,
+}: BlockTypeMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const activeType = getActiveBlockType(editor);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (type: BlockType, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onToolbarInteractionStart();
+    type.apply(editor);
+    setIsOpen(false);
+    onToolbarInteractionEnd();
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onMouseDown={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          onToolbarInteractionStart();
+          setIsOpen(!isOpen);
+        }}
+        className="h-7 px-3 min-w-[110px] text-left truncate bg-[var(--grid-line)] rounded-md flex items-center justify-between gap-2"
+        type="button"
+      >
+        <span className="text-xs">{activeType.label}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 w-40 py-1 bg-[var(--bg-surface)] border border-[var(--border-light)] rounded-lg shadow-lg z-50"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {BLOCK_TYPES.map((type) => (
+            <div
+              key={type.id}
+              className={`px-3 py-1.5 text-xs cursor-pointer hover:bg-[var(--bg-hover)] ${
+                type.id === activeType.id ? "text-[var(--accent)]" : ""
+              }`}
+              onMouseDown={(e) => handleSelect(type, e)}
+            >
+              {type.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlockTypeMenu;
@@ -11,6 +11,7 @@ import {
   AlignJustify,
   Palette,
 } from "lucide-react";
+import LinkMenu from "./LinkMenu";
 
 interface BubbleMenuProps {
   editor: Editor | null;
@@ -216,6 +217,8 @@ export const BubbleMenuPortal = React.memo(
           <UnderlineIcon size={13} />
         </button>
 
+        <LinkMenu editor={editor} iconSize={13} buttonClassName="p-0.5" />
+
         <div className="w-px h-3 mx-0.5 bg-[var(--border-light)]" />
 
         <div className="relative">
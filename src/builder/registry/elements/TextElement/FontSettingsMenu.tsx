@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Editor } from "@tiptap/react";
+import { SlidersHorizontal } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  FontSettings,
+  OPENTYPE_FEATURES,
+  STYLISTIC_SETS,
+  formatFontSettings,
+  getFamilyAxes,
+  parseFontSettings,
+} from "@/builder/fonts/fontSettings";
+
+type SettingsAttribute = "fontVariationSettings" | "fontFeatureSettings";
+
+interface FontSettingsMenuProps {
+  editor: Editor;
+  family: string;
+  onToolbarInteractionStart: () => void;
+  onToolbarInteractionEnd: () => void;
+}
+
+// Variable font axes and OpenType features of the selected text, or of the
+// whole text when nothing is selected
+const FontSettingsMenu = ({
+  editor,
+  family,
+  onToolbarInteractionStart,
+  onToolbarInteractionEnd,
+}: FontSettingsMenuProps) => {
+  const { fontState } = useBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const attributes = editor.getAttributes("textStyle");
+  const variations = parseFontSettings(attributes.fontVariationSettings);
+  const features = parseFontSettings(attributes.fontFeatureSettings);
+  const axes = getFamilyAxes(family, fontState.fonts);
+  const isActive =
+    Object.keys(variations).length > 0 || Object.keys(features).length > 0;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+        onToolbarInteractionEnd();
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen, onToolbarInteractionEnd]);
+
+  const applySettings = (attribute: SettingsAttribute, next: FontSettings) => {
+    const { from, to, empty } = editor.state.selection;
+    const chain = editor.chain();
+    if (empty) chain.selectAll();
+    chain.setMark("textStyle", { [attribute]: formatFontSettings(next) });
+    if (empty) chain.setTextSelection({ from, to });
+    chain.run();
+  };
+
+  const setAxis = (tag: string, value: number) =>
+    applySettings("fontVariationSettings", { ...variations, [tag]: value });
+
+  // Only features that differ from the browser's default are written
+  const toggleFeature = (tag: string, defaultOn = false) => {
+    const isOn = features[tag] !== undefined ? !!features[tag] : defaultOn;
+    const next = { ...features };
+    if (!isOn === defaultOn) {
+      delete next[tag];
+    } else {
+      next[tag] = isOn ? 0 : 1;
+    }
+    applySettings("fontFeatureSettings", next);
+  };
+
+  const reset = () => {
+    applySettings("fontVariationSettings", {});
+    applySettings("fontFeatureSettings", {});
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onMouseDown={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          onToolbarInteractionStart();
+          setIsOpen(!isOpen);
+        }}
+        title="Variable axes and features"
+        className={`p-1.5 rounded hover:bg-[var(--bg-hover)] ${
+          isActive || isOpen ? "bg-[var(--bg-hover)]" : ""
+        }`}
+        type="button"
+      >
+        <SlidersHorizontal size={16} />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-2 w-64 p-3 space-y-3 bg-[var(--bg-surface)] rounded-lg shadow-lg border border-[var(--border-light)] z-50"
+          onMouseDown={(e) => {
+            e.stopPropagation();
+            onToolbarInteractionStart();
+          }}
+        >
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium">Axes</span>
+              {isActive && (
+                <button
+                  onClick={reset}
+                  className="text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                  type="button"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+            {axes.map((axis) => {
+              const value = variations[axis.tag] ?? axis.default;
+              return (
+                <label key={axis.tag} className="block space-y-1">
+                  <div className="flex items-center justify-between text-xs text-[var(--text-secondary)]">
+                    <span title={axis.tag}>{axis.name}</span>
+                    <span>{value}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={axis.min}
+                    max={axis.max}
+                    step={axis.max - axis.min > 10 ? 1 : 0.1}
+                    value={value}
+                    onChange={(e) => setAxis(axis.tag, Number(e.target.value))}
+                    className="w-full accent-[var(--accent)]"
+                  />
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-xs font-medium">Features</span>
+            {OPENTYPE_FEATURES.map(({ tag, label, defaultOn }) => (
+              <label
+                key={tag}
+                className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)]"
+              >
+                <input
+                  type="checkbox"
+                  checked={
+                    features[tag] !== undefined ? !!features[tag] : !!defaultOn
+                  }
+                  onChange={() => toggleFeature(tag, defaultOn)}
+                />
+                {label}
+              </label>
+            ))}
+            <div className="space-y-1">
+              <span className="text-xs text-[var(--text-secondary)]">
+                Stylistic sets
+              </span>
+              <div className="grid grid-cols-8 gap-1">
+                {STYLISTIC_SETS.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleFeature(tag)}
+                    title={tag}
+                    className={`h-6 text-xs rounded hover:bg-[var(--bg-hover)] ${
+                      features[tag]
+                        ? "bg-[var(--bg-hover)] text-[var(--accent)]"
+                        : ""
+                    }`}
+                    type="button"
+                  >
+                    {tag.slice(2)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FontSettingsMenu;
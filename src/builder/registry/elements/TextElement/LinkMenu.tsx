@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Editor } from "@tiptap/react";
+import { Link2 } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { getPageHref } from "@/builder/view/preview/utils/pageNavigation";
+import { inputClassName } from "@/builder/view/toolbars/leftToolbar/CommitInput";
+
+interface LinkMenuProps {
+  editor: Editor;
+  iconSize?: number;
+  buttonClassName?: string;
+  onToolbarInteractionStart?: () => void;
+  onToolbarInteractionEnd?: () => void;
+}
+
+// Link button of the text menus. The popover edits the link under the
+// selection: a URL or one of the project's pages, optionally in a new tab.
+const LinkMenu = ({
+  editor,
+  iconSize = 16,
+  buttonClassName = "p-1.5",
+  onToolbarInteractionStart = () => {},
+  onToolbarInteractionEnd = () => {},
+}: LinkMenuProps) => {
+  const { pageState } = useBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [pageId, setPageId] = useState("");
+  const [newTab, setNewTab] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const isActive = editor.isActive("link");
+  const canLink = isActive || !editor.state.selection.empty;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+        onToolbarInteractionEnd();
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen, onToolbarInteractionEnd]);
+
+  const open = () => {
+    const attributes = editor.getAttributes("link");
+    setPageId(attributes.pageId || "");
+    setUrl(attributes.pageId ? "" : attributes.href || "");
+    setNewTab(attributes.target === "_blank");
+    onToolbarInteractionStart();
+    setIsOpen(true);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    onToolbarInteractionEnd();
+  };
+
+  const removeLink = () => {
+    editor.chain().focus().extendMarkRange("link").unsetLink().run();
+    close();
+  };
+
+  const applyLink = () => {
+    const page = pageState.pages.find((p) => p.id === pageId);
+    const href = page ? getPageHref(page.slug) : url.trim();
+    if (!href) {
+      removeLink();
+      return;
+    }
+
+    editor
+      .chain()
+      .focus()
+      .extendMarkRange("link")
+      .setMark("link", {
+        href,
+        target: newTab ? "_blank" : null,
+        rel: newTab ? "noopener noreferrer" : null,
+        pageId: page?.id || null,
+      })
+      .run();
+    close();
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onMouseDown={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (isOpen) close();
+          else if (canLink) open();
+        }}
+        disabled={!canLink}
+        title="Link"
+        className={`${buttonClassName} rounded hover:bg-[var(--bg-hover)] disabled:opacity-40 ${
+          isActive || isOpen ? "bg-[var(--bg-hover)]" : ""
+        }`}
+        type="button"
+      >
+        <Link2 size={iconSize} />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-2 w-64 p-3 space-y-2 bg-[var(--bg-surface)] rounded-lg shadow-lg border border-[var(--border-light)] z-50"
+          onMouseDown={(e) => {
+            e.stopPropagation();
+            onToolbarInteractionStart();
+          }}
+        >
+          <select
+            value={pageId}
+            onChange={(e) => setPageId(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">URL</option>
+            {pageState.pages.map((page) => (
+              <option key={page.id} value={page.id}>
+                {page.name}
+              </option>
+            ))}
+          </select>
+          {!pageId && (
+            <input
+              type="url"
+              value={url}
+              placeholder="https://"
+              autoFocus
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") applyLink();
+                if (e.key === "Escape") close();
+              }}
+              className={inputClassName}
+            />
+          )}
+          <label className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)]">
+            <input
+              type="checkbox"
+              checked={newTab}
+              onChange={(e) => setNewTab(e.target.checked)}
+            />
+            Open in new tab
+          </label>
+          <div className="flex justify-end gap-2">
+            {isActive && (
+              <button
+                onClick={removeLink}
+                className="h-7 px-2 text-xs rounded-[var(--radius-sm)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]"
+                type="button"
+              >
+                Remove
+              </button>
+            )}
+            <button
+              onClick={applyLink}
+              className="h-7 px-3 text-xs rounded-[var(--radius-sm)] bg-[var(--accent)] text-white"
+              type="button"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkMenu;
@@ -4,6 +4,7 @@ import {
   AlignRight,
   Bold,
   ChevronDown,
+  Code,
   Italic,
   LetterText,
   LineChart,
@@ -19,6 +20,7 @@ import React, {
   SetStateAction,
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
@@ -27,7 +29,19 @@ import { useBuilder } from "@/builder/context/builderState";
 import { Editor } from "@tiptap/react";
 import { FixedSizeList as List } from "react-window";
 import SimpleColorPicker from "./SimpleColorPicker";
+import LinkMenu from "./LinkMenu";
+import BlockTypeMenu from "./BlockTypeMenu";
+import FontSettingsMenu from "./FontSettingsMenu";
 import { findParentViewport } from "@/builder/context/utils";
+import { isLocalFontFamily } from "@/builder/fonts/fontCss";
+import {
+  FluidSize,
+  formatFluidSize,
+  getFluidRange,
+  getFluidSizeAt,
+  getHtmlFontSize,
+  parseFluidSize,
+} from "@/builder/fonts/fluidType";
 
 interface TextMenuProps {
   BubbleMenuPortal: ({
@@ -86,8 +100,9 @@ const TextMenu = ({
     setNodeStyle,
     setIsTextMenuOpen,
     dragState,
+    fontState,
   } = useBuilder();
-  const [fonts, setFonts] = useState<Array<{ family: string }>>([]);
+  const [googleFonts, setGoogleFonts] = useState<Array<{ family: string }>>([]);
   const [showFontPicker, setShowFontPicker] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [filteredFonts, setFilteredFonts] = useState<Array<{ family: string }>>(
@@ -139,16 +154,22 @@ const TextMenu = ({
     };
   }, [setIsTextMenuOpen]);
 
-  // Fetch Google fonts
+  // Fetch Google fonts, unless the project only uses uploaded ones
   useEffect(() => {
+    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_FONTS_API_KEY;
+    if (!fontState.googleFonts || !apiKey) {
+      setGoogleFonts([]);
+      setLoading(false);
+      return;
+    }
+
     const fetchGoogleFonts = async () => {
       try {
         const response = await fetch(
-          `https://www.googleapis.com/webfonts/v1/webfonts?key=${process.env.NEXT_PUBLIC_GOOGLE_FONTS_API_KEY}&sort=popularity`
+          `https://www.googleapis.com/webfonts/v1/webfonts?key=${apiKey}&sort=popularity`
         );
         const data = await response.json();
-        setFonts(data.items);
-        setFilteredFonts(data.items);
+        setGoogleFonts(data.items || []);
       } catch (error) {
         console.error("Error fetching Google Fonts:", error);
       } finally {
@@ -156,7 +177,21 @@ const TextMenu = ({
       }
     };
     fetchGoogleFonts();
-  }, []);
+  }, [fontState.googleFonts]);
+
+  // Uploaded families come first and win over Google ones of the same name
+  const fonts = useMemo(
+    () => [
+      ...Array.from(
+        new Set(fontState.fonts.map((font) => font.family)),
+        (family) => ({ family })
+      ),
+      ...googleFonts.filter(
+        (font) => !isLocalFontFamily(font.family, fontState.fonts)
+      ),
+    ],
+    [fontState.fonts, googleFonts]
+  );
 
   // Filter fonts based on search query
   useEffect(() => {
@@ -174,8 +209,9 @@ const TextMenu = ({
     }
   }, [showFontPicker, onToolbarInteractionStart]);
 
-  // Load font
+  // Load a Google font; uploaded ones have @font-face rules on the canvas
   const loadFont = (fontFamily: string) => {
+    if (isLocalFontFamily(fontFamily, fontState.fonts)) return;
     if (!loadedFonts.current.has(fontFamily)) {
       const link = document.createElement("link");
       link.href = `https://fonts.googleapis.com/css2?family=${fontFamily.replace(
@@ -291,6 +327,63 @@ const TextMenu = ({
     return viewportNode?.viewportWidth || window.innerWidth;
   }, [node.parentId, nodeState.nodes]);
 
+  // Fluid sizes run from the smallest to the largest viewport
+  const fluidRange = getFluidRange(
+    nodeState.nodes.filter((n) => n.isViewport).map((n) => n.viewportWidth || 0)
+  );
+  const fluidValue = getHtmlFontSize(editor.getHTML());
+  const fluidSize =
+    fontUnit === "fluid" && fluidValue
+      ? parseFluidSize(fluidValue, fluidRange)
+      : null;
+
+  // Fluid sizes and the switch back to a fixed one apply to the whole text,
+  // whatever is selected
+  const setWholeTextFontSize = (value: string, unit: string) => {
+    const { from, to } = editor.state.selection;
+    editor
+      .chain()
+      .selectAll()
+      .setMark("textStyle", { fontSize: value })
+      .setTextSelection({ from, to })
+      .run();
+    setFontUnit(unit);
+    setNodeStyle({ text: editor.getHTML() }, undefined, true, false, false);
+    onToolbarInteractionEnd();
+  };
+
+  const applyFluidSize = (size: FluidSize) =>
+    setWholeTextFontSize(formatFluidSize(size, fluidRange), "fluid");
+
+  // vw sizes keep scaling the same way, px sizes start out equal on every
+  // viewport
+  const enterFluidSize = () => {
+    const numericValue = parseFloat(fontSize) || 16;
+    applyFluidSize(
+      fontUnit === "vw"
+        ? {
+            min: Math.round((numericValue * fluidRange.minWidth) / 100),
+            max: Math.round((numericValue * fluidRange.maxWidth) / 100),
+          }
+        : { min: numericValue, max: numericValue }
+    );
+  };
+
+  // Leaving fluid mode keeps the size shown on this viewport
+  const handleFluidUnitChange = (newUnit: string) => {
+    if (newUnit === "fluid" || !fluidValue) return;
+    onToolbarInteractionStart();
+
+    const viewportWidth = getParentViewportWidth();
+    const pxValue = getFluidSizeAt(fluidValue, viewportWidth);
+    const value =
+      newUnit === "vw"
+        ? (Math.round((pxValue / viewportWidth) * 10000) / 100).toString()
+        : Math.round(pxValue).toString();
+    setFontSize(value);
+    setWholeTextFontSize(`${value}${newUnit}`, newUnit);
+  };
+
   // Helper function to create presets for line height
 
   // Helper function to create presets for font size
@@ -435,9 +528,31 @@ const TextMenu = ({
           </div>
         </div>
 
+        <FontSettingsMenu
+          editor={editor}
+          family={
+            editor.getAttributes("textStyle").fontFamily ||
+            node.style?.fontFamily ||
+            ""
+          }
+          onToolbarInteractionStart={onToolbarInteractionStart}
+          onToolbarInteractionEnd={onToolbarInteractionEnd}
+        />
+
         {/* Separator */}
         <div className="h-8 w-px bg-[var(--border-light)]"></div>
 
+        {/* Block type: heading, paragraph, list or quote */}
+        <div className="flex items-center">
+          <BlockTypeMenu
+            editor={editor}
+            onToolbarInteractionStart={onToolbarInteractionStart}
+            onToolbarInteractionEnd={onToolbarInteractionEnd}
+          />
+        </div>
+
+        <div className="h-8 w-px bg-[var(--border-light)]"></div>
+
         {/* SECTION 2: Font Size */}
         <div className="flex items-center px-1">
           <div
@@ -447,115 +562,148 @@ const TextMenu = ({
             }}
             className="relative"
           >
-            <ToolInput
-              type="number"
-              customValue={fontSize}
-              min={1}
-              max={100000}
-              step={0.1}
-              showUnit
-              unit={fontUnit}
-              label="Size"
-              onCustomChange={(value, unit) => {
-                const currentUnit = unit || fontUnit;
-                if (
-                  editor.getHTML().includes("</p><p") &&
-                  currentUnit === "vw"
-                ) {
-                  directUpdateFontSize(value, currentUnit);
-                  return;
-                }
+            {fluidSize ? (
+              <div className="flex items-center gap-2">
+                <ToolInput
+                  type="number"
+                  customValue={fluidSize.min}
+                  min={1}
+                  max={1000}
+                  label="Min"
+                  onCustomChange={(value) =>
+                    applyFluidSize({ ...fluidSize, min: Number(value) })
+                  }
+                />
+                <ToolInput
+                  type="number"
+                  customValue={fluidSize.max}
+                  min={1}
+                  max={1000}
+                  showUnit
+                  unit="fluid"
+                  label="Max"
+                  onCustomChange={(value) =>
+                    applyFluidSize({ ...fluidSize, max: Number(value) })
+                  }
+                  onUnitChange={handleFluidUnitChange}
+                />
+              </div>
+            ) : (
+              <ToolInput
+                type="number"
+                customValue={fontSize}
+                min={1}
+                max={100000}
+                step={0.1}
+                showUnit
+                unit={fontUnit}
+                label="Size"
+                onCustomChange={(value, unit) => {
+                  const currentUnit = unit || fontUnit;
+                  if (
+                    editor.getHTML().includes("</p><p") &&
+                    currentUnit === "vw"
+                  ) {
+                    directUpdateFontSize(value, currentUnit);
+                    return;
+                  }
 
-                const { from } = editor.state.selection;
-                const isPartialSelection =
-                  !editor.state.selection.empty && from > 1;
+                  const { from } = editor.state.selection;
+                  const isPartialSelection =
+                    !editor.state.selection.empty && from > 1;
 
-                if (isPartialSelection) {
-                  const handled = handlePartialSelection(value, currentUnit);
-                  if (handled) return;
-                }
+                  if (isPartialSelection) {
+                    const handled = handlePartialSelection(value, currentUnit);
+                    if (handled) return;
+                  }
 
-                handleFontSizeChange(value, currentUnit);
-              }}
-              onUnitChange={(newUnit) => {
-                onToolbarInteractionStart();
-                const numericValue = parseFloat(fontSize);
-                if (isNaN(numericValue)) {
-                  directUpdateFontSize("16", newUnit);
-                  return;
-                }
+                  handleFontSizeChange(value, currentUnit);
+                }}
+                onUnitChange={(newUnit) => {
+                  onToolbarInteractionStart();
+                  if (newUnit === "fluid") {
+                    enterFluidSize();
+                    return;
+                  }
 
-                if (fontUnit === "vw" && newUnit === "px") {
-                  const viewportWidth = getParentViewportWidth();
-                  const pxValue = Math.min(
-                    Math.round((numericValue * viewportWidth) / 100),
-                    300
-                  );
-                  const isMultiLine = editor.getHTML().includes("</p><p");
-                  setFontUnit(newUnit);
-                  setFontSize(pxValue.toString());
-
-                  if (isMultiLine) {
-                    try {
-                      const currentHTML = editor.getHTML();
-                      const newHTML = currentHTML.replace(
-                        /font-size:\s*([0-9.]+)vw/g,
-                        (match, vwValue) => {
-                          const vw = parseFloat(vwValue);
-                          let px = 16;
-                          if (vw <= 1) px = 12;
-                          else if (vw <= 2) px = 16;
-                          else if (vw <= 3) px = 20;
-                          else if (vw <= 5) px = 24;
-                          else if (vw <= 8) px = 32;
-                          else if (vw <= 12) px = 48;
-                          else if (vw <= 18) px = 64;
-                          else if (vw <= 24) px = 96;
-                          else px = 120;
-                          return `font-size: ${px}px`;
-                        }
-                      );
+                  const numericValue = parseFloat(fontSize);
+                  if (isNaN(numericValue)) {
+                    directUpdateFontSize("16", newUnit);
+                    return;
+                  }
+
+                  if (fontUnit === "vw" && newUnit === "px") {
+                    const viewportWidth = getParentViewportWidth();
+                    const pxValue = Math.min(
+                      Math.round((numericValue * viewportWidth) / 100),
+                      300
+                    );
+                    const isMultiLine = editor.getHTML().includes("</p><p");
+                    setFontUnit(newUnit);
+                    setFontSize(pxValue.toString());
+
+                    if (isMultiLine) {
+                      try {
+                        const currentHTML = editor.getHTML();
+                        const newHTML = currentHTML.replace(
+                          /font-size:\s*([0-9.]+)vw/g,
+                          (match, vwValue) => {
+                            const vw = parseFloat(vwValue);
+                            let px = 16;
+                            if (vw <= 1) px = 12;
+                            else if (vw <= 2) px = 16;
+                            else if (vw <= 3) px = 20;
+                            else if (vw <= 5) px = 24;
+                            else if (vw <= 8) px = 32;
+                            else if (vw <= 12) px = 48;
+                            else if (vw <= 18) px = 64;
+                            else if (vw <= 24) px = 96;
+                            else px = 120;
+                            return `font-size: ${px}px`;
+                          }
+                        );
+                        setNodeStyle(
+                          { text: newHTML },
+                          undefined,
+                          true,
+                          false,
+                          false
+                        );
+                        editor.commands.setContent(newHTML);
+                      } catch (error) {
+                        console.error(
+                          "Error converting VW to PX for multi-line:",
+                          error
+                        );
+                        directUpdateFontSize(pxValue.toString(), newUnit);
+                      }
+                    } else {
+                      editor.chain().focus().setFontSize(`${pxValue}px`).run();
+                      const updatedHtml = editor.getHTML();
                       setNodeStyle(
-                        { text: newHTML },
+                        { text: updatedHtml },
                         undefined,
                         true,
                         false,
                         false
                       );
-                      editor.commands.setContent(newHTML);
-                    } catch (error) {
-                      console.error(
-                        "Error converting VW to PX for multi-line:",
-                        error
-                      );
-                      directUpdateFontSize(pxValue.toString(), newUnit);
                     }
-                  } else {
-                    editor.chain().focus().setFontSize(`${pxValue}px`).run();
-                    const updatedHtml = editor.getHTML();
-                    setNodeStyle(
-                      { text: updatedHtml },
-                      undefined,
-                      true,
-                      false,
-                      false
-                    );
+                    onToolbarInteractionEnd();
+                    return;
                   }
-                  onToolbarInteractionEnd();
-                  return;
-                }
 
-                if (fontUnit === "px" && newUnit === "vw") {
-                  const viewportWidth = getParentViewportWidth();
-                  const convertedValue = (numericValue / viewportWidth) * 100;
-                  const vwValue = Math.round(convertedValue * 100) / 100;
-                  directUpdateFontSize(vwValue.toString(), newUnit);
-                  return;
-                }
+                  if (fontUnit === "px" && newUnit === "vw") {
+                    const viewportWidth = getParentViewportWidth();
+                    const convertedValue = (numericValue / viewportWidth) * 100;
+                    const vwValue = Math.round(convertedValue * 100) / 100;
+                    directUpdateFontSize(vwValue.toString(), newUnit);
+                    return;
+                  }
 
-                directUpdateFontSize(fontSize, newUnit);
-              }}
-            />
+                  directUpdateFontSize(fontSize, newUnit);
+                }}
+              />
+            )}
           </div>
         </div>
 
@@ -638,6 +786,24 @@ const TextMenu = ({
           >
             <UnderlineIcon size={16} />
           </button>
+          <button
+            onMouseDown={(e) =>
+              handleToolClick(e, () =>
+                editor.chain().focus().toggleCode().run()
+              )
+            }
+            className={`p-1.5 rounded hover:bg-[var(--bg-hover)] ${
+              editor.isActive("code") ? "bg-[var(--bg-hover)]" : ""
+            }`}
+            type="button"
+          >
+            <Code size={16} />
+          </button>
+          <LinkMenu
+            editor={editor}
+            onToolbarInteractionStart={onToolbarInteractionStart}
+            onToolbarInteractionEnd={onToolbarInteractionEnd}
+          />
         </div>
 
         {/* Separator */}
@@ -16,10 +16,12 @@ import TextStyle from "@tiptap/extension-text-style";
 import TextAlign from "@tiptap/extension-text-align";
 import Underline from "@tiptap/extension-underline";
 import { Color } from "@tiptap/extension-color";
+import Link from "@tiptap/extension-link";
 import { Extension } from "@tiptap/core";
 import { Plugin, PluginKey } from "prosemirror-state";
 import TextMenu from "./TextMenu";
 import { findParentViewport } from "@/builder/context/utils";
+import { getHtmlFontSize, isFluidSize } from "@/builder/fonts/fluidType";
 
 // Add this extension to your list of extensions in TextElement.jsx
 
@@ -87,6 +89,44 @@ const LetterSpacingExtension = Extension.create({
   },
 });
 
+// Variable font axes and OpenType features, kept as the CSS value of
+// font-variation-settings and font-feature-settings
+const FontVariationExtension = Extension.create({
+  name: "fontVariation",
+  addOptions() {
+    return { types: ["textStyle"] };
+  },
+  addGlobalAttributes() {
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          fontVariationSettings: {
+            default: null,
+            parseHTML: (element) => element.style.fontVariationSettings || null,
+            renderHTML: (attributes) => {
+              if (!attributes.fontVariationSettings) return {};
+              return {
+                style: `font-variation-settings: ${attributes.fontVariationSettings}`,
+              };
+            },
+          },
+          fontFeatureSettings: {
+            default: null,
+            parseHTML: (element) => element.style.fontFeatureSettings || null,
+            renderHTML: (attributes) => {
+              if (!attributes.fontFeatureSettings) return {};
+              return {
+                style: `font-feature-settings: ${attributes.fontFeatureSettings}`,
+              };
+            },
+          },
+        },
+      },
+    ];
+  },
+});
+
 // -----------------------
 // SpacePreservingExtension
 // -----------------------
@@ -322,6 +362,27 @@ const FontSizeExtension = Extension.create({
   },
 });
 
+// Links to pages keep the page id, so the preview and exports can point
+// them at the page even after its slug changes
+const PageLinkExtension = Link.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      pageId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-page-id"),
+        renderHTML: (attributes) =>
+          attributes.pageId ? { "data-page-id": attributes.pageId } : {},
+      },
+    };
+  },
+}).configure({
+  openOnClick: false,
+  autolink: false,
+  linkOnPaste: false,
+  HTMLAttributes: { target: null, rel: null },
+});
+
 // -----------------------
 // BubbleMenu Portal for rendering into document.body
 // -----------------------
@@ -477,10 +538,12 @@ const TextElement = ({ node }: ElementProps) => {
       TextStyle.configure({ types: ["textStyle"] }),
       Underline,
       Color,
+      PageLinkExtension,
       FontSizeExtension,
       FontFamilyExtension,
       LineHeightExtension, // Add this line
       LetterSpacingExtension, // Add this line
+      FontVariationExtension,
       TextAlign.configure({ types: ["paragraph", "heading"] }),
       PreserveFormattingExtension,
       PasteHandler,
@@ -549,13 +612,18 @@ const TextElement = ({ node }: ElementProps) => {
     },
   });
 
+  // Fluid sizes contain vw too, but are edited as a min and a max
+  const isFluidText = isFluidSize(getHtmlFontSize(node.style.text));
+
   // Check if node has VW units when first rendering
   useEffect(() => {
     if (node.style.text) {
-      const hasVwUnits = node.style.text.includes("vw");
+      const hasVwUnits = node.style.text.includes("vw") && !isFluidText;
       hasVwUnitsRef.current = hasVwUnits;
 
-      if (hasVwUnits) {
+      if (isFluidText) {
+        setDisplayUnit("fluid");
+      } else if (hasVwUnits) {
         setDisplayUnit("vw");
 
         // Extract VW value for UI display
@@ -573,7 +641,7 @@ const TextElement = ({ node }: ElementProps) => {
         }
       }
     }
-  }, [node.style.text, extractVwValue]);
+  }, [node.style.text, isFluidText, extractVwValue]);
 
   // Mark the initial edit as complete after a delay.
   useEffect(() => {
@@ -642,7 +710,7 @@ const TextElement = ({ node }: ElementProps) => {
         // Reset the content tracking ref
         lastUpdatedContentRef.current = null;
 
-        const hasVwUnits = node.style.text.includes("vw");
+        const hasVwUnits = node.style.text.includes("vw") && !isFluidText;
         hasVwUnitsRef.current = hasVwUnits;
 
         if (hasVwUnits) {
@@ -662,8 +730,8 @@ const TextElement = ({ node }: ElementProps) => {
           // Set content with pixels but data-vw-size attributes
           editor.commands.setContent(pxContent);
         } else {
-          // For PX content, just load as is
-          setDisplayUnit("px");
+          // For PX and fluid content, just load as is
+          setDisplayUnit(isFluidText ? "fluid" : "px");
           editor.commands.setContent(node.style.text);
 
           // Extract PX value for UI display
@@ -681,6 +749,7 @@ const TextElement = ({ node }: ElementProps) => {
     editor,
     node.style.text,
     isEditing,
+    isFluidText,
     convertHtmlVwToPx,
     getParentViewportWidth,
     extractVwValue,
@@ -1377,7 +1446,9 @@ const TextElement = ({ node }: ElementProps) => {
 
               // Check if the text has VW units
               const hasVwUnits =
-                node.style.text && node.style.text.includes("vw");
+                node.style.text &&
+                node.style.text.includes("vw") &&
+                !isFluidText;
               hasVwUnitsRef.current = hasVwUnits;
 
               if (editor) {
@@ -1401,8 +1472,8 @@ const TextElement = ({ node }: ElementProps) => {
                   // Set editor content with PX values + data attributes
                   editor.commands.setContent(pxContent);
                 } else if (node.style.text && node.style.text.trim() !== "") {
-                  // For regular PX content
-                  setDisplayUnit("px");
+                  // For regular PX and fluid content
+                  setDisplayUnit(isFluidText ? "fluid" : "px");
                   editor.commands.setContent(node.style.text);
 
                   // Extract PX value for UI
@@ -1478,6 +1549,7 @@ const TextElement = ({ node }: ElementProps) => {
       editor,
       dragState.dynamicModeNodeId,
       dragDisp,
+      isFluidText,
       extractVwValue,
       convertHtmlVwToPx,
       getParentViewportWidth,
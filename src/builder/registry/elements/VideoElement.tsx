@@ -28,10 +28,10 @@ export const VideoElement = ({ node }: ElementProps) => {
             pointerEvents: "none",
           }}
           src={
-            dragState.dynamicState === "hovered"
-              ? node.dynamicState?.hovered?.src
-              : node.style.src ||
-                "https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerMeltdowns.mp4"
+            (dragState.dynamicState !== "normal" &&
+              node.dynamicState?.[dragState.dynamicState]?.src) ||
+            node.style.src ||
+            "https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerMeltdowns.mp4"
           }
           controls={false}
           autoPlay={false}
@@ -1,4 +1,38 @@
-export const elementRegistry = [
+import { Node, ShapeOptions, VectorData } from "../reducer/nodeDispatcher";
+import { DEFAULT_SHAPE_OPTIONS } from "../vector/shapeSvg";
+
+// A wave to start editing from when a spline is dragged in
+const DEFAULT_SPLINE_VECTOR: VectorData = {
+  width: 100,
+  height: 100,
+  shapes: [
+    {
+      paths: [
+        {
+          closed: false,
+          points: [
+            { x: 0, y: 50, handleOut: { x: 25, y: 0 } },
+            { x: 100, y: 50, handleIn: { x: 75, y: 100 } },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+// What a node starts out with when it is dragged in from the insert panel
+export interface ElementDefaults {
+  src?: string;
+  text?: string;
+  vector?: VectorData;
+  shape?: ShapeOptions;
+  style?: Node["style"];
+}
+
+export const elementRegistry: {
+  type: string;
+  defaultProps: ElementDefaults;
+}[] = [
   {
     type: "frame",
     defaultProps: {
@@ -31,7 +65,68 @@ export const elementRegistry = [
   },
   {
     type: "spline",
-    defaultProps: {},
+    defaultProps: {
+      vector: DEFAULT_SPLINE_VECTOR,
+      style: {
+        fill: "none",
+        stroke: "#000000",
+        strokeWidth: "2px",
+      },
+    },
+  },
+  {
+    type: "rectangle",
+    defaultProps: {
+      shape: DEFAULT_SHAPE_OPTIONS.rectangle,
+      style: {
+        fill: "#d9d9d9",
+        stroke: "none",
+      },
+    },
+  },
+  {
+    type: "ellipse",
+    defaultProps: {
+      shape: DEFAULT_SHAPE_OPTIONS.ellipse,
+      style: {
+        fill: "#d9d9d9",
+        stroke: "none",
+      },
+    },
+  },
+  {
+    type: "line",
+    defaultProps: {
+      shape: DEFAULT_SHAPE_OPTIONS.line,
+      style: {
+        // Tall enough to grab; the line runs through the middle
+        height: "12px",
+        fill: "none",
+        stroke: "#000000",
+        strokeWidth: "2px",
+        strokeLinecap: "round",
+      },
+    },
+  },
+  {
+    type: "polygon",
+    defaultProps: {
+      shape: DEFAULT_SHAPE_OPTIONS.polygon,
+      style: {
+        fill: "#d9d9d9",
+        stroke: "none",
+      },
+    },
+  },
+  {
+    type: "star",
+    defaultProps: {
+      shape: DEFAULT_SHAPE_OPTIONS.star,
+      style: {
+        fill: "#d9d9d9",
+        stroke: "none",
+      },
+    },
   },
   {
     type: "video",
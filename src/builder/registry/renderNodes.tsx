@@ -9,6 +9,8 @@ import DraggedNode, {
 } from "../context/canvasHelpers/DraggedNode";
 import { getFilteredNodes } from "../context/utils";
 import { VideoElement } from "./elements/VideoElement";
+import { SplineElement } from "./elements/SplineElement";
+import { ShapeElement } from "./elements/ShapeElement";
 
 interface RenderNodesProps {
   filter: "inViewport" | "outOfViewport" | "dynamicMode";
@@ -257,6 +259,36 @@ export const RenderNodes: React.FC<RenderNodesProps> = ({ filter }) => {
           return createViewportWrapper(node, videoComponent);
         }
 
+        case "spline": {
+          const splineComponent = (
+            <SplineElement
+              key={node.id}
+              node={{ ...node, style: adjustedStyle }}
+              {...sharedIdAttr}
+              {...viewportAttr}
+            />
+          );
+
+          return createViewportWrapper(node, splineComponent);
+        }
+
+        case "rectangle":
+        case "ellipse":
+        case "line":
+        case "polygon":
+        case "star": {
+          const shapeComponent = (
+            <ShapeElement
+              key={node.id}
+              node={{ ...node, style: adjustedStyle }}
+              {...sharedIdAttr}
+              {...viewportAttr}
+            />
+          );
+
+          return createViewportWrapper(node, shapeComponent);
+        }
+
         default: {
           const defaultComponent = (
             <div
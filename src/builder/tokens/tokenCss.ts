@@ -0,0 +1,131 @@
+import {
+  DesignToken,
+  DesignTokenType,
+  TypographyTokenValue,
+} from "../reducer/tokenDispatcher";
+
+// Style properties that can be bound to a token, by the token type they take
+export const TOKEN_PROPERTY_TYPES: Record<string, DesignTokenType> = {
+  padding: "spacing",
+  paddingTop: "spacing",
+  paddingRight: "spacing",
+  paddingBottom: "spacing",
+  paddingLeft: "spacing",
+  margin: "spacing",
+  marginTop: "spacing",
+  marginRight: "spacing",
+  marginBottom: "spacing",
+  marginLeft: "spacing",
+  gap: "spacing",
+  rowGap: "spacing",
+  columnGap: "spacing",
+  borderRadius: "radius",
+  borderTopLeftRadius: "radius",
+  borderTopRightRadius: "radius",
+  borderBottomRightRadius: "radius",
+  borderBottomLeftRadius: "radius",
+};
+
+export const TYPOGRAPHY_PROPERTIES: (keyof TypographyTokenValue)[] = [
+  "fontFamily",
+  "fontSize",
+  "fontWeight",
+  "lineHeight",
+  "letterSpacing",
+];
+
+type TypographyProperty = keyof TypographyTokenValue;
+
+const toKebabCase = (value: string) =>
+  value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+// Typography tokens get one custom property per font property
+export const getTokenVariable = (
+  token: DesignToken,
+  property?: TypographyProperty
+) =>
+  property
+    ? `--token-${token.id}-${toKebabCase(property)}`
+    : `--token-${token.id}`;
+
+export const getTokenValue = (
+  token: DesignToken,
+  property?: TypographyProperty
+) => (property ? token.typography?.[property] || "" : token.value);
+
+/**
+ * The style value that binds a property to a token. The token's value at
+ * binding time is the fallback, so nodes keep rendering if it is deleted.
+ */
+export const getTokenReference = (
+  token: DesignToken,
+  property?: TypographyProperty
+) =>
+  `var(${getTokenVariable(token, property)}, ${getTokenValue(
+    token,
+    property
+  )})`;
+
+export const getTypographyStyles = (token: DesignToken) =>
+  Object.fromEntries(
+    TYPOGRAPHY_PROPERTIES.map((property) => [
+      property,
+      getTokenReference(token, property),
+    ])
+  ) as Record<TypographyProperty, string>;
+
+const TOKEN_REFERENCE = /^var\((--token-[\w-]+)(?:,\s*(.*))?\)$/;
+
+// The token a style value is bound to, if any
+export const findTokenReference = (
+  value: unknown,
+  tokens: DesignToken[]
+): { token: DesignToken; property?: TypographyProperty } | null => {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(TOKEN_REFERENCE);
+  if (!match) return null;
+
+  for (const token of tokens) {
+    if (getTokenVariable(token) === match[1]) return { token };
+    const property = TYPOGRAPHY_PROPERTIES.find(
+      (key) => getTokenVariable(token, key) === match[1]
+    );
+    if (property) return { token, property };
+  }
+  return null;
+};
+
+// The plain CSS value behind a style value that may reference a token
+export const resolveTokenValue = (value: string, tokens: DesignToken[]) => {
+  const reference = findTokenReference(value, tokens);
+  if (reference) return getTokenValue(reference.token, reference.property);
+  return value.trim().match(TOKEN_REFERENCE)?.[2] || value;
+};
+
+export const generateTokenCSS = (tokens: DesignToken[]) => {
+  const declarations = tokens.flatMap((token) =>
+    token.type === "typography"
+      ? TYPOGRAPHY_PROPERTIES.map(
+          (property) =>
+            `  ${getTokenVariable(token, property)}: ${getTokenValue(
+              token,
+              property
+            )};`
+        )
+      : [`  ${getTokenVariable(token)}: ${token.value};`]
+  );
+  return declarations.length ? `:root {\n${declarations.join("\n")}\n}` : "";
+};
+
+export const getTokenFontFamilies = (tokens: DesignToken[]) =>
+  tokens
+    .map((token) => token.typography?.fontFamily)
+    .filter((family): family is string => !!family);
+
+// Font declarations TipTap writes on text spans would override a typography
+// token applied to the text node itself
+const INLINE_TYPOGRAPHY =
+  /(font-family|font-size|font-weight|line-height|letter-spacing)\s*:[^;"]*;?\s*/g;
+
+export const stripInlineTypography = (html: string) =>
+  html.replace(INLINE_TYPOGRAPHY, "");
@@ -0,0 +1,76 @@
+import React from "react";
+import { useArrangeNodes } from "@/builder/context/hooks/useArrangeNodes";
+import {
+  ALIGN_COMMANDS,
+  ArrangeCommand,
+  DISTRIBUTE_COMMANDS,
+  TIDY_UP_COMMAND,
+} from "@/builder/arrange/arrangeActions";
+import { ToolbarDivider, ToolbarSection } from "./_components/ToolbarAtoms";
+
+const CommandButton = ({
+  command,
+  disabled,
+  onClick,
+}: {
+  command: ArrangeCommand;
+  disabled?: boolean;
+  onClick: () => void;
+}) => {
+  const Icon = command.icon;
+  const isWindows = navigator.platform.includes("Win");
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={`${command.label} (${
+        isWindows ? command.windowsShortcut : command.shortcut
+      })`}
+      className="flex-1 h-7 flex items-center justify-center rounded-[var(--radius-lg)] bg-[var(--control-bg)] hover:bg-[var(--control-bg-hover)] text-[var(--text-primary)] transition-colors duration-150 disabled:opacity-40 disabled:pointer-events-none"
+    >
+      <Icon size={14} />
+    </button>
+  );
+};
+
+// Align, distribute and tidy up the selected absolutely positioned nodes
+export const AlignTool = () => {
+  const { canAlign, canDistribute, canTidyUp, arrange } = useArrangeNodes();
+
+  if (!canAlign) return null;
+
+  return (
+    <>
+      <ToolbarSection title="Align">
+        <div className="flex gap-1">
+          {ALIGN_COMMANDS.map((command) => (
+            <CommandButton
+              key={command.label}
+              command={command}
+              onClick={() => arrange(command.action)}
+            />
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {DISTRIBUTE_COMMANDS.map((command) => (
+            <CommandButton
+              key={command.label}
+              command={command}
+              disabled={!canDistribute}
+              onClick={() => arrange(command.action)}
+            />
+          ))}
+          <CommandButton
+            command={TIDY_UP_COMMAND}
+            disabled={!canTidyUp}
+            onClick={() => arrange(TIDY_UP_COMMAND.action)}
+          />
+        </div>
+      </ToolbarSection>
+      <ToolbarDivider />
+    </>
+  );
+};
+
+export default AlignTool;
@@ -0,0 +1,97 @@
+import React from "react";
+import { ChevronDown } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { Node } from "@/builder/reducer/nodeDispatcher";
+import { BINDABLE_FIELD_TYPES } from "@/builder/cms/collectionData";
+import { Label, ToolbarSection } from "./_components/ToolbarAtoms";
+
+const BindingSelect = ({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: { label: string; value: string }[];
+  onChange: (value: string) => void;
+}) => (
+  <div className="relative flex items-center justify-between">
+    <Label>{label}</Label>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-7 pl-2 pr-6 w-32 text-xs appearance-none bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] focus:border-[var(--border-focus)] text-[var(--text-primary)] rounded-[var(--radius-lg)] focus:outline-none transition-colors"
+    >
+      <option value="">None</option>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+    <ChevronDown className="absolute right-1.5 top-1/2 -translate-y-1/2 w-3 h-3 text-[var(--text-secondary)] pointer-events-none" />
+  </div>
+);
+
+// The closest ancestor frame that repeats its children over a collection
+const findCollectionFrame = (node: Node, nodes: Node[]) => {
+  let current = nodes.find((n) => n.id === node.parentId);
+  while (current) {
+    if (current.cmsCollectionId) return current;
+    const parentId = current.parentId;
+    current = nodes.find((n) => n.id === parentId);
+  }
+  return null;
+};
+
+export const CmsTool = () => {
+  const { dragState, nodeState, nodeDisp, cmsState } = useBuilder();
+  const { collections } = cmsState;
+
+  if (dragState.selectedIds.length !== 1) return null;
+  const node = nodeState.nodes.find((n) => n.id === dragState.selectedIds[0]);
+  if (!node || node.isViewport) return null;
+
+  if (node.type === "frame") {
+    if (collections.length === 0 && !node.cmsCollectionId) return null;
+
+    return (
+      <ToolbarSection title="CMS">
+        <BindingSelect
+          label="Collection"
+          value={node.cmsCollectionId || ""}
+          options={collections.map((collection) => ({
+            label: collection.name,
+            value: collection.id,
+          }))}
+          onChange={(cmsCollectionId) =>
+            nodeDisp.setCmsBinding(node.id, { cmsCollectionId })
+          }
+        />
+      </ToolbarSection>
+    );
+  }
+
+  const fieldTypes = BINDABLE_FIELD_TYPES[node.type];
+  const frame = findCollectionFrame(node, nodeState.nodes);
+  const collection = collections.find((c) => c.id === frame?.cmsCollectionId);
+  if (!fieldTypes || !collection) return null;
+
+  return (
+    <ToolbarSection title="CMS">
+      <BindingSelect
+        label={node.type === "image" ? "Image field" : "Text field"}
+        value={node.cmsFieldId || ""}
+        options={collection.fields
+          .filter((field) => fieldTypes.includes(field.type))
+          .map((field) => ({ label: field.name, value: field.id }))}
+        onChange={(cmsFieldId) =>
+          nodeDisp.setCmsBinding(node.id, { cmsFieldId })
+        }
+      />
+    </ToolbarSection>
+  );
+};
+
+export default CmsTool;
@@ -0,0 +1,122 @@
+import React from "react";
+import { Component, Crosshair, RotateCcw, Unlink } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { useComponentActions } from "@/builder/context/hooks/useComponentActions";
+import {
+  canCreateComponent,
+  findComponentRoot,
+  getNextComponentName,
+  getProjectNodes,
+} from "@/builder/library/componentSync";
+import { Node } from "@/builder/reducer/nodeDispatcher";
+import { Label, ToolbarSection } from "./_components/ToolbarAtoms";
+
+const actionClassName =
+  "relative h-7 w-full flex items-center gap-1.5 px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors";
+
+const ActionButton = ({
+  icon: Icon,
+  label,
+  onClick,
+}: {
+  icon: React.ElementType;
+  label: string;
+  onClick: () => void;
+}) => (
+  <button onClick={onClick} className={actionClassName}>
+    <Icon size={12} />
+    <span>{label}</span>
+  </button>
+);
+
+// Overridden properties of a node and everything below it
+const countOverrides = (node: Node, nodes: Node[]): number =>
+  Object.keys(node.overrides || {}).length +
+  nodes
+    .filter((n) => n.parentId === node.id)
+    .reduce((count, child) => count + countOverrides(child, nodes), 0);
+
+export const ComponentTool = () => {
+  const { dragState, nodeState, nodeDisp, pageState } = useBuilder();
+  const { goToMaster } = useComponentActions();
+
+  if (dragState.selectedIds.length !== 1) return null;
+  const node = nodeState.nodes.find((n) => n.id === dragState.selectedIds[0]);
+  if (!node || node.isViewport) return null;
+
+  const root = findComponentRoot(node, nodeState.nodes);
+  // Masters and instances can be on any page
+  const projectNodes = getProjectNodes(pageState, nodeState.nodes);
+
+  if (!root) {
+    if (!canCreateComponent(node, nodeState.nodes)) return null;
+
+    return (
+      <ToolbarSection title="Component">
+        <ActionButton
+          icon={Component}
+          label="Create component"
+          onClick={() =>
+            nodeDisp.createComponent(
+              node.id,
+              getNextComponentName(projectNodes)
+            )
+          }
+        />
+      </ToolbarSection>
+    );
+  }
+
+  const masterName =
+    projectNodes.find(
+      (n) => n.isComponentMaster && n.componentId === root.componentId
+    )?.customName || "Component";
+
+  if (root.isComponentMaster) {
+    const instanceCount = new Set(
+      projectNodes
+        .filter(
+          (n) => n.componentId === root.componentId && !n.isComponentMaster
+        )
+        .map((n) => n.sharedId || n.id)
+    ).size;
+
+    return (
+      <ToolbarSection title="Component">
+        <Label>
+          Master of {masterName}, {instanceCount}{" "}
+          {instanceCount === 1 ? "instance" : "instances"}
+        </Label>
+      </ToolbarSection>
+    );
+  }
+
+  const overrideCount = countOverrides(node, nodeState.nodes);
+
+  return (
+    <ToolbarSection title="Component">
+      <Label>Instance of {masterName}</Label>
+      <ActionButton
+        icon={Crosshair}
+        label="Go to master"
+        onClick={() => goToMaster(root.componentId, node)}
+      />
+      {overrideCount > 0 && (
+        <ActionButton
+          icon={RotateCcw}
+          label={`Reset ${overrideCount} ${
+            overrideCount === 1 ? "override" : "overrides"
+          }`}
+          onClick={() => nodeDisp.resetInstanceOverrides(node.id)}
+        />
+      )}
+      <ActionButton
+        icon={Unlink}
+        label="Detach instance"
+        onClick={() => nodeDisp.detachComponentInstance(root.id)}
+      />
+    </ToolbarSection>
+  );
+};
+
+export default ComponentTool;
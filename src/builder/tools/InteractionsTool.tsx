@@ -1,9 +1,49 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { ToolbarSection } from "./_components/ToolbarAtoms";
 import { useBuilder } from "@/builder/context/builderState";
 import { ToolbarPopup } from "@/builder/view/toolbars/rightToolbar/toolbar-popup";
 import { ToolPopupTrigger } from "./_components/ToolbarPopupTrigger";
-import { Zap, ChevronRight, X, Plus } from "lucide-react";
+import { Zap, ChevronRight, X, Plus, Timer } from "lucide-react";
+import {
+  ConnectionAction,
+  ConnectionActionType,
+  ConnectionTransition,
+  ConnectionTrigger,
+  ConnectionType,
+} from "@/builder/reducer/nodeDispatcher";
+import {
+  DEFAULT_CUBIC_BEZIER,
+  DEFAULT_TRANSITION,
+  EASING_OPTIONS,
+  TRANSITION_PROPERTY_OPTIONS,
+} from "@/builder/view/preview/utils/transitionUtils";
+import {
+  DEFAULT_TRIGGER_OPTIONS,
+  getKeyShortcut,
+} from "@/builder/view/preview/utils/triggerUtils";
+import {
+  ACTION_OPTIONS,
+  getActionLabel,
+  getDefaultAction,
+} from "@/builder/view/preview/utils/actionUtils";
+import CommitInput from "@/builder/view/toolbars/leftToolbar/CommitInput";
+
+const TRIGGERS = [
+  { type: "click", label: "On Click:", addLabel: "Add click trigger" },
+  { type: "hover", label: "On Hover:", addLabel: "Add hover trigger" },
+  { type: "mouseLeave", label: "On Leave:", addLabel: "Add leave trigger" },
+  { type: "mouseDown", label: "On Press:", addLabel: "Add press trigger" },
+  { type: "mouseUp", label: "On Release:", addLabel: "Add release trigger" },
+  { type: "focus", label: "On Focus:", addLabel: "Add focus trigger" },
+  { type: "blur", label: "On Blur:", addLabel: "Add blur trigger" },
+  {
+    type: "inViewport",
+    label: "While In Viewport:",
+    addLabel: "Add viewport trigger",
+  },
+  { type: "afterDelay", label: "After Delay:", addLabel: "Add delay trigger" },
+  { type: "keyDown", label: "On Key Press:", addLabel: "Add key trigger" },
+] as const;
 
 export const InteractionsTool = () => {
   const { nodeState, dragState } = useBuilder();
@@ -72,6 +112,353 @@ export const InteractionsTool = () => {
   );
 };
 
+const fieldClassName =
+  "h-7 w-full px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] focus:border-[var(--border-focus)] text-[var(--text-primary)] rounded-[var(--radius-lg)] focus:outline-none transition-colors";
+
+const NumberField = ({
+  label,
+  value,
+  step = 1,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) => {
+  const { setIsEditingText } = useBuilder();
+
+  return (
+    <label className="flex-1 space-y-1">
+      <span className="text-[10px] text-[var(--text-secondary)]">{label}</span>
+      <input
+        type="number"
+        value={value}
+        step={step}
+        onFocus={() => setIsEditingText(true)}
+        onBlur={() => setIsEditingText(false)}
+        onChange={(e) => {
+          const next = parseFloat(e.target.value);
+          if (!isNaN(next)) onChange(next);
+        }}
+        className={fieldClassName}
+      />
+    </label>
+  );
+};
+
+const TransitionEditor = ({
+  transition,
+  onChange,
+}: {
+  transition?: ConnectionTransition;
+  onChange: (transition: ConnectionTransition | undefined) => void;
+}) => {
+  const current = transition || DEFAULT_TRANSITION;
+  const update = (updates: Partial<ConnectionTransition>) =>
+    onChange({ ...current, ...updates });
+
+  const toggleProperty = (property: string) =>
+    update({
+      properties: current.properties.includes(property)
+        ? current.properties.filter((p) => p !== property)
+        : [...current.properties, property],
+    });
+
+  const bezier = current.cubicBezier || DEFAULT_CUBIC_BEZIER;
+
+  return (
+    <div className="space-y-2 p-2 rounded-[var(--radius-lg)] bg-[var(--bg-subtle)] border border-[var(--control-border)]">
+      <div className="flex gap-2">
+        <NumberField
+          label="Duration (ms)"
+          value={current.duration}
+          step={50}
+          onChange={(duration) => update({ duration: Math.max(0, duration) })}
+        />
+        <NumberField
+          label="Delay (ms)"
+          value={current.delay}
+          step={50}
+          onChange={(delay) => update({ delay: Math.max(0, delay) })}
+        />
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-[10px] text-[var(--text-secondary)]">Easing</span>
+        <select
+          value={current.easing}
+          onChange={(e) =>
+            update({
+              easing: e.target.value as ConnectionTransition["easing"],
+            })
+          }
+          className={fieldClassName}
+        >
+          {EASING_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {current.easing === "cubic-bezier" && (
+        <div className="flex gap-1">
+          {bezier.map((point, index) => (
+            <NumberField
+              key={index}
+              label={["x1", "y1", "x2", "y2"][index]}
+              value={point}
+              step={0.05}
+              onChange={(value) => {
+                const next: [number, number, number, number] = [...bezier];
+                // x coordinates of a CSS cubic-bezier must stay within 0..1
+                next[index] =
+                  index % 2 === 0 ? Math.min(1, Math.max(0, value)) : value;
+                update({ cubicBezier: next });
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <span className="text-[10px] text-[var(--text-secondary)]">
+          Animate
+        </span>
+        <div className="flex flex-wrap gap-1">
+          <button
+            onClick={() => update({ properties: [] })}
+            className={`px-1.5 h-5 text-[10px] rounded border transition-colors ${
+              current.properties.length === 0
+                ? "border-[var(--accent)] text-[var(--accent)]"
+                : "border-[var(--control-border)] text-[var(--text-secondary)]"
+            }`}
+          >
+            All
+          </button>
+          {TRANSITION_PROPERTY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => toggleProperty(option.value)}
+              className={`px-1.5 h-5 text-[10px] rounded border transition-colors ${
+                current.properties.includes(option.value)
+                  ? "border-[var(--accent)] text-[var(--accent)]"
+                  : "border-[var(--control-border)] text-[var(--text-secondary)]"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {transition && (
+        <button
+          onClick={() => onChange(undefined)}
+          className="text-xs text-[var(--fg-muted)] hover:underline"
+        >
+          Reset to default
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Records the next key combination pressed while focused
+const KeyShortcutField = ({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) => {
+  const { setIsEditingText } = useBuilder();
+
+  return (
+    <label className="flex-1 space-y-1">
+      <span className="text-[10px] text-[var(--text-secondary)]">Shortcut</span>
+      <input
+        readOnly
+        value={value}
+        placeholder="Press keys"
+        onFocus={() => setIsEditingText(true)}
+        onBlur={() => setIsEditingText(false)}
+        onKeyDown={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          const shortcut = getKeyShortcut(e);
+          if (shortcut) onChange(shortcut);
+        }}
+        className={`${fieldClassName} cursor-pointer`}
+      />
+    </label>
+  );
+};
+
+const TriggerEditor = ({
+  type,
+  trigger,
+  onChange,
+}: {
+  type: string;
+  trigger?: ConnectionTrigger;
+  onChange: (trigger: ConnectionTrigger) => void;
+}) => {
+  if (type === "afterDelay") {
+    return (
+      <NumberField
+        label="Delay (ms)"
+        value={trigger?.delay ?? 0}
+        step={100}
+        onChange={(delay) =>
+          onChange({ ...trigger, delay: Math.max(0, delay) })
+        }
+      />
+    );
+  }
+
+  if (type === "keyDown") {
+    return (
+      <KeyShortcutField
+        value={trigger?.key || ""}
+        onChange={(key) => onChange({ ...trigger, key })}
+      />
+    );
+  }
+
+  return null;
+};
+
+const SelectField = ({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: { label: string; value: string }[];
+  onChange: (value: string) => void;
+}) => (
+  <label className="block space-y-1">
+    <span className="text-[10px] text-[var(--text-secondary)]">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={fieldClassName}
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const ActionEditor = ({
+  action,
+  onChange,
+}: {
+  action: ConnectionAction;
+  onChange: (action: ConnectionAction) => void;
+}) => {
+  const { nodeState, pageState } = useBuilder();
+  const update = (updates: Partial<ConnectionAction>) =>
+    onChange({ ...action, ...updates });
+
+  // Named nodes of the page, once per family of viewport copies
+  const nodeOptions = useMemo(() => {
+    const seen = new Set<string>();
+    return nodeState.nodes
+      .filter((node) => node.customName && !node.isViewport && !node.isVariant)
+      .filter((node) => {
+        const key = node.sharedId || String(node.id);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map((node) => ({ label: node.customName!, value: String(node.id) }));
+  }, [nodeState.nodes]);
+
+  switch (action.type) {
+    case "navigate":
+      return (
+        <SelectField
+          label="Page"
+          value={action.pageId || ""}
+          options={[
+            { label: "Choose a page", value: "" },
+            ...pageState.pages.map((page) => ({
+              label: page.name,
+              value: page.id,
+            })),
+          ]}
+          onChange={(pageId) => update({ pageId })}
+        />
+      );
+    case "openUrl":
+      return (
+        <div className="space-y-1">
+          <CommitInput
+            type="url"
+            value={action.url || ""}
+            placeholder="https://"
+            onCommit={(url) => update({ url: url.trim() })}
+          />
+          <label className="flex items-center gap-1.5 text-xs text-[var(--text-secondary)]">
+            <input
+              type="checkbox"
+              checked={!!action.newTab}
+              onChange={(e) => update({ newTab: e.target.checked })}
+            />
+            Open in new tab
+          </label>
+        </div>
+      );
+    case "scrollTo":
+    case "setVisibility":
+      return (
+        <div className="space-y-1">
+          <SelectField
+            label="Node"
+            value={action.nodeId !== undefined ? String(action.nodeId) : ""}
+            options={[
+              {
+                label: nodeOptions.length
+                  ? "Choose a node"
+                  : "Name a node in Layers first",
+                value: "",
+              },
+              ...nodeOptions,
+            ]}
+            onChange={(nodeId) => update({ nodeId: nodeId || undefined })}
+          />
+          {action.type === "setVisibility" && (
+            <SelectField
+              label="Visibility"
+              value={action.visibility || "toggle"}
+              options={[
+                { label: "Toggle", value: "toggle" },
+                { label: "Show", value: "show" },
+                { label: "Hide", value: "hide" },
+              ]}
+              onChange={(visibility) =>
+                update({
+                  visibility: visibility as ConnectionAction["visibility"],
+                })
+              }
+            />
+          )}
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
 const InteractionsPopup = ({ selectedNodeId, onClose }) => {
   const { nodeState, dragState, nodeDisp } = useBuilder();
   const selectedNode = nodeState.nodes.find((n) => n.id === selectedNodeId);
@@ -94,7 +481,19 @@ const InteractionsPopup = ({ selectedNodeId, onClose }) => {
   const [availableTargets, setAvailableTargets] = useState([]);
 
   // For managing target selection state
-  const [showTargetSelector, setShowTargetSelector] = useState(null);
+  const [showTargetSelector, setShowTargetSelector] = useState<string | null>(
+    null
+  );
+
+  // What a connection being added will do
+  const [newActionType, setNewActionType] = useState<
+    ConnectionActionType | "variant"
+  >("variant");
+
+  // Trigger whose transition settings are expanded
+  const [editingTransition, setEditingTransition] = useState<string | null>(
+    null
+  );
 
   // Populate available targets based on current viewport
   useEffect(() => {
@@ -121,7 +520,11 @@ const InteractionsPopup = ({ selectedNodeId, onClose }) => {
     setAvailableTargets(targets);
   }, [nodeState.nodes, currentViewportId, mainDynamicNodeId, selectedNodeId]);
 
-  const addConnection = (targetId, type) => {
+  const addConnection = (
+    targetId: string,
+    type: ConnectionType,
+    action?: ConnectionAction
+  ) => {
     if (!selectedNodeId || !targetId || !type) return;
 
     // Add the connection
@@ -129,7 +532,8 @@ const InteractionsPopup = ({ selectedNodeId, onClose }) => {
       selectedNodeId,
       targetId,
       type,
-      mainDynamicNodeId
+      mainDynamicNodeId,
+      { trigger: DEFAULT_TRIGGER_OPTIONS[type], action }
     );
 
     // Hide the target selector
@@ -205,223 +609,136 @@ const InteractionsPopup = ({ selectedNodeId, onClose }) => {
     return currentConnections.find((conn) => conn.type === type);
   };
 
-  // Check if a connection type is already used
-  const hasConnectionType = (type) => {
-    return currentConnections.some((conn) => conn.type === type);
-  };
-
   return (
     <div className="w-full ">
       <div className="space-y-5 py-2">
-        {/* On Click Connection */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <div className="text-xs font-medium text-[var(--text-secondary)]">
-              On Click:
-            </div>
-          </div>
-
-          {hasConnectionType("click") ? (
-            <div className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--bg-subtle)] border border-[var(--control-border)] text-[var(--text-primary)] rounded-[var(--radius-lg)]">
-              <div className="flex items-center gap-1.5">
-                {(() => {
-                  const conn = getExistingConnection("click");
-                  const targetNode = nodeState.nodes.find(
-                    (n) => n.id === conn?.targetId
-                  );
-                  const nodeType = getNodeTypeDisplay(targetNode);
-                  return (
-                    <>
-                      <span>{getNodeDisplayName(conn?.targetId)}</span>
-                      {nodeType && (
-                        <span className="text-[10px] text-[var(--fg-muted)]">
-                          ({nodeType})
-                        </span>
-                      )}
-                    </>
-                  );
-                })()}
-              </div>
-              <button
-                onClick={() => removeConnection("click")}
-                className="text-xs p-0.5 rounded hover:bg-red-100 hover:text-red-700 transition-colors"
-              >
-                <X size={12} />
-              </button>
-            </div>
-          ) : (
-            <>
-              {showTargetSelector === "click" ? (
-                <div className="space-y-2">
-                  {availableTargets.length === 0 ? (
-                    <div className="text-xs text-[var(--fg-muted)] p-2 bg-[var(--bg-subtle)] rounded">
-                      No targets available in this viewport
-                    </div>
-                  ) : (
-                    <div className="max-h-[125px] overflow-y-auto space-y-1">
-                      {availableTargets.map((target) => (
-                        <button
-                          key={target.id}
-                          onClick={() => addConnection(target.id, "click")}
-                          className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
-                        >
-                          <div className="flex items-center gap-1.5">
-                            <span>{getNodeDisplayName(target.id)}</span>
-                            <span className="text-[10px] text-[var(--fg-muted)]">
-                              ({getNodeTypeDisplay(target)})
-                            </span>
-                          </div>
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                  <button
-                    onClick={() => setShowTargetSelector(null)}
-                    className="text-xs text-[var(--fg-muted)] hover:underline"
-                  >
-                    Cancel
-                  </button>
+        {TRIGGERS.map((trigger) => {
+          const connection = getExistingConnection(trigger.type);
+          const targetType =
+            connection && !connection.action
+              ? getNodeTypeDisplay(
+                  nodeState.nodes.find((n) => n.id === connection.targetId)
+                )
+              : "";
+
+          return (
+            <div key={trigger.type} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-medium text-[var(--text-secondary)]">
+                  {trigger.label}
                 </div>
-              ) : (
-                <button
-                  onClick={() => setShowTargetSelector("click")}
-                  className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
-                >
-                  <div className="flex items-center gap-1.5">
-                    <Plus size={12} />
-                    <span>Add click trigger</span>
-                  </div>
-                </button>
-              )}
-            </>
-          )}
-        </div>
-
-        {/* On Hover Connection */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <div className="text-xs font-medium text-[var(--text-secondary)]">
-              On Hover:
-            </div>
-          </div>
+              </div>
 
-          {hasConnectionType("hover") ? (
-            <div className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--bg-subtle)] border border-[var(--control-border)] text-[var(--text-primary)] rounded-[var(--radius-lg)]">
-              <div className="flex items-center gap-1.5">
-                {(() => {
-                  const conn = getExistingConnection("hover");
-                  const targetNode = nodeState.nodes.find(
-                    (n) => n.id === conn?.targetId
-                  );
-                  const nodeType = getNodeTypeDisplay(targetNode);
-                  return (
-                    <>
-                      <span>{getNodeDisplayName(conn?.targetId)}</span>
-                      {nodeType && (
+              {connection ? (
+                <>
+                  <div className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--bg-subtle)] border border-[var(--control-border)] text-[var(--text-primary)] rounded-[var(--radius-lg)]">
+                    <div className="flex items-center gap-1.5">
+                      <span>
+                        {connection.action
+                          ? getActionLabel(connection.action)
+                          : getNodeDisplayName(connection.targetId)}
+                      </span>
+                      {targetType && (
                         <span className="text-[10px] text-[var(--fg-muted)]">
-                          ({nodeType})
+                          ({targetType})
                         </span>
                       )}
-                    </>
-                  );
-                })()}
-              </div>
-              <button
-                onClick={() => removeConnection("hover")}
-                className="text-xs p-0.5 rounded hover:bg-red-100 hover:text-red-700 transition-colors"
-              >
-                <X size={12} />
-              </button>
-            </div>
-          ) : (
-            <>
-              {showTargetSelector === "hover" ? (
-                <div className="space-y-2">
-                  {availableTargets.length === 0 ? (
-                    <div className="text-xs text-[var(--fg-muted)] p-2 bg-[var(--bg-subtle)] rounded">
-                      No targets available in this viewport
                     </div>
-                  ) : (
-                    <div className="max-h-[125px] overflow-y-auto space-y-1">
-                      {availableTargets.map((target) => (
-                        <button
-                          key={target.id}
-                          onClick={() => addConnection(target.id, "hover")}
-                          className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
-                        >
-                          <div className="flex items-center gap-1.5">
-                            <span>{getNodeDisplayName(target.id)}</span>
-                            <span className="text-[10px] text-[var(--fg-muted)]">
-                              ({getNodeTypeDisplay(target)})
-                            </span>
-                          </div>
-                        </button>
-                      ))}
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() =>
+                          setEditingTransition(
+                            editingTransition === trigger.type
+                              ? null
+                              : trigger.type
+                          )
+                        }
+                        className={`text-xs p-0.5 rounded hover:bg-[var(--bg-hover)] transition-colors ${
+                          connection.transition
+                            ? "text-[var(--accent)]"
+                            : "text-[var(--text-secondary)]"
+                        }`}
+                        title="Transition"
+                      >
+                        <Timer size={12} />
+                      </button>
+                      <button
+                        onClick={() => removeConnection(trigger.type)}
+                        className="text-xs p-0.5 rounded hover:bg-red-100 hover:text-red-700 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
                     </div>
-                  )}
-                  <button
-                    onClick={() => setShowTargetSelector(null)}
-                    className="text-xs text-[var(--fg-muted)] hover:underline"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              ) : (
-                <button
-                  onClick={() => setShowTargetSelector("hover")}
-                  className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
-                >
-                  <div className="flex items-center gap-1.5">
-                    <Plus size={12} />
-                    <span>Add hover trigger</span>
                   </div>
-                </button>
-              )}
-            </>
-          )}
-        </div>
 
-        {/* On Leave Connection */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <div className="text-xs font-medium text-[var(--text-secondary)]">
-              On Leave:
-            </div>
-          </div>
+                  {connection.action && (
+                    <ActionEditor
+                      action={connection.action}
+                      onChange={(action) =>
+                        nodeDisp.setConnectionAction(
+                          selectedNodeId,
+                          trigger.type,
+                          action
+                        )
+                      }
+                    />
+                  )}
 
-          {hasConnectionType("mouseLeave") ? (
-            <div className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--bg-subtle)] border border-[var(--control-border)] text-[var(--text-primary)] rounded-[var(--radius-lg)]">
-              <div className="flex items-center gap-1.5">
-                {(() => {
-                  const conn = getExistingConnection("mouseLeave");
-                  const targetNode = nodeState.nodes.find(
-                    (n) => n.id === conn?.targetId
-                  );
-                  const nodeType = getNodeTypeDisplay(targetNode);
-                  return (
-                    <>
-                      <span>{getNodeDisplayName(conn?.targetId)}</span>
-                      {nodeType && (
-                        <span className="text-[10px] text-[var(--fg-muted)]">
-                          ({nodeType})
-                        </span>
-                      )}
-                    </>
-                  );
-                })()}
-              </div>
-              <button
-                onClick={() => removeConnection("mouseLeave")}
-                className="text-xs p-0.5 rounded hover:bg-red-100 hover:text-red-700 transition-colors"
-              >
-                <X size={12} />
-              </button>
-            </div>
-          ) : (
-            <>
-              {showTargetSelector === "mouseLeave" ? (
+                  <TriggerEditor
+                    type={trigger.type}
+                    trigger={connection.trigger}
+                    onChange={(options) =>
+                      nodeDisp.setConnectionTrigger(
+                        selectedNodeId,
+                        trigger.type,
+                        options
+                      )
+                    }
+                  />
+
+                  {editingTransition === trigger.type && (
+                    <TransitionEditor
+                      transition={connection.transition}
+                      onChange={(transition) =>
+                        nodeDisp.setConnectionTransition(
+                          selectedNodeId,
+                          trigger.type,
+                          transition
+                        )
+                      }
+                    />
+                  )}
+                </>
+              ) : showTargetSelector === trigger.type ? (
                 <div className="space-y-2">
-                  {availableTargets.length === 0 ? (
+                  <SelectField
+                    label="Action"
+                    value={newActionType}
+                    options={ACTION_OPTIONS.map((option) => ({
+                      label: option.label,
+                      value: option.type,
+                    }))}
+                    onChange={(value) =>
+                      setNewActionType(
+                        value as ConnectionActionType | "variant"
+                      )
+                    }
+                  />
+                  {newActionType !== "variant" ? (
+                    <button
+                      onClick={() =>
+                        addConnection(
+                          selectedNodeId,
+                          trigger.type,
+                          getDefaultAction(newActionType)
+                        )
+                      }
+                      className="relative h-7 w-full flex items-center gap-1.5 px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
+                    >
+                      <Plus size={12} />
+                      <span>Add action</span>
+                    </button>
+                  ) : availableTargets.length === 0 ? (
                     <div className="text-xs text-[var(--fg-muted)] p-2 bg-[var(--bg-subtle)] rounded">
                       No targets available in this viewport
                     </div>
@@ -430,7 +747,7 @@ const InteractionsPopup = ({ selectedNodeId, onClose }) => {
                       {availableTargets.map((target) => (
                         <button
                           key={target.id}
-                          onClick={() => addConnection(target.id, "mouseLeave")}
+                          onClick={() => addConnection(target.id, trigger.type)}
                           className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
                         >
                           <div className="flex items-center gap-1.5">
@@ -452,18 +769,21 @@ const InteractionsPopup = ({ selectedNodeId, onClose }) => {
                 </div>
               ) : (
                 <button
-                  onClick={() => setShowTargetSelector("mouseLeave")}
+                  onClick={() => {
+                    setNewActionType("variant");
+                    setShowTargetSelector(trigger.type);
+                  }}
                   className="relative h-7 w-full flex items-center justify-between px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] text-[var(--text-primary)] rounded-[var(--radius-lg)] transition-colors"
                 >
                   <div className="flex items-center gap-1.5">
                     <Plus size={12} />
-                    <span>Add leave trigger</span>
+                    <span>{trigger.addLabel}</span>
                   </div>
                 </button>
               )}
-            </>
-          )}
-        </div>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
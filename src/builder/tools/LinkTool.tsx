@@ -0,0 +1,99 @@
+import React from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { NodeLink } from "@/builder/reducer/nodeDispatcher";
+import CommitInput from "@/builder/view/toolbars/leftToolbar/CommitInput";
+import { ToolbarSegmentedControl } from "./_components/ToolbarSegmentedControl";
+import { ToolbarSwitch } from "./_components/ToolbarSwitch";
+import { ToolSelect } from "./_components/ToolSelect";
+import { ToolbarDivider, ToolbarSection } from "./_components/ToolbarAtoms";
+
+// Makes the selected nodes links to a URL or to another page. The preview
+// and the exports render them as <a> elements.
+export const LinkTool = () => {
+  const { dragState, nodeState, nodeDisp, pageState } = useBuilder();
+  const selectedNodes = nodeState.nodes.filter((node) =>
+    dragState.selectedIds.includes(node.id)
+  );
+  const [first] = selectedNodes;
+  // Dynamic elements switch variants on click instead
+  if (
+    !first ||
+    selectedNodes.some((node) => node.isViewport || node.isDynamic)
+  ) {
+    return null;
+  }
+
+  const selectedIds = selectedNodes.map((node) => node.id);
+  const link = first.link;
+  const linkType = link?.pageId ? "page" : link ? "url" : "none";
+  const updateLink = (next: NodeLink | null) =>
+    nodeDisp.updateNodeLink(selectedIds, next);
+
+  const handleTypeChange = (type: string) => {
+    if (type === "url") {
+      updateLink({ url: link?.url || "", newTab: link?.newTab });
+    } else if (type === "page" && pageState.pages.length) {
+      updateLink({
+        pageId: link?.pageId || pageState.pages[0].id,
+        newTab: link?.newTab,
+      });
+    } else if (type === "none") {
+      updateLink(null);
+    }
+  };
+
+  return (
+    <>
+      <ToolbarSection title="Link">
+        <div className="space-y-4">
+          <ToolbarSegmentedControl
+            cssProperty="linkType-custom"
+            size="sm"
+            currentValue={linkType}
+            options={[
+              { label: "None", value: "none" },
+              { label: "URL", value: "url" },
+              { label: "Page", value: "page" },
+            ]}
+            onChange={handleTypeChange}
+          />
+          {linkType === "url" && (
+            <CommitInput
+              type="url"
+              value={link?.url || ""}
+              placeholder="https://"
+              onCommit={(url) => updateLink({ ...link, url: url.trim() })}
+            />
+          )}
+          {linkType === "page" && (
+            <ToolSelect
+              label="Page"
+              name="linkPage-custom"
+              value={link?.pageId}
+              options={pageState.pages.map((page) => ({
+                label: page.name,
+                value: page.id,
+              }))}
+              onChange={(pageId) => updateLink({ ...link, pageId })}
+            />
+          )}
+          {link && (
+            <ToolbarSwitch
+              cssProperty="linkNewTab-custom"
+              label="New tab"
+              onValue="true"
+              offValue="false"
+              currentValue={link.newTab ? "true" : "false"}
+              onChange={(value) =>
+                updateLink({ ...link, newTab: value === "true" })
+              }
+            />
+          )}
+        </div>
+      </ToolbarSection>
+      <ToolbarDivider />
+    </>
+  );
+};
+
+export default LinkTool;
@@ -0,0 +1,104 @@
+import React from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { ShapeOptions } from "@/builder/reducer/nodeDispatcher";
+import { DEFAULT_SHAPE_OPTIONS, isShapeType } from "@/builder/vector/shapeSvg";
+import { ToolInput } from "./_components/ToolInput";
+import { ToolSelect } from "./_components/ToolSelect";
+import { ToolbarDivider, ToolbarSection } from "./_components/ToolbarAtoms";
+
+// Corner radius, corner count, star depth and line caps of the selected
+// shapes, when they are all of the same kind
+export const ShapeTool = () => {
+  const { dragState, nodeState, nodeDisp } = useBuilder();
+  const selectedNodes = nodeState.nodes.filter((node) =>
+    dragState.selectedIds.includes(node.id)
+  );
+  const [first] = selectedNodes;
+  if (
+    !first ||
+    !isShapeType(first.type) ||
+    first.type === "ellipse" ||
+    selectedNodes.some((node) => node.type !== first.type)
+  ) {
+    return null;
+  }
+
+  const shape = { ...DEFAULT_SHAPE_OPTIONS[first.type], ...first.shape };
+  const updateShape = (options: ShapeOptions) =>
+    nodeDisp.updateNodeShape(
+      selectedNodes.map((node) => node.id),
+      options
+    );
+
+  return (
+    <>
+      <ToolbarSection title="Shape">
+        <div className="space-y-4">
+          {first.type === "rectangle" && (
+            <ToolInput
+              type="number"
+              label="Radius"
+              name="shapeCornerRadius"
+              min={0}
+              unit="px"
+              customValue={shape.cornerRadius ?? 0}
+              onCustomChange={(value) =>
+                updateShape({ cornerRadius: Math.max(0, Number(value)) })
+              }
+            />
+          )}
+          {(first.type === "polygon" || first.type === "star") && (
+            <ToolInput
+              type="number"
+              label={first.type === "star" ? "Points" : "Corners"}
+              name="shapePointCount"
+              min={3}
+              max={60}
+              showUnit={false}
+              customValue={shape.pointCount ?? 3}
+              onCustomChange={(value) =>
+                updateShape({
+                  pointCount: Math.min(60, Math.max(3, Math.round(+value))),
+                })
+              }
+            />
+          )}
+          {first.type === "star" && (
+            <ToolInput
+              type="number"
+              label="Ratio"
+              name="shapeInnerRadius"
+              min={1}
+              max={100}
+              unit="%"
+              showSlider
+              sliderMin={1}
+              sliderMax={100}
+              sliderStep={1}
+              customValue={Math.round((shape.innerRadius ?? 0.38) * 100)}
+              onCustomChange={(value) =>
+                updateShape({
+                  innerRadius: Math.min(100, Math.max(1, Number(value))) / 100,
+                })
+              }
+            />
+          )}
+          {first.type === "line" && (
+            <ToolSelect
+              label="Caps"
+              name="strokeLinecap"
+              options={[
+                { label: "None", value: "butt" },
+                { label: "Round", value: "round" },
+                { label: "Square", value: "square" },
+              ]}
+            />
+          )}
+        </div>
+      </ToolbarSection>
+      <ToolbarDivider />
+    </>
+  );
+};
+
+export default ShapeTool;
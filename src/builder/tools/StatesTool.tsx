@@ -0,0 +1,121 @@
+import React from "react";
+import {
+  Ban,
+  Circle,
+  Focus,
+  LucideIcon,
+  MousePointer2,
+  MousePointerClick,
+  RotateCcw,
+} from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { InteractionState } from "@/builder/reducer/nodeDispatcher";
+import { INTERACTION_STATES } from "@/builder/view/preview/utils/stateUtils";
+import { ToolbarSwitch } from "./_components/ToolbarSwitch";
+import {
+  Label,
+  ToolbarDivider,
+  ToolbarSection,
+} from "./_components/ToolbarAtoms";
+
+const STATE_ICONS: Record<"normal" | InteractionState, LucideIcon> = {
+  normal: Circle,
+  hovered: MousePointer2,
+  pressed: MousePointerClick,
+  focused: Focus,
+  disabled: Ban,
+};
+
+const STATE_OPTIONS = [
+  { state: "normal" as const, label: "Normal" },
+  ...INTERACTION_STATES,
+];
+
+// Picks the interaction state that style edits go to. The canvas shows nodes
+// in that state until it is switched back to normal.
+export const StatesTool = () => {
+  const { dragState, dragDisp, nodeState, nodeDisp } = useBuilder();
+  const selectedNodes = nodeState.nodes.filter((node) =>
+    dragState.selectedIds.includes(node.id)
+  );
+  if (!selectedNodes.length) return null;
+
+  const activeState = dragState.dynamicState;
+  const selectedIds = selectedNodes.map((node) => node.id);
+  const hasStateStyles =
+    activeState !== "normal" &&
+    selectedNodes.some((node) => node.dynamicState?.[activeState]);
+
+  return (
+    <>
+      <ToolbarSection title="State">
+        <div className="space-y-4">
+          <div className="flex gap-1">
+            {STATE_OPTIONS.map(({ state, label }) => {
+              const Icon = STATE_ICONS[state];
+              return (
+                <button
+                  key={state}
+                  onClick={() => dragDisp.setDynamicState(state)}
+                  title={label}
+                  className={`flex-1 h-7 flex items-center justify-center rounded-[var(--radius-lg)] transition-colors duration-150 ${
+                    activeState === state
+                      ? "bg-[var(--control-bg-active)] text-[var(--accent)]"
+                      : "bg-[var(--control-bg)] hover:bg-[var(--control-bg-hover)] text-[var(--text-primary)]"
+                  }`}
+                >
+                  <Icon size={14} />
+                </button>
+              );
+            })}
+          </div>
+          {activeState !== "normal" && (
+            <div className="flex items-center justify-between gap-3">
+              <Label>
+                Editing{" "}
+                {STATE_OPTIONS.find(
+                  ({ state }) => state === activeState
+                )?.label.toLowerCase()}{" "}
+                styles
+              </Label>
+              {hasStateStyles && (
+                <button
+                  onClick={() =>
+                    nodeDisp.updateNodeStateStyle(
+                      selectedIds,
+                      activeState,
+                      null
+                    )
+                  }
+                  title="Clear state styles"
+                  className="h-6 w-6 flex items-center justify-center rounded-[var(--radius-sm)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--control-bg-hover)]"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              )}
+            </div>
+          )}
+          {activeState === "disabled" && (
+            <ToolbarSwitch
+              cssProperty="isDisabled-custom"
+              label="Disabled"
+              onValue="true"
+              offValue="false"
+              currentValue={
+                selectedNodes.every((node) => node.isDisabled)
+                  ? "true"
+                  : "false"
+              }
+              onChange={(value) =>
+                nodeDisp.setNodeDisabled(selectedIds, value === "true")
+              }
+            />
+          )}
+        </div>
+      </ToolbarSection>
+      <ToolbarDivider />
+    </>
+  );
+};
+
+export default StatesTool;
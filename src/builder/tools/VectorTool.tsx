@@ -0,0 +1,166 @@
+import React from "react";
+import { nanoid } from "nanoid";
+import { Blend, Combine, CopyMinus, Diff, LucideIcon } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { canArrangeNode } from "@/builder/context/hooks/useArrangeNodes";
+import { BooleanOperation, Node } from "@/builder/reducer/nodeDispatcher";
+import { isShapeType } from "@/builder/vector/shapeSvg";
+import {
+  BOOLEAN_OPERATION_LABELS,
+  combineVectors,
+  mapVectorPaths,
+} from "@/builder/vector/vectorPath";
+import { ToolInput } from "./_components/ToolInput";
+import { ColorPicker } from "./_components/ColorPicker";
+import {
+  Label,
+  ToolbarDivider,
+  ToolbarSection,
+  ToolbarSegmentedControl,
+} from "./_components/ToolbarAtoms";
+
+const BOOLEAN_OPERATIONS: { operation: BooleanOperation; icon: LucideIcon }[] =
+  [
+    { operation: "union", icon: Combine },
+    { operation: "subtract", icon: CopyMinus },
+    { operation: "intersect", icon: Blend },
+    { operation: "exclude", icon: Diff },
+  ];
+
+const px = (value: unknown) => parseFloat(String(value)) || 0;
+
+// Boolean operations work on sibling spline nodes placed by left/top, so
+// their boxes can be compared
+const getBooleanOperands = (nodes: Node[]) =>
+  nodes.length >= 2 &&
+  nodes.every(
+    (node) =>
+      node.type === "spline" &&
+      node.vector &&
+      canArrangeNode(node) &&
+      node.parentId === nodes[0].parentId
+  )
+    ? nodes
+    : null;
+
+// Fill, stroke and paths of the selected spline and shape nodes
+export const VectorTool = () => {
+  const { dragState, nodeState, nodeDisp, dragDisp } = useBuilder();
+  const selectedNodes = nodeState.nodes.filter((node) =>
+    dragState.selectedIds.includes(node.id)
+  );
+  if (
+    !selectedNodes.length ||
+    selectedNodes.some(
+      (node) => node.type !== "spline" && !isShapeType(node.type)
+    )
+  ) {
+    return null;
+  }
+
+  const dynamicModeNodeId = dragState.dynamicModeNodeId as string | null;
+  const operands = getBooleanOperands(selectedNodes);
+  const single =
+    selectedNodes.length === 1 && selectedNodes[0].type === "spline"
+      ? selectedNodes[0]
+      : null;
+  // Lines have nothing to fill
+  const hasFill = selectedNodes.some((node) => node.type !== "line");
+  const isClosed = !!single?.vector?.shapes.every(
+    (shape) => shape.children || shape.paths.every((path) => path.closed)
+  );
+
+  const setClosed = (closed: boolean) => {
+    if (!single?.vector) return;
+    nodeDisp.updateNodeVector(
+      single.id,
+      mapVectorPaths(single.vector, (path) => ({ ...path, closed })),
+      undefined,
+      dynamicModeNodeId
+    );
+  };
+
+  const combine = (operation: BooleanOperation) => {
+    if (!operands) return;
+    const { vector, bounds } = combineVectors(
+      operands.map((node) => ({
+        vector: node.vector!,
+        rect: {
+          left: px(node.style.left),
+          top: px(node.style.top),
+          width: px(node.style.width) || node.vector!.width,
+          height: px(node.style.height) || node.vector!.height,
+        },
+      })),
+      operation
+    );
+
+    // The result looks like the bottom-most shape, as it does in most editors
+    const [first] = operands;
+    const node: Node = {
+      ...first,
+      id: nanoid(),
+      sharedId: nanoid(),
+      customName: BOOLEAN_OPERATION_LABELS[operation],
+      style: {
+        ...first.style,
+        left: `${bounds.left}px`,
+        top: `${bounds.top}px`,
+        width: `${vector.width}px`,
+        height: `${vector.height}px`,
+      },
+      vector,
+    };
+
+    nodeDisp.combineVectorNodes(
+      operands.map((operand) => operand.id),
+      node
+    );
+    dragDisp.setSelectedIds([node.id]);
+  };
+
+  return (
+    <>
+      <ToolbarSection title="Vector">
+        <div className="space-y-4">
+          {hasFill && <ColorPicker label="Fill" name="fill" />}
+          <ColorPicker label="Stroke" name="stroke" />
+          <ToolInput type="number" label="Stroke width" name="strokeWidth" />
+          {single?.vector && (
+            <div className="flex items-center justify-between gap-3">
+              <Label>Path</Label>
+              <div className="w-32">
+                <ToolbarSegmentedControl
+                  size="sm"
+                  value={isClosed ? "closed" : "open"}
+                  onChange={(value) => setClosed(value === "closed")}
+                  options={[
+                    { label: "Open", value: "open" },
+                    { label: "Closed", value: "closed" },
+                  ]}
+                />
+              </div>
+            </div>
+          )}
+          {operands && (
+            <div className="flex gap-1">
+              {BOOLEAN_OPERATIONS.map(({ operation, icon: Icon }) => (
+                <button
+                  key={operation}
+                  onClick={() => combine(operation)}
+                  title={BOOLEAN_OPERATION_LABELS[operation]}
+                  className="flex-1 h-7 flex items-center justify-center rounded-[var(--radius-lg)] bg-[var(--control-bg)] hover:bg-[var(--control-bg-hover)] text-[var(--text-primary)] transition-colors duration-150"
+                >
+                  <Icon size={14} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </ToolbarSection>
+      <ToolbarDivider />
+    </>
+  );
+};
+
+export default VectorTool;
@@ -2,6 +2,11 @@ import React, { useState, useRef, useEffect } from "react";
 import { ChevronDown, X, Pipette } from "lucide-react";
 import { useBuilder } from "@/builder/context/builderState";
 import { useComputedStyle } from "@/builder/context/hooks/useComputedStyle";
+import {
+  findTokenReference,
+  resolveTokenValue,
+} from "@/builder/tokens/tokenCss";
+import { ColorTokenSwatches } from "../TokenPicker";
 import {
   hexToRgb,
   hslToRgb,
@@ -530,8 +535,15 @@ export const ColorPicker = ({
   contentPadding,
 }: ColorPickerProps) => {
   // Use the shared popupRef from useBuilder
-  const { setNodeStyle, startRecording, stopRecording, popupRef } =
-    useBuilder();
+  const {
+    setNodeStyle,
+    startRecording,
+    stopRecording,
+    popupRef,
+    nodeState,
+    dragState,
+    tokenState,
+  } = useBuilder();
   const [isOpen, setIsOpen] = useState(false);
   const [colorMode, setColorMode] = useState<ColorMode>("hex");
   const [hsv, setHsv] = useState({ h: 0, s: 100, v: 100 });
@@ -561,8 +573,18 @@ export const ColorPicker = ({
     defaultValue: "#000000",
   });
 
-  const currentValue =
+  // The unresolved value tells whether the color is bound to a token
+  const selectedNode = nodeState.nodes.find(
+    (node) => node.id === dragState.selectedIds[0]
+  );
+  const rawValue =
     externalValue ||
+    (name && (selectedNode?.style as Record<string, unknown>)?.[name]) ||
+    "";
+  const boundToken = findTokenReference(rawValue, tokenState.tokens)?.token;
+
+  const currentValue =
+    (externalValue && resolveTokenValue(externalValue, tokenState.tokens)) ||
     (computedStyle.mixed ? "#000000" : (computedStyle.value as string));
 
   useEffect(() => {
@@ -832,6 +854,10 @@ export const ColorPicker = ({
           showHeader={false}
           contentPadding={contentPadding}
         />
+        <ColorTokenSwatches
+          value={String(rawValue)}
+          onChange={handleColorChange}
+        />
       </div>
     );
   }
@@ -860,9 +886,10 @@ export const ColorPicker = ({
         >
           <ColorPreview color={currentValue} />
           <span>
-            {alpha < 1
-              ? `${Math.round(alpha * 100)}%`
-              : currentValue.toUpperCase()}
+            {boundToken?.name ||
+              (alpha < 1
+                ? `${Math.round(alpha * 100)}%`
+                : currentValue.toUpperCase())}
           </span>
           <ChevronDown className="w-3 h-3 text-[var(--text-secondary)]" />
         </button>
@@ -897,6 +924,12 @@ export const ColorPicker = ({
             showHeader={true}
             contentPadding={contentPadding}
           />
+          <div className="px-3 pb-3">
+            <ColorTokenSwatches
+              value={String(rawValue)}
+              onChange={handleColorChange}
+            />
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from "react";
+import { SwatchBook, Unlink } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  DesignToken,
+  DesignTokenType,
+} from "@/builder/reducer/tokenDispatcher";
+import {
+  findTokenReference,
+  getTokenReference,
+} from "@/builder/tokens/tokenCss";
+import { cn } from "@/providers/cn";
+
+// Shown in place of an input whose value is bound to a token
+export const TokenBinding = ({
+  token,
+  onDetach,
+}: {
+  token: DesignToken;
+  onDetach: () => void;
+}) => (
+  <div className="flex items-center gap-1 h-7 pl-2 pr-1 max-w-[120px] text-xs bg-[var(--grid-line)] border border-[var(--accent)] text-[var(--text-primary)] rounded-[var(--radius-lg)]">
+    <SwatchBook className="w-3 h-3 shrink-0 text-[var(--accent)]" />
+    <span className="truncate">{token.name}</span>
+    <button
+      onClick={onDetach}
+      className="w-5 h-5 shrink-0 flex items-center justify-center text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+      title="Detach token"
+    >
+      <Unlink className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+// Button opening the list of tokens of one type; renders nothing until
+// tokens of that type exist
+export const TokenMenu = ({
+  type,
+  onSelect,
+}: {
+  type: DesignTokenType;
+  onSelect: (token: DesignToken) => void;
+}) => {
+  const { tokenState } = useBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const tokens = tokenState.tokens.filter((token) => token.type === type);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as HTMLElement)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  if (tokens.length === 0) return null;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "w-7 h-7 flex items-center justify-center rounded-[var(--radius-lg)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors",
+          isOpen && "text-[var(--accent)]"
+        )}
+        title="Use a token"
+      >
+        <SwatchBook className="w-3.5 h-3.5" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-8 z-50 w-40 py-1 bg-[var(--bg-surface)] border border-[var(--border-default)] rounded-[var(--radius-lg)] shadow-lg">
+          {tokens.map((token) => (
+            <button
+              key={token.id}
+              onClick={() => {
+                onSelect(token);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center justify-between gap-2 h-7 px-2 text-xs text-[var(--text-primary)] hover:bg-[var(--bg-hover)]"
+            >
+              <span className="truncate">{token.name}</span>
+              <span className="text-[var(--text-secondary)]">
+                {token.value}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Color tokens listed under the color picker. `value` is the raw style
+// value, so the bound token can be highlighted and detached.
+export const ColorTokenSwatches = ({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) => {
+  const { tokenState } = useBuilder();
+
+  const tokens = tokenState.tokens.filter((token) => token.type === "color");
+  if (tokens.length === 0) return null;
+
+  const bound = findTokenReference(value, tokenState.tokens)?.token;
+
+  return (
+    <div className="space-y-1.5 pt-2 border-t border-[var(--border-light)]">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-[var(--text-secondary)]">Tokens</span>
+        {bound && (
+          <button
+            onClick={() => onChange(bound.value)}
+            className="flex items-center gap-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          >
+            <Unlink className="w-3 h-3" />
+            Detach
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {tokens.map((token) => (
+          <button
+            key={token.id}
+            onClick={() => onChange(getTokenReference(token))}
+            className={cn(
+              "w-5 h-5 rounded-[var(--radius-md)] border border-[var(--control-border)]",
+              bound?.id === token.id &&
+                "ring-2 ring-[var(--accent)] ring-offset-1"
+            )}
+            style={{ backgroundColor: token.value }}
+            title={token.name}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -12,6 +12,12 @@ import { Slider } from "@/components/ui/slider";
 import { ToolSelect } from "./ToolSelect";
 import { Label } from "./ToolbarAtoms";
 import { convertToNewUnit } from "@/builder/context/utils";
+import {
+  TOKEN_PROPERTY_TYPES,
+  findTokenReference,
+  getTokenReference,
+} from "@/builder/tokens/tokenCss";
+import { TokenBinding, TokenMenu } from "./TokenPicker";
 
 interface ToolInputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   step?: number;
@@ -153,6 +159,7 @@ export function ToolInput({
     isEditingText,
     setIsEditingText,
     setIsDraggingChevrons,
+    tokenState,
   } = useBuilder();
   const [localValue, setLocalValue] = useState<string | number>(
     value || customValue || "0"
@@ -195,7 +202,28 @@ export function ToolInput({
   }, [dragState.selectedIds, nodeState.nodes]);
 
   const isTextFontSize =
-    props.name === "fontSize" || (isCustomMode && label === "Size");
+    props.name === "fontSize" ||
+    (isCustomMode && (label === "Size" || unit === "fluid"));
+
+  // Spacing and radius inputs can be bound to a token instead of a number
+  const tokenType =
+    !isCustomMode && props.name ? TOKEN_PROPERTY_TYPES[props.name] : undefined;
+  const boundToken = useMemo(() => {
+    if (!tokenType || !props.name) return undefined;
+    const selectedNode = nodeState.nodes.find(
+      (n) => n.id === dragState.selectedIds[0]
+    );
+    const rawValue = (selectedNode?.style as Record<string, unknown>)?.[
+      props.name
+    ];
+    return findTokenReference(rawValue, tokenState.tokens)?.token;
+  }, [
+    tokenType,
+    props.name,
+    nodeState.nodes,
+    dragState.selectedIds,
+    tokenState.tokens,
+  ]);
 
   const unitOptions = useMemo(() => {
     const selectedNode = nodeState.nodes.find(
@@ -208,11 +236,12 @@ export function ToolInput({
       return nodeState.nodes.some((node) => node.parentId === selectedNode?.id);
     };
 
-    // For text font size, show px and vw
+    // For text font size, show px, vw and fluid
     if (isTextFontSize) {
       return [
         { label: "px", value: "px" },
         { label: "vw", value: "vw" },
+        { label: "Fluid", value: "fluid" },
       ];
     }
 
@@ -601,6 +630,14 @@ export function ToolInput({
 
     forceCleanupDrag();
 
+    // A fluid size is a min and a max rather than one value, so switching to
+    // or from it is left to the parent
+    if (isTextFontSize && (newUnit === "fluid" || localUnit === "fluid")) {
+      setLocalUnit(newUnit);
+      onUnitChange?.(newUnit);
+      return;
+    }
+
     const elements = dragState.selectedIds
       .map(
         (id) => document.querySelector(`[data-node-id="${id}"]`) as HTMLElement
@@ -994,7 +1031,27 @@ export function ToolInput({
       </div>
 
       <div className="flex gap-2">
-        <div className="relative group">
+        {boundToken && (
+          <TokenBinding
+            token={boundToken}
+            onDetach={() =>
+              setNodeStyle({ [props.name!]: boundToken.value }, undefined, true)
+            }
+          />
+        )}
+        {tokenType && !boundToken && (
+          <TokenMenu
+            type={tokenType}
+            onSelect={(token) =>
+              setNodeStyle(
+                { [props.name!]: getTokenReference(token) },
+                undefined,
+                true
+              )
+            }
+          />
+        )}
+        <div className={`relative group ${boundToken ? "hidden" : ""}`}>
           {isMixed && !isCustomMode ? (
             <input
               {...props}
@@ -1068,7 +1125,7 @@ export function ToolInput({
               </div>
             )}
         </div>
-        {showUnit && (
+        {showUnit && !boundToken && (
           <ToolSelect
             value={localUnit}
             onChange={handleUnitChange}
@@ -0,0 +1,18 @@
+import React, { useMemo } from "react";
+import { ShapeOptions, ShapeType } from "../reducer/nodeDispatcher";
+import { buildShapeSvg } from "./shapeSvg";
+import { renderSvgElement } from "./VectorGraphic";
+
+// A shape node's outline, filling its box
+export const ShapeGraphic = ({
+  type,
+  shape,
+}: {
+  type: ShapeType;
+  shape?: ShapeOptions;
+}) => {
+  const svg = useMemo(() => buildShapeSvg(type, shape), [type, shape]);
+  return <>{renderSvgElement(svg)}</>;
+};
+
+export default ShapeGraphic;
@@ -0,0 +1,43 @@
+import React, { useMemo } from "react";
+import { VectorData } from "../reducer/nodeDispatcher";
+import { buildVectorSvg, SvgElement, toJsxAttributeName } from "./vectorSvg";
+
+export const renderSvgElement = (
+  element: SvgElement,
+  key?: number
+): React.ReactNode =>
+  React.createElement(
+    element.tag,
+    {
+      key,
+      ...Object.fromEntries(
+        Object.entries(element.attrs).map(([name, value]) => [
+          toJsxAttributeName(name),
+          value,
+        ])
+      ),
+    },
+    ...(element.children || []).map((child, index) =>
+      renderSvgElement(child, index)
+    )
+  );
+
+/**
+ * The paths of a spline node, filling its box. Fill and stroke are
+ * inherited from the element around it.
+ */
+export const VectorGraphic = ({
+  vector,
+  idPrefix,
+}: {
+  vector: VectorData;
+  idPrefix: string;
+}) => {
+  const svg = useMemo(
+    () => buildVectorSvg(vector, idPrefix),
+    [vector, idPrefix]
+  );
+  return <>{renderSvgElement(svg)}</>;
+};
+
+export default VectorGraphic;
@@ -0,0 +1,146 @@
+import { Position, ShapeOptions, ShapeType } from "../reducer/nodeDispatcher";
+import { SvgElement } from "./vectorSvg";
+import { getPathData } from "./vectorPath";
+
+export const SHAPE_TYPES: ShapeType[] = [
+  "rectangle",
+  "ellipse",
+  "line",
+  "polygon",
+  "star",
+];
+
+export const SHAPE_LABELS: Record<ShapeType, string> = {
+  rectangle: "Rectangle",
+  ellipse: "Ellipse",
+  line: "Line",
+  polygon: "Polygon",
+  star: "Star",
+};
+
+export const isShapeType = (type: string): type is ShapeType =>
+  SHAPE_TYPES.includes(type as ShapeType);
+
+export const DEFAULT_SHAPE_OPTIONS: Record<ShapeType, ShapeOptions> = {
+  rectangle: { cornerRadius: 0 },
+  ellipse: {},
+  line: {},
+  polygon: { pointCount: 3 },
+  star: { pointCount: 5, innerRadius: 0.38 },
+};
+
+// Polygons and stars are drawn in a 100 x 100 box stretched over the node
+const SIZE = 100;
+
+// Corners around a circle starting at the top, then stretched to fill the
+// box, so a triangle's base sits on the bottom edge like its tip on the top
+const fitCorners = (corners: Position[]) => {
+  const xs = corners.map(({ x }) => x);
+  const ys = corners.map(({ y }) => y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  const width = Math.max(...xs) - left || 1;
+  const height = Math.max(...ys) - top || 1;
+  return corners.map(({ x, y }) => ({
+    x: ((x - left) / width) * SIZE,
+    y: ((y - top) / height) * SIZE,
+  }));
+};
+
+const getRadialCorners = (count: number, getRadius: (i: number) => number) =>
+  fitCorners(
+    Array.from({ length: count }, (_, i) => {
+      const angle = (i / count) * Math.PI * 2 - Math.PI / 2;
+      return {
+        x: Math.cos(angle) * getRadius(i),
+        y: Math.sin(angle) * getRadius(i),
+      };
+    })
+  );
+
+export const getPolygonCorners = (pointCount: number) =>
+  getRadialCorners(Math.max(3, Math.round(pointCount)), () => 1);
+
+export const getStarCorners = (pointCount: number, innerRadius: number) =>
+  getRadialCorners(Math.max(3, Math.round(pointCount)) * 2, (i) =>
+    i % 2 ? Math.min(1, Math.max(0.01, innerRadius)) : 1
+  );
+
+const stretchedPath = (corners: Position[]): SvgElement => ({
+  tag: "svg",
+  attrs: {
+    viewBox: `0 0 ${SIZE} ${SIZE}`,
+    preserveAspectRatio: "none",
+    width: "100%",
+    height: "100%",
+    overflow: "visible",
+  },
+  children: [
+    {
+      tag: "path",
+      attrs: {
+        d: getPathData({ points: corners, closed: true }),
+        "vector-effect": "non-scaling-stroke",
+      },
+    },
+  ],
+});
+
+const getShapeContent = (
+  type: ShapeType,
+  options: ShapeOptions
+): SvgElement => {
+  const { pointCount, innerRadius, cornerRadius } = {
+    ...DEFAULT_SHAPE_OPTIONS[type],
+    ...options,
+  };
+
+  switch (type) {
+    case "ellipse":
+      return {
+        tag: "ellipse",
+        attrs: { cx: "50%", cy: "50%", rx: "50%", ry: "50%" },
+      };
+    case "line":
+      return {
+        tag: "line",
+        attrs: { x1: 0, y1: "50%", x2: "100%", y2: "50%" },
+      };
+    case "polygon":
+      return stretchedPath(getPolygonCorners(pointCount ?? 3));
+    case "star":
+      return stretchedPath(
+        getStarCorners(pointCount ?? 5, innerRadius ?? 0.38)
+      );
+    case "rectangle":
+    default:
+      return {
+        tag: "rect",
+        attrs: {
+          width: "100%",
+          height: "100%",
+          ...(cornerRadius && { rx: cornerRadius }),
+        },
+      };
+  }
+};
+
+/**
+ * The <svg> of a shape node. Rectangles, ellipses and lines use percentages,
+ * so corners stay round and strokes even at any size. Like spline paths,
+ * fill and stroke are inherited from the node's style.
+ */
+export const buildShapeSvg = (
+  type: ShapeType,
+  options: ShapeOptions = {}
+): SvgElement => ({
+  tag: "svg",
+  attrs: {
+    xmlns: "http://www.w3.org/2000/svg",
+    width: "100%",
+    height: "100%",
+    overflow: "visible",
+    display: "block",
+  },
+  children: [getShapeContent(type, options)],
+});
@@ -0,0 +1,224 @@
+import {
+  BooleanOperation,
+  Position,
+  VectorData,
+  VectorPath,
+  VectorPoint,
+  VectorShape,
+} from "../reducer/nodeDispatcher";
+
+export interface VectorBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// A spline node taking part in a boolean operation, with its box in the
+// coordinates of its parent
+export interface VectorOperand {
+  vector: VectorData;
+  rect: VectorBounds;
+}
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: "Union",
+  subtract: "Subtract",
+  intersect: "Intersect",
+  exclude: "Exclude",
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatPoint = ({ x, y }: Position) => `${round(x)} ${round(y)}`;
+
+// A straight line unless either end has a handle towards the other
+const getSegment = (from: VectorPoint, to: VectorPoint) =>
+  from.handleOut || to.handleIn
+    ? `C ${formatPoint(from.handleOut || from)} ${formatPoint(
+        to.handleIn || to
+      )} ${formatPoint(to)}`
+    : `L ${formatPoint(to)}`;
+
+/**
+ * SVG path data of a path, e.g. "M 0 0 C 10 0 20 10 20 20 Z"
+ */
+export const getPathData = ({ points, closed }: VectorPath) => {
+  if (!points.length) return "";
+
+  const segments = points
+    .slice(1)
+    .map((point, i) => getSegment(points[i], point));
+  if (closed && points.length > 2) {
+    // Z draws the closing line itself; only a curve back needs a segment
+    const last = points[points.length - 1];
+    if (last.handleOut || points[0].handleIn) {
+      segments.push(getSegment(last, points[0]));
+    }
+    segments.push("Z");
+  }
+  return [`M ${formatPoint(points[0])}`, ...segments].join(" ");
+};
+
+const mapPoint = (
+  point: VectorPoint,
+  map: (position: Position) => Position
+): VectorPoint => ({
+  ...map(point),
+  ...(point.handleIn && { handleIn: map(point.handleIn) }),
+  ...(point.handleOut && { handleOut: map(point.handleOut) }),
+});
+
+const mapShape = (
+  shape: VectorShape,
+  map: (position: Position) => Position
+): VectorShape => ({
+  ...shape,
+  paths: shape.paths.map((path) => ({
+    ...path,
+    points: path.points.map((point) => mapPoint(point, map)),
+  })),
+  ...(shape.children && {
+    children: shape.children.map((child) => mapShape(child, map)),
+  }),
+});
+
+/**
+ * Every path of a vector, boolean groups included, in drawing order
+ */
+export const getVectorPaths = (vector: VectorData): VectorPath[] => {
+  const collect = (shapes: VectorShape[]): VectorPath[] =>
+    shapes.flatMap((shape) =>
+      shape.children ? collect(shape.children) : shape.paths
+    );
+  return collect(vector.shapes);
+};
+
+/**
+ * Replace paths by their index in getVectorPaths
+ */
+export const mapVectorPaths = (
+  vector: VectorData,
+  map: (path: VectorPath, index: number) => VectorPath
+): VectorData => {
+  let index = 0;
+  const mapShapes = (shapes: VectorShape[]): VectorShape[] =>
+    shapes.map((shape) =>
+      shape.children
+        ? { ...shape, children: mapShapes(shape.children) }
+        : { ...shape, paths: shape.paths.map((path) => map(path, index++)) }
+    );
+  return { ...vector, shapes: mapShapes(vector.shapes) };
+};
+
+// The box around every anchor and handle. A bezier never leaves the box of
+// its control points, so this always holds the whole curve.
+export const getPointsBounds = (paths: VectorPath[]): VectorBounds => {
+  const positions = paths.flatMap((path) =>
+    path.points.flatMap((point) =>
+      [point, point.handleIn, point.handleOut].filter(
+        (position): position is Position => !!position
+      )
+    )
+  );
+  if (!positions.length) return { left: 0, top: 0, width: 0, height: 0 };
+
+  const left = Math.min(...positions.map((position) => position.x));
+  const top = Math.min(...positions.map((position) => position.y));
+  return {
+    left,
+    top,
+    width: Math.max(...positions.map((position) => position.x)) - left,
+    height: Math.max(...positions.map((position) => position.y)) - top,
+  };
+};
+
+/**
+ * Turn paths drawn in canvas coordinates into a vector starting at 0,0,
+ * along with where its box sits on the canvas
+ */
+export const createVector = (paths: VectorPath[]) => {
+  const bounds = getPointsBounds(paths);
+  const shape = mapShape({ paths }, ({ x, y }) => ({
+    x: x - bounds.left,
+    y: y - bounds.top,
+  }));
+
+  return {
+    vector: {
+      width: Math.max(1, bounds.width),
+      height: Math.max(1, bounds.height),
+      shapes: [shape],
+    },
+    bounds,
+  };
+};
+
+/**
+ * Shrink or grow the box of an edited vector to fit its points again.
+ * `offset` is how far the box moved, in vector units.
+ */
+export const fitVector = (vector: VectorData) => {
+  const bounds = getPointsBounds(getVectorPaths(vector));
+
+  return {
+    vector: {
+      width: Math.max(1, bounds.width),
+      height: Math.max(1, bounds.height),
+      shapes: vector.shapes.map((shape) =>
+        mapShape(shape, ({ x, y }) => ({
+          x: x - bounds.left,
+          y: y - bounds.top,
+        }))
+      ),
+    },
+    offset: { x: bounds.left, y: bounds.top },
+  };
+};
+
+/**
+ * Combine spline nodes into one vector. Each operand becomes a shape (or a
+ * boolean group, if it already was one) combined with the ones before it.
+ */
+export const combineVectors = (
+  operands: VectorOperand[],
+  operation: BooleanOperation
+) => {
+  const left = Math.min(...operands.map(({ rect }) => rect.left));
+  const top = Math.min(...operands.map(({ rect }) => rect.top));
+  const right = Math.max(...operands.map(({ rect }) => rect.left + rect.width));
+  const bottom = Math.max(
+    ...operands.map(({ rect }) => rect.top + rect.height)
+  );
+
+  const shapes = operands.map(({ vector, rect }, index): VectorShape => {
+    // Nodes may have been resized since their paths were drawn
+    const scaleX = rect.width / vector.width;
+    const scaleY = rect.height / vector.height;
+    const shapes = vector.shapes.map((shape) =>
+      mapShape(shape, ({ x, y }) => ({
+        x: rect.left - left + x * scaleX,
+        y: rect.top - top + y * scaleY,
+      }))
+    );
+    const shape: VectorShape =
+      shapes.length === 1
+        ? {
+            paths: shapes[0].paths,
+            ...(shapes[0].children && { children: shapes[0].children }),
+          }
+        : { paths: [], children: shapes };
+
+    // The first shape is what the others are combined with
+    return index === 0 ? shape : { ...shape, operation };
+  });
+
+  return {
+    vector: {
+      width: Math.max(1, right - left),
+      height: Math.max(1, bottom - top),
+      shapes,
+    },
+    bounds: { left, top, width: right - left, height: bottom - top },
+  };
+};
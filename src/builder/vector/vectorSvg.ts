@@ -0,0 +1,214 @@
+import { VectorData, VectorShape } from "../reducer/nodeDispatcher";
+import { getPathData } from "./vectorPath";
+
+// An SVG element, rendered by React on the canvas and in preview and
+// written out as markup or JSX by the exporters
+export interface SvgElement {
+  tag: string;
+  attrs: Record<string, string | number>;
+  children?: SvgElement[];
+}
+
+// Masks reach this far past the box on every side, so strokes and handles
+// outside it are not cut off
+const MASK_MARGIN = 1;
+
+interface BuildContext {
+  idPrefix: string;
+  defs: SvgElement[];
+  vector: VectorData;
+}
+
+const addMask = (
+  ctx: BuildContext,
+  children: SvgElement[],
+  background?: string
+) => {
+  const id = `${ctx.idPrefix}-mask-${ctx.defs.length}`;
+  const { width, height } = ctx.vector;
+  const area = {
+    x: -width * MASK_MARGIN,
+    y: -height * MASK_MARGIN,
+    width: width * (1 + 2 * MASK_MARGIN),
+    height: height * (1 + 2 * MASK_MARGIN),
+  };
+
+  ctx.defs.push({
+    tag: "mask",
+    attrs: { id, maskUnits: "userSpaceOnUse", ...area },
+    children: [
+      ...(background
+        ? [{ tag: "rect", attrs: { ...area, fill: background } }]
+        : []),
+      ...children,
+    ],
+  });
+  return `url(#${id})`;
+};
+
+// Fill and stroke come from the node's style through CSS inheritance. In a
+// mask the shape is painted plain white or black instead.
+const renderShape = (
+  shape: VectorShape,
+  ctx: BuildContext,
+  paint?: string
+): SvgElement[] => {
+  if (shape.children) return renderShapes(shape.children, ctx, paint);
+
+  const d = shape.paths.map(getPathData).filter(Boolean).join(" ");
+  if (!d) return [];
+  return [
+    {
+      tag: "path",
+      attrs: paint
+        ? { d, fill: paint, stroke: "none" }
+        : { d, "vector-effect": "non-scaling-stroke" },
+    },
+  ];
+};
+
+const group = (children: SvgElement[], mask: string): SvgElement => ({
+  tag: "g",
+  attrs: { mask },
+  children,
+});
+
+// The same drawing with only its fill or only its stroke
+const withPaint = (
+  elements: SvgElement[],
+  attrs: Record<string, string>
+): SvgElement[] =>
+  elements.map((element) =>
+    element.tag === "path"
+      ? { ...element, attrs: { ...element.attrs, ...attrs } }
+      : element.children
+        ? { ...element, children: withPaint(element.children, attrs) }
+        : element
+  );
+
+/**
+ * Draw shapes combined in order. Every operation is a mask over what was
+ * drawn so far, so shapes keep their curves and strokes.
+ */
+const renderShapes = (
+  shapes: VectorShape[],
+  ctx: BuildContext,
+  paint?: string
+): SvgElement[] =>
+  shapes.reduce<SvgElement[]>((result, shape, index) => {
+    if (index === 0) return renderShape(shape, ctx, paint);
+
+    switch (shape.operation) {
+      case "subtract":
+        return [
+          group(
+            result,
+            addMask(ctx, renderShape(shape, ctx, "black"), "white")
+          ),
+        ];
+      case "intersect":
+        return [group(result, addMask(ctx, renderShape(shape, ctx, "white")))];
+      case "exclude":
+        return [
+          group(
+            result,
+            addMask(ctx, renderShape(shape, ctx, "black"), "white")
+          ),
+          group(
+            renderShape(shape, ctx, paint),
+            addMask(
+              ctx,
+              renderShapes(shapes.slice(0, index), ctx, "black"),
+              "white"
+            )
+          ),
+        ];
+      case "union":
+      default:
+        // Inside masks shapes are plain paint and can simply overlap
+        if (paint) return [...result, ...renderShape(shape, ctx, paint)];
+
+        // One outline around both: each shape's stroke only shows outside
+        // the other, and the fills do not overlap
+        return [
+          ...withPaint(result, { stroke: "none" }),
+          group(
+            withPaint(result, { fill: "none" }),
+            addMask(ctx, renderShape(shape, ctx, "black"), "white")
+          ),
+          group(
+            renderShape(shape, ctx),
+            addMask(
+              ctx,
+              renderShapes(shapes.slice(0, index), ctx, "black"),
+              "white"
+            )
+          ),
+        ];
+    }
+  }, []);
+
+/**
+ * The <svg> of a spline node. `idPrefix` keeps mask ids unique when several
+ * nodes are on the same page.
+ */
+export const buildVectorSvg = (
+  vector: VectorData,
+  idPrefix: string
+): SvgElement => {
+  const ctx: BuildContext = { idPrefix, defs: [], vector };
+  const content = renderShapes(vector.shapes, ctx);
+
+  return {
+    tag: "svg",
+    attrs: {
+      xmlns: "http://www.w3.org/2000/svg",
+      viewBox: `0 0 ${vector.width} ${vector.height}`,
+      preserveAspectRatio: "none",
+      width: "100%",
+      height: "100%",
+      overflow: "visible",
+      display: "block",
+    },
+    children: [
+      ...(ctx.defs.length
+        ? [{ tag: "defs", attrs: {}, children: ctx.defs }]
+        : []),
+      ...content,
+    ],
+  };
+};
+
+// "vector-effect" -> "vectorEffect"
+export const toJsxAttributeName = (name: string) =>
+  name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const escapeAttribute = (value: string | number) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+
+const formatAttributes = (
+  attrs: SvgElement["attrs"],
+  formatName: (name: string) => string = (name) => name
+) =>
+  Object.entries(attrs)
+    .map(([name, value]) => ` ${formatName(name)}="${escapeAttribute(value)}"`)
+    .join("");
+
+const serialize = (
+  element: SvgElement,
+  formatName?: (name: string) => string
+): string => {
+  const attrs = formatAttributes(element.attrs, formatName);
+  if (!element.children?.length) return `<${element.tag}${attrs} />`;
+  return `<${element.tag}${attrs}>${element.children
+    .map((child) => serialize(child, formatName))
+    .join("")}</${element.tag}>`;
+};
+
+export const svgToMarkup = (element: SvgElement) => serialize(element);
+
+export const svgToJsx = (element: SvgElement) =>
+  serialize(element, toJsxAttributeName);
@@ -0,0 +1,166 @@
+import { Node } from "../reducer/nodeDispatcher";
+import {
+  cleanNodes,
+  getPagesWithActiveNodes,
+  ProjectPage,
+  ProjectState,
+} from "../persistence/projectDocument";
+import { VersionSnapshot } from "../reducer/versionDispatcher";
+
+export type VersionChangeType = "added" | "removed" | "restyled";
+
+export interface VersionChange {
+  type: VersionChangeType;
+  pageId: string;
+  pageName: string;
+  // The node's sharedId, or its id if it has none
+  key: string;
+  name: string;
+  // Every node (one per viewport) the change applies to, on the newer side
+  // for additions and restyles and on the older side for removals
+  nodeIds: string[];
+  // Style properties that differ, for restyled nodes
+  styleKeys: string[];
+}
+
+// nodeId -> change, for the nodes on the canvas that should be highlighted
+export type VersionHighlights = Record<string, VersionChangeType>;
+
+export const createVersionSnapshot = ({
+  nodeState,
+  pageState,
+  cmsState,
+  tokenState,
+}: ProjectState): VersionSnapshot => ({
+  pages: getPagesWithActiveNodes(pageState, nodeState.nodes).map((page) => ({
+    ...page,
+    nodes: cleanNodes(page.nodes),
+  })),
+  activePageId: pageState.activePageId,
+  collections: cmsState.collections,
+  tokens: tokenState.tokens,
+});
+
+const getNodeKey = (node: Node) => node.sharedId || node.id;
+
+const getNodeName = (node: Node) =>
+  node.customName || node.viewportName || node.type;
+
+// Nodes of a page grouped by sharedId, so the copies of a node in each
+// viewport count as one
+const groupNodes = (nodes: Node[]) => {
+  const groups = new Map<string, Node[]>();
+  nodes.forEach((node) => {
+    const key = getNodeKey(node);
+    groups.set(key, [...(groups.get(key) || []), node]);
+  });
+  return groups;
+};
+
+const getStyleChanges = (before: Node[], after: Node[]) => {
+  const keys = new Set<string>();
+  after.forEach((node) => {
+    const previous = before.find((n) => n.id === node.id) || before[0];
+    const prevStyle = previous.style as Record<string, unknown>;
+    const nextStyle = node.style as Record<string, unknown>;
+    new Set([...Object.keys(prevStyle), ...Object.keys(nextStyle)]).forEach(
+      (key) => {
+        if (prevStyle[key] !== nextStyle[key]) keys.add(key);
+      }
+    );
+  });
+  return Array.from(keys);
+};
+
+const diffPage = (
+  pageId: string,
+  pageName: string,
+  beforeNodes: Node[],
+  afterNodes: Node[]
+): VersionChange[] => {
+  const before = groupNodes(beforeNodes);
+  const after = groupNodes(afterNodes);
+  const changes: VersionChange[] = [];
+
+  const toChange = (
+    type: VersionChangeType,
+    key: string,
+    nodes: Node[],
+    styleKeys: string[] = []
+  ): VersionChange => ({
+    type,
+    pageId,
+    pageName,
+    key,
+    name: getNodeName(nodes[0]),
+    nodeIds: nodes.map((node) => node.id),
+    styleKeys,
+  });
+
+  after.forEach((nodes, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      changes.push(toChange("added", key, nodes));
+      return;
+    }
+    const styleKeys = getStyleChanges(previous, nodes);
+    if (styleKeys.length) {
+      changes.push(toChange("restyled", key, nodes, styleKeys));
+    }
+  });
+  before.forEach((nodes, key) => {
+    if (!after.has(key)) changes.push(toChange("removed", key, nodes));
+  });
+
+  return changes;
+};
+
+/**
+ * What changed between two versions of the project, page by page. A page
+ * only present on one side has all of its nodes added or removed.
+ */
+export const diffVersions = (
+  before: ProjectPage[],
+  after: ProjectPage[]
+): VersionChange[] => {
+  const pageIds = Array.from(
+    new Set([...after, ...before].map((page) => page.id))
+  );
+
+  return pageIds.flatMap((pageId) => {
+    const beforePage = before.find((page) => page.id === pageId);
+    const afterPage = after.find((page) => page.id === pageId);
+    return diffPage(
+      pageId,
+      (afterPage || beforePage)!.name,
+      beforePage?.nodes || [],
+      afterPage?.nodes || []
+    );
+  });
+};
+
+/**
+ * The changes on one page, keyed by the ids of the canvas nodes they apply
+ * to. Nodes are matched by sharedId as well, so a change still shows on a
+ * node that was re-created in another viewport.
+ */
+export const getVersionHighlights = (
+  changes: VersionChange[],
+  pageId: string,
+  canvasNodes: Node[]
+): VersionHighlights => {
+  const byKey = new Map(
+    changes
+      .filter((change) => change.pageId === pageId && change.type !== "removed")
+      .map((change) => [change.key, change])
+  );
+
+  const highlights: VersionHighlights = {};
+  canvasNodes.forEach((node) => {
+    const change =
+      byKey.get(getNodeKey(node)) ||
+      Array.from(byKey.values()).find((c) => c.nodeIds.includes(node.id));
+    if (change) highlights[node.id] = change.type;
+  });
+  return highlights;
+};
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useMemo, useState, useRef } from "react";
 import InterfaceToolbar from "../toolbars/leftToolbar";
 import { RenderNodes } from "../../registry/renderNodes";
 import { useBuilder } from "@/builder/context/builderState";
@@ -14,11 +14,17 @@ import { ArrowConnectors } from "../../context/canvasHelpers/ArrowConnectors";
 import { ContextMenu } from "@/builder/context/canvasHelpers/ContextMenu";
 import Header from "../header";
 import SelectionBox from "@/builder/context/canvasHelpers/SelectionBox";
+import RemotePresence from "@/builder/context/canvasHelpers/RemotePresence";
+import LayoutGridOverlay from "@/builder/context/canvasHelpers/LayoutGridOverlay";
+import CommentPins from "@/builder/context/canvasHelpers/CommentPins";
+import VectorEditor from "@/builder/context/canvasHelpers/VectorEditor";
 import { useKeyboardDrag } from "@/builder/context/hooks/useKeyboardDrag";
 import FrameCreator from "../toolbars/bottomToolbar/FrameCreator";
 import { useImageDrop } from "@/builder/context/hooks/useImageDrop";
 import LeftMenu from "../toolbars/leftToolbar/leftMenu";
 import TextCreator from "../toolbars/bottomToolbar/TextCreator";
+import PenCreator from "../toolbars/bottomToolbar/PenCreator";
+import ShapeCreator from "../toolbars/bottomToolbar/ShapeCreator";
 import "react-tooltip/dist/react-tooltip.css";
 import BottomToolbar from "../toolbars/bottomToolbar";
 import { useCursorManager } from "../../context/hooks/useCursorManager";
@@ -32,6 +38,16 @@ import EditViewportModal from "@/builder/context/canvasHelpers/EditViewportModal
 import ViewportContextMenu from "@/builder/context/canvasHelpers/ViewportContextMenu";
 import AddVariantsUI from "@/builder/context/canvasHelpers/AddVariantUI";
 import PreviewPlay from "../preview/preview-play";
+import useDynamicFontLoader from "../preview/hooks/useDynamicFont";
+import {
+  generateTokenCSS,
+  getTokenFontFamilies,
+} from "@/builder/tokens/tokenCss";
+import { generateFontFaceCSS } from "@/builder/fonts/fontCss";
+import { generateTextContentCSS } from "../preview/utils/textUtils";
+
+// Rich text on the canvas follows the same rules as the preview and exports
+const textContentCSS = generateTextContentCSS(".tiptap-editor .ProseMirror");
 
 const Canvas = () => {
   const [isLoading, setIsLoading] = useState(true);
@@ -55,6 +71,9 @@ const Canvas = () => {
     nodeState,
     interfaceState,
     isEditingText,
+    isProjectLoaded,
+    tokenState,
+    fontState,
   } = useBuilder();
 
   // Use the cursor manager hook
@@ -62,6 +81,21 @@ const Canvas = () => {
 
   useMoveCanvas();
 
+  // Nodes bound to tokens read them as CSS custom properties
+  const tokenCSS = useMemo(
+    () => generateTokenCSS(tokenState.tokens),
+    [tokenState.tokens]
+  );
+  const tokenFonts = useMemo(
+    () => getTokenFontFamilies(tokenState.tokens),
+    [tokenState.tokens]
+  );
+  const fontFaceCSS = useMemo(
+    () => generateFontFaceCSS(fontState.fonts),
+    [fontState.fonts]
+  );
+  useDynamicFontLoader(nodeState.nodes, tokenFonts, fontState);
+
   // With this approach:
   useKeyboardDrag({ isEnabled: !isEditingText });
 
@@ -198,9 +232,12 @@ const Canvas = () => {
 
   return (
     <>
-      <LoadingScreen isLoading={isLoading} />
+      <LoadingScreen isLoading={isLoading || !isProjectLoaded} />
 
       <Header />
+      <style>{tokenCSS}</style>
+      <style>{fontFaceCSS}</style>
+      <style>{textContentCSS}</style>
       <div
         className={`fixed inset-0 pt-12 flex overflow-hidden bg-[var(--bg-canvas)] ${
           interfaceState.isPreviewOpen && ""
@@ -230,6 +267,7 @@ const Canvas = () => {
               onDrop={handleDrop}
               onContextMenu={handleContextMenu}
             >
+              <LayoutGridOverlay />
               <SnapGuides />
               {/* <DebugSnapGrid /> */}
               <StyleUpdateHelper />
@@ -238,7 +276,12 @@ const Canvas = () => {
               )}
               {isAnyResize && <FrameCreator />}
               {isAnyResize && <TextCreator />}
+              {isAnyResize && <ShapeCreator />}
+              <PenCreator />
+              <VectorEditor />
               {!isMovingCanvas && <ArrowConnectors />}
+              <RemotePresence />
+              <CommentPins />
               <div
                 ref={contentRef}
                 className="relative"
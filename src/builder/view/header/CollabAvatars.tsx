@@ -0,0 +1,49 @@
+import React from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { getInitials } from "@/builder/collab/presence";
+
+const MAX_AVATARS = 4;
+
+// Everyone else on the page; clicking an avatar selects what they have selected
+const CollabAvatars = () => {
+  const { collabStatus, collabPeers, dragDisp } = useBuilder();
+
+  if (collabStatus === "off") return null;
+
+  const shown = collabPeers.slice(0, MAX_AVATARS);
+  const hiddenCount = collabPeers.length - shown.length;
+
+  return (
+    <div className="flex items-center">
+      {collabStatus !== "connected" && (
+        <span className="mr-2 text-xs text-[var(--text-secondary)]">
+          {collabStatus === "connecting" ? "Connecting…" : "Offline"}
+        </span>
+      )}
+      <div className="flex items-center -space-x-1.5">
+        {shown.map((peer) => (
+          <button
+            key={peer.clientId}
+            onClick={() =>
+              peer.selectedIds.length &&
+              dragDisp.setSelectedIds(peer.selectedIds)
+            }
+            className="w-7 h-7 flex items-center justify-center rounded-full border-2 border-[var(--bg-surface)] text-[10px] font-semibold text-white"
+            style={{ backgroundColor: peer.user.color }}
+            data-tooltip-id="header-tooltip"
+            data-tooltip-content={peer.user.name}
+          >
+            {getInitials(peer.user.name)}
+          </button>
+        ))}
+        {hiddenCount > 0 && (
+          <div className="w-7 h-7 flex items-center justify-center rounded-full border-2 border-[var(--bg-surface)] bg-[var(--bg-hover)] text-[10px] text-[var(--text-secondary)]">
+            +{hiddenCount}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollabAvatars;
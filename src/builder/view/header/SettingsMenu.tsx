@@ -0,0 +1,57 @@
+import React, { useState } from "react";
+import { Settings } from "lucide-react";
+import Button from "@/components/ui/button";
+import {
+  DropdownContent,
+  DropdownRoot,
+  DropdownTrigger,
+} from "@/components/ui/dropdown";
+import { useBuilder } from "@/builder/context/builderState";
+import { ToolbarSlider } from "@/builder/tools/_components/ToolbarSlider";
+import { Label } from "@/builder/tools/_components/ToolbarAtoms";
+
+const MAX_SNAP_THRESHOLD = 24;
+
+// Editor preferences, opened from the gear in the header
+const SettingsMenu = () => {
+  const { interfaceState, interfaceDisp } = useBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <DropdownRoot>
+      <DropdownTrigger onClick={() => setIsOpen(!isOpen)}>
+        <Button
+          leftIcon={<Settings size={20} />}
+          size="sm"
+          variant="primary"
+          className={isOpen ? "bg-[var(--accent)]" : ""}
+          data-tooltip-id="header-tooltip"
+          data-tooltip-content="Settings"
+        ></Button>
+      </DropdownTrigger>
+
+      <DropdownContent
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        align="right"
+        className="top-10 bottom-auto px-3 space-y-2"
+      >
+        <Label>Snapping</Label>
+        <ToolbarSlider
+          label="Threshold"
+          unit="px"
+          value={interfaceState.snapThreshold}
+          min={0}
+          max={MAX_SNAP_THRESHOLD}
+          onChange={(value) => interfaceDisp.setSnapThreshold(value)}
+        />
+        <p className="text-xs text-[var(--text-secondary)]">
+          How close a dragged element has to get to an edge, gap or grid line
+          before it snaps. 0 turns snapping off.
+        </p>
+      </DropdownContent>
+    </DropdownRoot>
+  );
+};
+
+export default SettingsMenu;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from "react";
-import { Play, Settings } from "lucide-react";
+import { Play } from "lucide-react";
 import Button from "@/components/ui/button";
 import LineSeparator from "@/components/ui/line-separator";
 import { useBuilder } from "@/builder/context/builderState";
@@ -8,6 +8,11 @@ import { Tooltip } from "react-tooltip";
 import { ToolbarSlider } from "@/builder/tools/_components/ToolbarSlider";
 
 import { ChevronDown } from "lucide-react";
+import { buildStaticSite } from "@/builder/export/staticSite";
+import { getPagesWithActiveNodes } from "@/builder/persistence/projectDocument";
+import { downloadZip } from "@/builder/export/download";
+import CollabAvatars from "./CollabAvatars";
+import SettingsMenu from "./SettingsMenu";
 
 interface SimplifiedToolSelectProps {
   value: string;
@@ -45,6 +50,14 @@ export const SimplifiedToolSelect: React.FC<SimplifiedToolSelectProps> = ({
   );
 };
 
+const SAVE_STATUS_LABELS = {
+  loading: "Loading…",
+  loadError: "Couldn't load",
+  saving: "Saving…",
+  saved: "Saved",
+  error: "Couldn't save",
+};
+
 const Header = () => {
   const {
     interfaceState,
@@ -52,12 +65,20 @@ const Header = () => {
     nodeState,
     nodeDisp,
     setIsEditingText,
+    saveStatus,
+    retryProjectLoad,
+    projectId,
+    pageState,
+    cmsState,
+    tokenState,
+    fontState,
   } = useBuilder();
   const [inputValue, setInputValue] = useState(
     interfaceState.previewWidth?.toString() || "1440"
   );
   const [maxWidth, setMaxWidth] = useState(2560);
   const [selectedViewport, setSelectedViewport] = useState("custom");
+  const [isExporting, setIsExporting] = useState(false);
 
   // Get viewports from nodes
   const viewportOptions = useMemo(() => {
@@ -151,6 +172,25 @@ const Header = () => {
     }
   };
 
+  // Export the current project as a zip of static HTML/CSS
+  const handleExport = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      const files = buildStaticSite(
+        getPagesWithActiveNodes(pageState, nodeState.nodes),
+        cmsState.collections,
+        tokenState.tokens,
+        fontState
+      );
+      await downloadZip(files, `${projectId}-site`);
+    } catch (error) {
+      console.error("Failed to export project:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   return (
     <div className="h-[52px] header bg-[var(--bg-surface)] border-b border-[var(--border-light)] fixed w-full z-[9999] flex items-center justify-between px-3">
       <div className="flex items-center gap-4 px-2">
@@ -159,6 +199,17 @@ const Header = () => {
         <LineSeparator orientation="vertical" height="26px" />
 
         <p className="text-sm font-bold">onedriverexpress</p>
+
+        {saveStatus !== "idle" && (
+          <span className="text-xs text-[var(--text-secondary)]">
+            {SAVE_STATUS_LABELS[saveStatus]}
+          </span>
+        )}
+        {saveStatus === "loadError" && (
+          <Button size="xs" variant="secondary" onClick={retryProjectLoad}>
+            Retry
+          </Button>
+        )}
       </div>
 
       {/* Preview width control in the middle */}
@@ -208,15 +259,24 @@ const Header = () => {
             onChange={handleViewportChange}
             className="ml-2"
           />
+
+          {pageState.pages.length > 1 && (
+            <SimplifiedToolSelect
+              value={interfaceState.previewPageSlug || ""}
+              options={pageState.pages.map((page) => ({
+                label: page.name,
+                value: page.slug,
+              }))}
+              onChange={(slug) => interfaceDisp.setPreviewPage(slug)}
+            />
+          )}
         </div>
       )}
 
       <div className="flex items-center gap-3">
-        <Button
-          leftIcon={<Settings size={20} />}
-          size="sm"
-          variant="primary"
-        ></Button>
+        <CollabAvatars />
+
+        <SettingsMenu />
 
         <Button
           leftIcon={<Play size={20} />}
@@ -231,6 +291,8 @@ const Header = () => {
         <Button
           size="sm"
           variant="secondary"
+          onClick={handleExport}
+          isLoading={isExporting}
           data-tooltip-id="header-tooltip"
           data-tooltip-content="Export your project"
         >
@@ -0,0 +1,65 @@
+import React, { createContext, ReactNode, useContext, useMemo } from "react";
+import { CmsCollection, CmsItem } from "@/builder/reducer/cmsDispatcher";
+import { bindResponsiveNode } from "@/builder/cms/collectionData";
+import { ResponsiveNode } from "./types";
+
+type PreviewCmsContextType = {
+  collections: CmsCollection[];
+  // Set inside a frame bound to a collection, once per repeated item
+  collection?: CmsCollection;
+  item?: CmsItem;
+};
+
+const PreviewCmsContext = createContext<PreviewCmsContextType>({
+  collections: [],
+});
+
+export const PreviewCmsProvider = ({
+  collections = [],
+  children,
+}: {
+  collections?: CmsCollection[];
+  children: ReactNode;
+}) => {
+  const value = useMemo(() => ({ collections }), [collections]);
+
+  return (
+    <PreviewCmsContext.Provider value={value}>
+      {children}
+    </PreviewCmsContext.Provider>
+  );
+};
+
+export const CmsItemProvider = ({
+  collection,
+  item,
+  children,
+}: {
+  collection: CmsCollection;
+  item: CmsItem;
+  children: ReactNode;
+}) => {
+  const { collections } = useContext(PreviewCmsContext);
+  const value = useMemo(
+    () => ({ collections, collection, item }),
+    [collections, collection, item]
+  );
+
+  return (
+    <PreviewCmsContext.Provider value={value}>
+      {children}
+    </PreviewCmsContext.Provider>
+  );
+};
+
+export const usePreviewCms = () => useContext(PreviewCmsContext);
+
+// The node with the current item's value filled into its bound field
+export const useBoundNode = (node: ResponsiveNode | undefined) => {
+  const { collection, item } = usePreviewCms();
+
+  return useMemo(
+    () => node && bindResponsiveNode(node, collection, item),
+    [node, collection, item]
+  );
+};
@@ -0,0 +1,55 @@
+import React, { createContext, useCallback, useContext } from "react";
+import { NodeLink } from "@/builder/reducer/nodeDispatcher";
+import { usePreview } from "../preview-context";
+import { getPageHref } from "../utils/pageNavigation";
+import { getLinkAttributes } from "../utils/linkUtils";
+
+// True below a node that renders as a link; anchors cannot nest
+const LinkAncestorContext = createContext(false);
+
+export const usePreviewLinks = () => {
+  const { pages } = usePreview();
+  const insideLink = useContext(LinkAncestorContext);
+
+  const resolvePage = useCallback(
+    (pageId: string) => {
+      const page = pages.find((p) => p.id === pageId);
+      return page ? getPageHref(page.slug) : null;
+    },
+    [pages]
+  );
+
+  return { insideLink, resolvePage };
+};
+
+/**
+ * Props of the <a> a node renders as, or null when it is not linked or
+ * sits inside a linked node already.
+ */
+export const useNodeLinkProps = (node?: { link?: NodeLink } | null) => {
+  const { insideLink, resolvePage } = usePreviewLinks();
+  return insideLink ? null : getLinkAttributes(node?.link, resolvePage);
+};
+
+export const LinkAncestor = ({ children }: { children: React.ReactNode }) => (
+  <LinkAncestorContext.Provider value={true}>
+    {children}
+  </LinkAncestorContext.Provider>
+);
+
+// Images and videos are replaced elements, so their link wraps them with
+// display: contents instead and stays out of the layout
+export const NodeLinkWrapper = ({
+  linkProps,
+  children,
+}: {
+  linkProps: ReturnType<typeof useNodeLinkProps>;
+  children: React.ReactNode;
+}) =>
+  linkProps ? (
+    <a {...linkProps} className="node-link">
+      {children}
+    </a>
+  ) : (
+    <>{children}</>
+  );
@@ -3,12 +3,19 @@ import { BackgroundWrapper } from "../BackgroundWrapper";
 import { NodeRenderer } from ".";
 import { usePreview } from "../../preview-context";
 import { findNodeById } from "../../utils/nodeUtils";
+import { CmsItemProvider, usePreviewCms } from "../../cms-context";
 import {
   generateResponsiveCSS,
   generateBackgroundImageCSS,
   generateMediaQueryContent,
   debugResponsiveNode,
 } from "../../utils/cssUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../../utils/stateUtils";
+import { LinkAncestor, useNodeLinkProps, usePreviewLinks } from "../NodeLink";
+import { prepareTextLinks } from "../../utils/linkUtils";
 
 type FrameNodeProps = {
   nodeId: string;
@@ -16,12 +23,15 @@ type FrameNodeProps = {
 
 export const FrameNode: React.FC<FrameNodeProps> = ({ nodeId }) => {
   const { nodeTree, viewportBreakpoints } = usePreview();
+  const { collections } = usePreviewCms();
 
   // Find this node from the context
   const node = useMemo(
     () => findNodeById(nodeTree, nodeId),
     [nodeTree, nodeId]
   );
+  const linkProps = useNodeLinkProps(node);
+  const { insideLink, resolvePage } = usePreviewLinks();
 
   useEffect(() => {
     if (node) {
@@ -44,6 +54,11 @@ export const FrameNode: React.FC<FrameNodeProps> = ({ nodeId }) => {
     node,
     viewportBreakpoints
   );
+  const stateCSS = generateInteractionStateCSS(node);
+  const Tag = linkProps ? "a" : "div";
+  const LinkScope = linkProps ? LinkAncestor : React.Fragment;
+  const renderText = (html: string) =>
+    prepareTextLinks(html, resolvePage, insideLink || !!linkProps);
 
   // Check if this node has children to render
   const hasChildren = node.children && node.children.length > 0;
@@ -55,15 +70,23 @@ export const FrameNode: React.FC<FrameNodeProps> = ({ nodeId }) => {
     hasChildren && node.children.some((child) => child.type === "text");
   const shouldRenderOwnText = hasTextContent && !hasTextChild;
 
+  // A frame bound to a collection repeats its children once per item
+  const collection = node.cmsCollectionId
+    ? collections.find((c) => c.id === node.cmsCollectionId)
+    : undefined;
+
   return (
     <React.Fragment>
       {responsiveCSS && <style>{responsiveCSS}</style>}
       {backgroundImageCSS && <style>{backgroundImageCSS}</style>}
       {mediaQueryContent && <style>{mediaQueryContent}</style>}
+      {stateCSS && <style>{stateCSS}</style>}
 
-      <div
+      <Tag
         id={`node-${nodeId}`}
         data-node-id={nodeId}
+        {...getInteractionAttributes(node)}
+        {...linkProps}
         data-node-type={node.type}
         data-has-children={hasChildren ? "true" : undefined}
         className={`node node-${node.type}`}
@@ -84,7 +107,7 @@ export const FrameNode: React.FC<FrameNodeProps> = ({ nodeId }) => {
         {shouldRenderOwnText && (
           <div
             id={`node-${nodeId}-content`}
-            dangerouslySetInnerHTML={{ __html: text }}
+            dangerouslySetInnerHTML={{ __html: renderText(text!) }}
           />
         )}
 
@@ -97,16 +120,35 @@ export const FrameNode: React.FC<FrameNodeProps> = ({ nodeId }) => {
                 key={`content-${viewport}`}
                 id={`node-${nodeId}-content-${viewport}`}
                 style={{ display: "none" }}
-                dangerouslySetInnerHTML={{ __html: styles.text || "" }}
+                dangerouslySetInnerHTML={{
+                  __html: renderText(styles.text || ""),
+                }}
               />
             ))}
 
         {/* Render children */}
-        {hasChildren &&
-          node.children.map((child) => (
-            <NodeRenderer key={child.id} nodeId={child.id} />
-          ))}
-      </div>
+        <LinkScope>
+          {hasChildren &&
+            !collection &&
+            node.children.map((child) => (
+              <NodeRenderer key={child.id} nodeId={child.id} />
+            ))}
+
+          {hasChildren &&
+            collection &&
+            collection.items.map((item) => (
+              <CmsItemProvider
+                key={item.id}
+                collection={collection}
+                item={item}
+              >
+                {node.children.map((child) => (
+                  <NodeRenderer key={child.id} nodeId={child.id} />
+                ))}
+              </CmsItemProvider>
+            ))}
+        </LinkScope>
+      </Tag>
     </React.Fragment>
   );
 };
@@ -2,10 +2,16 @@ import React, { useMemo } from "react";
 import Image from "next/image";
 import { usePreview } from "../../preview-context";
 import { findNodeById } from "../../utils/nodeUtils";
+import { useBoundNode } from "../../cms-context";
 import {
   generateResponsiveCSS,
   generateMediaQueryContent,
 } from "../../utils/cssUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../../utils/stateUtils";
+import { NodeLinkWrapper, useNodeLinkProps } from "../NodeLink";
 
 type ImageNodeProps = {
   nodeId: string;
@@ -15,10 +21,14 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ nodeId }) => {
   const { nodeTree, viewportBreakpoints, transformNode } = usePreview();
 
   // Find this node from the context
-  const node = useMemo(
+  const treeNode = useMemo(
     () => findNodeById(nodeTree, nodeId),
     [nodeTree, nodeId]
   );
+  // Inside a collection list the bound text or src comes from the item
+  const node = useBoundNode(treeNode);
+
+  const linkProps = useNodeLinkProps(node);
 
   if (!node) return null;
 
@@ -29,6 +39,7 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ nodeId }) => {
     node,
     viewportBreakpoints
   );
+  const stateCSS = generateInteractionStateCSS(node);
 
   // Handle click for dynamic nodes
   const handleClick = () => {
@@ -49,26 +60,30 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ nodeId }) => {
     <React.Fragment>
       {responsiveCSS && <style>{responsiveCSS}</style>}
       {mediaQueryContent && <style>{mediaQueryContent}</style>}
+      {stateCSS && <style>{stateCSS}</style>}
 
-      {/* Use unoptimized Image with fill to work better with responsive sizing */}
-      <Image
-        id={`node-${nodeId}`}
-        data-node-id={nodeId}
-        data-node-type={node.type}
-        data-is-dynamic={node.isDynamic ? "true" : undefined}
-        className={`node node-image ${node.isDynamic ? "node-dynamic" : ""}`}
-        src={src}
-        alt=""
-        fill={false}
-        width={1000}
-        height={1000}
-        style={
-          {
-            objectFit: styleProps.objectFit || "cover",
-          } as React.CSSProperties
-        }
-        onClick={node.isDynamic ? handleClick : undefined}
-      />
+      <NodeLinkWrapper linkProps={linkProps}>
+        {/* Use unoptimized Image with fill to work better with responsive sizing */}
+        <Image
+          id={`node-${nodeId}`}
+          data-node-id={nodeId}
+          {...getInteractionAttributes(node)}
+          data-node-type={node.type}
+          data-is-dynamic={node.isDynamic ? "true" : undefined}
+          className={`node node-image ${node.isDynamic ? "node-dynamic" : ""}`}
+          src={src}
+          alt=""
+          fill={false}
+          width={1000}
+          height={1000}
+          style={
+            {
+              objectFit: styleProps.objectFit || "cover",
+            } as React.CSSProperties
+          }
+          onClick={node.isDynamic ? handleClick : undefined}
+        />
+      </NodeLinkWrapper>
     </React.Fragment>
   );
 };
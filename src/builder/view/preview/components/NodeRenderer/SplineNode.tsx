@@ -0,0 +1,71 @@
+import React, { useMemo } from "react";
+import { usePreview } from "../../preview-context";
+import { findNodeById } from "../../utils/nodeUtils";
+import {
+  generateResponsiveCSS,
+  generateMediaQueryContent,
+} from "../../utils/cssUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../../utils/stateUtils";
+import { useNodeLinkProps } from "../NodeLink";
+import { VectorGraphic } from "@/builder/vector/VectorGraphic";
+
+type SplineNodeProps = {
+  nodeId: string;
+};
+
+export const SplineNode: React.FC<SplineNodeProps> = ({ nodeId }) => {
+  const { nodeTree, viewportBreakpoints, transformNode } = usePreview();
+
+  // Find this node from the context
+  const node = useMemo(
+    () => findNodeById(nodeTree, nodeId),
+    [nodeTree, nodeId]
+  );
+  const linkProps = useNodeLinkProps(node);
+
+  if (!node) return null;
+
+  const responsiveCSS = generateResponsiveCSS(node, viewportBreakpoints);
+  const mediaQueryContent = generateMediaQueryContent(
+    node,
+    viewportBreakpoints
+  );
+  const stateCSS = generateInteractionStateCSS(node);
+  const Tag = linkProps ? "a" : "div";
+
+  // Handle click for dynamic nodes
+  const handleClick = () => {
+    if (node.isDynamic) {
+      transformNode(nodeId, "click");
+    }
+  };
+
+  // Fill and stroke come from the responsive CSS and reach the paths
+  // through inheritance
+  return (
+    <React.Fragment>
+      {responsiveCSS && <style>{responsiveCSS}</style>}
+      {mediaQueryContent && <style>{mediaQueryContent}</style>}
+      {stateCSS && <style>{stateCSS}</style>}
+
+      <Tag
+        id={`node-${nodeId}`}
+        data-node-id={nodeId}
+        {...getInteractionAttributes(node)}
+        {...linkProps}
+        data-node-type={node.type}
+        data-is-dynamic={node.isDynamic ? "true" : undefined}
+        className={`node node-spline ${node.isDynamic ? "node-dynamic" : ""}`}
+        style={{ cursor: node.isDynamic ? "pointer" : undefined }}
+        onClick={node.isDynamic ? handleClick : undefined}
+      >
+        {node.vector && (
+          <VectorGraphic vector={node.vector} idPrefix={`node-${nodeId}`} />
+        )}
+      </Tag>
+    </React.Fragment>
+  );
+};
@@ -1,10 +1,17 @@
 import React, { useMemo } from "react";
 import { usePreview } from "../../preview-context";
 import { findNodeById } from "../../utils/nodeUtils";
+import { useBoundNode } from "../../cms-context";
 import {
   generateResponsiveCSS,
   generateMediaQueryContent,
 } from "../../utils/cssUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../../utils/stateUtils";
+import { useNodeLinkProps, usePreviewLinks } from "../NodeLink";
+import { prepareTextLinks } from "../../utils/linkUtils";
 
 type TextNodeProps = {
   nodeId: string;
@@ -14,10 +21,14 @@ export const TextNode: React.FC<TextNodeProps> = ({ nodeId }) => {
   const { nodeTree, viewportBreakpoints, transformNode } = usePreview();
 
   // Find this node from the context
-  const node = useMemo(
+  const treeNode = useMemo(
     () => findNodeById(nodeTree, nodeId),
     [nodeTree, nodeId]
   );
+  // Inside a collection list the bound text or src comes from the item
+  const node = useBoundNode(treeNode);
+  const linkProps = useNodeLinkProps(node);
+  const { insideLink, resolvePage } = usePreviewLinks();
 
   if (!node) return null;
 
@@ -29,6 +40,10 @@ export const TextNode: React.FC<TextNodeProps> = ({ nodeId }) => {
     node,
     viewportBreakpoints
   );
+  const stateCSS = generateInteractionStateCSS(node);
+  const Tag = linkProps ? "a" : "div";
+  const renderText = (html: string) =>
+    prepareTextLinks(html, resolvePage, insideLink || !!linkProps);
 
   // Handle click for dynamic nodes
   const handleClick = () => {
@@ -41,10 +56,13 @@ export const TextNode: React.FC<TextNodeProps> = ({ nodeId }) => {
     <React.Fragment>
       {responsiveCSS && <style>{responsiveCSS}</style>}
       {mediaQueryContent && <style>{mediaQueryContent}</style>}
+      {stateCSS && <style>{stateCSS}</style>}
 
-      <div
+      <Tag
         id={`node-${nodeId}`}
         data-node-id={nodeId}
+        {...getInteractionAttributes(node)}
+        {...linkProps}
         data-node-type={node.type}
         data-is-dynamic={node.isDynamic ? "true" : undefined}
         className={`node node-${node.type} ${
@@ -60,7 +78,7 @@ export const TextNode: React.FC<TextNodeProps> = ({ nodeId }) => {
         {text && (
           <div
             id={`node-${nodeId}-content`}
-            dangerouslySetInnerHTML={{ __html: text }}
+            dangerouslySetInnerHTML={{ __html: renderText(text) }}
             style={{ width: "100%", height: "100%" }}
           />
         )}
@@ -73,10 +91,12 @@ export const TextNode: React.FC<TextNodeProps> = ({ nodeId }) => {
               key={`content-${viewport}`}
               id={`node-${nodeId}-content-${viewport}`}
               style={{ display: "none", width: "100%", height: "100%" }}
-              dangerouslySetInnerHTML={{ __html: styles.text || "" }}
+              dangerouslySetInnerHTML={{
+                __html: renderText(styles.text || ""),
+              }}
             />
           ))}
-      </div>
+      </Tag>
     </React.Fragment>
   );
 };
@@ -5,6 +5,11 @@ import {
   generateResponsiveCSS,
   generateMediaQueryContent,
 } from "../../utils/cssUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../../utils/stateUtils";
+import { NodeLinkWrapper, useNodeLinkProps } from "../NodeLink";
 
 type VideoNodeProps = {
   nodeId: string;
@@ -20,6 +25,8 @@ export const VideoNode: React.FC<VideoNodeProps> = ({ nodeId }) => {
     [nodeTree, nodeId]
   );
 
+  const linkProps = useNodeLinkProps(node);
+
   if (!node) return null;
 
   const { src, text, backgroundImage, backgroundVideo, ...styleProps } =
@@ -29,6 +36,7 @@ export const VideoNode: React.FC<VideoNodeProps> = ({ nodeId }) => {
     node,
     viewportBreakpoints
   );
+  const stateCSS = generateInteractionStateCSS(node);
 
   // Determine which src to use based on current viewport width
   const videoSrc = useMemo(() => {
@@ -76,27 +84,31 @@ export const VideoNode: React.FC<VideoNodeProps> = ({ nodeId }) => {
     <React.Fragment>
       {responsiveCSS && <style>{responsiveCSS}</style>}
       {mediaQueryContent && <style>{mediaQueryContent}</style>}
+      {stateCSS && <style>{stateCSS}</style>}
 
-      <video
-        key={`video-${nodeId}-${videoSrc}`} // Force re-render when src changes
-        id={`node-${nodeId}`}
-        data-node-id={nodeId}
-        data-node-type={node.type}
-        data-is-dynamic={node.isDynamic ? "true" : undefined}
-        className={`node node-video ${node.isDynamic ? "node-dynamic" : ""}`}
-        src={videoSrc}
-        autoPlay={styleProps.autoplay || false}
-        loop={styleProps.loop || false}
-        muted={styleProps.muted || true}
-        controls={styleProps.controls || false}
-        style={
-          {
-            objectFit: styleProps.objectFit || "cover",
-            objectPosition: styleProps.objectPosition || "center",
-          } as React.CSSProperties
-        }
-        onClick={node.isDynamic ? handleClick : undefined}
-      />
+      <NodeLinkWrapper linkProps={linkProps}>
+        <video
+          key={`video-${nodeId}-${videoSrc}`} // Force re-render when src changes
+          id={`node-${nodeId}`}
+          data-node-id={nodeId}
+          {...getInteractionAttributes(node)}
+          data-node-type={node.type}
+          data-is-dynamic={node.isDynamic ? "true" : undefined}
+          className={`node node-video ${node.isDynamic ? "node-dynamic" : ""}`}
+          src={videoSrc}
+          autoPlay={styleProps.autoplay || false}
+          loop={styleProps.loop || false}
+          muted={styleProps.muted || true}
+          controls={styleProps.controls || false}
+          style={
+            {
+              objectFit: styleProps.objectFit || "cover",
+              objectPosition: styleProps.objectPosition || "center",
+            } as React.CSSProperties
+          }
+          onClick={node.isDynamic ? handleClick : undefined}
+        />
+      </NodeLinkWrapper>
     </React.Fragment>
   );
 };
@@ -6,6 +6,19 @@ import {
   generateBackgroundImageCSS,
   generateMediaQueryContent,
 } from "../../utils/cssUtils";
+import { getTransitionCss } from "../../utils/transitionUtils";
+import {
+  generateInteractionStateCSS,
+  getInteractionAttributes,
+} from "../../utils/stateUtils";
+import { getTextBlockTag } from "../../utils/textUtils";
+import { DynamicConnection } from "../../types";
+
+// Nodes only receive focus and blur when they can be focused
+const hasFocusTrigger = (node?: { dynamicConnections?: DynamicConnection[] }) =>
+  node?.dynamicConnections?.some(
+    (conn) => conn.type === "focus" || conn.type === "blur"
+  );
 
 const getActiveBreakpoint = (width, breakpoints) => {
   const sortedBreakpoints = [...breakpoints].sort((a, b) => b.width - a.width);
@@ -160,6 +173,8 @@ export const DynamicNode = ({ nodeId }) => {
   // Look up the active variant using the responsive base node's id.
   const activeVariant = dynamicVariants[responsiveBaseNode.id];
   const currentVariant = activeVariant || responsiveBaseNode;
+  // Variant changes use the transition of the connection that triggered them
+  const variantTransition = activeVariant?._transition || getTransitionCss();
 
   useEffect(() => {
     if (!dynamicVariants[responsiveBaseNode.id] && baseNode.isDynamic) {
@@ -363,6 +378,11 @@ export const DynamicNode = ({ nodeId }) => {
     baseNode,
     viewportBreakpoints
   );
+  const stateCSS = generateInteractionStateCSS(
+    baseNode,
+    `#dynamic-node-${nodeId}`
+  );
+  const interactionAttributes = getInteractionAttributes(baseNode);
 
   const responsiveNode = useMemo(() => {
     return getChildForViewport(baseNode, adjustedCurrentViewport);
@@ -400,12 +420,18 @@ export const DynamicNode = ({ nodeId }) => {
       delete variantStyle.top;
       delete variantStyle.right;
       delete variantStyle.bottom;
-      variantStyle.transition = "all 0.3s ease";
+      variantStyle.transition = variantTransition;
       return variantStyle;
     }
 
     return baseStyle;
-  }, [baseNode.style, activeVariant, originalNodes, responsiveNode]);
+  }, [
+    baseNode.style,
+    activeVariant,
+    originalNodes,
+    responsiveNode,
+    variantTransition,
+  ]);
 
   // Interaction handlers
   const handleClick = (e, targetNodeId) => {
@@ -479,6 +505,22 @@ export const DynamicNode = ({ nodeId }) => {
     }
   };
 
+  // Press and focus triggers fire on the node that owns the connection
+  const handleTrigger = (
+    e: React.SyntheticEvent,
+    targetNodeId: string,
+    type: DynamicConnection["type"]
+  ) => {
+    e.stopPropagation();
+    const node = originalNodes.find((n) => n.id === targetNodeId);
+    if (!node) return;
+    if (node.dynamicConnections?.some((conn) => conn.type === type)) {
+      transformNode(targetNodeId, type);
+    } else if (targetNodeId === responsiveBaseNode.id && baseNode.isDynamic) {
+      transformNode(responsiveBaseNode.id, type);
+    }
+  };
+
   // Determine the parent id for children lookup.
   const findCorrectParentId = () => {
     if (!activeVariant) return responsiveBaseNode.id;
@@ -616,7 +658,7 @@ export const DynamicNode = ({ nodeId }) => {
             top: 0,
             right: "auto",
             bottom: "auto",
-            transition: "all 0.3s ease",
+            transition: variantTransition,
           };
         }
       }
@@ -649,6 +691,12 @@ export const DynamicNode = ({ nodeId }) => {
       onClick: (e) => handleClick(e, node.id),
       onMouseEnter: (e) => handleMouseEnter(e, node.id),
       onMouseLeave: (e) => handleMouseLeave(e, node.id),
+      onMouseDown: (e: React.MouseEvent) =>
+        handleTrigger(e, node.id, "mouseDown"),
+      onMouseUp: (e: React.MouseEvent) => handleTrigger(e, node.id, "mouseUp"),
+      onFocus: (e: React.FocusEvent) => handleTrigger(e, node.id, "focus"),
+      onBlur: (e: React.FocusEvent) => handleTrigger(e, node.id, "blur"),
+      tabIndex: hasFocusTrigger(node) ? 0 : undefined,
       "data-is-dynamic": isInteractive ? "true" : undefined,
       "data-node-id": node.id,
       "data-shared-id": node.sharedId || undefined,
@@ -660,7 +708,7 @@ export const DynamicNode = ({ nodeId }) => {
       style: {
         cursor: isInteractive ? "pointer" : undefined,
         ...childStyle,
-        transition: activeVariant ? "all 0.3s ease" : "none",
+        transition: activeVariant ? variantTransition : "none",
       },
     };
 
@@ -684,6 +732,9 @@ export const DynamicNode = ({ nodeId }) => {
         );
       case "text":
         const parsedText = parseTextContent(childStyle.text);
+        const ChildTextTag = getTextBlockTag(
+          childStyle.text
+        ) as React.ElementType;
 
         return (
           <div
@@ -700,7 +751,7 @@ export const DynamicNode = ({ nodeId }) => {
               textAlign: undefined,
             }}
           >
-            <p
+            <ChildTextTag
               className="text-inherit"
               style={{ textAlign: childStyle.textAlign || "center" }}
             >
@@ -714,13 +765,13 @@ export const DynamicNode = ({ nodeId }) => {
                     parsedText.style.fontFamily || childStyle.fontFamily,
                   lineHeight:
                     parsedText.style.lineHeight || childStyle.lineHeight,
-                  transition: "all 0.3s ease",
+                  transition: variantTransition,
                   display: "inline-block",
                 }}
               >
                 {parsedText.content}
               </span>
-            </p>
+            </ChildTextTag>
           </div>
         );
       case "frame":
@@ -759,7 +810,7 @@ export const DynamicNode = ({ nodeId }) => {
                       backgroundImage: `url(${childStyle.backgroundImage})`,
                       backgroundSize: "cover",
                       backgroundPosition: "center",
-                      transition: activeVariant ? "all 0.3s ease" : "none",
+                      transition: activeVariant ? variantTransition : "none",
                     }}
                   />
                 )}
@@ -838,10 +889,10 @@ export const DynamicNode = ({ nodeId }) => {
   const transitionCSS = `
     /* Apply transitions only to variant changes, not responsive changes */
     .dynamic-node {
-      transition: ${activeVariant ? "all 0.3s ease" : "none"} !important;
+      transition: ${activeVariant ? variantTransition : "none"} !important;
     }
     .dynamic-child {
-      transition: ${activeVariant ? "all 0.3s ease" : "none"} !important;
+      transition: ${activeVariant ? variantTransition : "none"} !important;
     }
     
     /* Force FOUC prevention */
@@ -987,6 +1038,7 @@ export const DynamicNode = ({ nodeId }) => {
       {responsiveCSS && <style>{responsiveCSS}</style>}
       {backgroundImageCSS && <style>{backgroundImageCSS}</style>}
       {mediaQueryContent && <style>{mediaQueryContent}</style>}
+      {stateCSS && <style>{stateCSS}</style>}
       {variantOverrideCSS && <style>{variantOverrideCSS}</style>}
       {variantChildrenCSS && <style>{variantChildrenCSS}</style>}
       <style>{initialLoadCSS}</style>
@@ -1001,6 +1053,7 @@ export const DynamicNode = ({ nodeId }) => {
         data-viewport-id={currentViewportObj?.id}
         data-render-count={renderCounter}
         data-variant-update={forceNestedUpdate}
+        {...interactionAttributes}
         className="dynamic-node"
         style={{
           cursor: baseNode.isDynamic ? "pointer" : undefined,
@@ -1014,6 +1067,20 @@ export const DynamicNode = ({ nodeId }) => {
         onClick={(e) => handleClick(e, responsiveBaseNode.id)}
         onMouseEnter={(e) => handleMouseEnter(e, responsiveBaseNode.id)}
         onMouseLeave={(e) => handleMouseLeave(e, responsiveBaseNode.id)}
+        onMouseDown={(e) =>
+          handleTrigger(e, responsiveBaseNode.id, "mouseDown")
+        }
+        onMouseUp={(e) => handleTrigger(e, responsiveBaseNode.id, "mouseUp")}
+        onFocus={(e) => handleTrigger(e, responsiveBaseNode.id, "focus")}
+        onBlur={(e) => handleTrigger(e, responsiveBaseNode.id, "blur")}
+        tabIndex={
+          hasFocusTrigger(responsiveBaseNode) ||
+          hasFocusTrigger(
+            originalNodes.find((n) => n.id === activeVariant?.targetId)
+          )
+            ? 0
+            : interactionAttributes.tabIndex
+        }
       >
         {hasBackground && (
           <div
@@ -1033,7 +1100,7 @@ export const DynamicNode = ({ nodeId }) => {
                   backgroundImage: `url(${mergedStyle.backgroundImage})`,
                   backgroundSize: "cover",
                   backgroundPosition: "center",
-                  transition: activeVariant ? "all 0.3s ease" : "none",
+                  transition: activeVariant ? variantTransition : "none",
                 }}
               />
             )}
@@ -1076,6 +1143,9 @@ export const DynamicNode = ({ nodeId }) => {
             case "text":
               // Parse the HTML to extract content and styling
               const mainParsedText = parseTextContent(mergedStyle.text);
+              const MainTextTag = getTextBlockTag(
+                mergedStyle.text
+              ) as React.ElementType;
 
               return (
                 <div
@@ -1087,7 +1157,7 @@ export const DynamicNode = ({ nodeId }) => {
                     zIndex: 1,
                   }}
                 >
-                  <p
+                  <MainTextTag
                     className="text-inherit"
                     style={{ textAlign: mergedStyle.textAlign || "center" }}
                   >
@@ -1105,7 +1175,7 @@ export const DynamicNode = ({ nodeId }) => {
                         lineHeight:
                           mainParsedText.style.lineHeight ||
                           mergedStyle.lineHeight,
-                        transition: "all 0.3s ease",
+                        transition: variantTransition,
                         display: "block",
                         width: "100%",
                         height: "100%",
@@ -1113,7 +1183,7 @@ export const DynamicNode = ({ nodeId }) => {
                     >
                       {mainParsedText.content}
                     </span>
-                  </p>
+                  </MainTextTag>
                 </div>
               );
             case "video":
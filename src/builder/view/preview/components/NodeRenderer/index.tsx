@@ -5,6 +5,8 @@ import { ImageNode } from "./ImageNode";
 import { VideoNode } from "./VideoNode";
 import { TextNode } from "./TextNode";
 import { FrameNode } from "./FrameNode";
+import { SplineNode } from "./SplineNode";
+import { ShapeNode } from "./ShapeNode";
 import { DynamicNode } from "./dynamic-node";
 
 type NodeRendererProps = {
@@ -44,6 +46,14 @@ export const NodeRenderer: React.FC<NodeRendererProps> = ({ nodeId }) => {
       return <VideoNode nodeId={nodeId} />;
     case "text":
       return <TextNode nodeId={nodeId} />;
+    case "spline":
+      return <SplineNode nodeId={nodeId} />;
+    case "rectangle":
+    case "ellipse":
+    case "line":
+    case "polygon":
+    case "star":
+      return <ShapeNode nodeId={nodeId} />;
     case "frame":
     default:
       return <FrameNode nodeId={nodeId} />;
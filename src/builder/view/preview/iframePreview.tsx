@@ -1,7 +1,8 @@
 // src/builder/components/preview/IframePreview.tsx
-import React, { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useState, useMemo } from "react";
 import { Node } from "@/builder/reducer/nodeDispatcher";
 import { useBuilder } from "@/builder/context/builderState";
+import { getPagesWithActiveNodes } from "@/builder/persistence/projectDocument";
 import { usePreview } from "./preview-context";
 
 interface IframePreviewProps {
@@ -10,7 +11,14 @@ interface IframePreviewProps {
 }
 
 const IframePreview: React.FC<IframePreviewProps> = ({ nodes, viewport }) => {
-  const { interfaceState, interfaceDisp } = useBuilder();
+  const {
+    interfaceState,
+    interfaceDisp,
+    pageState,
+    cmsState,
+    tokenState,
+    fontState,
+  } = useBuilder();
   // Get dynamic variant state from preview context
   const { dynamicVariants, originalNodes, transformNode } = usePreview();
 
@@ -52,6 +60,20 @@ const IframePreview: React.FC<IframePreviewProps> = ({ nodes, viewport }) => {
   // Keep track of the previous variant state to detect changes
   const previousDynamicVariantsRef = useRef(dynamicVariants);
 
+  // Every page of the project, with the live nodes of the page being edited
+  const pages = useMemo(
+    () => getPagesWithActiveNodes(pageState, nodes),
+    [pageState, nodes]
+  );
+
+  // Open the preview on the page that is being edited
+  useEffect(() => {
+    const activePage = pageState.pages.find(
+      (page) => page.id === pageState.activePageId
+    );
+    interfaceDisp.setPreviewPage(activePage?.slug || null);
+  }, [interfaceDisp, pageState.pages, pageState.activePageId]);
+
   // Listen for changes to previewWidth in the interfaceState
   useEffect(() => {
     if (
@@ -77,6 +99,8 @@ const IframePreview: React.FC<IframePreviewProps> = ({ nodes, viewport }) => {
         if (transformNode) {
           transformNode(nodeId, eventType);
         }
+      } else if (event.data.type === "PREVIEW_PAGE_CHANGED") {
+        interfaceDisp.setPreviewPage(event.data.slug);
       }
     };
 
@@ -84,7 +108,21 @@ const IframePreview: React.FC<IframePreviewProps> = ({ nodes, viewport }) => {
     return () => {
       window.removeEventListener("message", handleMessage);
     };
-  }, [transformNode]);
+  }, [transformNode, interfaceDisp]);
+
+  // Navigate the iframe when a page is picked outside of it
+  useEffect(() => {
+    if (
+      isIframeReady &&
+      iframeRef.current?.contentWindow &&
+      interfaceState.previewPageSlug
+    ) {
+      iframeRef.current.contentWindow.postMessage(
+        { type: "PREVIEW_NAVIGATE", slug: interfaceState.previewPageSlug },
+        "*"
+      );
+    }
+  }, [isIframeReady, interfaceState.previewPageSlug]);
 
   // Function to collect all text elements, including nested ones
   const collectAllTextElements = () => {
@@ -251,6 +289,11 @@ const IframePreview: React.FC<IframePreviewProps> = ({ nodes, viewport }) => {
         {
           type: "PREVIEW_DATA",
           nodes,
+          pages,
+          slug: interfaceState.previewPageSlug,
+          collections: cmsState.collections,
+          tokens: tokenState.tokens,
+          fontState,
           viewport: adjustedViewport, // Use adjusted width
           dynamicVariants,
           textStyles,
@@ -277,7 +320,18 @@ const IframePreview: React.FC<IframePreviewProps> = ({ nodes, viewport }) => {
         "*"
       );
     }
-  }, [isIframeReady, nodes, previewWidth, dynamicVariants, originalNodes]);
+  }, [
+    isIframeReady,
+    nodes,
+    pages,
+    interfaceState.previewPageSlug,
+    cmsState.collections,
+    tokenState.tokens,
+    fontState,
+    previewWidth,
+    dynamicVariants,
+    originalNodes,
+  ]);
 
   // Forward events from parent to iframe
   const forwardEventToIframe = (nodeId: string, eventType: string) => {
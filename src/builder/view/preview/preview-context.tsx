@@ -7,14 +7,30 @@ import React, {
   useMemo,
   ReactNode,
   useRef,
+  useCallback,
 } from "react";
-import { Node, ResponsiveNode, Viewport } from "./types";
+import {
+  DynamicConnection,
+  Node,
+  PreviewPage,
+  ResponsiveNode,
+  Viewport,
+} from "./types";
+import { ConnectionAction } from "@/builder/reducer/nodeDispatcher";
 import { buildResponsiveNodeTree } from "./hooks/useResponsiveNodeTree";
 import { findNodeById, processInitialDynamicNodes } from "./utils/nodeUtils";
 import { buildResponsiveSubtree } from "./utils/sub-tree-builder";
+import {
+  getTransitionCss,
+  getTransitionTotalMs,
+} from "./utils/transitionUtils";
+import { getKeyShortcut, isTypingTarget } from "./utils/triggerUtils";
+import { findRenderedElement, setElementVisibility } from "./utils/actionUtils";
+import { getPageHref } from "./utils/pageNavigation";
 
 type PreviewContextType = {
   originalNodes: Node[];
+  pages: PreviewPage[];
   currentViewport: number;
   viewportBreakpoints: Viewport[];
   initialNodeTree: ResponsiveNode[];
@@ -28,6 +44,7 @@ type PreviewContextType = {
 
 const defaultContextValue: PreviewContextType = {
   originalNodes: [],
+  pages: [],
   currentViewport: 1440,
   viewportBreakpoints: [],
   initialNodeTree: [],
@@ -99,11 +116,33 @@ const extractTextContent = (html: string) => {
   return "";
 };
 
+// Ids of the dynamic roots currently rendered for this viewport
+const getRenderedDynamicRootIds = () =>
+  Array.from(
+    document.querySelectorAll<HTMLElement>(".dynamic-node[data-node-id]")
+  ).map((element) => element.dataset.nodeId!);
+
+// The node whose connections apply to a root right now: the target of its
+// active variant, or the root itself
+const getStateNode = (
+  rootId: string,
+  dynamicVariants: { [nodeId: string]: ResponsiveNode },
+  nodes: Node[]
+) => {
+  const variant = dynamicVariants[rootId];
+  const stateId = variant
+    ? variant.targetId || variant._originalTargetId
+    : rootId;
+  return nodes.find((n) => n.id === stateId);
+};
+
 export const PreviewProvider: React.FC<{
   children: ReactNode;
   nodes: Node[];
+  // Every page of the project, for "navigate" actions
+  pages?: PreviewPage[];
   initialDynamicVariants?: { [nodeId: string]: ResponsiveNode };
-}> = ({ children, nodes, initialDynamicVariants = {} }) => {
+}> = ({ children, nodes, pages = [], initialDynamicVariants = {} }) => {
   const originalNodes = useMemo(() => nodes, [nodes]);
 
   const getAllConnectionsForNode = (nodeId: string, eventType: string) => {
@@ -181,8 +220,70 @@ export const PreviewProvider: React.FC<{
     [nodeId: string]: { [sharedId: string]: string };
   }>({});
 
+  // Variants each root showed before its current one, for "back" actions
+  const variantHistory = useRef<{
+    [nodeId: string]: (ResponsiveNode | undefined)[];
+  }>({});
+
+  const runAction = useCallback(
+    (action: ConnectionAction, rootId: string) => {
+      switch (action.type) {
+        case "navigate": {
+          const page = pages.find((p) => p.id === action.pageId);
+          if (page) window.location.hash = getPageHref(page.slug);
+          break;
+        }
+        case "openUrl":
+          if (!action.url) break;
+          if (action.newTab) {
+            window.open(action.url, "_blank", "noopener,noreferrer");
+          } else {
+            window.location.href = action.url;
+          }
+          break;
+        case "scrollTo":
+          findRenderedElement(action.nodeId, originalNodes)?.scrollIntoView({
+            behavior: "smooth",
+            block: "start",
+          });
+          break;
+        case "setVisibility": {
+          const node = originalNodes.find(
+            (n) => n.id === String(action.nodeId)
+          );
+          const element = findRenderedElement(action.nodeId, originalNodes);
+          if (node && element) {
+            setElementVisibility(element, node, action.visibility || "toggle");
+          }
+          break;
+        }
+        case "back": {
+          const history = variantHistory.current[rootId];
+          if (!history?.length) break;
+          const previous = history.pop();
+          setDynamicVariants((prev) => {
+            const updated = { ...prev };
+            if (previous) {
+              updated[rootId] = previous;
+            } else {
+              delete updated[rootId];
+            }
+            return updated;
+          });
+          break;
+        }
+      }
+    },
+    [pages, originalNodes]
+  );
+
   // The transformNode function with the fix
   const transformNode = useMemo(() => {
+    const recordVariantHistory = (rootId: string) => {
+      const history = variantHistory.current[rootId] || [];
+      variantHistory.current[rootId] = [...history, dynamicVariants[rootId]];
+    };
+
     return (sourceId: string, type: string) => {
       console.log(
         `🔍 DEBUG: transformNode called for ${sourceId} with event type ${type}`
@@ -249,7 +350,7 @@ export const PreviewProvider: React.FC<{
       }
 
       // Find the connection
-      let connections = [];
+      let connections: DynamicConnection[] = [];
       const existingVariant = dynamicVariants[actualSourceId];
 
       if (existingVariant) {
@@ -264,10 +365,16 @@ export const PreviewProvider: React.FC<{
             );
           }
 
-          // Check if we're going back to the base state (connection from variant to base)
           if (connections.length > 0) {
             const connection = connections[0];
+            if (connection.action) {
+              runAction(connection.action, actualSourceId);
+              return;
+            }
             const isRevertingToBase = connection.targetId === actualSourceId;
+            const transitionCss = getTransitionCss(connection.transition);
+            const revertDelay =
+              getTransitionTotalMs(connection.transition) + 50;
 
             if (isRevertingToBase) {
               console.log(`🔄 Animating back to base state from variant`);
@@ -317,7 +424,7 @@ export const PreviewProvider: React.FC<{
                           // Instead, only extract and apply styles
 
                           // First, set the transition property before any other changes
-                          span.style.transition = "all 0.3s ease";
+                          span.style.transition = transitionCss;
 
                           // Extract and apply styles directly
                           const styles = extractStylesFromHTML(
@@ -382,7 +489,7 @@ export const PreviewProvider: React.FC<{
                       );
                       if (mainSpan && baseNode.style?.text) {
                         // Set transition first
-                        mainSpan.style.transition = "all 0.3s ease";
+                        mainSpan.style.transition = transitionCss;
 
                         // Extract and apply styles
                         const styles = extractStylesFromHTML(
@@ -426,6 +533,7 @@ export const PreviewProvider: React.FC<{
                   targetId: actualSourceId,
                   id: actualSourceId,
                   _isBaseState: true, // Mark this as a special base state variant
+                  _transition: transitionCss,
                 };
 
                 // Update the style.text property of any text nodes in the variant so React doesn't replace the content
@@ -445,6 +553,7 @@ export const PreviewProvider: React.FC<{
                 }
 
                 // Update the variant to switch to the base state with animation
+                recordVariantHistory(actualSourceId);
                 setDynamicVariants((prev) => {
                   const newVariants = { ...prev };
                   newVariants[actualSourceId] = processedVariant;
@@ -462,7 +571,7 @@ export const PreviewProvider: React.FC<{
                       }
                       return updated;
                     });
-                  }, 350); // Slightly longer than transition duration
+                  }, revertDelay); // Slightly longer than transition duration
 
                   return newVariants;
                 });
@@ -493,6 +602,14 @@ export const PreviewProvider: React.FC<{
       }
 
       const connection = connections[0];
+      // Action connections point at the source itself; they run instead of
+      // switching to a variant
+      if (connection.action) {
+        runAction(connection.action, actualSourceId);
+        return;
+      }
+
+      const transitionCss = getTransitionCss(connection.transition);
       console.log(
         `✅ Using connection: ${connection.sourceId || actualSourceId} -> ${
           connection.targetId
@@ -520,6 +637,7 @@ export const PreviewProvider: React.FC<{
         _originalTargetId: connection.targetId,
         targetId: connection.targetId,
         id: actualSourceId,
+        _transition: transitionCss,
       };
 
       // **** CRITICAL FIX: Process the enhancedVariant to preserve text content ****
@@ -582,7 +700,7 @@ export const PreviewProvider: React.FC<{
                 }
 
                 // **** CRITICAL FIX: Set transition FIRST ****
-                span.style.transition = "all 0.3s ease";
+                span.style.transition = transitionCss;
 
                 // Extract and apply styles immediately WITHOUT changing content
                 const styles = extractStylesFromHTML(
@@ -650,7 +768,7 @@ export const PreviewProvider: React.FC<{
               }
 
               // Set transition first
-              mainSpan.style.transition = "all 0.3s ease";
+              mainSpan.style.transition = transitionCss;
 
               // Extract and apply styles
               const styles = extractStylesFromHTML(targetNode.style.text);
@@ -683,6 +801,7 @@ export const PreviewProvider: React.FC<{
 
           // Apply background color directly for immediate visual feedback
           if (targetNode.style.backgroundColor) {
+            (element as HTMLElement).style.transition = transitionCss;
             element.style.backgroundColor = targetNode.style.backgroundColor;
             console.log(
               `🎨 Setting backgroundColor:`,
@@ -697,6 +816,7 @@ export const PreviewProvider: React.FC<{
       }
 
       // Now update the variant state
+      recordVariantHistory(actualSourceId);
       setDynamicVariants((prev) => {
         const newVariants = { ...prev };
         newVariants[actualSourceId] = processedVariant;
@@ -715,11 +835,129 @@ export const PreviewProvider: React.FC<{
 
       console.log(`✅ Transform complete`);
     };
-  }, [originalNodes, dynamicVariants, setDynamicVariants]);
+  }, [originalNodes, dynamicVariants, setDynamicVariants, runAction]);
+
+  // Timers and observers outlive a render, so they call the latest version
+  const transformNodeRef = useRef(transformNode);
+  useEffect(() => {
+    transformNodeRef.current = transformNode;
+  }, [transformNode]);
+
+  // "afterDelay" timers, keyed by root. A timer restarts only when its root
+  // changes state, so one auto-advancing element doesn't reset another.
+  const delayTimers = useRef<
+    Map<string, { stateId: string; timeout: ReturnType<typeof setTimeout> }>
+  >(new Map());
+
+  useEffect(() => {
+    const timers = delayTimers.current;
+    const rootIds = getRenderedDynamicRootIds();
+
+    timers.forEach((timer, rootId) => {
+      if (!rootIds.includes(rootId)) {
+        clearTimeout(timer.timeout);
+        timers.delete(rootId);
+      }
+    });
+
+    rootIds.forEach((rootId) => {
+      const stateNode = getStateNode(rootId, dynamicVariants, originalNodes);
+      const connection = stateNode?.dynamicConnections?.find(
+        (conn) => conn.type === "afterDelay"
+      );
+      const existing = timers.get(rootId);
+      if (existing && existing.stateId === stateNode?.id && connection) return;
+
+      if (existing) clearTimeout(existing.timeout);
+      timers.delete(rootId);
+      if (!stateNode || !connection) return;
+
+      timers.set(rootId, {
+        stateId: stateNode.id,
+        timeout: setTimeout(() => {
+          timers.delete(rootId);
+          transformNodeRef.current(rootId, "afterDelay");
+        }, connection.trigger?.delay ?? 0),
+      });
+    });
+  }, [dynamicVariants, nodeTree, currentViewport, originalNodes]);
+
+  useEffect(() => {
+    const timers = delayTimers.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer.timeout));
+      timers.clear();
+    };
+  }, []);
+
+  // Keyboard shortcuts apply to every rendered root whose current state
+  // listens for them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const shortcut = getKeyShortcut(e);
+      if (!shortcut) return;
+
+      getRenderedDynamicRootIds().forEach((rootId) => {
+        const matches = getStateNode(
+          rootId,
+          dynamicVariants,
+          originalNodes
+        )?.dynamicConnections?.some(
+          (conn) => conn.type === "keyDown" && conn.trigger?.key === shortcut
+        );
+        if (!matches) return;
+        e.preventDefault();
+        transformNode(rootId, "keyDown");
+      });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [transformNode, dynamicVariants, originalNodes]);
+
+  // "inViewport" switches a root to its target while it is on screen and back
+  // to its base state once it scrolls out
+  useEffect(() => {
+    const rootIds = getRenderedDynamicRootIds().filter((rootId) =>
+      originalNodes
+        .find((n) => n.id === rootId)
+        ?.dynamicConnections?.some((conn) => conn.type === "inViewport")
+    );
+    if (rootIds.length === 0) return;
+
+    const visibleIds = new Set<string>();
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach((entry) => {
+        const rootId = (entry.target as HTMLElement).dataset.nodeId!;
+        if (entry.isIntersecting && !visibleIds.has(rootId)) {
+          visibleIds.add(rootId);
+          transformNodeRef.current(rootId, "inViewport");
+        } else if (!entry.isIntersecting && visibleIds.has(rootId)) {
+          visibleIds.delete(rootId);
+          setDynamicVariants((prev) => {
+            const updated = { ...prev };
+            delete updated[rootId];
+            return updated;
+          });
+        }
+      });
+    });
+
+    rootIds.forEach((rootId) => {
+      const element = document.querySelector(
+        `.dynamic-node[data-node-id="${rootId}"]`
+      );
+      if (element) observer.observe(element);
+    });
+
+    return () => observer.disconnect();
+  }, [nodeTree, currentViewport, originalNodes]);
 
   const contextValue = useMemo(
     () => ({
       originalNodes,
+      pages,
       currentViewport,
       viewportBreakpoints,
       initialNodeTree,
@@ -730,6 +968,7 @@ export const PreviewProvider: React.FC<{
     }),
     [
       originalNodes,
+      pages,
       currentViewport,
       viewportBreakpoints,
       initialNodeTree,
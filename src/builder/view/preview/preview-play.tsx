@@ -1,5 +1,5 @@
 import React, { useMemo, forwardRef, useImperativeHandle } from "react";
-import { Node } from "./types";
+import { Node, PreviewPage } from "./types";
 import { generateViewportContainerRules } from "./utils/cssUtils";
 import { NodeTreeRenderer } from "./components/NodeRenderer/node-tree-renderer";
 import { PreviewProvider, usePreview } from "./preview-context";
@@ -7,23 +7,53 @@ import { PreviewStyles } from "./preview-styles";
 import Image from "next/image";
 import { ViewportBackgroundStyles } from "./utils/viewportBackgroundStyles";
 import useDynamicFontLoader from "./hooks/useDynamicFont";
+import { PreviewCmsProvider } from "./cms-context";
+import { CmsCollection } from "@/builder/reducer/cmsDispatcher";
+import { DesignToken } from "@/builder/reducer/tokenDispatcher";
+import {
+  generateTokenCSS,
+  getTokenFontFamilies,
+} from "@/builder/tokens/tokenCss";
+import { FontState } from "@/builder/reducer/fontDispatcher";
+import { fontInitialState } from "@/builder/reducer/state";
+import { generateFontFaceCSS } from "@/builder/fonts/fontCss";
 
 type PreviewPlayProps = {
   nodes: Node[];
+  pages?: PreviewPage[];
+  collections?: CmsCollection[];
+  tokens?: DesignToken[];
+  fontState?: FontState;
   initialDynamicVariants?: { [nodeId: string]: any };
   onNodeEvent?: (nodeId: string, eventType: string) => void;
 };
 
 // Create a forwarded ref version of the component
 const PreviewPlay = forwardRef<any, PreviewPlayProps>((props, ref) => {
-  const { nodes, initialDynamicVariants, onNodeEvent } = props;
+  const {
+    nodes,
+    pages,
+    collections,
+    tokens = [],
+    fontState = fontInitialState,
+    initialDynamicVariants,
+    onNodeEvent,
+  } = props;
 
   return (
     <PreviewProvider
       nodes={nodes}
+      pages={pages}
       initialDynamicVariants={initialDynamicVariants}
     >
-      <PreviewContent onNodeEvent={onNodeEvent} ref={ref} />
+      <PreviewCmsProvider collections={collections}>
+        <PreviewContent
+          tokens={tokens}
+          fontState={fontState}
+          onNodeEvent={onNodeEvent}
+          ref={ref}
+        />
+      </PreviewCmsProvider>
     </PreviewProvider>
   );
 });
@@ -34,8 +64,12 @@ PreviewPlay.displayName = "PreviewPlay";
 // Create the content component with ref forwarding
 const PreviewContent = forwardRef<
   any,
-  { onNodeEvent?: (nodeId: string, eventType: string) => void }
->(({ onNodeEvent }, ref) => {
+  {
+    tokens: DesignToken[];
+    fontState: FontState;
+    onNodeEvent?: (nodeId: string, eventType: string) => void;
+  }
+>(({ tokens, fontState, onNodeEvent }, ref) => {
   const { originalNodes, viewportBreakpoints, transformNode } = usePreview();
 
   // Generate CSS for viewports
@@ -60,7 +94,15 @@ const PreviewContent = forwardRef<
     },
   }));
 
-  useDynamicFontLoader(originalNodes);
+  const tokenCSS = useMemo(() => generateTokenCSS(tokens), [tokens]);
+  const tokenFonts = useMemo(() => getTokenFontFamilies(tokens), [tokens]);
+
+  const fontFaceCSS = useMemo(
+    () => generateFontFaceCSS(fontState.fonts),
+    [fontState.fonts]
+  );
+
+  useDynamicFontLoader(originalNodes, tokenFonts, fontState);
 
   // Enhanced CSS for better transitions, especially for text
   const enhancedTransitionCSS = `
@@ -111,6 +153,8 @@ const PreviewContent = forwardRef<
       style={{ width: "100vw", overflow: "hidden" }}
     >
       <PreviewStyles />
+      <style>{tokenCSS}</style>
+      <style>{fontFaceCSS}</style>
       <style>{viewportContainerRules}</style>
       <style>{enhancedTransitionCSS}</style>
       <ViewportBackgroundStyles />
@@ -1,4 +1,5 @@
 import React from "react";
+import { generateTextContentCSS } from "./utils/textUtils";
 
 export const PreviewStyles = () => (
   <style>{`
@@ -55,8 +56,20 @@ export const PreviewStyles = () => (
       object-fit: cover !important;
     }
     
+    /* Linked nodes look like the element they replace */
+    a.node {
+      display: block;
+      color: inherit;
+      text-decoration: none;
+    }
+
+    .node-link {
+      display: contents;
+    }
+
     /* Improve visibility of child nodes */
-    [data-has-children="true"] > div {
+    [data-has-children="true"] > div,
+    [data-has-children="true"] > a {
       position: relative;
       z-index: 1;
     }
@@ -65,5 +78,7 @@ export const PreviewStyles = () => (
     .node {
       position: relative;
     }
+
+    ${generateTextContentCSS(".node-text")}
   `}</style>
 );
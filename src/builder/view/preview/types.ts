@@ -1,4 +1,15 @@
 import { CSSProperties } from "react";
+import {
+  ConnectionAction,
+  ConnectionTransition,
+  ConnectionTrigger,
+  ConnectionType,
+  InteractionState,
+  NodeLink,
+  ShapeOptions,
+  StateStyle,
+  VectorData,
+} from "@/builder/reducer/nodeDispatcher";
 
 export type NodeStyle = CSSProperties & {
   src?: string;
@@ -10,7 +21,10 @@ export type NodeStyle = CSSProperties & {
 export type DynamicConnection = {
   sourceId: string;
   targetId: string;
-  type: "click" | "hover" | "mouseLeave" | "load" | string;
+  type: ConnectionType | "load" | string;
+  transition?: ConnectionTransition;
+  trigger?: ConnectionTrigger;
+  action?: ConnectionAction;
 };
 
 export type Node = {
@@ -34,11 +48,38 @@ export type Node = {
   dynamicPosition?: { x: number; y: number };
   dynamicConnections?: DynamicConnection[];
   dynamicParentId?: string | number;
+
+  // CMS bindings
+  cmsCollectionId?: string;
+  cmsFieldId?: string;
+
+  // Paths of a spline node
+  vector?: VectorData;
+  shape?: ShapeOptions;
+
+  // Hover, pressed, focus and disabled styles
+  dynamicState?: { [state in InteractionState]?: StateStyle };
+  isDisabled?: boolean;
+  link?: NodeLink;
+};
+
+export type PreviewPage = {
+  id: string;
+  name: string;
+  slug: string;
+  seo?: { title: string; description: string };
+  nodes: Node[];
 };
 
 export type ResponsiveNode = Node & {
   responsiveStyles: Record<number, NodeStyle>;
   children: ResponsiveNode[];
+  // Set on active variants: the node they show and how they got there
+  targetId?: string;
+  _originalTargetId?: string;
+  _isBaseState?: boolean;
+  // CSS transition of the connection that switched to this variant
+  _transition?: string;
 };
 
 export type Viewport = {
@@ -0,0 +1,77 @@
+import {
+  ConnectionAction,
+  ConnectionActionType,
+} from "@/builder/reducer/nodeDispatcher";
+import { Node } from "../types";
+
+export const ACTION_OPTIONS: {
+  type: ConnectionActionType | "variant";
+  label: string;
+}[] = [
+  { type: "variant", label: "Switch variant" },
+  { type: "navigate", label: "Navigate to page" },
+  { type: "openUrl", label: "Open URL" },
+  { type: "scrollTo", label: "Scroll to node" },
+  { type: "setVisibility", label: "Show / hide node" },
+  { type: "back", label: "Previous variant" },
+];
+
+export const getDefaultAction = (
+  type: ConnectionActionType
+): ConnectionAction => {
+  switch (type) {
+    case "openUrl":
+      return { type, url: "", newTab: true };
+    case "setVisibility":
+      return { type, visibility: "toggle" };
+    default:
+      return { type };
+  }
+};
+
+export const getActionLabel = (action: ConnectionAction) =>
+  ACTION_OPTIONS.find((option) => option.type === action.type)?.label ||
+  action.type;
+
+/**
+ * The element showing a node. Actions store whichever viewport's copy was
+ * picked in the builder, so look through every copy sharing its sharedId.
+ */
+export const findRenderedElement = (
+  nodeId: string | number | undefined,
+  nodes: Node[]
+) => {
+  const node = nodes.find((n) => n.id === String(nodeId));
+  if (!node) return null;
+
+  const ids = node.sharedId
+    ? nodes.filter((n) => n.sharedId === node.sharedId).map((n) => n.id)
+    : [node.id];
+  for (const id of ids) {
+    const element = document.querySelector<HTMLElement>(
+      `[data-node-id="${id}"]`
+    );
+    if (element) return element;
+  }
+  return null;
+};
+
+export const setElementVisibility = (
+  element: HTMLElement,
+  node: Node,
+  visibility: NonNullable<ConnectionAction["visibility"]>
+) => {
+  const isHidden = getComputedStyle(element).display === "none";
+  if (visibility === "hide" || (visibility === "toggle" && !isHidden)) {
+    element.style.display = "none";
+    return;
+  }
+
+  // Nodes hidden in the design have no display of their own to go back to
+  const display = node.style.display;
+  if (display && display !== "none") {
+    element.style.display = String(display);
+  } else {
+    element.style.display = node.type === "frame" ? "flex" : "block";
+  }
+};
@@ -1,4 +1,9 @@
 import { NodeStyle, ResponsiveNode, Viewport } from "../types";
+import {
+  getHtmlFontSize,
+  isFluidSize,
+  toFluidCss,
+} from "@/builder/fonts/fluidType";
 
 export const convertStyleToCss = (style: NodeStyle): string => {
   return Object.entries(style)
@@ -18,6 +23,26 @@ export const convertStyleToCss = (style: NodeStyle): string => {
     .join("\n");
 };
 
+// Media query for the breakpoint at `index` in a largest-first list, using the
+// same non-overlapping bounds as the generators below.
+export const getBreakpointMediaQuery = (
+  index: number,
+  viewportBreakpoints: Viewport[]
+): string => {
+  const viewport = viewportBreakpoints[index];
+  const nextBreakpoint = viewportBreakpoints[index + 1];
+
+  if (index === 0) {
+    return `@media (min-width: ${nextBreakpoint ? nextBreakpoint.width : 0}px)`;
+  }
+  if (index === viewportBreakpoints.length - 1) {
+    return `@media (max-width: ${viewport.width - 0.02}px)`;
+  }
+  return `@media (min-width: ${nextBreakpoint.width}px) and (max-width: ${
+    viewport.width - 0.02
+  }px)`;
+};
+
 // Generate correct viewport container rules with background support
 export const generateViewportContainerRules = (
   viewportBreakpoints: Viewport[],
@@ -285,6 +310,10 @@ export const generateEnhancedResponsiveCSS = (node, viewportBreakpoints) => {
   // Create CSS rules for each viewport with non-overlapping bounds and !important
   let cssRules = "";
 
+  // Text keeps its size in its HTML, other nodes in their style
+  const fontSize =
+    node.style.fontSize?.toString() || getHtmlFontSize(node.style.text);
+
   // Desktop styles (largest viewport)
   const desktopBreakpoint = sortedBreakpoints[0];
   if (desktopBreakpoint) {
@@ -376,6 +405,16 @@ export const generateEnhancedResponsiveCSS = (node, viewportBreakpoints) => {
     }
   }
 
+  // A fluid size scales between the breakpoints by itself, so one rule
+  // covers all of them
+  if (isFluidSize(fontSize)) {
+    cssRules += `
+      #dynamic-node-${node.id} {
+        font-size: ${toFluidCss(fontSize)} !important;
+      }
+    `;
+  }
+
   return cssRules;
 };
 
@@ -0,0 +1,93 @@
+import { NodeLink } from "@/builder/reducer/nodeDispatcher";
+
+// Maps a page id to the href of that page in the current output, or null
+// when the page no longer exists
+export type PageHrefResolver = (pageId: string) => string | null;
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+// Entities a browser would decode before reading the scheme of an href
+const decodeAttribute = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);?/g, (_, code: string) =>
+      String.fromCharCode(Number(code))
+    )
+    .replace(/&colon;/gi, ":")
+    .replace(/&(tab|newline);/gi, "")
+    .replace(/&amp;/gi, "&");
+
+const SAFE_PROTOCOLS = ["http", "https", "mailto", "tel"];
+
+/**
+ * Whether a typed URL can be output as a link: web, mail and phone links,
+ * relative paths and anchors. Browsers skip whitespace and control
+ * characters in the scheme, so `java\tscript:` counts as `javascript:`.
+ */
+export const isSafeHref = (href: string) => {
+  const scheme = href
+    .replace(/[\u0000-\u0020]/g, "")
+    .match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+  return !scheme || SAFE_PROTOCOLS.includes(scheme.toLowerCase());
+};
+
+export const getLinkHref = (
+  link: NodeLink | undefined,
+  resolvePage: PageHrefResolver
+) => {
+  if (!link) return null;
+  if (link.pageId) return resolvePage(link.pageId);
+  const url = link.url?.trim();
+  return url && isSafeHref(url) ? url : null;
+};
+
+/**
+ * Attributes of the <a> a linked node renders as, or null when the link
+ * leads nowhere.
+ */
+export const getLinkAttributes = (
+  link: NodeLink | undefined,
+  resolvePage: PageHrefResolver
+) => {
+  const href = getLinkHref(link, resolvePage);
+  if (!href) return null;
+  return {
+    href,
+    ...(link?.newTab && { target: "_blank", rel: "noopener noreferrer" }),
+  };
+};
+
+/**
+ * Prepare the rich text HTML of a text node for output. Page links carry
+ * the page id, so their href follows renamed slugs, and other links lose an
+ * href that is not safe. Anchors cannot nest, which is why text inside a
+ * linked node drops its own links.
+ */
+export const prepareTextLinks = (
+  html: string,
+  resolvePage: PageHrefResolver,
+  insideLink = false
+) => {
+  if (insideLink) {
+    return html.replace(/<a\b[^>]*>/gi, "<span>").replace(/<\/a>/gi, "</span>");
+  }
+
+  return html.replace(/<a\b[^>]*>/gi, (tag) => {
+    const pageId = tag.match(/\bdata-page-id="([^"]*)"/i)?.[1];
+    const pageHref = pageId && resolvePage(pageId);
+    if (pageHref) {
+      return tag.replace(
+        /\bhref="[^"]*"/i,
+        `href="${escapeAttribute(pageHref)}"`
+      );
+    }
+
+    const href = tag.match(/\shref\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i);
+    if (!href) return tag;
+    const url = decodeAttribute(href[1].replace(/^["']|["']$/g, ""));
+    return isSafeHref(url) ? tag : tag.replace(href[0], "");
+  });
+};
@@ -0,0 +1,13 @@
+// Preview pages are addressed by hash (#/about) so navigating never reloads
+// the iframe and plain <a href="#/about"> links work inside the preview.
+export const getPageHref = (slug: string) => `#/${slug}`;
+
+export const getSlugFromHash = (hash: string) => {
+  const slug = hash.replace(/^#\/?/, "");
+  try {
+    return decodeURIComponent(slug) || null;
+  } catch {
+    // Malformed escapes like #/%E0 are kept as typed
+    return slug || null;
+  }
+};
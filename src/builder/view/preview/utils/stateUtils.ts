@@ -0,0 +1,64 @@
+import { InteractionState, Node } from "@/builder/reducer/nodeDispatcher";
+import { NodeStyle } from "../types";
+import { convertStyleToCss } from "./cssUtils";
+
+export const INTERACTION_STATES: {
+  state: InteractionState;
+  label: string;
+}[] = [
+  { state: "hovered", label: "Hover" },
+  { state: "pressed", label: "Pressed" },
+  { state: "focused", label: "Focus" },
+  { state: "disabled", label: "Disabled" },
+];
+
+// Appended to a node's selector, in cascade order. Disabled nodes carry
+// aria-disabled, which also keeps the pointer states off them.
+export const STATE_SELECTORS: Record<InteractionState, string> = {
+  hovered: ":not([aria-disabled=true]):hover",
+  pressed: ":not([aria-disabled=true]):active",
+  focused: ":focus-visible",
+  disabled: "[aria-disabled=true]",
+};
+
+type StatefulNode = Pick<Node, "id" | "type" | "dynamicState" | "isDisabled">;
+
+/**
+ * Rules for the interaction states of a node, on `selector` since dynamic
+ * nodes have their own element id. They sit outside the breakpoint media
+ * queries and are `!important`, as some breakpoint rules are too, so a
+ * state looks the same in every viewport.
+ */
+export const generateInteractionStateCSS = (
+  node: StatefulNode,
+  selector = `#node-${node.id}`
+) =>
+  INTERACTION_STATES.map(({ state }) => {
+    const style = node.dynamicState?.[state];
+    if (!style) return "";
+
+    const cssStyle = { ...style };
+    delete cssStyle.isVideoBackground;
+    const declarations = [
+      convertStyleToCss(cssStyle as NodeStyle),
+      node.type === "image" && style.src
+        ? `  content: url("${style.src}");`
+        : "",
+    ]
+      .filter(Boolean)
+      .join("\n")
+      .replace(/;$/gm, " !important;");
+
+    return declarations
+      ? `${selector}${STATE_SELECTORS[state]} {\n${declarations}\n}`
+      : "";
+  })
+    .filter(Boolean)
+    .join("\n\n");
+
+// Focus styles need a focusable element; disabled nodes are marked for
+// assistive technology and the state selectors alike
+export const getInteractionAttributes = (node: StatefulNode) => ({
+  ...(node.dynamicState?.focused && { tabIndex: 0 }),
+  ...(node.isDisabled && { "aria-disabled": true as const }),
+});
@@ -0,0 +1,42 @@
+// Rules for the rich text inside a text node, keyed by descendant selector.
+// Tags give the text its structure while the node's typography decides how
+// it looks, the same on the canvas, in the preview and in exports.
+export const TEXT_CONTENT_RULES: Record<string, Record<string, string>> = {
+  ":is(h1,h2,h3,h4,h5,h6,p,blockquote,ul,ol)": { margin: "0" },
+  ":is(h1,h2,h3,h4,h5,h6)": {
+    "font-size": "inherit",
+    "font-weight": "inherit",
+  },
+  ":is(ul,ol)": { "padding-left": "1.5em" },
+  ul: { "list-style": "disc" },
+  ol: { "list-style": "decimal" },
+  blockquote: {
+    "padding-left": "1em",
+    "border-left": "3px solid currentColor",
+  },
+  code: {
+    "font-family": "ui-monospace, SFMono-Regular, Menlo, monospace",
+    "font-size": "0.9em",
+  },
+};
+
+export const generateTextContentCSS = (scope: string) =>
+  Object.entries(TEXT_CONTENT_RULES)
+    .map(
+      ([selector, declarations]) =>
+        `${scope} ${selector} {\n${Object.entries(declarations)
+          .map(([property, value]) => `  ${property}: ${value};`)
+          .join("\n")}\n}`
+    )
+    .join("\n\n");
+
+const BLOCK_TAGS = ["h1", "h2", "h3", "h4", "h5", "h6", "p", "blockquote"];
+
+/**
+ * Tag of the first block in a text node's HTML, for renderers that show the
+ * text as a single line.
+ */
+export const getTextBlockTag = (html?: string) => {
+  const tag = html?.match(/^\s*<([a-z0-9]+)/i)?.[1].toLowerCase();
+  return tag && BLOCK_TAGS.includes(tag) ? tag : "p";
+};
@@ -0,0 +1,118 @@
+import {
+  ConnectionTransition,
+  TransitionEasing,
+} from "@/builder/reducer/nodeDispatcher";
+
+// Matches the "all 0.3s ease" variant changes used before transitions could
+// be configured, so connections without settings animate exactly as before.
+export const DEFAULT_TRANSITION: ConnectionTransition = {
+  duration: 300,
+  delay: 0,
+  easing: "ease",
+  properties: [],
+};
+
+export const DEFAULT_CUBIC_BEZIER: [number, number, number, number] = [
+  0.25, 0.1, 0.25, 1,
+];
+
+export const EASING_OPTIONS: { label: string; value: TransitionEasing }[] = [
+  { label: "Ease", value: "ease" },
+  { label: "Linear", value: "linear" },
+  { label: "Ease in", value: "ease-in" },
+  { label: "Ease out", value: "ease-out" },
+  { label: "Ease in out", value: "ease-in-out" },
+  { label: "Cubic bezier", value: "cubic-bezier" },
+  { label: "Spring (gentle)", value: "spring-gentle" },
+  { label: "Spring (bouncy)", value: "spring-bouncy" },
+  { label: "Spring (snappy)", value: "spring-snappy" },
+];
+
+export const TRANSITION_PROPERTY_OPTIONS = [
+  { label: "Opacity", value: "opacity" },
+  { label: "Transform", value: "transform" },
+  { label: "Background", value: "background-color" },
+  { label: "Color", value: "color" },
+  { label: "Size", value: "width, height" },
+  { label: "Radius", value: "border-radius" },
+  { label: "Shadow", value: "box-shadow" },
+  { label: "Spacing", value: "padding, gap" },
+];
+
+const SPRING_PRESETS: Record<
+  Extract<TransitionEasing, `spring-${string}`>,
+  { stiffness: number; damping: number }
+> = {
+  "spring-gentle": { stiffness: 120, damping: 14 },
+  "spring-bouncy": { stiffness: 180, damping: 9 },
+  "spring-snappy": { stiffness: 400, damping: 30 },
+};
+
+const SPRING_SAMPLES = 40;
+
+/**
+ * CSS has no spring timing function, so sample the step response of an
+ * underdamped spring (unit mass) into a linear() easing. The curve is
+ * stretched over the connection's duration, overshoot included.
+ */
+const getSpringEasing = ({
+  stiffness,
+  damping,
+}: {
+  stiffness: number;
+  damping: number;
+}) => {
+  const omega = Math.sqrt(stiffness);
+  const zeta = Math.min(damping / (2 * omega), 0.99);
+  const dampedOmega = omega * Math.sqrt(1 - zeta * zeta);
+  // Time until the oscillation is within 0.1% of its resting position
+  const settleTime = Math.log(1000) / (zeta * omega);
+
+  const points = Array.from({ length: SPRING_SAMPLES + 1 }, (_, index) => {
+    if (index === SPRING_SAMPLES) return 1;
+    const t = (index / SPRING_SAMPLES) * settleTime;
+    const envelope = Math.exp(-zeta * omega * t);
+    const value =
+      1 -
+      envelope *
+        (Math.cos(dampedOmega * t) +
+          ((zeta * omega) / dampedOmega) * Math.sin(dampedOmega * t));
+    return Math.round(value * 1000) / 1000;
+  });
+
+  return `linear(${points.join(", ")})`;
+};
+
+export const getEasingCss = (transition: ConnectionTransition) => {
+  switch (transition.easing) {
+    case "cubic-bezier":
+      return `cubic-bezier(${(
+        transition.cubicBezier || DEFAULT_CUBIC_BEZIER
+      ).join(", ")})`;
+    case "spring-gentle":
+    case "spring-bouncy":
+    case "spring-snappy":
+      return getSpringEasing(SPRING_PRESETS[transition.easing]);
+    default:
+      return transition.easing;
+  }
+};
+
+// The CSS `transition` value for a connection
+export const getTransitionCss = (
+  transition: ConnectionTransition = DEFAULT_TRANSITION
+) => {
+  const timing = `${transition.duration}ms ${getEasingCss(transition)} ${
+    transition.delay
+  }ms`;
+  const properties = transition.properties.length
+    ? transition.properties.flatMap((property) => property.split(/,\s*/))
+    : ["all"];
+
+  return properties.map((property) => `${property} ${timing}`).join(", ");
+};
+
+// How long a variant change takes to finish, delay included
+export const getTransitionTotalMs = (
+  transition: ConnectionTransition = DEFAULT_TRANSITION
+) => transition.duration + transition.delay;
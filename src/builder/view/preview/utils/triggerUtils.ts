@@ -0,0 +1,92 @@
+import {
+  ConnectionTrigger,
+  ConnectionType,
+} from "@/builder/reducer/nodeDispatcher";
+
+export const CONNECTION_TRIGGERS: {
+  type: ConnectionType;
+  label: string;
+  color: string;
+}[] = [
+  { type: "click", label: "On Click", color: "#9966FE" },
+  { type: "hover", label: "On Hover", color: "#6096FF" },
+  { type: "mouseLeave", label: "On Mouse Leave", color: "#FF66AC" },
+  { type: "mouseDown", label: "On Mouse Down", color: "#B388FF" },
+  { type: "mouseUp", label: "On Mouse Up", color: "#7C4DFF" },
+  { type: "focus", label: "On Focus", color: "#26C6DA" },
+  { type: "blur", label: "On Blur", color: "#00897B" },
+  { type: "inViewport", label: "While In Viewport", color: "#66BB6A" },
+  { type: "afterDelay", label: "After Delay", color: "#FFA726" },
+  { type: "keyDown", label: "On Key Press", color: "#FFCA28" },
+];
+
+// Triggers that can't fire without settings start from these
+export const DEFAULT_TRIGGER_OPTIONS: Partial<
+  Record<ConnectionType, ConnectionTrigger>
+> = {
+  afterDelay: { delay: 1000 },
+  keyDown: { key: "Enter" },
+};
+
+// Triggers driven by the page rather than by events on the node itself
+export const DOCUMENT_TRIGGERS: ConnectionType[] = [
+  "inViewport",
+  "afterDelay",
+  "keyDown",
+];
+
+export const getTriggerColor = (type: string) =>
+  CONNECTION_TRIGGERS.find((trigger) => trigger.type === type)?.color ||
+  "#9966FE";
+
+// Short label drawn on the connection arrows
+export const getTriggerSummary = (connection: {
+  type: string;
+  trigger?: ConnectionTrigger;
+}) => {
+  switch (connection.type) {
+    case "afterDelay":
+      return `after ${connection.trigger?.delay ?? 0}ms`;
+    case "keyDown":
+      return `key ${connection.trigger?.key || "?"}`;
+    case "inViewport":
+      return "in view";
+    default:
+      return connection.type;
+  }
+};
+
+const MODIFIER_KEYS = ["Control", "Alt", "Shift", "Meta"];
+
+/**
+ * Normalize a key event to the shortcut format stored on connections,
+ * modifiers first: "Ctrl+Alt+Shift+Meta+K". Returns null while only a
+ * modifier is held.
+ */
+export const getKeyShortcut = (
+  event: Pick<
+    KeyboardEvent,
+    "key" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey"
+  >
+) => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  let key = event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  if (key === " ") key = "Space";
+
+  return [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.shiftKey && "Shift",
+    event.metaKey && "Meta",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+");
+};
+
+// Keys typed into a field belong to the field, not to shortcuts
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
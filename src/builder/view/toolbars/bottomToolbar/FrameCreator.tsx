@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useBuilder } from "@/builder/context/builderState";
 import { nanoid } from "nanoid";
-import { Node } from "@/builder/reducer/nodeDispatcher";
+import { ConnectionType, Node } from "@/builder/reducer/nodeDispatcher";
 import {
   computeFrameDropIndicator,
   handleMediaToFrameTransformation,
@@ -167,7 +167,7 @@ export const FrameCreator: React.FC = () => {
           string | number,
           Array<{
             sourceId: string | number;
-            type: "click" | "hover" | "mouseLeave";
+            type: ConnectionType;
           }>
         >();
 
@@ -655,7 +655,7 @@ export const FrameCreator: React.FC = () => {
       newTargetId: string | number,
       connections: Array<{
         sourceId: string | number;
-        type: "click" | "hover" | "mouseLeave";
+        type: ConnectionType;
       }>
     ) => {
       // For each source node that had a connection to the old target
@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import { useBuilder } from "@/builder/context/builderState";
+import { Node, Position, VectorPoint } from "@/builder/reducer/nodeDispatcher";
+import { createVector, getPathData } from "@/builder/vector/vectorPath";
+
+// Screen pixels from the first point within which a click closes the path
+const CLOSE_DISTANCE = 8;
+// Screen pixels the mouse has to travel while held before it pulls handles
+const HANDLE_DRAG_DISTANCE = 2;
+
+const ACCENT = "var(--accent)";
+
+/**
+ * The pen: clicks place corner points, click and drag places a smooth point
+ * and pulls out its handles. Clicking the first point closes the path;
+ * Enter or Escape finishes an open one.
+ */
+export const PenCreator = () => {
+  const {
+    containerRef,
+    transform,
+    nodeDisp,
+    dragDisp,
+    dragState,
+    isPenModeActive,
+    setIsPenModeActive,
+  } = useBuilder();
+  const [points, setPoints] = useState<VectorPoint[]>([]);
+  const [cursor, setCursor] = useState<Position | null>(null);
+  const [isPullingHandles, setIsPullingHandles] = useState(false);
+
+  // Handlers are registered once per mode change and read these instead
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+  const dragStartRef = useRef<Position | null>(null);
+
+  const finishPath = (closed: boolean) => {
+    const drawn = pointsRef.current;
+    setPoints([]);
+    setIsPullingHandles(false);
+    dragStartRef.current = null;
+    if (drawn.length < 2) return;
+
+    const { vector, bounds } = createVector([{ points: drawn, closed }]);
+    const inDynamicMode = !!dragState.dynamicModeNodeId;
+    const node: Node = {
+      id: nanoid(),
+      type: "spline",
+      style: {
+        position: "absolute",
+        left: `${bounds.left}px`,
+        top: `${bounds.top}px`,
+        width: `${vector.width}px`,
+        height: `${vector.height}px`,
+        flex: "0 0 auto",
+        fill: closed ? "#97cffc" : "none",
+        stroke: "#000000",
+        strokeWidth: "2px",
+      },
+      vector,
+      inViewport: false,
+      parentId: null,
+      sharedId: nanoid(),
+      ...(inDynamicMode && {
+        dynamicParentId: dragState.dynamicModeNodeId!,
+        dynamicPosition: { x: bounds.left, y: bounds.top },
+        dynamicViewportId: dragState.activeViewportInDynamicMode!,
+      }),
+    };
+
+    nodeDisp.addNode(node, null, null, false);
+    dragDisp.setSelectedIds([node.id]);
+  };
+  const finishPathRef = useRef(finishPath);
+  finishPathRef.current = finishPath;
+
+  // Leaving pen mode keeps what was drawn so far
+  useEffect(() => {
+    if (!isPenModeActive) finishPathRef.current(false);
+  }, [isPenModeActive]);
+
+  useEffect(() => {
+    const canvas = containerRef.current;
+    if (!canvas || !isPenModeActive) return;
+
+    const toCanvas = (e: MouseEvent): Position => {
+      const rect = canvas.getBoundingClientRect();
+      const { x, y, scale } = transformRef.current;
+      return {
+        x: (e.clientX - rect.left - x) / scale,
+        y: (e.clientY - rect.top - y) / scale,
+      };
+    };
+
+    // Capture phase, so nodes under the pen are not selected or dragged
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      const position = toCanvas(e);
+      const [first] = pointsRef.current;
+      const closeDistance = CLOSE_DISTANCE / transformRef.current.scale;
+      if (
+        pointsRef.current.length > 2 &&
+        Math.hypot(position.x - first.x, position.y - first.y) < closeDistance
+      ) {
+        finishPathRef.current(true);
+        setIsPenModeActive(false);
+        return;
+      }
+
+      dragStartRef.current = { x: e.clientX, y: e.clientY };
+      setPoints((prev) => [...prev, position]);
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const position = toCanvas(e);
+      setCursor(position);
+
+      const start = dragStartRef.current;
+      if (
+        !start ||
+        Math.hypot(e.clientX - start.x, e.clientY - start.y) <
+          HANDLE_DRAG_DISTANCE
+      ) {
+        return;
+      }
+
+      // The handle follows the mouse and its twin mirrors it
+      setIsPullingHandles(true);
+      setPoints((prev) => {
+        const anchor = prev[prev.length - 1];
+        if (!anchor) return prev;
+        return [
+          ...prev.slice(0, -1),
+          {
+            x: anchor.x,
+            y: anchor.y,
+            handleOut: position,
+            handleIn: {
+              x: 2 * anchor.x - position.x,
+              y: 2 * anchor.y - position.y,
+            },
+          },
+        ];
+      });
+    };
+
+    const handleMouseUp = () => {
+      dragStartRef.current = null;
+      setIsPullingHandles(false);
+    };
+
+    const handleClick = (e: MouseEvent) => e.stopPropagation();
+
+    // Capture phase on window, so Backspace removes the last point instead of
+    // deleting the selected node
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Enter" || e.key === "Escape") {
+        e.preventDefault();
+        e.stopPropagation();
+        finishPathRef.current(false);
+        setIsPenModeActive(false);
+      } else if (
+        (e.key === "Backspace" || e.key === "Delete") &&
+        pointsRef.current.length
+      ) {
+        e.preventDefault();
+        e.stopPropagation();
+        setPoints((prev) => prev.slice(0, -1));
+      }
+    };
+
+    canvas.addEventListener("mousedown", handleMouseDown, true);
+    canvas.addEventListener("click", handleClick, true);
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      canvas.removeEventListener("mousedown", handleMouseDown, true);
+      canvas.removeEventListener("click", handleClick, true);
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+      window.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [containerRef, isPenModeActive, setIsPenModeActive]);
+
+  if (!isPenModeActive || !points.length) return null;
+
+  const toScreen = ({ x, y }: Position): Position => ({
+    x: x * transform.scale + transform.x,
+    y: y * transform.scale + transform.y,
+  });
+  const screenPoints = points.map((point): VectorPoint => ({
+    ...toScreen(point),
+    ...(point.handleIn && { handleIn: toScreen(point.handleIn) }),
+    ...(point.handleOut && { handleOut: toScreen(point.handleOut) }),
+  }));
+  const last = screenPoints[screenPoints.length - 1];
+  const rubberBand =
+    cursor && !isPullingHandles
+      ? getPathData({ points: [last, toScreen(cursor)], closed: false })
+      : "";
+
+  return (
+    <svg
+      className="absolute inset-0 pointer-events-none"
+      width="100%"
+      height="100%"
+      style={{ zIndex: 1000, overflow: "visible" }}
+    >
+      <path
+        d={getPathData({ points: screenPoints, closed: false })}
+        fill="none"
+        stroke={ACCENT}
+        strokeWidth={1.5}
+      />
+      {rubberBand && (
+        <path
+          d={rubberBand}
+          fill="none"
+          stroke={ACCENT}
+          strokeWidth={1}
+          strokeDasharray="4 3"
+        />
+      )}
+      {last.handleIn && last.handleOut && (
+        <>
+          <line
+            x1={last.handleIn.x}
+            y1={last.handleIn.y}
+            x2={last.handleOut.x}
+            y2={last.handleOut.y}
+            stroke={ACCENT}
+            strokeWidth={1}
+          />
+          {[last.handleIn, last.handleOut].map((handle, i) => (
+            <circle
+              key={i}
+              cx={handle.x}
+              cy={handle.y}
+              r={3}
+              fill="white"
+              stroke={ACCENT}
+            />
+          ))}
+        </>
+      )}
+      {screenPoints.map((point, i) => (
+        <rect
+          key={i}
+          x={point.x - 3.5}
+          y={point.y - 3.5}
+          width={7}
+          height={7}
+          fill={i === 0 && screenPoints.length > 2 ? ACCENT : "white"}
+          stroke={ACCENT}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default PenCreator;
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useRef } from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { nanoid } from "nanoid";
+import { Node, ShapeType } from "@/builder/reducer/nodeDispatcher";
+import { computeFrameDropIndicator } from "@/builder/context/utils";
+import { elementRegistry } from "@/builder/registry";
+
+interface DrawingState {
+  startX: number;
+  startY: number;
+  currentX: number;
+  currentY: number;
+  isDrawing: boolean;
+}
+
+// Size of a shape placed with a click instead of a drag
+const CLICK_SIZE = 100;
+
+const getShapeDefaults = (type: ShapeType) =>
+  elementRegistry.find((element) => element.type === type)?.defaultProps;
+
+// Shift keeps boxes square and snaps lines to 45 degree steps
+const constrainEnd = (
+  type: ShapeType,
+  { startX, startY }: DrawingState,
+  x: number,
+  y: number,
+  shiftKey: boolean
+) => {
+  if (!shiftKey) return { x, y };
+  const dx = x - startX;
+  const dy = y - startY;
+
+  if (type === "line") {
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+    const length = Math.hypot(dx, dy);
+    return {
+      x: startX + Math.cos(angle) * length,
+      y: startY + Math.sin(angle) * length,
+    };
+  }
+
+  const size = Math.max(Math.abs(dx), Math.abs(dy));
+  return {
+    x: startX + (dx < 0 ? -size : size),
+    y: startY + (dy < 0 ? -size : size),
+  };
+};
+
+export const ShapeCreator: React.FC = () => {
+  const {
+    containerRef,
+    nodeDisp,
+    transform,
+    nodeState,
+    activeShapeTool,
+    setActiveShapeTool,
+    dragDisp,
+    isResizing,
+    isRotating,
+    isAdjustingGap,
+    dragState,
+  } = useBuilder();
+  const [box, setBox] = useState<DrawingState | null>(null);
+  const targetFrameRef = useRef<{ id: string; element: Element } | null>(null);
+
+  useEffect(() => {
+    const canvas = containerRef.current;
+    if (!canvas || !activeShapeTool) return;
+
+    const findTargetFrame = (e: MouseEvent) => {
+      const elementsUnder = document.elementsFromPoint(e.clientX, e.clientY);
+      for (const el of elementsUnder) {
+        const frameEl = el.closest('[data-node-type="frame"]');
+        if (frameEl && !frameEl.closest(".viewport-header")) {
+          const frameId = frameEl.getAttribute("data-node-id");
+          if (frameId && nodeState.nodes.some((n) => n.id === frameId)) {
+            return { id: frameId, element: frameEl };
+          }
+        }
+      }
+      return null;
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0) return;
+      if (isResizing || isRotating || isAdjustingGap) return;
+
+      targetFrameRef.current = findTargetFrame(e);
+
+      const rect = canvas.getBoundingClientRect();
+      setBox({
+        startX: e.clientX - rect.left,
+        startY: e.clientY - rect.top,
+        currentX: e.clientX - rect.left,
+        currentY: e.clientY - rect.top,
+        isDrawing: true,
+      });
+
+      dragDisp.updateStyleHelper({
+        type: "dimensions",
+        position: { x: e.clientX, y: e.clientY },
+        dimensions: {
+          width: 0,
+          height: 0,
+          unit: "px",
+        },
+      });
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!box?.isDrawing) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const end = constrainEnd(
+        activeShapeTool,
+        box,
+        e.clientX - rect.left,
+        e.clientY - rect.top,
+        e.shiftKey
+      );
+
+      setBox((prev) => ({
+        ...prev!,
+        currentX: end.x,
+        currentY: end.y,
+      }));
+
+      const width = Math.abs(end.x - box.startX) / transform.scale;
+      const height = Math.abs(end.y - box.startY) / transform.scale;
+      dragDisp.updateStyleHelper({
+        type: "dimensions",
+        position: { x: e.clientX, y: e.clientY },
+        dimensions: {
+          width: activeShapeTool === "line" ? Math.hypot(width, height) : width,
+          height: activeShapeTool === "line" ? 0 : height,
+          unit: "px",
+        },
+      });
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      if (!box?.isDrawing) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const end = constrainEnd(
+        activeShapeTool,
+        box,
+        e.clientX - rect.left,
+        e.clientY - rect.top,
+        e.shiftKey
+      );
+
+      // Everything below is in canvas pixels
+      const startX = (box.startX - transform.x) / transform.scale;
+      const startY = (box.startY - transform.y) / transform.scale;
+      let endX = (end.x - transform.x) / transform.scale;
+      let endY = (end.y - transform.y) / transform.scale;
+
+      // A click places a shape of the default size
+      const isClick =
+        Math.abs(end.x - box.startX) < 5 && Math.abs(end.y - box.startY) < 5;
+      if (isClick) {
+        endX = startX + CLICK_SIZE;
+        endY = activeShapeTool === "line" ? startY : startY + CLICK_SIZE;
+      }
+
+      const defaults = getShapeDefaults(activeShapeTool);
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      // Lines are drawn from end to end: the box is as long as the line and
+      // turned towards its end
+      let geometry: {
+        left: number;
+        top: number;
+        width: number;
+        height: number;
+        rotate?: number;
+      };
+      if (activeShapeTool === "line") {
+        const height = parseFloat(String(defaults?.style?.height)) || 12;
+        const length = Math.hypot(endX - startX, endY - startY);
+        const angle =
+          (Math.atan2(endY - startY, endX - startX) * 180) / Math.PI;
+        geometry = {
+          left: (startX + endX) / 2 - length / 2,
+          top: (startY + endY) / 2 - height / 2,
+          width: length,
+          height,
+          rotate: round(angle) || undefined,
+        };
+      } else {
+        geometry = {
+          left: Math.min(startX, endX),
+          top: Math.min(startY, endY),
+          width: Math.abs(endX - startX),
+          height: Math.abs(endY - startY),
+        };
+      }
+
+      const inDynamicMode = !!dragState.dynamicModeNodeId;
+      const dynamicParentId = dragState.dynamicModeNodeId;
+      const targetFrame = targetFrameRef.current;
+
+      const shapeStyle = {
+        ...defaults?.style,
+        width: `${round(geometry.width)}px`,
+        height: `${round(geometry.height)}px`,
+        flex: "0 0 auto",
+        ...(geometry.rotate && { rotate: `${geometry.rotate}deg` }),
+      };
+      const newShape: Node = {
+        id: nanoid(),
+        type: activeShapeTool,
+        shape: defaults?.shape,
+        sharedId: nanoid(),
+        ...(targetFrame
+          ? {
+              style: { ...shapeStyle, position: "relative" },
+              inViewport: true,
+              ...(inDynamicMode && {
+                dynamicParentId: dynamicParentId!,
+                dynamicViewportId: dragState.activeViewportInDynamicMode!,
+              }),
+            }
+          : {
+              style: {
+                ...shapeStyle,
+                position: "absolute",
+                left: `${round(geometry.left)}px`,
+                top: `${round(geometry.top)}px`,
+              },
+              inViewport: false,
+              ...(inDynamicMode && {
+                dynamicParentId: dynamicParentId!,
+                dynamicPosition: { x: geometry.left, y: geometry.top },
+                dynamicViewportId: dragState.activeViewportInDynamicMode!,
+              }),
+            }),
+      };
+
+      if (targetFrame) {
+        // Drawing over a frame - insert the shape as a child
+        const frameChildren = nodeState.nodes
+          .filter((n) => n.parentId === targetFrame.id)
+          .map((node) => {
+            const el = document.querySelector(`[data-node-id="${node.id}"]`);
+            return el
+              ? { id: node.id, rect: el.getBoundingClientRect() }
+              : null;
+          })
+          .filter(
+            (item): item is { id: string; rect: DOMRect } => item !== null
+          );
+
+        const dropIndicator = computeFrameDropIndicator(
+          targetFrame.element,
+          frameChildren,
+          e.clientX,
+          e.clientY
+        );
+
+        if (dropIndicator?.dropInfo) {
+          nodeDisp.addNode(
+            newShape,
+            dropIndicator.dropInfo.targetId,
+            dropIndicator.dropInfo.position as "before" | "after" | "inside",
+            true
+          );
+        } else {
+          nodeDisp.addNode(newShape, targetFrame.id, "inside", true);
+        }
+      } else {
+        nodeDisp.addNode(newShape, null, null, false);
+      }
+
+      if (!dragState.dynamicModeNodeId) {
+        nodeDisp.syncViewports();
+      }
+      dragDisp.setSelectedIds([newShape.id]);
+
+      dragDisp.hideStyleHelper();
+      setBox(null);
+      targetFrameRef.current = null;
+      setActiveShapeTool(null);
+    };
+
+    canvas.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+
+    return () => {
+      canvas.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+      dragDisp.hideStyleHelper();
+    };
+  }, [
+    containerRef,
+    box,
+    activeShapeTool,
+    transform,
+    nodeDisp,
+    nodeState.nodes,
+    setActiveShapeTool,
+    dragDisp,
+    isResizing,
+    isRotating,
+    isAdjustingGap,
+    dragState.dynamicModeNodeId,
+    dragState.activeViewportInDynamicMode,
+  ]);
+
+  if (!box?.isDrawing || !activeShapeTool) return null;
+
+  if (activeShapeTool === "line") {
+    return (
+      <svg
+        className="absolute inset-0 pointer-events-none"
+        width="100%"
+        height="100%"
+        style={{ zIndex: 1000, overflow: "visible" }}
+      >
+        <line
+          x1={box.startX}
+          y1={box.startY}
+          x2={box.currentX}
+          y2={box.currentY}
+          stroke="#3b82f6"
+          strokeWidth={1}
+        />
+      </svg>
+    );
+  }
+
+  const left = Math.min(box.startX, box.currentX);
+  const top = Math.min(box.startY, box.currentY);
+  const width = Math.abs(box.currentX - box.startX);
+  const height = Math.abs(box.currentY - box.startY);
+
+  return (
+    <div
+      className={`absolute pointer-events-none border border-blue-500 bg-blue-500/10 ${
+        activeShapeTool === "ellipse" ? "rounded-[50%]" : ""
+      }`}
+      style={{
+        left,
+        top,
+        width,
+        height,
+        zIndex: 1000,
+        userSelect: "none",
+      }}
+    />
+  );
+};
+
+export default ShapeCreator;
@@ -1,5 +1,7 @@
-import React from "react";
+import React, { useState } from "react";
 import {
+  ChevronUp,
+  Circle,
   Hand,
   HelpCircle,
   MousePointer2,
@@ -7,6 +9,12 @@ import {
   Type,
   Frame,
   Pencil,
+  MessageCircle,
+  Slash,
+  Square,
+  Star,
+  Triangle,
+  LucideIcon,
 } from "lucide-react";
 
 import Button from "@/components/ui/button";
@@ -14,6 +22,17 @@ import LineSeparator from "@/components/ui/line-separator";
 import { ThemeToggle } from "@/providers/ThemeToggle";
 import { useBuilder } from "@/builder/context/builderState";
 import { Tooltip } from "react-tooltip";
+import { ShapeType } from "@/builder/reducer/nodeDispatcher";
+import { SHAPE_LABELS, SHAPE_TYPES } from "@/builder/vector/shapeSvg";
+
+const SHAPE_TOOLS: Record<ShapeType, { icon: LucideIcon; shortcut?: string }> =
+  {
+    rectangle: { icon: Square, shortcut: "R" },
+    ellipse: { icon: Circle, shortcut: "O" },
+    line: { icon: Slash, shortcut: "L" },
+    polygon: { icon: Triangle },
+    star: { icon: Star },
+  };
 
 const BottomToolbar = () => {
   const {
@@ -23,8 +42,16 @@ const BottomToolbar = () => {
     setIsTextModeActive,
     isMoveCanvasMode,
     setIsMoveCanvasMode,
+    isCommentModeActive,
+    setIsCommentModeActive,
+    isPenModeActive,
+    setIsPenModeActive,
+    activeShapeTool,
+    setActiveShapeTool,
     isMiddleMouseDown,
   } = useBuilder();
+  const [lastShape, setLastShape] = useState<ShapeType>("rectangle");
+  const [isShapeMenuOpen, setIsShapeMenuOpen] = useState(false);
 
   // Handle Frame and Text mode toggles
   const handleFrameClick = () => {
@@ -36,6 +63,9 @@ const BottomToolbar = () => {
       setIsFrameModeActive(true);
       setIsTextModeActive(false);
       setIsMoveCanvasMode(false);
+      setIsCommentModeActive(false);
+      setIsPenModeActive(false);
+      setActiveShapeTool(null);
     }
   };
 
@@ -48,6 +78,9 @@ const BottomToolbar = () => {
       setIsTextModeActive(true);
       setIsFrameModeActive(false);
       setIsMoveCanvasMode(false);
+      setIsCommentModeActive(false);
+      setIsPenModeActive(false);
+      setActiveShapeTool(null);
     }
   };
 
@@ -60,9 +93,62 @@ const BottomToolbar = () => {
       setIsMoveCanvasMode(true);
       setIsFrameModeActive(false);
       setIsTextModeActive(false);
+      setIsCommentModeActive(false);
+      setIsPenModeActive(false);
+      setActiveShapeTool(null);
+    }
+  };
+
+  const handleCommentClick = () => {
+    // If comment mode is already active, turn it off
+    if (isCommentModeActive) {
+      setIsCommentModeActive(false);
+    } else {
+      // Turn on comment mode and ensure other modes are off
+      setIsCommentModeActive(true);
+      setIsFrameModeActive(false);
+      setIsTextModeActive(false);
+      setIsMoveCanvasMode(false);
+      setIsPenModeActive(false);
+      setActiveShapeTool(null);
+    }
+  };
+
+  const handlePenClick = () => {
+    // If pen mode is already active, turn it off
+    if (isPenModeActive) {
+      setIsPenModeActive(false);
+    } else {
+      // Turn on pen mode and ensure other modes are off
+      setIsPenModeActive(true);
+      setIsFrameModeActive(false);
+      setIsTextModeActive(false);
+      setIsMoveCanvasMode(false);
+      setIsCommentModeActive(false);
+      setActiveShapeTool(null);
+    }
+  };
+
+  const handleShapeClick = (shape: ShapeType) => {
+    setIsShapeMenuOpen(false);
+    setLastShape(shape);
+    // If this shape is already armed, turn it off
+    if (activeShapeTool === shape) {
+      setActiveShapeTool(null);
+    } else {
+      // Arm the shape and ensure other modes are off
+      setActiveShapeTool(shape);
+      setIsFrameModeActive(false);
+      setIsTextModeActive(false);
+      setIsMoveCanvasMode(false);
+      setIsCommentModeActive(false);
+      setIsPenModeActive(false);
     }
   };
 
+  const shapeButton = SHAPE_TOOLS[activeShapeTool || lastShape];
+  const ShapeIcon = shapeButton.icon;
+
   return (
     <div className="fixed bottom-4 bottom-toolbar left-1/2 transform -translate-x-1/2 z-[9998] flex justify-center">
       <div className="bg-[var(--bg-surface)] flex items-center p-1.5 rounded-[var(--radius-md)] border border-[var(--border-light)] shadow-elevation-medium transition-all duration-300 w-auto">
@@ -95,6 +181,59 @@ const BottomToolbar = () => {
             data-tooltip-content="Draw Text (T)"
             data-tooltip-place="top"
           />
+          <div className="relative flex items-center">
+            <Button
+              leftIcon={<ShapeIcon size={32} />}
+              size="md"
+              variant="ghost"
+              onClick={() => handleShapeClick(activeShapeTool || lastShape)}
+              className={
+                activeShapeTool
+                  ? "bg-[var(--accent)] hover:bg-[var(--accent)]  text-white"
+                  : "hover:text-black dark:hover:text-white"
+              }
+              data-tooltip-id="bottom-bar-tooltip"
+              data-tooltip-content={`${
+                SHAPE_LABELS[activeShapeTool || lastShape]
+              }${shapeButton.shortcut ? ` (${shapeButton.shortcut})` : ""}`}
+              data-tooltip-place="top"
+            />
+            <button
+              onClick={() => setIsShapeMenuOpen((open) => !open)}
+              className="h-full px-0.5 text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+              aria-label="Shapes"
+            >
+              <ChevronUp size={12} />
+            </button>
+            {isShapeMenuOpen && (
+              <div className="absolute bottom-full left-0 mb-3 w-40 p-1 bg-[var(--bg-surface)] border border-[var(--border-light)] rounded-[var(--radius-md)] shadow-elevation-medium">
+                {SHAPE_TYPES.map((shape) => {
+                  const { icon: Icon, shortcut } = SHAPE_TOOLS[shape];
+                  return (
+                    <button
+                      key={shape}
+                      onClick={() => handleShapeClick(shape)}
+                      className={`flex items-center gap-2 w-full px-2 h-7 text-xs rounded-[var(--radius-sm)] text-[var(--text-primary)] hover:bg-[var(--control-bg-hover)] ${
+                        activeShapeTool === shape
+                          ? "bg-[var(--control-bg-active)]"
+                          : ""
+                      }`}
+                    >
+                      <Icon size={14} />
+                      <span className="flex-1 text-left">
+                        {SHAPE_LABELS[shape]}
+                      </span>
+                      {shortcut && (
+                        <span className="text-[var(--text-secondary)]">
+                          {shortcut}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
           <LineSeparator
             orientation="vertical"
             height="26px"
@@ -105,8 +244,28 @@ const BottomToolbar = () => {
             leftIcon={<Pencil size={32} />}
             size="md"
             variant="ghost"
+            onClick={handlePenClick}
+            className={
+              isPenModeActive
+                ? "bg-[var(--accent)] hover:bg-[var(--accent)]  text-white"
+                : "hover:text-black dark:hover:text-white"
+            }
+            data-tooltip-id="bottom-bar-tooltip"
+            data-tooltip-content="Pen (P)"
+            data-tooltip-place="top"
+          />
+          <Button
+            leftIcon={<MessageCircle size={32} />}
+            size="md"
+            variant="ghost"
+            onClick={handleCommentClick}
+            className={
+              isCommentModeActive
+                ? "bg-[var(--accent)] hover:bg-[var(--accent)]  text-white"
+                : "hover:text-black dark:hover:text-white"
+            }
             data-tooltip-id="bottom-bar-tooltip"
-            data-tooltip-content="Draw"
+            data-tooltip-content="Comment"
             data-tooltip-place="top"
           />
 
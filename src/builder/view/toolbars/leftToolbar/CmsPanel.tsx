@@ -1,11 +1,439 @@
-import React from "react";
+import React, { useRef, useState } from "react";
+import {
+  AlignLeft,
+  Calendar,
+  ChevronLeft,
+  Database,
+  Download,
+  Hash,
+  Image,
+  Plus,
+  ToggleLeft,
+  Trash2,
+  Type,
+  Upload,
+} from "lucide-react";
+import NextImage from "next/image";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  CMS_FIELD_TYPES,
+  CmsCollection,
+  CmsField,
+  CmsFieldType,
+  CmsFieldValue,
+  CmsItem,
+} from "@/builder/reducer/cmsDispatcher";
+import { parseItems, serializeItems } from "@/builder/cms/collectionData";
+import { downloadBlob } from "@/builder/export/download";
+import { slugify } from "@/builder/context/hooks/usePages";
+import {
+  Label,
+  ToolbarLabel,
+  ToolbarSegmentedControl,
+} from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+import CommitInput, { inputClassName } from "./CommitInput";
+
+const FIELD_TYPE_ICONS: Record<CmsFieldType, React.ElementType> = {
+  text: Type,
+  richText: AlignLeft,
+  image: Image,
+  number: Hash,
+  date: Calendar,
+  boolean: ToggleLeft,
+};
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors";
+
+// Items are listed by their first text field, like a title column
+const getItemTitle = (collection: CmsCollection, item: CmsItem) => {
+  const titleField = collection.fields.find((field) => field.type === "text");
+  const title = titleField ? item.values[titleField.id] : null;
+  return title ? String(title) : "Untitled item";
+};
+
+const FieldValueInput = ({
+  field,
+  value,
+  onChange,
+}: {
+  field: CmsField;
+  value: CmsFieldValue | undefined;
+  onChange: (value: CmsFieldValue) => void;
+}) => {
+  switch (field.type) {
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      );
+    case "date":
+      return (
+        <input
+          type="date"
+          value={value ? String(value) : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={inputClassName}
+        />
+      );
+    case "number":
+      return (
+        <CommitInput
+          type="number"
+          value={String(value ?? 0)}
+          onCommit={(next) => onChange(Number(next) || 0)}
+        />
+      );
+    case "image":
+      return (
+        <div className="space-y-1">
+          <CommitInput
+            type="url"
+            value={String(value ?? "")}
+            placeholder="https://"
+            onCommit={onChange}
+          />
+          {value && (
+            <div className="relative w-full h-20">
+              <NextImage
+                src={String(value)}
+                alt=""
+                fill
+                unoptimized
+                className="object-cover rounded-[var(--radius-md)]"
+              />
+            </div>
+          )}
+        </div>
+      );
+    case "richText":
+      return (
+        <CommitInput
+          multiline
+          value={String(value ?? "")}
+          placeholder="<p>Rich text</p>"
+          onCommit={onChange}
+        />
+      );
+    default:
+      return <CommitInput value={String(value ?? "")} onCommit={onChange} />;
+  }
+};
+
+const FieldsEditor = ({ collection }: { collection: CmsCollection }) => {
+  const { cmsDisp } = useBuilder();
+
+  return (
+    <div className="space-y-1">
+      {collection.fields.map((field) => {
+        const Icon = FIELD_TYPE_ICONS[field.type];
+
+        return (
+          <div key={field.id} className="group flex items-center gap-1.5">
+            <Icon className="w-3.5 h-3.5 shrink-0 text-[var(--accent)]" />
+            <CommitInput
+              value={field.name}
+              onCommit={(name) =>
+                name.trim() &&
+                cmsDisp.updateField(collection.id, field.id, {
+                  name: name.trim(),
+                })
+              }
+            />
+            <select
+              value={field.type}
+              onChange={(e) =>
+                cmsDisp.updateField(collection.id, field.id, {
+                  type: e.target.value as CmsFieldType,
+                })
+              }
+              className={cn(inputClassName, "w-24 shrink-0 px-1")}
+            >
+              {CMS_FIELD_TYPES.map((option) => (
+                <option key={option.type} value={option.type}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => cmsDisp.removeField(collection.id, field.id)}
+              className={cn(
+                iconButtonClassName,
+                "shrink-0 opacity-0 group-hover:opacity-100"
+              )}
+              title="Remove field"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() =>
+          cmsDisp.addField(
+            collection.id,
+            `Field ${collection.fields.length + 1}`,
+            "text"
+          )
+        }
+        className="flex items-center gap-1.5 h-7 px-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add field
+      </button>
+    </div>
+  );
+};
+
+const ItemsEditor = ({ collection }: { collection: CmsCollection }) => {
+  const { cmsDisp } = useBuilder();
+  const [openItemId, setOpenItemId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([serializeItems(collection)], { type: "application/json" }),
+      `${slugify(collection.name) || "collection"}.json`
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      cmsDisp.replaceItems(
+        collection.id,
+        parseItems(collection, await file.text())
+      );
+      setImportError(null);
+    } catch (error) {
+      setImportError(
+        error instanceof Error ? error.message : "Could not read items"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => setOpenItemId(cmsDisp.addItem(collection.id))}
+          className="flex flex-1 items-center gap-1.5 h-7 px-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add item
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={iconButtonClassName}
+          title="Import items from JSON"
+        >
+          <Upload className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={handleExport}
+          className={iconButtonClassName}
+          title="Export items as JSON"
+        >
+          <Download className="w-3.5 h-3.5" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {importError && (
+        <div className="px-1 text-xs text-red-500">{importError}</div>
+      )}
+
+      <ul className="space-y-0.5 list-none">
+        {collection.items.map((item) => (
+          <li key={item.id} className="list-none">
+            <div
+              onClick={() =>
+                setOpenItemId(openItemId === item.id ? null : item.id)
+              }
+              className={cn(
+                "group flex items-center gap-2 px-2 h-7 rounded-[var(--radius-md)] cursor-pointer transition-colors duration-150",
+                openItemId === item.id
+                  ? "bg-[var(--bg-hover)]"
+                  : "hover:bg-[var(--bg-hover)]"
+              )}
+            >
+              <span className="text-xs font-medium truncate flex-1 text-[var(--text-secondary)]">
+                {getItemTitle(collection, item)}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  cmsDisp.deleteItem(collection.id, item.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete item"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {openItemId === item.id && (
+              <div className="mx-2 mb-2 p-2 space-y-2 rounded-[var(--radius-md)] bg-[var(--bg-toolbar)]">
+                {collection.fields.map((field) => (
+                  <div key={field.id} className="space-y-1">
+                    <Label>{field.name}</Label>
+                    <FieldValueInput
+                      field={field}
+                      value={item.values[field.id]}
+                      onChange={(value) =>
+                        cmsDisp.setItemValue(
+                          collection.id,
+                          item.id,
+                          field.id,
+                          value
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const CollectionEditor = ({
+  collection,
+  onBack,
+}: {
+  collection: CmsCollection;
+  onBack: () => void;
+}) => {
+  const { cmsDisp } = useBuilder();
+  const [tab, setTab] = useState<"items" | "fields">("items");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1">
+        <button onClick={onBack} className={iconButtonClassName} title="Back">
+          <ChevronLeft className="w-3.5 h-3.5" />
+        </button>
+        <CommitInput
+          value={collection.name}
+          onCommit={(name) =>
+            name.trim() && cmsDisp.renameCollection(collection.id, name.trim())
+          }
+        />
+        <button
+          onClick={() => {
+            onBack();
+            cmsDisp.deleteCollection(collection.id);
+          }}
+          className={iconButtonClassName}
+          title="Delete collection"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <ToolbarSegmentedControl
+        size="sm"
+        value={tab}
+        onChange={(value) => setTab(value as "items" | "fields")}
+        options={[
+          { label: `Items (${collection.items.length})`, value: "items" },
+          { label: "Fields", value: "fields" },
+        ]}
+      />
+
+      {tab === "items" ? (
+        <ItemsEditor collection={collection} />
+      ) : (
+        <FieldsEditor collection={collection} />
+      )}
+    </div>
+  );
+};
 
 const CmsPanel = () => {
+  const { cmsState, cmsDisp } = useBuilder();
+  const [openCollectionId, setOpenCollectionId] = useState<string | null>(null);
+
+  const { collections } = cmsState;
+  const openCollection = collections.find(
+    (collection) => collection.id === openCollectionId
+  );
+
   return (
-    <div className="p-4">
-      <div className="text-white">
-        {/* Add your CMS implementation here */}
-        CMS Panel Content
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-2">
+        {openCollection ? (
+          <CollectionEditor
+            collection={openCollection}
+            onBack={() => setOpenCollectionId(null)}
+          />
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <ToolbarLabel>
+                <span className="ml-2">Collections</span>
+              </ToolbarLabel>
+              <button
+                onClick={() =>
+                  setOpenCollectionId(
+                    cmsDisp.createCollection(
+                      `Collection ${collections.length + 1}`
+                    )
+                  )
+                }
+                className={iconButtonClassName}
+                title="Add collection"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {collections.length === 0 && (
+              <div className="px-2 text-xs text-[var(--text-secondary)]">
+                Collections hold repeating content like blog posts or team
+                members. Bind a frame to a collection to repeat its children
+                once per item.
+              </div>
+            )}
+
+            <ul className="space-y-0.5 list-none">
+              {collections.map((collection) => (
+                <li key={collection.id} className="list-none">
+                  <div
+                    onClick={() => setOpenCollectionId(collection.id)}
+                    className="flex items-center gap-2 px-2 h-7 rounded-[var(--radius-md)] cursor-pointer hover:bg-[var(--bg-hover)] transition-colors duration-150"
+                  >
+                    <Database className="w-3.5 h-3.5 shrink-0 text-[var(--accent)]" />
+                    <span className="text-xs font-medium truncate flex-1 text-[var(--text-secondary)]">
+                      {collection.name}
+                    </span>
+                    <span className="text-xs text-[var(--text-secondary)]">
+                      {collection.items.length}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from "react";
+import { CheckCircle2 } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { CommentThread } from "@/builder/reducer/commentDispatcher";
+import { getPagesWithActiveNodes } from "@/builder/persistence/projectDocument";
+import { findParentViewport } from "@/builder/context/utils";
+import {
+  Label,
+  ToolbarLabel,
+  ToolbarSegmentedControl,
+} from "@/builder/tools/_components/ToolbarAtoms";
+import {
+  CommentAvatar,
+  CommentText,
+} from "@/builder/context/canvasHelpers/CommentThread";
+import { cn } from "@/providers/cn";
+import { inputClassName } from "./CommitInput";
+
+type StatusFilter = "open" | "resolved" | "all";
+
+const ALL = "all";
+
+const STATUS_OPTIONS: { value: StatusFilter; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+];
+
+const ThreadRow = ({
+  thread,
+  pageName,
+  isActive,
+  onClick,
+}: {
+  thread: CommentThread;
+  pageName?: string;
+  isActive: boolean;
+  onClick: () => void;
+}) => {
+  const [first, ...replies] = thread.messages;
+  if (!first) return null;
+
+  return (
+    <li className="list-none">
+      <div
+        onClick={onClick}
+        className={cn(
+          "p-2 space-y-1 rounded-[var(--radius-md)] cursor-pointer hover:bg-[var(--bg-hover)] transition-colors duration-150",
+          isActive && "bg-[var(--bg-hover)]",
+          thread.resolved && "opacity-60"
+        )}
+      >
+        <div className="flex items-center gap-1.5">
+          <CommentAvatar author={first.author} />
+          <span className="text-xs font-medium truncate flex-1 text-[var(--text-primary)]">
+            {first.author.name}
+          </span>
+          {thread.resolved && (
+            <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-[var(--accent)]" />
+          )}
+        </div>
+        <div className="pl-6 space-y-1">
+          <div className="line-clamp-3">
+            <CommentText message={first} />
+          </div>
+          <div className="text-xs text-[var(--text-secondary)]">
+            {[
+              replies.length > 0 &&
+                `${replies.length} ${replies.length === 1 ? "reply" : "replies"}`,
+              pageName,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+const CommentsPanel = () => {
+  const {
+    commentState,
+    pageState,
+    nodeState,
+    switchPage,
+    interfaceState,
+    interfaceDisp,
+  } = useBuilder();
+  const [status, setStatus] = useState<StatusFilter>("open");
+  const [pageId, setPageId] = useState(pageState.activePageId);
+  const [viewportId, setViewportId] = useState(ALL);
+
+  const pages = useMemo(
+    () => getPagesWithActiveNodes(pageState, nodeState.nodes),
+    [pageState, nodeState.nodes]
+  );
+  const selectedPage = pages.find((page) => page.id === pageId);
+  const viewports = (selectedPage?.nodes || []).filter(
+    (node) => node.isViewport
+  );
+
+  const threads = commentState.threads
+    .filter((thread) => {
+      if (status === "open" && thread.resolved) return false;
+      if (status === "resolved" && !thread.resolved) return false;
+      if (pageId !== ALL && thread.pageId !== pageId) return false;
+      if (viewportId !== ALL && selectedPage) {
+        return (
+          findParentViewport(thread.nodeId, selectedPage.nodes) === viewportId
+        );
+      }
+      return true;
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const openThread = (thread: CommentThread) => {
+    switchPage(thread.pageId);
+    interfaceDisp.setActiveComment(thread.id);
+  };
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-3">
+        <ToolbarLabel>
+          <span className="ml-2">Comments</span>
+        </ToolbarLabel>
+
+        <ToolbarSegmentedControl
+          size="sm"
+          value={status}
+          onChange={(value) => setStatus(value as StatusFilter)}
+          options={STATUS_OPTIONS}
+        />
+
+        <div className="grid grid-cols-2 gap-1.5">
+          <div className="space-y-1">
+            <Label>Page</Label>
+            <select
+              value={pageId}
+              onChange={(e) => {
+                setPageId(e.target.value);
+                setViewportId(ALL);
+              }}
+              className={cn(inputClassName, "px-1")}
+            >
+              <option value={ALL}>All pages</option>
+              {pages.map((page) => (
+                <option key={page.id} value={page.id}>
+                  {page.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label>Viewport</Label>
+            <select
+              value={viewportId}
+              disabled={!selectedPage}
+              onChange={(e) => setViewportId(e.target.value)}
+              className={cn(inputClassName, "px-1 disabled:opacity-50")}
+            >
+              <option value={ALL}>All viewports</option>
+              {viewports.map((viewport) => (
+                <option key={viewport.id} value={viewport.id}>
+                  {viewport.viewportName || `${viewport.viewportWidth}px`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {threads.length === 0 ? (
+          <div className="px-2 text-xs text-[var(--text-secondary)]">
+            {commentState.threads.length === 0
+              ? "Pick the comment tool in the bottom toolbar and click anything on the canvas to start a thread."
+              : "No comments match these filters."}
+          </div>
+        ) : (
+          <ul className="space-y-1 list-none">
+            {threads.map((thread) => (
+              <ThreadRow
+                key={thread.id}
+                thread={thread}
+                pageName={
+                  pageId === ALL
+                    ? pages.find((page) => page.id === thread.pageId)?.name
+                    : undefined
+                }
+                isActive={thread.id === interfaceState.activeCommentId}
+                onClick={() => openThread(thread)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from "react";
+import { useBuilder } from "@/builder/context/builderState";
+import { cn } from "@/providers/cn";
+
+export const inputClassName =
+  "w-full h-7 px-2 text-xs bg-[var(--grid-line)] border border-[var(--control-border)] hover:border-[var(--control-border-hover)] focus:border-[var(--border-focus)] text-[var(--text-primary)] rounded-[var(--radius-lg)] focus:outline-none transition-colors";
+
+// Input that only commits on blur or Enter, so values like page slugs are
+// not rewritten (or pushed into project state) on every keystroke.
+const CommitInput = ({
+  value,
+  onCommit,
+  placeholder,
+  multiline = false,
+  type = "text",
+}: {
+  value: string;
+  onCommit: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  type?: "text" | "number" | "url";
+}) => {
+  const { setIsEditingText } = useBuilder();
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    setIsEditingText(false);
+    if (draft !== value) onCommit(draft);
+  };
+
+  const sharedProps = {
+    value: draft,
+    placeholder,
+    onFocus: () => setIsEditingText(true),
+    onBlur: commit,
+  };
+
+  return multiline ? (
+    <textarea
+      {...sharedProps}
+      rows={3}
+      onChange={(e) => setDraft(e.target.value)}
+      className={cn(inputClassName, "h-auto py-1.5 resize-none")}
+    />
+  ) : (
+    <input
+      {...sharedProps}
+      type={type}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+        if (e.key === "Escape") {
+          setDraft(value);
+          e.currentTarget.blur();
+        }
+      }}
+      className={inputClassName}
+    />
+  );
+};
+
+export default CommitInput;
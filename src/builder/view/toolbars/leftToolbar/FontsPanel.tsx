@@ -0,0 +1,195 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  FONT_WEIGHTS,
+  FontAsset,
+  FontStyle,
+} from "@/builder/reducer/fontDispatcher";
+import { FONT_FILE_ACCEPT, readFontFile } from "@/builder/fonts/fontMetadata";
+import { ToolbarLabel } from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+import CommitInput, { inputClassName } from "./CommitInput";
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const FontFaceRow = ({ font }: { font: FontAsset }) => {
+  const { fontDisp } = useBuilder();
+
+  return (
+    <li
+      className="group list-none flex items-center gap-1"
+      title={font.fileName}
+    >
+      <span
+        className="w-6 shrink-0 text-center text-sm text-[var(--text-primary)]"
+        style={{
+          fontFamily: `"${font.family}"`,
+          fontWeight: font.weight,
+          fontStyle: font.style,
+        }}
+      >
+        Aa
+      </span>
+      <select
+        value={font.weight}
+        onChange={(e) =>
+          fontDisp.updateFont(font.id, { weight: Number(e.target.value) })
+        }
+        className={cn(inputClassName, "px-1")}
+      >
+        {/* Variable and unusual weights read from the file stay selectable */}
+        {Array.from(new Set([...FONT_WEIGHTS, font.weight]))
+          .sort((a, b) => a - b)
+          .map((weight) => (
+            <option key={weight} value={weight}>
+              {weight}
+            </option>
+          ))}
+      </select>
+      <select
+        value={font.style}
+        onChange={(e) =>
+          fontDisp.updateFont(font.id, {
+            style: e.target.value as FontStyle,
+          })
+        }
+        className={cn(inputClassName, "px-1")}
+      >
+        <option value="normal">Normal</option>
+        <option value="italic">Italic</option>
+      </select>
+      <button
+        onClick={() => fontDisp.deleteFont(font.id)}
+        className={cn(
+          iconButtonClassName,
+          "shrink-0 opacity-0 group-hover:opacity-100"
+        )}
+        title="Delete font"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </li>
+  );
+};
+
+const FontsPanel = () => {
+  const { fontState, fontDisp } = useBuilder();
+  const [isUploading, setIsUploading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Faces grouped by family, lightest upright face first
+  const families = useMemo(() => {
+    const groups = new Map<string, FontAsset[]>();
+    fontState.fonts.forEach((font) => {
+      groups.set(font.family, [...(groups.get(font.family) || []), font]);
+    });
+    return Array.from(groups, ([family, fonts]) => ({
+      family,
+      fonts: [...fonts].sort(
+        (a, b) => a.weight - b.weight || a.style.localeCompare(b.style)
+      ),
+    })).sort((a, b) => a.family.localeCompare(b.family));
+  }, [fontState.fonts]);
+
+  const upload = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsUploading(true);
+    const failed: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        fontDisp.addFont(await readFontFile(file));
+      } catch (error) {
+        failed.push(error instanceof Error ? error.message : file.name);
+      }
+    }
+    setErrors(failed);
+    setIsUploading(false);
+  };
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <ToolbarLabel>
+              <span className="ml-2">Fonts</span>
+            </ToolbarLabel>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className={iconButtonClassName}
+              title="Upload fonts"
+            >
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={FONT_FILE_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                upload(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {errors.map((error) => (
+            <div key={error} className="px-2 text-xs text-[#f24822]">
+              {error}
+            </div>
+          ))}
+
+          {families.length === 0 ? (
+            <div className="px-2 text-xs text-[var(--text-secondary)]">
+              Upload WOFF2, TTF or OTF files to use your own fonts. They are
+              saved with the project and ship with every export.
+            </div>
+          ) : (
+            <ul className="space-y-3 list-none">
+              {families.map(({ family, fonts }) => (
+                <li key={family} className="list-none space-y-1">
+                  <CommitInput
+                    value={family}
+                    onCommit={(name) =>
+                      name.trim() && fontDisp.renameFamily(family, name.trim())
+                    }
+                  />
+                  <ul className="space-y-1 list-none">
+                    {fonts.map((font) => (
+                      <FontFaceRow key={font.id} font={font} />
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <ToolbarLabel>
+            <span className="ml-2">Providers</span>
+          </ToolbarLabel>
+          <label className="flex items-center gap-1.5 px-2 text-xs text-[var(--text-primary)]">
+            <input
+              type="checkbox"
+              checked={fontState.googleFonts}
+              onChange={(e) => fontDisp.setGoogleFonts(e.target.checked)}
+            />
+            Google Fonts
+          </label>
+          <div className="px-2 text-xs text-[var(--text-secondary)]">
+            Loads families no uploaded font provides from Google. Turn it off to
+            keep the project and its exports offline.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FontsPanel;
@@ -0,0 +1,130 @@
+import React from "react";
+import { Circle, CircleDot, Redo2, Undo2 } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { ToolbarLabel } from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const HistoryRow = ({
+  label,
+  time,
+  isCurrent,
+  isUndone,
+  onClick,
+}: {
+  label: string;
+  time?: string;
+  isCurrent: boolean;
+  isUndone: boolean;
+  onClick: () => void;
+}) => {
+  const Icon = isCurrent ? CircleDot : Circle;
+
+  return (
+    <li className="list-none">
+      <div
+        onClick={onClick}
+        className={cn(
+          "flex items-center gap-2 px-2 h-7 rounded-[var(--radius-md)] cursor-pointer hover:bg-[var(--bg-hover)] transition-colors duration-150",
+          isCurrent && "bg-[var(--bg-hover)]",
+          isUndone && "opacity-50"
+        )}
+      >
+        <Icon
+          className={cn(
+            "w-3 h-3 shrink-0",
+            isCurrent ? "text-[var(--accent)]" : "text-[var(--text-secondary)]"
+          )}
+        />
+        <span className="text-xs font-medium truncate flex-1 text-[var(--text-secondary)]">
+          {label}
+        </span>
+        {time && (
+          <span className="text-xs tabular-nums text-[var(--text-secondary)]">
+            {time}
+          </span>
+        )}
+      </div>
+    </li>
+  );
+};
+
+const HistoryPanel = () => {
+  const { history, goToHistoryStep, undo, redo, canUndo, canRedo } =
+    useBuilder();
+
+  const entries = [...history.past, ...history.future];
+  const currentStep = history.past.length;
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-2">
+        <div className="flex items-center justify-between">
+          <ToolbarLabel>
+            <span className="ml-2">History</span>
+          </ToolbarLabel>
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className={iconButtonClassName}
+              title="Undo"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className={iconButtonClassName}
+              title="Redo"
+            >
+              <Redo2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        {entries.length === 0 && (
+          <div className="px-2 text-xs text-[var(--text-secondary)]">
+            Every change to the page is listed here. Click a step to go back to
+            it; later steps stay available until you make a new change.
+          </div>
+        )}
+
+        {/* Newest first; step n is the state after entries[n - 1] */}
+        <ul className="space-y-0.5 list-none">
+          {entries
+            .map((entry, index) => (
+              <HistoryRow
+                key={entry.id}
+                label={entry.label}
+                time={formatTime(entry.timestamp)}
+                isCurrent={index + 1 === currentStep}
+                isUndone={index + 1 > currentStep}
+                onClick={() => goToHistoryStep(index + 1)}
+              />
+            ))
+            .reverse()}
+          {entries.length > 0 && (
+            <HistoryRow
+              label="Start"
+              isCurrent={currentStep === 0}
+              isUndone={false}
+              onClick={() => goToHistoryStep(0)}
+            />
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
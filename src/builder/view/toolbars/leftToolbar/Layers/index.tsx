@@ -13,6 +13,7 @@ const Layers: React.FC = () => {
     setNodeStyle,
     transform,
     contentRef,
+    pageState,
   } = useBuilder();
   const isDynamicMode = !!dragState.dynamicModeNodeId;
 
@@ -24,6 +25,9 @@ const Layers: React.FC = () => {
     activeViewportId
   );
   const panelRef = useRef<HTMLDivElement>(null);
+  const activePage = pageState.pages.find(
+    (page) => page.id === pageState.activePageId
+  );
 
   const handlePanelDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     if ((e.target as HTMLElement).closest("li")) return;
@@ -115,6 +119,9 @@ const Layers: React.FC = () => {
       <div className="p-2.5 mt-1 mb-6 space-y-2">
         <ToolbarLabel>
           <span className="ml-2">Layers</span>
+          {activePage && (
+            <span className="ml-1 font-medium">· {activePage.name}</span>
+          )}
         </ToolbarLabel>
         {treeData.map((node) => (
           <TreeNodeComponent
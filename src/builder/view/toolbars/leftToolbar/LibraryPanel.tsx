@@ -1,7 +1,110 @@
 import React from "react";
+import { Component, Crosshair, Plus } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { useComponentActions } from "@/builder/context/hooks/useComponentActions";
+import {
+  canCreateComponent,
+  getComponentMasters,
+  getNextComponentName,
+  getProjectNodes,
+} from "@/builder/library/componentSync";
+import { ToolbarLabel } from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors";
 
 const LibraryPanel = () => {
-  return <div>LibraryPanel</div>;
+  const { nodeState, nodeDisp, dragState, pageState } = useBuilder();
+  const { goToMaster, insertInstance } = useComponentActions();
+
+  // Components belong to the project, whichever page their master is on
+  const projectNodes = getProjectNodes(pageState, nodeState.nodes);
+  const masters = getComponentMasters(projectNodes);
+  const selected = nodeState.nodes.find(
+    (node) => node.id === dragState.selectedIds[0]
+  );
+  const canCreate =
+    dragState.selectedIds.length === 1 &&
+    selected &&
+    canCreateComponent(selected, nodeState.nodes);
+
+  // Instances are counted once, not once per viewport copy
+  const getInstanceCount = (componentId: string) =>
+    new Set(
+      projectNodes
+        .filter(
+          (node) => node.componentId === componentId && !node.isComponentMaster
+        )
+        .map((node) => node.sharedId || node.id)
+    ).size;
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-2">
+        <div className="flex items-center justify-between">
+          <ToolbarLabel>
+            <span className="ml-2">Components</span>
+          </ToolbarLabel>
+          {canCreate && (
+            <button
+              onClick={() =>
+                nodeDisp.createComponent(
+                  selected.id,
+                  getNextComponentName(projectNodes)
+                )
+              }
+              className={iconButtonClassName}
+              title="Create component from selection"
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        {masters.length === 0 && (
+          <div className="px-2 text-xs text-[var(--text-secondary)]">
+            Turn a frame into a component to reuse it. Its instances follow
+            every change to the master and keep the text, images and styles you
+            override on them.
+          </div>
+        )}
+
+        <ul className="space-y-0.5 list-none">
+          {masters.map((master) => (
+            <li key={master.componentId} className="list-none">
+              <div
+                onClick={() => insertInstance(master.componentId)}
+                className="group flex items-center gap-2 px-2 h-7 rounded-[var(--radius-md)] cursor-pointer hover:bg-[var(--bg-hover)] transition-colors duration-150"
+                title="Insert an instance"
+              >
+                <Component className="w-3.5 h-3.5 shrink-0 text-[var(--accent)]" />
+                <span className="text-xs font-medium truncate flex-1 text-[var(--text-secondary)]">
+                  {master.customName || "Component"}
+                </span>
+                <span className="text-xs text-[var(--text-secondary)]">
+                  {getInstanceCount(master.componentId)}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    goToMaster(master.componentId);
+                  }}
+                  className={cn(
+                    iconButtonClassName,
+                    "shrink-0 opacity-0 group-hover:opacity-100"
+                  )}
+                  title="Go to master"
+                >
+                  <Crosshair className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
 };
 
 export default LibraryPanel;
@@ -1,7 +1,267 @@
-import React from "react";
+import React, { useState } from "react";
+import { Copy, FileText, Plus, Settings, Trash2 } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { ProjectPage } from "@/builder/persistence/projectDocument";
+import { Label, ToolbarLabel } from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+import CommitInput from "./CommitInput";
+
+const PageSettings = ({ page }: { page: ProjectPage }) => {
+  const { updatePage } = useBuilder();
+
+  return (
+    <div className="mx-2 mb-2 p-2 space-y-2 rounded-[var(--radius-md)] bg-[var(--bg-toolbar)]">
+      <div className="space-y-1">
+        <Label>Slug</Label>
+        <CommitInput
+          value={page.slug}
+          onCommit={(slug) => updatePage(page.id, { slug })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>SEO title</Label>
+        <CommitInput
+          value={page.seo.title}
+          placeholder={page.name}
+          onCommit={(title) =>
+            updatePage(page.id, { seo: { ...page.seo, title } })
+          }
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Description</Label>
+        <CommitInput
+          multiline
+          value={page.seo.description}
+          onCommit={(description) =>
+            updatePage(page.id, { seo: { ...page.seo, description } })
+          }
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Social image URL</Label>
+        <CommitInput
+          value={page.seo.ogImage || ""}
+          placeholder="https://"
+          onCommit={(ogImage) =>
+            updatePage(page.id, { seo: { ...page.seo, ogImage } })
+          }
+        />
+      </div>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!page.seo.noIndex}
+          onChange={(e) =>
+            updatePage(page.id, {
+              seo: { ...page.seo, noIndex: e.target.checked },
+            })
+          }
+        />
+        <Label>Hide from search engines</Label>
+      </label>
+    </div>
+  );
+};
 
 const PagesPanel = () => {
-  return <div>PagesPanel</div>;
+  const {
+    pageState,
+    dragDisp,
+    switchPage,
+    createPage,
+    updatePage,
+    movePage,
+    duplicatePage,
+    deletePage,
+    setIsEditingText,
+  } = useBuilder();
+  const [editingPageId, setEditingPageId] = useState<string | null>(null);
+  const [settingsPageId, setSettingsPageId] = useState<string | null>(null);
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const { pages, activePageId } = pageState;
+
+  const handleSwitch = (pageId: string) => {
+    if (pageId === activePageId) return;
+    dragDisp.clearSelection();
+    switchPage(pageId);
+  };
+
+  const handleCreate = () => {
+    dragDisp.clearSelection();
+    const pageId = createPage();
+    setEditingPageId(pageId);
+  };
+
+  const handleRename = (page: ProjectPage, name: string) => {
+    setEditingPageId(null);
+    setIsEditingText(false);
+    if (name.trim() && name !== page.name) {
+      updatePage(page.id, { name: name.trim() });
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggedPageId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isAfter = e.clientY > rect.top + rect.height / 2;
+    setDropIndex(isAfter ? index + 1 : index);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedPageId !== null && dropIndex !== null) {
+      const fromIndex = pages.findIndex((page) => page.id === draggedPageId);
+      // Removing the page first shifts every later index down by one
+      movePage(
+        draggedPageId,
+        dropIndex > fromIndex ? dropIndex - 1 : dropIndex
+      );
+    }
+    setDraggedPageId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-2">
+        <div className="flex items-center justify-between">
+          <ToolbarLabel>
+            <span className="ml-2">Pages</span>
+          </ToolbarLabel>
+          <button
+            onClick={handleCreate}
+            className="w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors"
+            title="Add page"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <ul className="space-y-0.5 list-none">
+          {pages.map((page, index) => {
+            const isActive = page.id === activePageId;
+
+            return (
+              <li key={page.id} className="relative select-none list-none">
+                <div
+                  draggable={editingPageId !== page.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggedPageId(page.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedPageId(null);
+                    setDropIndex(null);
+                  }}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDrop={handleDrop}
+                  onClick={() => handleSwitch(page.id)}
+                  onDoubleClick={() => setEditingPageId(page.id)}
+                  className={cn(
+                    "group relative flex items-center gap-2 px-2 h-7 rounded-[var(--radius-md)] cursor-pointer transition-colors duration-150",
+                    isActive
+                      ? "bg-[var(--accent)] text-white"
+                      : "hover:bg-[var(--bg-hover)]",
+                    draggedPageId === page.id && "opacity-20"
+                  )}
+                >
+                  {dropIndex === index && (
+                    <div className="absolute left-0 right-0 top-0 h-0.5 bg-[var(--accent)]" />
+                  )}
+                  {dropIndex === index + 1 && index === pages.length - 1 && (
+                    <div className="absolute left-0 right-0 bottom-0 h-0.5 bg-[var(--accent)]" />
+                  )}
+
+                  <FileText
+                    className={cn(
+                      "w-3.5 h-3.5 shrink-0",
+                      isActive ? "text-white" : "text-[var(--accent)]"
+                    )}
+                  />
+
+                  {editingPageId === page.id ? (
+                    <input
+                      autoFocus
+                      defaultValue={page.name}
+                      onFocus={(e) => {
+                        setIsEditingText(true);
+                        e.currentTarget.select();
+                      }}
+                      onBlur={(e) => handleRename(page, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur();
+                        if (e.key === "Escape") {
+                          e.currentTarget.value = page.name;
+                          e.currentTarget.blur();
+                        }
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-xs font-medium bg-transparent border border-[var(--border-light)] rounded px-1 flex-1 h-[20px] outline-none"
+                    />
+                  ) : (
+                    <span
+                      className={cn(
+                        "text-xs font-medium truncate flex-1",
+                        isActive ? "text-white" : "text-[var(--text-secondary)]"
+                      )}
+                    >
+                      {page.name}
+                    </span>
+                  )}
+
+                  <div
+                    className={cn(
+                      "flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity",
+                      settingsPageId === page.id && "opacity-100"
+                    )}
+                  >
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSettingsPageId(
+                          settingsPageId === page.id ? null : page.id
+                        );
+                      }}
+                      title="Page settings"
+                    >
+                      <Settings className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        duplicatePage(page.id);
+                      }}
+                      title="Duplicate page"
+                    >
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    {pages.length > 1 && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (isActive) dragDisp.clearSelection();
+                          deletePage(page.id);
+                        }}
+                        title="Delete page"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {settingsPageId === page.id && <PageSettings page={page} />}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
 };
 
 export default PagesPanel;
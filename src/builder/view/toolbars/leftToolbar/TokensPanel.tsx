@@ -0,0 +1,217 @@
+import React from "react";
+import { Plus, Trash2, Type } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import {
+  DESIGN_TOKEN_TYPES,
+  DesignToken,
+  DesignTokenType,
+  TypographyTokenValue,
+} from "@/builder/reducer/tokenDispatcher";
+import {
+  getTypographyStyles,
+  stripInlineTypography,
+} from "@/builder/tokens/tokenCss";
+import { Label, ToolbarLabel } from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+import CommitInput from "./CommitInput";
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors";
+
+const TYPOGRAPHY_FIELDS: { key: keyof TypographyTokenValue; label: string }[] =
+  [
+    { key: "fontFamily", label: "Family" },
+    { key: "fontSize", label: "Size" },
+    { key: "fontWeight", label: "Weight" },
+    { key: "lineHeight", label: "Line height" },
+    { key: "letterSpacing", label: "Spacing" },
+  ];
+
+const TokenPreview = ({ token }: { token: DesignToken }) => {
+  const { tokenDisp } = useBuilder();
+
+  if (token.type === "color") {
+    return (
+      <label
+        className="relative w-5 h-5 shrink-0 rounded-[var(--radius-md)] border border-[var(--control-border)] cursor-pointer"
+        style={{ background: token.value }}
+      >
+        <input
+          type="color"
+          value={
+            token.value.startsWith("#") ? token.value.slice(0, 7) : "#000000"
+          }
+          onChange={(e) =>
+            tokenDisp.updateToken(token.id, { value: e.target.value })
+          }
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+      </label>
+    );
+  }
+
+  if (token.type === "typography") {
+    return <Type className="w-3.5 h-3.5 shrink-0 text-[var(--accent)]" />;
+  }
+
+  return (
+    <div className="w-5 h-5 shrink-0 flex items-center justify-center">
+      <div
+        className="w-3.5 h-3.5 border border-[var(--accent)]"
+        style={{
+          borderRadius: token.type === "radius" ? token.value : undefined,
+        }}
+      />
+    </div>
+  );
+};
+
+const TokenRow = ({ token }: { token: DesignToken }) => {
+  const { tokenDisp, nodeState, dragState, setNodeStyle } = useBuilder();
+
+  // Text nodes lose the fonts set on their spans so the token shows through
+  const applyTypography = () => {
+    const styles = getTypographyStyles(token);
+    dragState.selectedIds.forEach((id) => {
+      const node = nodeState.nodes.find((n) => n.id === id);
+      if (!node || node.isViewport) return;
+      setNodeStyle(
+        node.type === "text" && node.style.text
+          ? { ...styles, text: stripInlineTypography(node.style.text) }
+          : styles,
+        [id],
+        true
+      );
+    });
+  };
+
+  return (
+    <li className="list-none space-y-1">
+      <div className="group flex items-center gap-1.5">
+        <TokenPreview token={token} />
+        <CommitInput
+          value={token.name}
+          onCommit={(name) =>
+            name.trim() &&
+            tokenDisp.updateToken(token.id, { name: name.trim() })
+          }
+        />
+        {token.type !== "typography" && (
+          <div className="w-20 shrink-0">
+            <CommitInput
+              value={token.value}
+              onCommit={(value) =>
+                value.trim() &&
+                tokenDisp.updateToken(token.id, { value: value.trim() })
+              }
+            />
+          </div>
+        )}
+        <button
+          onClick={() => tokenDisp.deleteToken(token.id)}
+          className={cn(
+            iconButtonClassName,
+            "shrink-0 opacity-0 group-hover:opacity-100"
+          )}
+          title="Delete token"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {token.type === "typography" && token.typography && (
+        <div className="pl-6 space-y-1">
+          <div className="grid grid-cols-2 gap-1">
+            {TYPOGRAPHY_FIELDS.map(({ key, label }) => (
+              <div
+                key={key}
+                className={cn(key === "fontFamily" && "col-span-2")}
+                title={label}
+              >
+                <CommitInput
+                  value={token.typography![key]}
+                  placeholder={label}
+                  onCommit={(value) =>
+                    value.trim() &&
+                    tokenDisp.updateToken(token.id, {
+                      typography: { [key]: value.trim() },
+                    })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+          {dragState.selectedIds.length > 0 && (
+            <button
+              onClick={applyTypography}
+              className="flex items-center gap-1.5 h-6 px-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+            >
+              Apply to selection
+            </button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const TokensPanel = () => {
+  const { tokenState, tokenDisp } = useBuilder();
+
+  const getTokensOfType = (type: DesignTokenType) =>
+    tokenState.tokens.filter((token) => token.type === type);
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-4">
+        {tokenState.tokens.length === 0 && (
+          <div className="px-2 text-xs text-[var(--text-secondary)]">
+            Tokens are named values for colors, fonts, spacing and radii. Bind a
+            style to a token and every node using it follows when the token
+            changes.
+          </div>
+        )}
+
+        {DESIGN_TOKEN_TYPES.map(({ type, label }) => {
+          const tokens = getTokensOfType(type);
+
+          return (
+            <div key={type} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <ToolbarLabel>
+                  <span className="ml-2">{label}</span>
+                </ToolbarLabel>
+                <button
+                  onClick={() =>
+                    tokenDisp.createToken(
+                      type,
+                      `${type[0].toUpperCase()}${type.slice(1)} ${
+                        tokens.length + 1
+                      }`
+                    )
+                  }
+                  className={iconButtonClassName}
+                  title={`Add ${label.toLowerCase()} token`}
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {tokens.length === 0 ? (
+                <Label>No tokens yet</Label>
+              ) : (
+                <ul className="space-y-1 list-none">
+                  {tokens.map((token) => (
+                    <TokenRow key={token.id} token={token} />
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TokensPanel;
@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useBuilder } from "@/builder/context/builderState";
+import { ProjectVersion } from "@/builder/reducer/versionDispatcher";
+import {
+  cleanNodes,
+  getPagesWithActiveNodes,
+} from "@/builder/persistence/projectDocument";
+import {
+  diffVersions,
+  getVersionHighlights,
+  VersionChange,
+  VersionChangeType,
+} from "@/builder/versions/versionDiff";
+import { Label, ToolbarLabel } from "@/builder/tools/_components/ToolbarAtoms";
+import { cn } from "@/providers/cn";
+import CommitInput, { inputClassName } from "./CommitInput";
+
+const iconButtonClassName =
+  "w-6 h-6 flex items-center justify-center rounded-[var(--radius-md)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+// Compare against the project as it is now rather than a saved version
+const CURRENT = "current";
+
+const CHANGE_LABELS: Record<VersionChangeType, string> = {
+  added: "Added",
+  removed: "Removed",
+  restyled: "Restyled",
+};
+
+const CHANGE_DOT_CLASSES: Record<VersionChangeType, string> = {
+  added: "bg-[#14ae5c]",
+  removed: "bg-[#f24822]",
+  restyled: "bg-[#ff8a00]",
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const VersionRow = ({ version }: { version: ProjectVersion }) => {
+  const { versionDisp, restoreVersion } = useBuilder();
+
+  return (
+    <li className="group list-none space-y-0.5">
+      <div className="flex items-center gap-1">
+        <CommitInput
+          value={version.name}
+          onCommit={(name) =>
+            name.trim() && versionDisp.renameVersion(version.id, name.trim())
+          }
+        />
+        <button
+          onClick={() => restoreVersion(version.id)}
+          className={cn(iconButtonClassName, "shrink-0")}
+          title="Restore this version"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => versionDisp.deleteVersion(version.id)}
+          className={cn(
+            iconButtonClassName,
+            "shrink-0 opacity-0 group-hover:opacity-100"
+          )}
+          title="Delete version"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="px-2 text-xs text-[var(--text-secondary)]">
+        {formatDate(version.createdAt)}
+      </div>
+    </li>
+  );
+};
+
+const ChangeRow = ({
+  change,
+  showPage,
+  onClick,
+}: {
+  change: VersionChange;
+  showPage: boolean;
+  onClick: () => void;
+}) => (
+  <li className="list-none">
+    <div
+      onClick={onClick}
+      className={cn(
+        "px-2 py-1 rounded-[var(--radius-md)] transition-colors duration-150",
+        change.type !== "removed" && "cursor-pointer hover:bg-[var(--bg-hover)]"
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span
+          className={cn(
+            "w-2 h-2 shrink-0 rounded-full",
+            CHANGE_DOT_CLASSES[change.type]
+          )}
+        />
+        <span className="text-xs font-medium truncate flex-1 text-[var(--text-primary)]">
+          {change.name}
+        </span>
+        <span className="text-xs text-[var(--text-secondary)]">
+          {CHANGE_LABELS[change.type]}
+        </span>
+      </div>
+      {(showPage || change.styleKeys.length > 0) && (
+        <div className="pl-4 text-xs text-[var(--text-secondary)] truncate">
+          {[showPage && change.pageName, change.styleKeys.join(", ")]
+            .filter(Boolean)
+            .join(" · ")}
+        </div>
+      )}
+    </div>
+  </li>
+);
+
+const VersionsPanel = () => {
+  const {
+    versionState,
+    saveVersion,
+    pageState,
+    nodeState,
+    switchPage,
+    dragDisp,
+    setVersionHighlights,
+    setIsEditingText,
+  } = useBuilder();
+  const [name, setName] = useState("");
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState(CURRENT);
+
+  const getPages = useCallback(
+    (versionId: string) =>
+      versionId === CURRENT
+        ? getPagesWithActiveNodes(pageState, nodeState.nodes).map((page) => ({
+            ...page,
+            nodes: cleanNodes(page.nodes),
+          }))
+        : versionState.versions.find((v) => v.id === versionId)?.pages,
+    [pageState, nodeState.nodes, versionState.versions]
+  );
+
+  const changes = useMemo(() => {
+    const before = fromId && getPages(fromId);
+    const after = toId && getPages(toId);
+    if (!before || !after || fromId === toId) return null;
+    return diffVersions(before, after);
+  }, [fromId, toId, getPages]);
+
+  useEffect(() => {
+    setVersionHighlights(
+      changes &&
+        getVersionHighlights(changes, pageState.activePageId, nodeState.nodes)
+    );
+  }, [changes, pageState.activePageId, nodeState.nodes, setVersionHighlights]);
+
+  useEffect(() => () => setVersionHighlights(null), [setVersionHighlights]);
+
+  const save = () => {
+    saveVersion(name.trim() || `Version ${versionState.versions.length + 1}`);
+    setName("");
+  };
+
+  const showChange = (change: VersionChange) => {
+    if (change.type === "removed") return;
+    switchPage(change.pageId);
+    dragDisp.setSelectedIds(change.nodeIds);
+  };
+
+  const versionOptions = versionState.versions.map((version) => (
+    <option key={version.id} value={version.id}>
+      {version.name}
+    </option>
+  ));
+
+  return (
+    <div className="h-full bg-[var(--bg-surface)] scrollbar-hide pb-10 overflow-auto">
+      <div className="p-2.5 mt-1 mb-6 space-y-4">
+        <div className="space-y-2">
+          <ToolbarLabel>
+            <span className="ml-2">Versions</span>
+          </ToolbarLabel>
+          <div className="flex items-center gap-1">
+            <input
+              value={name}
+              placeholder="Name this version"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && save()}
+              onFocus={() => setIsEditingText(true)}
+              onBlur={() => setIsEditingText(false)}
+              className={inputClassName}
+            />
+            <button
+              onClick={save}
+              className={cn(iconButtonClassName, "shrink-0")}
+              title="Save version"
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {versionState.versions.length === 0 ? (
+            <div className="px-2 text-xs text-[var(--text-secondary)]">
+              Save a version before big changes, like a client review. Any
+              version can be compared with another or restored later.
+            </div>
+          ) : (
+            <ul className="space-y-1.5 list-none">
+              {versionState.versions.map((version) => (
+                <VersionRow key={version.id} version={version} />
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {versionState.versions.length > 0 && (
+          <div className="space-y-2">
+            <ToolbarLabel>
+              <span className="ml-2">Compare</span>
+            </ToolbarLabel>
+            <div className="grid grid-cols-2 gap-1.5">
+              <div className="space-y-1">
+                <Label>From</Label>
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className={cn(inputClassName, "px-1")}
+                >
+                  <option value="">Choose…</option>
+                  {versionOptions}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className={cn(inputClassName, "px-1")}
+                >
+                  <option value={CURRENT}>Current</option>
+                  {versionOptions}
+                </select>
+              </div>
+            </div>
+
+            {changes && changes.length === 0 && <Label>No differences</Label>}
+            {changes && changes.length > 0 && (
+              <ul className="space-y-0.5 list-none">
+                {changes.map((change) => (
+                  <ChangeRow
+                    key={`${change.pageId}-${change.key}-${change.type}`}
+                    change={change}
+                    showPage={pageState.pages.length > 1}
+                    onClick={() => showChange(change)}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionsPanel;
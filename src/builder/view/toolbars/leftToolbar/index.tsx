@@ -6,6 +6,11 @@ import Layers from "./Layers";
 import PagesPanel from "./PagesPanel";
 import LibraryPanel from "./LibraryPanel";
 import UIKitsPanel from "./UIKitsPanel";
+import TokensPanel from "./TokensPanel";
+import HistoryPanel from "./HistoryPanel";
+import CommentsPanel from "./CommentsPanel";
+import VersionsPanel from "./VersionsPanel";
+import FontsPanel from "./FontsPanel";
 
 const InterfaceToolbar = () => {
   const { interfaceState } = useBuilder();
@@ -20,6 +25,16 @@ const InterfaceToolbar = () => {
         <PagesPanel />
       ) : interfaceState.isLibraryOpen ? (
         <LibraryPanel />
+      ) : interfaceState.isTokensOpen ? (
+        <TokensPanel />
+      ) : interfaceState.isHistoryOpen ? (
+        <HistoryPanel />
+      ) : interfaceState.isCommentsOpen ? (
+        <CommentsPanel />
+      ) : interfaceState.isVersionsOpen ? (
+        <VersionsPanel />
+      ) : interfaceState.isFontsOpen ? (
+        <FontsPanel />
       ) : interfaceState.isUIKitsOpen ? (
         <UIKitsPanel />
       ) : (
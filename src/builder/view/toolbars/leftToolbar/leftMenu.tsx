@@ -5,9 +5,14 @@ import {
   File,
   Component,
   Globe,
+  History,
   Palette,
   Library,
   LibraryBig,
+  MessageCircle,
+  SwatchBook,
+  Milestone,
+  Type,
 } from "lucide-react";
 import Button from "@/components/ui/button";
 import { useBuilder } from "@/builder/context/builderState";
@@ -25,6 +30,11 @@ const LeftMenu = () => {
       if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
       if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
       if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
       interfaceDisp.toggleInsert();
     }
   };
@@ -38,6 +48,11 @@ const LeftMenu = () => {
       if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
       if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
       if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
       interfaceDisp.togglePages();
     }
   };
@@ -51,10 +66,100 @@ const LeftMenu = () => {
       if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
       if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
       if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
       interfaceDisp.toggleCms();
     }
   };
 
+  const handleTokensClick = () => {
+    if (interfaceState.isTokensOpen) {
+      interfaceDisp.toggleTokens();
+    } else {
+      if (interfaceState.isInsertOpen) interfaceDisp.toggleInsert();
+      if (interfaceState.isCmsOpen) interfaceDisp.toggleCms();
+      if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
+      if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
+      if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
+      interfaceDisp.toggleTokens();
+    }
+  };
+
+  const handleHistoryClick = () => {
+    if (interfaceState.isHistoryOpen) {
+      interfaceDisp.toggleHistory();
+    } else {
+      if (interfaceState.isInsertOpen) interfaceDisp.toggleInsert();
+      if (interfaceState.isCmsOpen) interfaceDisp.toggleCms();
+      if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
+      if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
+      if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
+      interfaceDisp.toggleHistory();
+    }
+  };
+
+  const handleCommentsClick = () => {
+    if (interfaceState.isCommentsOpen) {
+      interfaceDisp.toggleComments();
+    } else {
+      if (interfaceState.isInsertOpen) interfaceDisp.toggleInsert();
+      if (interfaceState.isCmsOpen) interfaceDisp.toggleCms();
+      if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
+      if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
+      if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
+      interfaceDisp.toggleComments();
+    }
+  };
+
+  const handleVersionsClick = () => {
+    if (interfaceState.isVersionsOpen) {
+      interfaceDisp.toggleVersions();
+    } else {
+      if (interfaceState.isInsertOpen) interfaceDisp.toggleInsert();
+      if (interfaceState.isCmsOpen) interfaceDisp.toggleCms();
+      if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
+      if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
+      if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
+      interfaceDisp.toggleVersions();
+    }
+  };
+
+  const handleFontsClick = () => {
+    if (interfaceState.isFontsOpen) {
+      interfaceDisp.toggleFonts();
+    } else {
+      if (interfaceState.isInsertOpen) interfaceDisp.toggleInsert();
+      if (interfaceState.isCmsOpen) interfaceDisp.toggleCms();
+      if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
+      if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
+      if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      interfaceDisp.toggleFonts();
+    }
+  };
+
   const handleLibraryClick = () => {
     if (interfaceState.isLibraryOpen) {
       interfaceDisp.toggleLibrary();
@@ -64,6 +169,11 @@ const LeftMenu = () => {
       if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
       if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
       if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
       interfaceDisp.toggleLibrary();
     }
   };
@@ -77,6 +187,11 @@ const LeftMenu = () => {
       if (interfaceState.isPagesOpen) interfaceDisp.togglePages();
       if (interfaceState.isPreviewOpen) interfaceDisp.togglePreview();
       if (interfaceState.isLibraryOpen) interfaceDisp.toggleLibrary();
+      if (interfaceState.isTokensOpen) interfaceDisp.toggleTokens();
+      if (interfaceState.isHistoryOpen) interfaceDisp.toggleHistory();
+      if (interfaceState.isCommentsOpen) interfaceDisp.toggleComments();
+      if (interfaceState.isVersionsOpen) interfaceDisp.toggleVersions();
+      if (interfaceState.isFontsOpen) interfaceDisp.toggleFonts();
       interfaceDisp.toggleUIKits();
     }
   };
@@ -124,6 +239,34 @@ const LeftMenu = () => {
           data-tooltip-content="UI Kits"
           data-tooltip-place="right"
         />
+        <Button
+          leftIcon={<SwatchBook size={20} />}
+          size="md"
+          variant="ghost"
+          className={
+            interfaceState.isTokensOpen
+              ? "bg-[var(--button-secondary-hover)] hover:bg-[var(--button-secondary-hover)]"
+              : ""
+          }
+          onClick={handleTokensClick}
+          data-tooltip-id="interface-tooltip"
+          data-tooltip-content="Tokens"
+          data-tooltip-place="right"
+        />
+        <Button
+          leftIcon={<Type size={20} />}
+          size="md"
+          variant="ghost"
+          className={
+            interfaceState.isFontsOpen
+              ? "bg-[var(--button-secondary-hover)] hover:bg-[var(--button-secondary-hover)]"
+              : ""
+          }
+          onClick={handleFontsClick}
+          data-tooltip-id="interface-tooltip"
+          data-tooltip-content="Fonts"
+          data-tooltip-place="right"
+        />
         <Button
           leftIcon={<File size={20} />}
           size="md"
@@ -151,6 +294,48 @@ const LeftMenu = () => {
           data-tooltip-content="CMS"
           data-tooltip-place="right"
         />
+        <Button
+          leftIcon={<History size={20} />}
+          size="md"
+          variant="ghost"
+          className={
+            interfaceState.isHistoryOpen
+              ? "bg-[var(--button-secondary-hover)] hover:bg-[var(--button-secondary-hover)]"
+              : ""
+          }
+          onClick={handleHistoryClick}
+          data-tooltip-id="interface-tooltip"
+          data-tooltip-content="History"
+          data-tooltip-place="right"
+        />
+        <Button
+          leftIcon={<Milestone size={20} />}
+          size="md"
+          variant="ghost"
+          className={
+            interfaceState.isVersionsOpen
+              ? "bg-[var(--button-secondary-hover)] hover:bg-[var(--button-secondary-hover)]"
+              : ""
+          }
+          onClick={handleVersionsClick}
+          data-tooltip-id="interface-tooltip"
+          data-tooltip-content="Versions"
+          data-tooltip-place="right"
+        />
+        <Button
+          leftIcon={<MessageCircle size={20} />}
+          size="md"
+          variant="ghost"
+          className={
+            interfaceState.isCommentsOpen
+              ? "bg-[var(--button-secondary-hover)] hover:bg-[var(--button-secondary-hover)]"
+              : ""
+          }
+          onClick={handleCommentsClick}
+          data-tooltip-id="interface-tooltip"
+          data-tooltip-content="Comments"
+          data-tooltip-place="right"
+        />
         <Button
           leftIcon={<Globe size={20} />}
           size="md"
@@ -12,6 +12,14 @@ import { FillTool } from "@/builder/tools/FillTool";
 import Button from "@/components/ui/button";
 import StylesTool from "@/builder/tools/StylesTool";
 import InteractionsTool from "@/builder/tools/InteractionsTool";
+import CmsTool from "@/builder/tools/CmsTool";
+import ComponentTool from "@/builder/tools/ComponentTool";
+import AlignTool from "@/builder/tools/AlignTool";
+import VectorTool from "@/builder/tools/VectorTool";
+import ShapeTool from "@/builder/tools/ShapeTool";
+import StatesTool from "@/builder/tools/StatesTool";
+import LinkTool from "@/builder/tools/LinkTool";
+import { isShapeType } from "@/builder/vector/shapeSvg";
 
 const getToolTypes = (elements: Node[]) => {
   if (elements.length === 0) return {};
@@ -19,7 +27,9 @@ const getToolTypes = (elements: Node[]) => {
   return {
     hasDimensionTools: elements.every((el) => el.type !== "root"),
     hasPositionTools: elements.every((el) => el.type !== "root"),
-    hasBackgroundTools: elements.every((el) => !["text"].includes(el.type)),
+    hasBackgroundTools: elements.every(
+      (el) => !["text", "spline"].includes(el.type) && !isShapeType(el.type)
+    ),
     hasBorderTools: elements.every((el) => !["text"].includes(el.type)),
     hasLayoutTools: elements.every((el) => ["frame", "root"].includes(el.type)),
     hasSpacingTools: elements.every((el) => el.type !== "text"),
@@ -30,11 +40,20 @@ const getToolTypes = (elements: Node[]) => {
 };
 
 const ElementToolbar = () => {
-  const { dragState, nodeState, setNodeStyle } = useBuilder();
+  const { dragState, dragDisp, nodeState, setNodeStyle } = useBuilder();
   const selectedElements = nodeState.nodes.filter((node) =>
     dragState.selectedIds.includes(node.id)
   );
 
+  // The state switcher goes away with the selection, so the canvas returns
+  // to the normal state
+  const hasSelection = dragState.selectedIds.length > 0;
+  useEffect(() => {
+    if (!hasSelection && dragState.dynamicState !== "normal") {
+      dragDisp.setDynamicState("normal");
+    }
+  }, [hasSelection, dragState.dynamicState, dragDisp]);
+
   // Check if the primary selected element is hidden
   const isPrimaryElementHidden = () => {
     if (dragState.selectedIds.length === 0) return false;
@@ -79,6 +98,12 @@ const ElementToolbar = () => {
 
   return (
     <div className="w-64 fixed right-toolbar scrollbar-hide pt-3 border-l pb-[80px] border-[var(--border-light)] right-0 z-20 h-screen overflow-auto bg-[var(--bg-toolbar)]">
+      <AlignTool />
+
+      <StatesTool />
+
+      <LinkTool />
+
       {dragState.dynamicModeNodeId && (
         <>
           <InteractionsTool />
@@ -107,6 +132,10 @@ const ElementToolbar = () => {
         </>
       )}
 
+      <ShapeTool />
+
+      <VectorTool />
+
       {toolTypes.hasBackgroundTools && (
         <>
           <FillTool />
@@ -126,6 +155,10 @@ const ElementToolbar = () => {
         <ToolbarDivider />
       </>
 
+      <ComponentTool />
+
+      <CmsTool />
+
       {/* {toolTypes.hasBorderTools && (
         <>
           <BorderTool />
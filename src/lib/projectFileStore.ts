@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  ProjectDocument,
+  ProjectSummary,
+} from "@/builder/persistence/projectDocument";
+
+// Server-side storage used by the /api/projects route handlers. Each project
+// is a single JSON file under PROJECT_STORE_DIR (defaults to ./.data/projects).
+const STORE_DIR =
+  process.env.PROJECT_STORE_DIR ||
+  path.join(process.cwd(), ".data", "projects");
+
+const fileFor = (projectId: string) => {
+  // Project ids end up in a file path, so only allow a safe character set
+  if (!/^[A-Za-z0-9_-]+$/.test(projectId)) {
+    throw new Error(`Invalid project id: ${projectId}`);
+  }
+  return path.join(STORE_DIR, `${projectId}.json`);
+};
+
+export const readProject = async (
+  projectId: string
+): Promise<ProjectDocument | null> => {
+  try {
+    const raw = await fs.readFile(fileFor(projectId), "utf8");
+    return JSON.parse(raw);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+export const writeProject = async (doc: ProjectDocument) => {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const file = fileFor(doc.id);
+  // Write to a temp file first so a crash never leaves a half-written project
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(doc), "utf8");
+  await fs.rename(tmp, file);
+};
+
+export const deleteProject = async (projectId: string) => {
+  try {
+    await fs.unlink(fileFor(projectId));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(STORE_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const summaries = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map(async (file) => {
+        const doc = await readProject(path.basename(file, ".json"));
+        return doc
+          ? { id: doc.id, name: doc.name, updatedAt: doc.updatedAt }
+          : null;
+      })
+  );
+
+  return summaries
+    .filter((summary): summary is ProjectSummary => summary !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};